@@ -0,0 +1,241 @@
+-- ============================================
+-- ACCEPTANCE CHECKLIST
+-- Programs can ask accepted applicants for more before they claim their
+-- spot (signed waivers, medical form, T-shirt size, housing choice) with a
+-- form in metadata, using the application builder's field types:
+--   "acceptance_form": {
+--     "fields": [{ "key": "tshirt", "label": "T-shirt size", "type": "select",
+--                  "required": true, "options": ["S", "M", "L"] }, ...]
+--   }
+-- When the form has fields, a claim needs a response: the applicant claims
+-- with claim_spot_v1, which saves the answers and claims in one go. File
+-- answers are uploaded to the application-files bucket (under
+-- applications/<application id>/acceptance_<key>/) and stored like
+-- application file answers.
+--
+-- Applicants who claimed before the form was added can still fill it in
+-- with submit_acceptance_response_v1, and can update their answers later.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.acceptance_responses (
+  application_id uuid PRIMARY KEY REFERENCES public.applications(id) ON DELETE CASCADE,
+  program_id uuid NOT NULL REFERENCES public.programs(id) ON DELETE CASCADE,
+  answers jsonb DEFAULT '{}'::jsonb NOT NULL,
+  submitted_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_acceptance_responses_program_id
+ON public.acceptance_responses(program_id);
+
+COMMENT ON TABLE public.acceptance_responses IS 'Applicant answers to the post-acceptance form (metadata.acceptance_form)';
+
+-- Enable RLS
+ALTER TABLE public.acceptance_responses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Applicants can read their acceptance responses" ON public.acceptance_responses;
+DROP POLICY IF EXISTS "Org admins can read acceptance responses" ON public.acceptance_responses;
+
+-- Rows are only written by the functions below
+CREATE POLICY "Applicants can read their acceptance responses"
+ON public.acceptance_responses FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.applications a
+    WHERE a.id = application_id AND a.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Org admins can read acceptance responses"
+ON public.acceptance_responses FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.programs p
+    WHERE p.id = program_id
+      AND is_org_admin_safe(auth.uid(), p.organization_id)
+  )
+);
+
+-- ============================================
+-- Applicant: save acceptance form answers for an offer
+-- ============================================
+CREATE OR REPLACE FUNCTION public.submit_acceptance_response_v1(
+  p_publication_id uuid,
+  p_answers jsonb
+)
+RETURNS public.acceptance_responses
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pub public.application_publications;
+  _app public.applications;
+  _program public.programs;
+  _missing text;
+  _response public.acceptance_responses;
+BEGIN
+  SELECT * INTO _pub FROM public.application_publications WHERE id = p_publication_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Publication not found';
+  END IF;
+
+  SELECT * INTO _app FROM public.applications WHERE id = _pub.application_id;
+  IF _app.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not authorized to respond to this offer';
+  END IF;
+
+  SELECT * INTO _program FROM public.programs WHERE id = _app.program_id;
+
+  IF LOWER(TRIM(COALESCE(_pub.payload->>'decision', ''))) !=
+     LOWER(TRIM(COALESCE(_program.metadata->'spotClaiming'->>'claimableDecision', ''))) THEN
+    RAISE EXCEPTION 'Your decision does not match the claimable decision';
+  END IF;
+  IF _pub.spot_declined_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Offer has already been declined';
+  END IF;
+
+  -- Required questions (the form is small and has no conditional logic)
+  SELECT string_agg(f->>'label', ', ') INTO _missing
+  FROM jsonb_array_elements(COALESCE(_program.metadata->'acceptance_form'->'fields', '[]'::jsonb)) f
+  WHERE COALESCE((f->>'required')::boolean, false)
+    AND COALESCE(f->>'type', '') <> 'section'
+    AND (
+      p_answers->(f->>'key') IS NULL
+      OR p_answers->(f->>'key') IN ('null'::jsonb, '""'::jsonb, 'false'::jsonb, '[]'::jsonb)
+    );
+
+  IF _missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Please complete: %', _missing;
+  END IF;
+
+  INSERT INTO public.acceptance_responses(application_id, program_id, answers)
+  VALUES (_app.id, _app.program_id, COALESCE(p_answers, '{}'::jsonb))
+  ON CONFLICT (application_id) DO UPDATE
+    SET answers = EXCLUDED.answers,
+        updated_at = now()
+  RETURNING * INTO _response;
+
+  RETURN _response;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_acceptance_response_v1(uuid, jsonb) TO authenticated;
+
+-- ============================================
+-- Applicant: answer the acceptance form and claim the spot together.
+-- Nothing is saved if the claim fails (deadline passed, no spots, ...).
+-- ============================================
+CREATE OR REPLACE FUNCTION public.claim_spot_v1(
+  p_publication_id uuid,
+  p_answers jsonb DEFAULT NULL
+)
+RETURNS public.application_publications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_answers IS NOT NULL THEN
+    PERFORM public.submit_acceptance_response_v1(p_publication_id, p_answers);
+  END IF;
+
+  RETURN public.claim_or_decline_spot(p_publication_id, 'claim');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_spot_v1(uuid, jsonb) TO authenticated;
+
+-- Claims (through any path) need a response once the program has a form
+CREATE OR REPLACE FUNCTION public.app_require_acceptance_response()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _fields jsonb;
+BEGIN
+  SELECT p.metadata->'acceptance_form'->'fields' INTO _fields
+  FROM public.applications a
+  JOIN public.programs p ON p.id = a.program_id
+  WHERE a.id = NEW.application_id;
+
+  IF jsonb_typeof(_fields) = 'array' AND jsonb_array_length(_fields) > 0
+     AND NOT EXISTS (
+       SELECT 1 FROM public.acceptance_responses r
+       WHERE r.application_id = NEW.application_id
+     ) THEN
+    RAISE EXCEPTION 'Complete the acceptance checklist to claim your spot';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_require_acceptance_response ON public.application_publications;
+CREATE TRIGGER trg_require_acceptance_response
+  BEFORE UPDATE OF spot_claimed_at ON public.application_publications
+  FOR EACH ROW
+  WHEN (OLD.spot_claimed_at IS NULL AND NEW.spot_claimed_at IS NOT NULL)
+  EXECUTE FUNCTION public.app_require_acceptance_response();
+
+-- ============================================
+-- Org admin: acceptance checklist completion for everyone with an offer
+-- (current publication has the claimable decision) or a response
+-- ============================================
+CREATE OR REPLACE FUNCTION public.org_acceptance_checklist_v1(
+  p_program_id uuid
+)
+RETURNS TABLE (
+  application_id uuid,
+  applicant_name text,
+  claimed_at timestamptz,
+  declined_at timestamptz,
+  expired_at timestamptz,
+  answers jsonb,
+  submitted_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid;
+  _claimable text;
+BEGIN
+  SELECT organization_id, metadata->'spotClaiming'->>'claimableDecision'
+  INTO _org_id, _claimable
+  FROM public.programs WHERE id = p_program_id;
+  IF _org_id IS NULL OR NOT is_org_admin_safe(auth.uid(), _org_id) THEN
+    RAISE EXCEPTION 'Only org admins can view acceptance checklists';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    COALESCE(prof.full_name, 'Unknown'),
+    ap.spot_claimed_at,
+    ap.spot_declined_at,
+    ap.spot_expired_at,
+    r.answers,
+    r.submitted_at,
+    r.updated_at
+  FROM public.applications a
+  LEFT JOIN public.application_publications ap ON ap.id = a.results_current_publication_id
+  LEFT JOIN public.acceptance_responses r ON r.application_id = a.id
+  LEFT JOIN public.profiles prof ON prof.id = a.user_id
+  WHERE a.program_id = p_program_id
+    AND (
+      r.application_id IS NOT NULL
+      OR lower(trim(COALESCE(ap.payload->>'decision', ''))) = lower(trim(COALESCE(_claimable, '')))
+    )
+  ORDER BY COALESCE(prof.full_name, 'Unknown');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.org_acceptance_checklist_v1(uuid) TO authenticated;
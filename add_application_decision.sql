@@ -0,0 +1,53 @@
+-- ============================================
+-- SET DECISION FROM THE RANKING VIEW
+-- Lets org admins set an application's decision straight from the
+-- aggregated ranking in the inbox, without opening the review and
+-- without overwriting any reviewer's score or comments.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.org_set_application_decision_v1(
+  p_application_id uuid,
+  p_decision text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid;
+  _updated integer;
+BEGIN
+  SELECT p.organization_id INTO _org_id
+  FROM public.applications a
+  JOIN public.programs p ON p.id = a.program_id
+  WHERE a.id = p_application_id;
+
+  IF _org_id IS NULL OR NOT is_org_admin_safe(auth.uid(), _org_id) THEN
+    RAISE EXCEPTION 'Only org admins can set decisions';
+  END IF;
+
+  -- Decision is kept in both the column and ratings (see app_upsert_review_v1).
+  -- Bumping submitted_at marks an already published result as stale so it
+  -- shows up for republishing in get_publish_queue.
+  UPDATE public.application_reviews SET
+    decision = p_decision,
+    ratings = CASE
+      WHEN p_decision IS NULL THEN COALESCE(ratings, '{}'::jsonb) - 'decision'
+      ELSE COALESCE(ratings, '{}'::jsonb) || jsonb_build_object('decision', p_decision)
+    END,
+    submitted_at = now(),
+    updated_at = now()
+  WHERE application_id = p_application_id
+    AND status = 'submitted';
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+
+  IF _updated = 0 THEN
+    RAISE EXCEPTION 'This application has no finalized review yet';
+  END IF;
+
+  RETURN _updated;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.org_set_application_decision_v1(uuid, text) TO authenticated;
@@ -0,0 +1,238 @@
+-- ============================================
+-- APPLICATION TAGS AND SAVED INBOX VIEWS
+-- Org teams label applications with colored tags ("callback",
+-- "needs-visa", "late-docs", ...) and save named filter combinations for
+-- the applications inbox. Tags and views belong to the organization, so
+-- everyone on the team (org admins and active reviewers) shares them.
+-- Tagging is narrower: reviewers only see and change the tags on
+-- applications in programs they review. Nothing here is shown to applicants.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.application_tags (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  -- Palette key from src/lib/applicationTags.ts
+  color text NOT NULL DEFAULT 'gray',
+  created_by uuid NOT NULL DEFAULT auth.uid(),
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_application_tags_org_name
+ON public.application_tags(organization_id, lower(name));
+
+CREATE TABLE IF NOT EXISTS public.application_tag_links (
+  application_id uuid NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES public.application_tags(id) ON DELETE CASCADE,
+  tagged_by uuid NOT NULL DEFAULT auth.uid(),
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  PRIMARY KEY (application_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_tag_links_tag_id
+ON public.application_tag_links(tag_id);
+
+CREATE TABLE IF NOT EXISTS public.inbox_saved_views (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  -- InboxFilters from src/utils/inboxFilters.ts
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by uuid NOT NULL DEFAULT auth.uid(),
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_saved_views_organization_id
+ON public.inbox_saved_views(organization_id);
+
+COMMENT ON TABLE public.application_tags IS 'Org-defined colored labels for applications';
+COMMENT ON TABLE public.application_tag_links IS 'Tags attached to applications';
+COMMENT ON TABLE public.inbox_saved_views IS 'Named applications inbox filter combinations shared across an org team';
+
+-- ============================================
+-- Who is on an organization's team
+-- ============================================
+CREATE OR REPLACE FUNCTION public.is_org_team_member(
+  p_user_id uuid,
+  p_org_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_org_admin_safe(p_user_id, p_org_id)
+    OR EXISTS (
+      SELECT 1 FROM public.reviewers r
+      WHERE r.user_id = p_user_id
+        AND r.status = 'active'
+        AND (
+          (r.scope_type = 'org' AND r.scope_id = p_org_id)
+          OR (
+            r.scope_type = 'program'
+            AND r.scope_id IN (
+              SELECT id FROM public.programs WHERE organization_id = p_org_id
+            )
+          )
+        )
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_org_team_member(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.is_org_team_member(uuid, uuid) TO authenticated;
+
+-- Org admins, and active reviewers of the application's program (or org)
+CREATE OR REPLACE FUNCTION public.can_tag_application(
+  p_user_id uuid,
+  p_application_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.applications a
+    JOIN public.programs p ON p.id = a.program_id
+    WHERE a.id = p_application_id
+      AND (
+        is_org_admin_safe(p_user_id, p.organization_id)
+        OR EXISTS (
+          SELECT 1 FROM public.reviewers r
+          WHERE r.user_id = p_user_id
+            AND r.status = 'active'
+            AND (
+              (r.scope_type = 'program' AND r.scope_id = p.id)
+              OR (r.scope_type = 'org' AND r.scope_id = p.organization_id)
+            )
+        )
+      )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_tag_application(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.can_tag_application(uuid, uuid) TO authenticated;
+
+-- Enable RLS
+ALTER TABLE public.application_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.application_tag_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inbox_saved_views ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Team can read tags" ON public.application_tags;
+DROP POLICY IF EXISTS "Team can create tags" ON public.application_tags;
+DROP POLICY IF EXISTS "Org admins can edit tags" ON public.application_tags;
+DROP POLICY IF EXISTS "Org admins can delete tags" ON public.application_tags;
+DROP POLICY IF EXISTS "Team can read tag links" ON public.application_tag_links;
+DROP POLICY IF EXISTS "Team can tag applications" ON public.application_tag_links;
+DROP POLICY IF EXISTS "Team can untag applications" ON public.application_tag_links;
+DROP POLICY IF EXISTS "Team can read views" ON public.inbox_saved_views;
+DROP POLICY IF EXISTS "Team can save views" ON public.inbox_saved_views;
+DROP POLICY IF EXISTS "Owners and org admins can edit views" ON public.inbox_saved_views;
+DROP POLICY IF EXISTS "Owners and org admins can delete views" ON public.inbox_saved_views;
+
+CREATE POLICY "Team can read tags"
+ON public.application_tags FOR SELECT
+TO authenticated
+USING (public.is_org_team_member(auth.uid(), organization_id));
+
+CREATE POLICY "Team can create tags"
+ON public.application_tags FOR INSERT
+TO authenticated
+WITH CHECK (
+  created_by = auth.uid()
+  AND public.is_org_team_member(auth.uid(), organization_id)
+);
+
+-- Renaming, recoloring and deleting a tag affects everyone's labels
+CREATE POLICY "Org admins can edit tags"
+ON public.application_tags FOR UPDATE
+TO authenticated
+USING (is_org_admin_safe(auth.uid(), organization_id))
+WITH CHECK (is_org_admin_safe(auth.uid(), organization_id));
+
+CREATE POLICY "Org admins can delete tags"
+ON public.application_tags FOR DELETE
+TO authenticated
+USING (is_org_admin_safe(auth.uid(), organization_id));
+
+-- A tag can only be attached to applications of its own organization
+CREATE POLICY "Team can read tag links"
+ON public.application_tag_links FOR SELECT
+TO authenticated
+USING (public.can_tag_application(auth.uid(), application_id));
+
+CREATE POLICY "Team can tag applications"
+ON public.application_tag_links FOR INSERT
+TO authenticated
+WITH CHECK (
+  tagged_by = auth.uid()
+  AND EXISTS (
+    SELECT 1
+    FROM public.application_tags t
+    JOIN public.applications a ON a.id = application_tag_links.application_id
+    JOIN public.programs p ON p.id = a.program_id
+    WHERE t.id = tag_id
+      AND p.organization_id = t.organization_id
+  )
+  AND public.can_tag_application(auth.uid(), application_id)
+);
+
+CREATE POLICY "Team can untag applications"
+ON public.application_tag_links FOR DELETE
+TO authenticated
+USING (public.can_tag_application(auth.uid(), application_id));
+
+CREATE POLICY "Team can read views"
+ON public.inbox_saved_views FOR SELECT
+TO authenticated
+USING (public.is_org_team_member(auth.uid(), organization_id));
+
+CREATE POLICY "Team can save views"
+ON public.inbox_saved_views FOR INSERT
+TO authenticated
+WITH CHECK (
+  created_by = auth.uid()
+  AND public.is_org_team_member(auth.uid(), organization_id)
+);
+
+CREATE POLICY "Owners and org admins can edit views"
+ON public.inbox_saved_views FOR UPDATE
+TO authenticated
+USING (
+  created_by = auth.uid()
+  OR is_org_admin_safe(auth.uid(), organization_id)
+)
+WITH CHECK (public.is_org_team_member(auth.uid(), organization_id));
+
+CREATE POLICY "Owners and org admins can delete views"
+ON public.inbox_saved_views FOR DELETE
+TO authenticated
+USING (
+  created_by = auth.uid()
+  OR is_org_admin_safe(auth.uid(), organization_id)
+);
+
+-- Keep updated_at current when a view is overwritten
+CREATE OR REPLACE FUNCTION public.app_touch_inbox_saved_view()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_touch_inbox_saved_view ON public.inbox_saved_views;
+CREATE TRIGGER trg_touch_inbox_saved_view
+  BEFORE UPDATE ON public.inbox_saved_views
+  FOR EACH ROW EXECUTE FUNCTION public.app_touch_inbox_saved_view();
+
+-- ============================================
+-- ENABLE REALTIME (tag changes show up live in teammates' inboxes)
+-- ============================================
+ALTER PUBLICATION supabase_realtime ADD TABLE public.application_tag_links;
@@ -0,0 +1,437 @@
+-- ============================================
+-- BLIND REVIEW IDENTITY REVEALS
+-- Programs can turn on blind review (metadata.review_form.blind_review),
+-- which shows reviewers an anonymous code instead of the applicant's name
+-- and hides chosen questions and profile sections. Org admins can still
+-- reveal an applicant's identity; each reveal is recorded here.
+--
+-- Redaction happens here, not in the browser: review_get_v1 and
+-- reviews_list_v1 leave out the applicant's name, account id, hidden
+-- questions and hidden profile sections unless the caller is an org admin
+-- who has logged a reveal for that application.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.review_identity_reveals (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  program_id uuid NOT NULL REFERENCES public.programs(id) ON DELETE CASCADE,
+  application_id uuid NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  revealed_by uuid NOT NULL DEFAULT auth.uid(),
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_identity_reveals_application_id
+ON public.review_identity_reveals(application_id);
+
+CREATE INDEX IF NOT EXISTS idx_review_identity_reveals_program_id
+ON public.review_identity_reveals(program_id);
+
+COMMENT ON TABLE public.review_identity_reveals IS 'Audit log of org admins revealing applicant identity during blind review';
+
+-- Enable RLS
+ALTER TABLE public.review_identity_reveals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org admins can read identity reveals" ON public.review_identity_reveals;
+DROP POLICY IF EXISTS "Org admins can log identity reveals" ON public.review_identity_reveals;
+
+CREATE POLICY "Org admins can read identity reveals"
+ON public.review_identity_reveals FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.programs p
+    WHERE p.id = program_id
+      AND is_org_admin_safe(auth.uid(), p.organization_id)
+  )
+);
+
+-- Reveals are append-only and only written by reveal_applicant_identity_v1:
+-- no insert, update or delete policies
+
+-- ============================================
+-- Anonymous code standing in for the applicant's name. Derived from the
+-- application id so every reviewer sees the same code on every page.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.blind_review_code(p_application_id uuid)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 'Applicant ' || upper(substr(md5(p_application_id::text), 1, 6));
+$$;
+
+-- Is the applicant hidden from the current user? Blind review is on and the
+-- caller is not an org admin who has revealed this application.
+CREATE OR REPLACE FUNCTION public.blind_review_hides_identity(p_application_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((p.metadata->'review_form'->'blind_review'->>'enabled')::boolean, false)
+    AND NOT (
+      is_org_admin_safe(auth.uid(), p.organization_id)
+      AND EXISTS (
+        SELECT 1 FROM public.review_identity_reveals r
+        WHERE r.application_id = a.id AND r.revealed_by = auth.uid()
+      )
+    )
+  FROM public.applications a
+  JOIN public.programs p ON p.id = a.program_id
+  WHERE a.id = p_application_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.blind_review_hides_identity(uuid) FROM PUBLIC;
+
+-- Answers without the hidden questions, and a profile snapshot with only
+-- the sections blind review leaves visible
+CREATE OR REPLACE FUNCTION public.blind_review_redact_answers(
+  p_answers jsonb,
+  p_blind jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _hidden_sections jsonb := COALESCE(p_blind->'hidden_profile_sections', '[]'::jsonb);
+  _sections jsonb := jsonb_build_object(
+    'personal', jsonb_build_array(
+      'full_name', 'given_name', 'family_name', 'date_of_birth', 'phone_number',
+      'email', 'address', 'address_line1', 'address_line2', 'address_city',
+      'address_state', 'address_postal_code', 'address_country'
+    ),
+    'family', jsonb_build_array(
+      'parent_guardian_name', 'parent_guardian_email', 'parent_guardian_phone',
+      'emergency_contact_is_parent', 'emergency_contact_name',
+      'emergency_contact_email', 'emergency_contact_phone'
+    ),
+    'writing', jsonb_build_array('personal_statement'),
+    'experience', jsonb_build_array('resume_file', 'profile_files', 'files')
+  );
+  _profile jsonb := '{}'::jsonb;
+  _section text;
+  _key text;
+BEGIN
+  IF p_answers IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Keep known keys of visible sections only; anything else (account id,
+  -- snapshot metadata) is dropped
+  IF jsonb_typeof(p_answers->'profile') = 'object' THEN
+    FOR _section IN SELECT jsonb_object_keys(_sections) LOOP
+      CONTINUE WHEN _hidden_sections ? _section;
+      FOR _key IN SELECT jsonb_array_elements_text(_sections->_section) LOOP
+        IF p_answers->'profile' ? _key THEN
+          _profile := _profile || jsonb_build_object(_key, p_answers->'profile'->_key);
+        END IF;
+      END LOOP;
+    END LOOP;
+  END IF;
+
+  RETURN (p_answers - 'profile' - ARRAY(
+      SELECT jsonb_array_elements_text(COALESCE(p_blind->'hidden_fields', '[]'::jsonb))
+    ))
+    || CASE WHEN _profile = '{}'::jsonb THEN '{}'::jsonb
+            ELSE jsonb_build_object('profile', _profile) END;
+END;
+$$;
+
+-- ============================================
+-- Org admin: log a reveal, then return the applicant's identity and
+-- full answers
+-- ============================================
+CREATE OR REPLACE FUNCTION public.reveal_applicant_identity_v1(
+  p_application_id uuid
+)
+RETURNS TABLE (
+  applicant_name text,
+  applicant_answers jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _app public.applications;
+  _program public.programs;
+BEGIN
+  SELECT * INTO _app FROM public.applications WHERE id = p_application_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  SELECT * INTO _program FROM public.programs WHERE id = _app.program_id;
+  IF NOT is_org_admin_safe(auth.uid(), _program.organization_id) THEN
+    RAISE EXCEPTION 'Only org admins can reveal applicant identity';
+  END IF;
+
+  INSERT INTO public.review_identity_reveals(program_id, application_id, revealed_by)
+  VALUES (_program.id, _app.id, auth.uid());
+
+  RETURN QUERY
+  SELECT
+    COALESCE(
+      (SELECT prof.full_name FROM public.profiles prof WHERE prof.id = _app.user_id),
+      _app.answers->'profile'->>'full_name',
+      '—'
+    ),
+    _app.answers;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reveal_applicant_identity_v1(uuid) TO authenticated;
+
+-- ============================================
+-- Review loader with blind review redaction
+-- (same as fix_collaborative_reviews.sql plus identity_hidden and
+-- anonymous_code)
+-- ============================================
+DROP FUNCTION IF EXISTS public.review_get_v1(uuid);
+
+CREATE OR REPLACE FUNCTION public.review_get_v1(
+  p_application_id uuid
+)
+RETURNS TABLE (
+  application_id uuid,
+  program_id uuid,
+  applicant_answers jsonb,
+  application_schema jsonb,
+  review jsonb,
+  identity_hidden boolean,
+  anonymous_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_review jsonb;
+  v_hidden boolean;
+BEGIN
+  -- Get the most recent review for this application (collaborative - any reviewer)
+  SELECT jsonb_build_object(
+    'id', ar.id,
+    'application_id', ar.application_id,
+    'reviewer_id', ar.reviewer_id,
+    'reviewer_name', COALESCE(prof.full_name, 'Unknown'),
+    'score', ar.score,
+    'comments', ar.comments,
+    'ratings', ar.ratings,
+    'status', ar.status,
+    'submitted_at', ar.submitted_at,
+    'updated_at', ar.updated_at,
+    'created_at', ar.created_at,
+    'decision', ar.decision
+  ) INTO v_review
+  FROM public.application_reviews ar
+  LEFT JOIN public.profiles prof ON prof.id = ar.reviewer_id
+  WHERE ar.application_id = p_application_id
+  ORDER BY ar.updated_at DESC, ar.created_at DESC
+  LIMIT 1;
+
+  v_hidden := COALESCE(public.blind_review_hides_identity(p_application_id), false);
+
+  RETURN QUERY
+  SELECT
+    a.id AS application_id,
+    a.program_id,
+    CASE WHEN v_hidden
+      THEN public.blind_review_redact_answers(a.answers, p.metadata->'review_form'->'blind_review')
+      ELSE a.answers
+    END AS applicant_answers,
+    COALESCE(p.metadata->'application_schema', '{}'::jsonb) AS application_schema,
+    COALESCE(v_review, '{}'::jsonb) AS review,
+    v_hidden AS identity_hidden,
+    public.blind_review_code(a.id) AS anonymous_code
+  FROM public.applications a
+  JOIN public.programs p ON p.id = a.program_id
+  WHERE a.id = p_application_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_get_v1(uuid) TO authenticated;
+
+-- ============================================
+-- Review lists with blind review redaction
+-- (same as fix_reviews_list_v1_for_reviewers.sql, but blind programs get
+-- the anonymous code instead of the applicant's name and account id)
+-- ============================================
+DROP FUNCTION IF EXISTS public.reviews_list_v1(boolean, text, uuid, uuid, integer, integer);
+
+CREATE FUNCTION public.reviews_list_v1(
+  p_mine_only boolean DEFAULT false,
+  p_status text DEFAULT NULL,
+  p_program_id uuid DEFAULT NULL,
+  p_org_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 1000,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  review_id text,
+  application_id uuid,
+  status text,
+  score integer,
+  updated_at timestamptz,
+  submitted_at timestamptz,
+  comments text,
+  ratings jsonb,
+  reviewer_id uuid,
+  reviewer_name text,
+  applicant_id uuid,
+  applicant_name text,
+  program_id uuid,
+  program_name text,
+  org_id uuid,
+  org_name text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_is_admin boolean;
+  v_is_reviewer boolean;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  -- Check if user is an admin (org-level or program-level)
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.admins a
+    WHERE a.user_id = v_user_id
+      AND a.status = 'active'
+      AND (
+        (a.scope_type = 'org' AND (p_org_id IS NULL OR a.scope_id = p_org_id))
+        OR (a.scope_type = 'program' AND (p_program_id IS NULL OR a.scope_id = p_program_id))
+      )
+  ) INTO v_is_admin;
+
+  -- Check if user is a reviewer for the program
+  IF p_program_id IS NOT NULL THEN
+    SELECT EXISTS (
+      SELECT 1
+      FROM public.reviewers r
+      WHERE r.user_id = v_user_id
+        AND r.scope_type = 'program'
+        AND r.scope_id = p_program_id
+        AND r.status = 'active'
+    ) INTO v_is_reviewer;
+  ELSE
+    v_is_reviewer := EXISTS (
+      SELECT 1
+      FROM public.reviewers r
+      WHERE r.user_id = v_user_id
+        AND r.status = 'active'
+    );
+  END IF;
+
+  -- If not admin and not reviewer, deny access
+  IF NOT v_is_admin AND NOT v_is_reviewer THEN
+    RAISE EXCEPTION 'Not authorized to view reviews';
+  END IF;
+
+  RETURN QUERY
+  WITH assigned_applications AS (
+    -- For reviewers: Get ALL submitted applications for programs they're assigned to
+    -- If p_mine_only is true, only include applications where user has a review
+    SELECT DISTINCT a.id AS app_id
+    FROM public.applications a
+    WHERE a.status = 'submitted'
+      AND (
+        -- If user is admin, see all applications
+        v_is_admin
+        OR
+        -- If user is reviewer, see applications for programs they're assigned to
+        (v_is_reviewer AND EXISTS (
+          SELECT 1
+          FROM public.reviewers r
+          WHERE r.user_id = v_user_id
+            AND r.scope_type = 'program'
+            AND r.scope_id = a.program_id
+            AND r.status = 'active'
+        ))
+      )
+      AND (p_program_id IS NULL OR a.program_id = p_program_id)
+      AND (p_org_id IS NULL OR EXISTS (
+        SELECT 1 FROM public.programs p
+        WHERE p.id = a.program_id AND p.organization_id = p_org_id
+      ))
+      -- If p_mine_only is true, only include applications where user has a review
+      AND (
+        p_mine_only = false
+        OR EXISTS (
+          SELECT 1 FROM public.application_reviews ar
+          WHERE ar.application_id = a.id AND ar.reviewer_id = v_user_id
+        )
+      )
+  ),
+  existing_reviews AS (
+    -- Get existing reviews for these applications
+    -- If p_mine_only is true, only get current user's reviews
+    -- If false, get the most recent review (prioritizing current user's if exists)
+    SELECT DISTINCT ON (ar.application_id)
+      ar.id::text AS review_id,
+      ar.application_id,
+      ar.status,
+      ar.score,
+      ar.updated_at,
+      ar.submitted_at,
+      ar.comments,
+      ar.ratings,
+      ar.reviewer_id,
+      COALESCE(prof_reviewer.full_name, 'Unknown') AS reviewer_name
+    FROM public.application_reviews ar
+    JOIN assigned_applications aa ON aa.app_id = ar.application_id
+    LEFT JOIN public.profiles prof_reviewer ON prof_reviewer.id = ar.reviewer_id
+    WHERE (p_mine_only = false OR ar.reviewer_id = v_user_id)
+      AND (p_status IS NULL OR ar.status = p_status)
+    ORDER BY 
+      ar.application_id,
+      -- Prioritize current user's review if p_mine_only is false
+      CASE WHEN p_mine_only = false AND ar.reviewer_id = v_user_id THEN 0 ELSE 1 END,
+      ar.updated_at DESC
+  )
+  SELECT 
+    COALESCE(er.review_id, 'not_started_' || aa.app_id::text) AS review_id,
+    aa.app_id AS application_id,
+    COALESCE(er.status, 'not_started') AS status,
+    er.score,
+    COALESCE(er.updated_at, a.updated_at) AS updated_at,
+    -- Always use application's submitted_at (when the application was submitted)
+    COALESCE(a.submitted_at, a.updated_at) AS submitted_at,
+    er.comments,
+    er.ratings,
+    er.reviewer_id,
+    COALESCE(er.reviewer_name, '') AS reviewer_name,
+    CASE WHEN bl.hidden THEN NULL ELSE a.user_id END AS applicant_id,
+    CASE WHEN bl.hidden
+      THEN public.blind_review_code(a.id)
+      ELSE COALESCE(prof_applicant.full_name, '—')
+    END AS applicant_name,
+    a.program_id,
+    p.name AS program_name,
+    p.organization_id AS org_id,
+    o.name AS org_name
+  FROM assigned_applications aa
+  JOIN public.applications a ON a.id = aa.app_id
+  JOIN public.programs p ON p.id = a.program_id
+  JOIN public.organizations o ON o.id = p.organization_id
+  LEFT JOIN public.profiles prof_applicant ON prof_applicant.id = a.user_id
+  LEFT JOIN existing_reviews er ON er.application_id = aa.app_id
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(public.blind_review_hides_identity(a.id), false) AS hidden
+  ) bl
+  ORDER BY COALESCE(er.updated_at, a.submitted_at, a.updated_at) DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reviews_list_v1(boolean, text, uuid, uuid, integer, integer) TO authenticated;
+
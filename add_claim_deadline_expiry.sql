@@ -0,0 +1,509 @@
+-- ============================================
+-- CLAIM DEADLINE EXPIRY AND REMINDERS
+-- A job (pg_cron, every 15 minutes; see the end of this file):
+--   1. marks offers whose claim deadline passed unclaimed as expired
+--      (spot_expired_at),
+--   2. runs waitlist promotion for programs that have it turned on
+--      (add_waitlist_promotion.sql; this replaces its own cron job),
+--   3. reminds applicants with an open offer before the deadline.
+--
+-- Claims are what take a spot out of spots_count (claim_or_decline_spot),
+-- so an expired offer never held one: once it expires it stops counting
+-- as an open offer and the spot is free for other claims and the waitlist.
+--
+-- Reminder offsets are hours before the deadline, in the spot claiming
+-- settings:
+--   "spotClaiming": { ..., "reminderHours": [72, 24] }
+-- (default [72, 24]; [] turns reminders off). Each offset is sent once per
+-- offer, as a 'claim_deadline_reminder' notification that
+-- email-on-notification emails. Offsets that had already passed when the
+-- results were published are skipped; the results email covers those.
+-- ============================================
+
+ALTER TABLE public.application_publications
+ADD COLUMN IF NOT EXISTS spot_expired_at timestamp with time zone;
+
+COMMENT ON COLUMN public.application_publications.spot_expired_at IS 'When the claim deadline passed without a claim or decline';
+
+CREATE TABLE IF NOT EXISTS public.claim_deadline_reminders (
+  publication_id uuid NOT NULL REFERENCES public.application_publications(id) ON DELETE CASCADE,
+  hours_before integer NOT NULL,
+  sent_at timestamp with time zone DEFAULT now() NOT NULL,
+  PRIMARY KEY (publication_id, hours_before)
+);
+
+COMMENT ON TABLE public.claim_deadline_reminders IS 'Claim deadline reminders already sent, one row per offer and offset';
+
+-- Enable RLS
+ALTER TABLE public.claim_deadline_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org admins can read claim deadline reminders" ON public.claim_deadline_reminders;
+
+-- Rows are only written by the functions below
+CREATE POLICY "Org admins can read claim deadline reminders"
+ON public.claim_deadline_reminders FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.application_publications ap
+    WHERE ap.id = publication_id
+      AND is_org_admin_safe(auth.uid(), ap.org_id)
+  )
+);
+
+-- ============================================
+-- Open offers: claimable-decision publications of programs with claiming
+-- on, not yet claimed, declined or expired (internal)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.open_claim_offers()
+RETURNS TABLE (
+  publication_id uuid,
+  application_id uuid,
+  user_id uuid,
+  program_id uuid,
+  program_name text,
+  spot_claiming jsonb,
+  published_at timestamptz,
+  claim_deadline timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ap.id, a.id, a.user_id, p.id, p.name, p.metadata->'spotClaiming', ap.published_at, ap.claim_deadline
+  FROM public.application_publications ap
+  JOIN public.applications a ON a.id = ap.application_id
+  JOIN public.programs p ON p.id = a.program_id
+  WHERE COALESCE((p.metadata->'spotClaiming'->>'enabled')::boolean, false)
+    AND lower(trim(COALESCE(ap.payload->>'decision', ''))) =
+        lower(trim(COALESCE(p.metadata->'spotClaiming'->>'claimableDecision', '')))
+    AND ap.published_at IS NOT NULL
+    AND ap.spot_claimed_at IS NULL
+    AND ap.spot_declined_at IS NULL
+    AND ap.spot_expired_at IS NULL
+    -- Someone who claimed or declined on another publication is done
+    AND NOT EXISTS (
+      SELECT 1 FROM public.application_publications other
+      WHERE other.application_id = ap.application_id
+        AND (other.spot_claimed_at IS NOT NULL OR other.spot_declined_at IS NOT NULL)
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.open_claim_offers() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.open_claim_offers() FROM authenticated;
+
+-- Mark offers past their deadline as expired; returns how many (internal)
+CREATE OR REPLACE FUNCTION public.expire_unclaimed_offers()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expired integer;
+BEGIN
+  UPDATE public.application_publications ap
+  SET spot_expired_at = o.claim_deadline
+  FROM public.open_claim_offers() o
+  WHERE ap.id = o.publication_id
+    AND o.claim_deadline IS NOT NULL
+    AND o.claim_deadline < now();
+
+  GET DIAGNOSTICS _expired = ROW_COUNT;
+  RETURN _expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_unclaimed_offers() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.expire_unclaimed_offers() FROM authenticated;
+
+-- Send due claim deadline reminders; returns how many (internal)
+CREATE OR REPLACE FUNCTION public.send_claim_deadline_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer record;
+  _due integer[];
+  _sent integer := 0;
+BEGIN
+  FOR _offer IN
+    SELECT * FROM public.open_claim_offers() o
+    WHERE o.claim_deadline IS NOT NULL AND o.claim_deadline > now()
+  LOOP
+    SELECT array_agg(h) INTO _due
+    FROM (
+      SELECT DISTINCT jsonb_array_elements_text(
+        COALESCE(_offer.spot_claiming->'reminderHours', '[72, 24]'::jsonb)
+      )::integer AS h
+    ) offsets
+    WHERE h > 0
+      AND now() >= _offer.claim_deadline - make_interval(hours => h)
+      AND _offer.published_at <= _offer.claim_deadline - make_interval(hours => h)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.claim_deadline_reminders r
+        WHERE r.publication_id = _offer.publication_id AND r.hours_before = h
+      );
+
+    CONTINUE WHEN _due IS NULL;
+
+    -- If the job was down and several offsets are due, send one reminder
+    INSERT INTO public.notifications(user_id, type, title, message, data)
+    VALUES (
+      _offer.user_id,
+      'claim_deadline_reminder',
+      'Reminder: claim your spot',
+      format(
+        'Your offer for %s expires on %s. Claim or decline your spot before then.',
+        _offer.program_name,
+        to_char(_offer.claim_deadline AT TIME ZONE 'UTC', 'FMMonth FMDD, YYYY at HH24:MI "UTC"')
+      ),
+      jsonb_build_object(
+        'application_id', _offer.application_id,
+        'publication_id', _offer.publication_id,
+        'program_id', _offer.program_id,
+        'program_name', _offer.program_name,
+        'claim_deadline', _offer.claim_deadline
+      )
+    );
+
+    INSERT INTO public.claim_deadline_reminders(publication_id, hours_before)
+    SELECT _offer.publication_id, unnest(_due)
+    ON CONFLICT DO NOTHING;
+
+    _sent := _sent + 1;
+  END LOOP;
+
+  RETURN _sent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_claim_deadline_reminders() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.send_claim_deadline_reminders() FROM authenticated;
+
+-- Run by pg_cron
+CREATE OR REPLACE FUNCTION public.process_claim_deadlines()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expired integer;
+  _promoted integer;
+  _reminded integer;
+BEGIN
+  _expired := public.expire_unclaimed_offers();
+  _promoted := public.promote_waitlists_for_expired_claims();
+  _reminded := public.send_claim_deadline_reminders();
+  RETURN jsonb_build_object('expired', _expired, 'promoted', _promoted, 'reminded', _reminded);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.process_claim_deadlines() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.process_claim_deadlines() FROM authenticated;
+
+-- ============================================
+-- Same as update_publication_deadline.sql, but moving the deadline reopens
+-- an expired offer and resets its reminders. An expired offer is only
+-- reopened while its spot is still free: not when the waitlist already
+-- filled it, and in "exact" spots mode not when the other open offers
+-- already use up spots_count. Otherwise the update fails with a message
+-- the admin sees.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.update_publication_deadline(
+  p_publication_id uuid,
+  p_deadline timestamp with time zone
+)
+RETURNS public.application_publications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pub public.application_publications;
+  _org_id uuid;
+  _program public.programs;
+  _open_offers integer;
+BEGIN
+  -- Get publication (org_id is already stored on the publication)
+  SELECT * INTO _pub
+  FROM public.application_publications
+  WHERE id = p_publication_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Publication not found';
+  END IF;
+
+  -- Use org_id directly from publication
+  _org_id := _pub.org_id;
+
+  -- Auth: superadmin or org admin
+  IF NOT (
+    EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'superadmin')
+    OR EXISTS (
+      SELECT 1 FROM public.admins ad
+      WHERE ad.user_id = auth.uid()
+        AND ad.scope_type = 'org'
+        AND ad.scope_id = _org_id
+        AND ad.status = 'active'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to update publication deadline';
+  END IF;
+
+  -- Reopening an expired offer needs a free spot
+  IF _pub.spot_claimed_at IS NULL
+     AND _pub.spot_declined_at IS NULL
+     AND (_pub.spot_expired_at IS NOT NULL OR _pub.claim_deadline < now())
+     AND (p_deadline IS NULL OR p_deadline > now()) THEN
+    IF EXISTS (
+      SELECT 1 FROM public.waitlist_promotions wp
+      WHERE wp.freed_publication_id = _pub.id
+    ) THEN
+      RAISE EXCEPTION 'This offer expired and its spot was offered to a waitlisted applicant, so it can''t be reopened';
+    END IF;
+
+    SELECT prg.* INTO _program
+    FROM public.applications a
+    JOIN public.programs prg ON prg.id = a.program_id
+    WHERE a.id = _pub.application_id;
+
+    IF _program.spots_mode = 'exact' THEN
+      SELECT count(*) INTO _open_offers
+      FROM public.applications a
+      JOIN public.application_publications ap ON ap.id = a.results_current_publication_id
+      WHERE a.program_id = _program.id
+        AND ap.id <> _pub.id
+        AND lower(trim(COALESCE(ap.payload->>'decision', ''))) =
+          lower(trim(COALESCE(_pub.payload->>'decision', '')))
+        AND ap.spot_claimed_at IS NULL
+        AND ap.spot_declined_at IS NULL
+        AND ap.spot_expired_at IS NULL
+        AND (ap.claim_deadline IS NULL OR ap.claim_deadline >= now());
+      IF _open_offers >= COALESCE(_program.spots_count, 0) THEN
+        RAISE EXCEPTION 'This offer expired and no spots are left, so it can''t be reopened';
+      END IF;
+    END IF;
+  END IF;
+
+  -- Update deadline
+  UPDATE public.application_publications
+  SET
+    claim_deadline = p_deadline,
+    spot_expired_at = CASE
+      WHEN p_deadline IS NULL OR p_deadline > now() THEN NULL
+      ELSE spot_expired_at
+    END
+  WHERE id = p_publication_id
+  RETURNING * INTO _pub;
+
+  DELETE FROM public.claim_deadline_reminders WHERE publication_id = p_publication_id;
+
+  RETURN _pub;
+END;
+$$;
+
+-- Grant execute permission
+GRANT EXECUTE ON FUNCTION public.update_publication_deadline(uuid, timestamp with time zone) TO authenticated;
+
+-- ============================================
+-- Admin claim table and applicant results, plus spot_expired_at
+-- (same as get_all_publications_for_program.sql and
+-- update_get_published_results_v1.sql otherwise)
+-- ============================================
+
+DROP FUNCTION IF EXISTS public.get_all_publications_for_program(uuid, text);
+
+CREATE OR REPLACE FUNCTION public.get_all_publications_for_program(
+  p_program_id uuid,
+  p_claimable_decision text
+)
+RETURNS TABLE (
+  publication_id uuid,
+  application_id uuid,
+  applicant_name text,
+  published_at timestamp with time zone,
+  claim_deadline timestamp with time zone,
+  spot_claimed_at timestamp with time zone,
+  spot_declined_at timestamp with time zone,
+  spot_expired_at timestamp with time zone,
+  decision text,
+  any_publication_claimed_at timestamp with time zone,
+  any_publication_declined_at timestamp with time zone
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Validate input parameters
+  IF p_program_id IS NULL THEN
+    RETURN;
+  END IF;
+  
+  IF p_claimable_decision IS NULL OR TRIM(p_claimable_decision) = '' THEN
+    RETURN;
+  END IF;
+
+  -- Only show publications where the MOST RECENT publication for that application matches the claimable decision
+  -- This ensures that if a decision changes (e.g., from "contract" to "cut"), old publications disappear
+  RETURN QUERY
+  WITH most_recent_publications AS (
+    -- Get the most recent publication for each application
+    SELECT DISTINCT ON (ap.application_id)
+      ap.id AS publication_id,
+      ap.application_id,
+      ap.published_at,
+      (ap.payload->>'decision')::text AS decision
+    FROM public.application_publications ap
+    JOIN public.applications a ON a.id = ap.application_id
+    WHERE a.program_id = p_program_id
+      AND ap.published_at IS NOT NULL
+      AND ap.payload IS NOT NULL
+      AND ap.payload ? 'decision'
+      AND (ap.payload->>'decision')::text IS NOT NULL
+      AND (ap.payload->>'decision')::text != ''
+    ORDER BY 
+      ap.application_id,
+      ap.published_at DESC
+  ),
+  matching_applications AS (
+    -- Filter to only applications where the most recent publication matches the claimable decision
+    SELECT mrp.application_id
+    FROM most_recent_publications mrp
+    WHERE mrp.decision IS NOT NULL
+      AND LOWER(TRIM(mrp.decision)) = LOWER(TRIM(p_claimable_decision))
+  )
+  SELECT 
+    ap.id AS publication_id,
+    ap.application_id,
+    COALESCE(prof.full_name, 'Unknown') AS applicant_name,
+    ap.published_at,
+    ap.claim_deadline,
+    ap.spot_claimed_at,
+    ap.spot_declined_at,
+    ap.spot_expired_at,
+    -- Use publication payload decision only (what was actually published)
+    LOWER(TRIM((ap.payload->>'decision')::text)) AS decision,
+    -- Check if ANY publication for this application has been claimed
+    -- This checks ALL publications for the application, regardless of their decision
+    -- So if a publication's decision changes and it disappears/reappears, the claim status is preserved
+    (SELECT MIN(ap2.spot_claimed_at) 
+     FROM public.application_publications ap2 
+     WHERE ap2.application_id = ap.application_id 
+       AND ap2.spot_claimed_at IS NOT NULL) AS any_publication_claimed_at,
+    -- Check if ANY publication for this application has been declined
+    -- Same logic as above - tracks across all publications for the application
+    (SELECT MIN(ap3.spot_declined_at) 
+     FROM public.application_publications ap3 
+     WHERE ap3.application_id = ap.application_id 
+       AND ap3.spot_declined_at IS NOT NULL) AS any_publication_declined_at
+  FROM public.application_publications ap
+  JOIN public.applications a ON a.id = ap.application_id
+  INNER JOIN matching_applications ma ON ma.application_id = ap.application_id
+  LEFT JOIN public.profiles prof ON prof.id = a.user_id
+  WHERE a.program_id = p_program_id
+    AND ap.published_at IS NOT NULL
+    AND ap.payload IS NOT NULL
+    AND ap.payload ? 'decision'
+    -- Only include publications that match the claimable decision
+    AND (ap.payload->>'decision')::text IS NOT NULL
+    AND TRIM((ap.payload->>'decision')::text) != ''
+    AND LOWER(TRIM((ap.payload->>'decision')::text)) = LOWER(TRIM(p_claimable_decision))
+  ORDER BY ap.published_at DESC NULLS LAST;
+END;
+$$;
+
+-- Grant execute permission
+GRANT EXECUTE ON FUNCTION public.get_all_publications_for_program(uuid, text) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_published_results_v1();
+
+CREATE OR REPLACE FUNCTION public.get_published_results_v1()
+RETURNS TABLE (
+  application_id uuid,
+  program_id uuid,
+  program_name text,
+  publication_id uuid,
+  published_at timestamp with time zone,
+  visibility jsonb,
+  payload jsonb,
+  spot_claimed_at timestamp with time zone,
+  spot_declined_at timestamp with time zone,
+  spot_expired_at timestamp with time zone,
+  claim_deadline timestamp with time zone,
+  any_publication_claimed_at timestamp with time zone,
+  any_publication_declined_at timestamp with time zone,
+  organization_name text,
+  organization_logo_url text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    ap.application_id,
+    a.program_id,
+    p.name AS program_name,
+    ap.id AS publication_id,
+    ap.published_at,
+    ap.visibility,
+    ap.payload,
+    ap.spot_claimed_at,
+    ap.spot_declined_at,
+    ap.spot_expired_at,
+    ap.claim_deadline,
+    -- Check if ANY publication for this application has been claimed
+    (SELECT MIN(ap2.spot_claimed_at) 
+     FROM public.application_publications ap2 
+     WHERE ap2.application_id = ap.application_id 
+       AND ap2.spot_claimed_at IS NOT NULL) AS any_publication_claimed_at,
+    -- Check if ANY publication for this application has been declined
+    (SELECT MIN(ap3.spot_declined_at) 
+     FROM public.application_publications ap3 
+     WHERE ap3.application_id = ap.application_id 
+       AND ap3.spot_declined_at IS NOT NULL) AS any_publication_declined_at,
+    -- Organization information
+    o.name AS organization_name,
+    o.logo_url AS organization_logo_url
+  FROM public.application_publications ap
+  JOIN public.applications a ON a.id = ap.application_id
+  JOIN public.programs p ON p.id = a.program_id
+  JOIN public.organizations o ON o.id = p.organization_id
+  WHERE a.user_id = auth.uid()
+    AND ap.published_at IS NOT NULL
+  ORDER BY ap.published_at DESC;
+END;
+$$;
+
+-- Grant execute permission
+GRANT EXECUTE ON FUNCTION public.get_published_results_v1() TO authenticated;
+
+-- ============================================
+-- SCHEDULE (every 15 minutes)
+-- Needs the pg_cron extension (Database → Extensions). If it wasn't
+-- enabled when this file ran, enable it and run this block again.
+-- ============================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    -- Waitlist promotion now runs as part of this job
+    IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'promote-waitlists') THEN
+      PERFORM cron.unschedule('promote-waitlists');
+    END IF;
+
+    PERFORM cron.schedule(
+      'process-claim-deadlines',
+      '*/15 * * * *',
+      'SELECT public.process_claim_deadlines()'
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron is not enabled; claim deadlines will not expire or send reminders';
+  END IF;
+END $$;
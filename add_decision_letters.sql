@@ -0,0 +1,178 @@
+-- ============================================
+-- DECISION LETTERS
+-- Programs can keep a letter template per decision in metadata:
+--   "decision_letters": { "accept": "Dear {{applicant_name}}, ...", ... }
+-- keyed by the lowercased decision. Templates are plain text with merge
+-- fields (see LETTER_MERGE_FIELDS in src/utils/decisionLetters.ts):
+--   {{applicant_name}} {{program_name}} {{org_name}} {{decision}}
+--   {{score}} {{reviewer_comments}} {{claim_deadline}} {{spots}}
+--
+-- publish_results_v1 renders the letter for each application's decision
+-- and stores it in the publication payload as "letter", so scheduled and
+-- "publish all" releases get it too. Applicants see it on My Submissions
+-- and email-on-notification sends it as the email body. {{score}} and
+-- {{reviewer_comments}} render empty unless the publication's visibility
+-- shows the score / comments.
+-- ============================================
+
+-- Replace {{field}} (spaces inside the braces allowed) with its value.
+-- Unknown fields are left as written so typos are visible in the preview.
+CREATE OR REPLACE FUNCTION public.render_decision_letter(
+  p_template text,
+  p_fields jsonb
+)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _result text := p_template;
+  _field record;
+BEGIN
+  FOR _field IN SELECT key, value FROM jsonb_each_text(p_fields) LOOP
+    _result := regexp_replace(
+      _result,
+      '\{\{\s*' || _field.key || '\s*\}\}',
+      -- Backslashes would be read as back-references in the replacement
+      replace(COALESCE(_field.value, ''), '\', '\\'),
+      'g'
+    );
+  END LOOP;
+  RETURN _result;
+END;
+$$;
+
+-- Same as fix_publish_multiple_reviews.sql, plus the rendered letter
+CREATE OR REPLACE FUNCTION public.publish_results_v1(
+  p_application_ids uuid[],
+  p_visibility jsonb DEFAULT jsonb_build_object('decision', true, 'score', false, 'comments', false, 'customMessage', NULL::unknown),
+  p_acceptance_tag text DEFAULT NULL,
+  p_claim_deadline timestamp with time zone DEFAULT NULL
+)
+RETURNS SETOF application_publications
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $function$
+DECLARE
+  _app_id uuid;
+  _org_id uuid;
+  _pub_id uuid;
+  _decision text;
+  _score int;
+  _comments text;
+  _payload jsonb;
+  _app_user uuid;
+  _program_id uuid;
+  _program public.programs;
+  _claiming_config jsonb;
+  _claiming_enabled boolean;
+  _template text;
+  _applicant_name text;
+  _org_name text;
+BEGIN
+  FOREACH _app_id IN ARRAY p_application_ids LOOP
+    -- resolve org + applicant + program
+    SELECT prg.organization_id, a.user_id, prg.id
+      INTO _org_id, _app_user, _program_id
+    FROM public.applications a
+    JOIN public.programs prg ON prg.id = a.program_id
+    WHERE a.id = _app_id;
+
+    IF _org_id IS NULL THEN
+      RAISE EXCEPTION 'Application % not found', _app_id;
+    END IF;
+
+    -- auth: superadmin or org admin
+    IF NOT (
+      EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'superadmin')
+      OR EXISTS (
+        SELECT 1 FROM public.admins ad
+        WHERE ad.user_id = auth.uid()
+          AND ad.scope_type = 'org'
+          AND ad.scope_id = _org_id
+          AND ad.status = 'active'
+      )
+    ) THEN
+      RAISE EXCEPTION 'Not authorized to publish for application %', _app_id;
+    END IF;
+
+    -- gather review snapshot - CHECK BOTH decision column AND ratings JSONB
+    -- Get the most recent submitted review (if multiple reviewers exist)
+    SELECT
+      COALESCE(r.decision, (r.ratings->>'decision')::text),
+      r.score,
+      r.comments
+      INTO _decision, _score, _comments
+    FROM public.application_reviews r
+    WHERE r.application_id = _app_id
+      AND r.status = 'submitted'
+    ORDER BY r.submitted_at DESC NULLS LAST, r.updated_at DESC
+    LIMIT 1;
+
+    _payload := jsonb_build_object(
+      'decision', _decision,
+      'score', _score,
+      'comments', _comments
+    );
+
+    SELECT * INTO _program FROM public.programs WHERE id = _program_id;
+
+    -- Render the decision letter, if the program has one for this decision
+    _template := _program.metadata->'decision_letters'->>lower(trim(COALESCE(_decision, '')));
+    IF _template IS NOT NULL AND trim(_template) <> '' THEN
+      SELECT full_name INTO _applicant_name FROM public.profiles WHERE id = _app_user;
+      SELECT name INTO _org_name FROM public.organizations WHERE id = _org_id;
+
+      _payload := _payload || jsonb_build_object(
+        'letter',
+        public.render_decision_letter(_template, jsonb_build_object(
+          'applicant_name', COALESCE(_applicant_name, 'Applicant'),
+          'program_name', _program.name,
+          'org_name', _org_name,
+          'decision', _decision,
+          'score', CASE WHEN COALESCE((p_visibility->>'score')::boolean, false) THEN _score END,
+          'reviewer_comments', CASE WHEN COALESCE((p_visibility->>'comments')::boolean, false) THEN _comments END,
+          'claim_deadline', to_char(p_claim_deadline AT TIME ZONE 'UTC', 'FMMonth FMDD, YYYY at HH24:MI "UTC"'),
+          'spots', _program.spots_count
+        ))
+      );
+    END IF;
+
+    INSERT INTO public.application_publications(application_id, org_id, published_by, payload, visibility, version, claim_deadline)
+    VALUES (_app_id, _org_id, auth.uid(), _payload, p_visibility, 1, p_claim_deadline)
+    RETURNING id INTO _pub_id;
+
+    UPDATE public.applications
+      SET results_current_publication_id = _pub_id
+    WHERE id = _app_id;
+
+    INSERT INTO public.application_publication_events(publication_id, event_type, actor_id, note)
+    VALUES (_pub_id, 'publish', auth.uid(), 'batch publish');
+
+    INSERT INTO public.notifications(user_id, type, title, message, data)
+    VALUES (
+      _app_user,
+      'results_published',
+      'Your results are available',
+      'A decision has been published for your application.',
+      jsonb_build_object('application_id', _app_id, 'publication_id', _pub_id)
+    );
+
+    -- Check if claiming is enabled for this program
+    _claiming_config := _program.metadata->'spotClaiming';
+    _claiming_enabled := COALESCE((_claiming_config->>'enabled')::boolean, false);
+
+    -- Only decrement spots if:
+    -- 1. Acceptance tag is provided (old behavior)
+    -- 2. Claiming is NOT enabled (if claiming is enabled, spots will be decremented when applicants claim)
+    IF p_acceptance_tag IS NOT NULL
+       AND _program_id IS NOT NULL
+       AND _decision IS NOT NULL
+       AND NOT _claiming_enabled THEN
+      PERFORM public.decrement_program_spots_if_needed(_program_id, _decision, p_acceptance_tag);
+    END IF;
+
+    RETURN QUERY SELECT * FROM public.application_publications WHERE id = _pub_id;
+  END LOOP;
+END;
+$function$;
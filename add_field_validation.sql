@@ -0,0 +1,358 @@
+-- ============================================
+-- FIELD-LEVEL VALIDATION RULES
+-- Server-side copy of src/utils/validation.ts so rules configured in the
+-- builder (pattern, min/max length, date range / age, file type and size)
+-- can't be bypassed by calling app_submit_application_v1 directly.
+-- Rules only apply to answered questions that are visible under the
+-- question's show-if conditions.
+-- ============================================
+
+-- ============================================
+-- HELPER: Is an answer blank?
+-- ============================================
+CREATE OR REPLACE FUNCTION public.app_answer_blank(p_value jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_value IS NULL
+    OR jsonb_typeof(p_value) = 'null'
+    OR p_value = 'false'::jsonb
+    OR (jsonb_typeof(p_value) = 'string' AND btrim(p_value #>> '{}') = '')
+    OR (jsonb_typeof(p_value) = 'array' AND jsonb_array_length(p_value) = 0);
+$$;
+
+-- ============================================
+-- HELPER: Is a question shown for these answers? (mirrors isFieldVisible)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.app_field_visible(
+  p_field jsonb,
+  p_fields jsonb,
+  p_answers jsonb,
+  p_depth integer DEFAULT 0
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  _rule jsonb := p_field->'showIf';
+  _condition jsonb;
+  _source jsonb;
+  _value jsonb;
+  _expected text;
+  _result boolean;
+  _any boolean := false;
+  _all boolean := true;
+  _count integer := 0;
+BEGIN
+  IF _rule IS NULL OR jsonb_typeof(_rule->'conditions') IS DISTINCT FROM 'array' THEN
+    RETURN true;
+  END IF;
+  -- Guard against rules that (indirectly) depend on themselves
+  IF p_depth > 20 THEN
+    RETURN true;
+  END IF;
+
+  FOR _condition IN SELECT * FROM jsonb_array_elements(_rule->'conditions') LOOP
+    SELECT f INTO _source
+    FROM jsonb_array_elements(p_fields) f
+    WHERE COALESCE(f->>'key', f->>'id') = _condition->>'field'
+    LIMIT 1;
+
+    -- Conditions pointing at removed questions are ignored
+    CONTINUE WHEN _source IS NULL;
+    _count := _count + 1;
+
+    IF NOT public.app_field_visible(_source, p_fields, p_answers, p_depth + 1) THEN
+      _result := false;
+    ELSE
+      _value := p_answers->(_condition->>'field');
+      _expected := lower(btrim(COALESCE(_condition->>'value', '')));
+      _result := CASE _condition->>'operator'
+        WHEN 'is_answered' THEN NOT public.app_answer_blank(_value)
+        WHEN 'is_empty' THEN public.app_answer_blank(_value)
+        WHEN 'is_checked' THEN _value = 'true'::jsonb
+          OR lower(btrim(COALESCE(_value #>> '{}', ''))) IN ('true', '1', 'yes', 'on')
+        WHEN 'is_not_checked' THEN NOT (_value = 'true'::jsonb
+          OR lower(btrim(COALESCE(_value #>> '{}', ''))) IN ('true', '1', 'yes', 'on'))
+        WHEN 'equals' THEN CASE WHEN jsonb_typeof(_value) = 'array'
+          THEN EXISTS (SELECT 1 FROM jsonb_array_elements_text(_value) v WHERE lower(btrim(v)) = _expected)
+          ELSE lower(btrim(COALESCE(_value #>> '{}', ''))) = _expected END
+        WHEN 'not_equals' THEN CASE WHEN jsonb_typeof(_value) = 'array'
+          THEN NOT EXISTS (SELECT 1 FROM jsonb_array_elements_text(_value) v WHERE lower(btrim(v)) = _expected)
+          ELSE lower(btrim(COALESCE(_value #>> '{}', ''))) <> _expected END
+        WHEN 'contains' THEN CASE WHEN jsonb_typeof(_value) = 'array'
+          THEN EXISTS (SELECT 1 FROM jsonb_array_elements_text(_value) v WHERE lower(btrim(v)) = _expected)
+          ELSE position(_expected IN lower(btrim(COALESCE(_value #>> '{}', '')))) > 0 END
+        ELSE true
+      END;
+    END IF;
+
+    _any := _any OR _result;
+    _all := _all AND _result;
+  END LOOP;
+
+  IF _count = 0 THEN
+    RETURN true;
+  END IF;
+  RETURN CASE WHEN _rule->>'match' = 'any' THEN _any ELSE _all END;
+END;
+$$;
+
+-- ============================================
+-- HELPER: First problem with one answer, or NULL (mirrors validateAnswer)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.app_validate_answer(
+  p_field jsonb,
+  p_value jsonb,
+  p_reference date
+)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  _type text := lower(COALESCE(p_field->>'type', ''));
+  _rules jsonb := COALESCE(p_field->'validation', '{}'::jsonb);
+  _text text;
+  _number numeric;
+  _date date;
+  _age integer;
+  _file jsonb;
+  _ext text;
+BEGIN
+  IF public.app_answer_blank(p_value) THEN
+    RETURN NULL;
+  END IF;
+  _text := CASE WHEN jsonb_typeof(p_value) IN ('string', 'number', 'boolean')
+    THEN btrim(p_value #>> '{}') END;
+
+  IF _type = 'number' THEN
+    BEGIN
+      _number := _text::numeric;
+    EXCEPTION WHEN others THEN
+      RETURN 'Enter a number';
+    END;
+    IF p_field ? 'min' AND _number < (p_field->>'min')::numeric THEN
+      RETURN 'Must be at least ' || (p_field->>'min');
+    END IF;
+    IF p_field ? 'max' AND _number > (p_field->>'max')::numeric THEN
+      RETURN 'Must be at most ' || (p_field->>'max');
+    END IF;
+    -- Steps count from min, as the number input does
+    IF p_field ? 'step' AND (p_field->>'step')::numeric > 0
+      AND mod(_number - COALESCE((p_field->>'min')::numeric, 0), (p_field->>'step')::numeric) <> 0 THEN
+      RETURN 'Must be in steps of ' || (p_field->>'step');
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  IF _type = 'multi_select' THEN
+    IF p_field ? 'minSelections' AND jsonb_typeof(p_value) = 'array'
+      AND jsonb_array_length(p_value) < (p_field->>'minSelections')::integer THEN
+      RETURN 'Choose at least ' || (p_field->>'minSelections');
+    END IF;
+    IF p_field ? 'maxSelections' AND jsonb_typeof(p_value) = 'array'
+      AND jsonb_array_length(p_value) > (p_field->>'maxSelections')::integer THEN
+      RETURN 'Choose at most ' || (p_field->>'maxSelections');
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  IF _type = 'date' THEN
+    IF _text IS NULL OR _text !~ '^\d{4}-\d{2}-\d{2}' THEN
+      RETURN 'Enter a valid date';
+    END IF;
+    BEGIN
+      _date := left(_text, 10)::date;
+    EXCEPTION WHEN others THEN
+      RETURN 'Enter a valid date';
+    END;
+    IF _rules ? 'minDate' AND _date < (_rules->>'minDate')::date THEN
+      RETURN 'Must be on or after ' || (_rules->>'minDate');
+    END IF;
+    IF _rules ? 'maxDate' AND _date > (_rules->>'maxDate')::date THEN
+      RETURN 'Must be on or before ' || (_rules->>'maxDate');
+    END IF;
+    IF _rules ? 'minAge' OR _rules ? 'maxAge' THEN
+      _age := date_part('year', age(COALESCE(p_reference, CURRENT_DATE), _date))::integer;
+      IF (_rules ? 'minAge' AND _age < (_rules->>'minAge')::integer)
+        OR (_rules ? 'maxAge' AND _age > (_rules->>'maxAge')::integer) THEN
+        RETURN 'Applicants must be ' || CASE
+          WHEN _rules ? 'minAge' AND _rules ? 'maxAge'
+            THEN 'between ' || (_rules->>'minAge') || ' and ' || (_rules->>'maxAge')
+          WHEN _rules ? 'minAge' THEN 'at least ' || (_rules->>'minAge')
+          ELSE 'at most ' || (_rules->>'maxAge')
+        END || ' years old on ' || COALESCE(p_reference, CURRENT_DATE)::text;
+      END IF;
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  IF _type = 'file' THEN
+    -- File answers are stored as a JSON string of { fileName, fileSize, ... }
+    IF jsonb_typeof(p_value) = 'object' THEN
+      _file := p_value;
+    ELSE
+      BEGIN
+        _file := (p_value #>> '{}')::jsonb;
+      EXCEPTION WHEN others THEN
+        _file := jsonb_build_object('fileName', p_value #>> '{}');
+      END;
+    END IF;
+    IF jsonb_typeof(_file) IS DISTINCT FROM 'object' THEN
+      RETURN NULL;
+    END IF;
+    IF jsonb_typeof(_rules->'allowedExtensions') = 'array'
+      AND jsonb_array_length(_rules->'allowedExtensions') > 0 THEN
+      _ext := lower(substring(COALESCE(_file->>'fileName', '') FROM '\.([^.]+)$'));
+      IF _ext IS NULL OR NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(_rules->'allowedExtensions') e
+        WHERE lower(regexp_replace(btrim(e), '^\.', '')) = _ext
+      ) THEN
+        RETURN 'File must be one of: ' || (
+          SELECT string_agg('.' || lower(regexp_replace(btrim(e), '^\.', '')), ', ')
+          FROM jsonb_array_elements_text(_rules->'allowedExtensions') e
+        );
+      END IF;
+    END IF;
+    IF _rules ? 'maxFileSizeMb' AND jsonb_typeof(_file->'fileSize') = 'number'
+      AND (_file->>'fileSize')::numeric > (_rules->>'maxFileSizeMb')::numeric * 1024 * 1024 THEN
+      RETURN 'File must be ' || (_rules->>'maxFileSizeMb') || ' MB or smaller';
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  IF _type = 'email' AND _text !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' THEN
+    RETURN 'Enter a valid email address';
+  END IF;
+  IF _type = 'url' AND _text !~* '^https?://[^\s.]+\.[^\s]+$' THEN
+    RETURN 'Enter a full link starting with http:// or https://';
+  END IF;
+  IF _type = 'phone' AND _text !~ '^\+?[\d\s().-]{7,20}$' THEN
+    RETURN 'Enter a valid phone number';
+  END IF;
+
+  -- Text-like answers
+  IF _text IS NULL THEN
+    RETURN NULL;
+  END IF;
+  IF _rules ? 'minLength' AND char_length(_text) < (_rules->>'minLength')::integer THEN
+    RETURN 'Must be at least ' || (_rules->>'minLength') || ' characters';
+  END IF;
+  IF _rules ? 'maxLength' AND char_length(_text) > (_rules->>'maxLength')::integer THEN
+    RETURN 'Must be at most ' || (_rules->>'maxLength') || ' characters';
+  END IF;
+  IF COALESCE(_rules->>'pattern', '') <> '' THEN
+    BEGIN
+      IF _text !~ ('^(?:' || (_rules->>'pattern') || ')$') THEN
+        RETURN COALESCE(NULLIF(_rules->>'patternMessage', ''), 'Please match the requested format');
+      END IF;
+    EXCEPTION WHEN invalid_regular_expression THEN
+      -- A broken pattern in the builder shouldn't lock applicants out
+      NULL;
+    END;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- ============================================
+-- RPC FUNCTION: Validate answers against a program's schema
+-- Returns { "<question label>": "<message>" } for every failing answer
+-- ============================================
+CREATE OR REPLACE FUNCTION public.app_validate_answers(
+  p_program_id uuid,
+  p_answers jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _program public.programs;
+  _fields jsonb;
+  _field jsonb;
+  _key text;
+  _message text;
+  _errors jsonb := '{}'::jsonb;
+BEGIN
+  SELECT * INTO _program FROM public.programs WHERE id = p_program_id;
+  IF NOT FOUND THEN
+    RETURN _errors;
+  END IF;
+
+  -- Validate against the live (approved) form; the pending draft is only a
+  -- fallback for programs that have never had a schema approved
+  _fields := COALESCE(
+    _program.metadata->'application'->'schema'->'fields',
+    _program.metadata->'application'->'builder',
+    _program.metadata->'application_schema'->'fields',
+    _program.metadata->'pending_schema'->'fields',
+    '[]'::jsonb
+  );
+  IF jsonb_typeof(_fields) IS DISTINCT FROM 'array' THEN
+    RETURN _errors;
+  END IF;
+
+  FOR _field IN SELECT * FROM jsonb_array_elements(_fields) LOOP
+    _key := COALESCE(_field->>'key', _field->>'id');
+    CONTINUE WHEN _key IS NULL OR lower(COALESCE(_field->>'type', '')) = 'section';
+    CONTINUE WHEN NOT public.app_field_visible(_field, _fields, COALESCE(p_answers, '{}'::jsonb));
+
+    _message := public.app_validate_answer(_field, p_answers->_key, _program.open_at::date);
+    IF _message IS NOT NULL THEN
+      _errors := _errors || jsonb_build_object(COALESCE(NULLIF(_field->>'label', ''), _key), _message);
+    END IF;
+  END LOOP;
+
+  RETURN _errors;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.app_validate_answers(uuid, jsonb) TO authenticated;
+
+-- ============================================
+-- TRIGGER: Reject submissions with invalid answers
+-- app_submit_application_v1 flips status to 'submitted'; checking here means
+-- every submission path goes through the same rules.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.app_enforce_field_validation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _errors jsonb;
+  _summary text;
+BEGIN
+  IF NEW.status <> 'submitted' THEN
+    RETURN NEW;
+  END IF;
+  -- Already-submitted rows are re-checked only when their answers change
+  IF TG_OP = 'UPDATE' AND OLD.status = 'submitted'
+    AND NEW.answers IS NOT DISTINCT FROM OLD.answers THEN
+    RETURN NEW;
+  END IF;
+
+  _errors := public.app_validate_answers(NEW.program_id, NEW.answers);
+  IF _errors <> '{}'::jsonb THEN
+    SELECT string_agg(key || ': ' || value, '; ') INTO _summary
+    FROM jsonb_each_text(_errors);
+    RAISE EXCEPTION 'Some answers need fixing before you can submit. %', _summary
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS applications_enforce_field_validation ON public.applications;
+CREATE TRIGGER applications_enforce_field_validation
+  BEFORE INSERT OR UPDATE OF status, answers ON public.applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.app_enforce_field_validation();
@@ -0,0 +1,81 @@
+-- ============================================
+-- MERGE PROGRAM SETTINGS INTO METADATA
+-- Settings panels (reviewer assignment, deadlines, letters, ...) each own a
+-- top-level key of programs.metadata. Saving one used to read the whole
+-- metadata, change a key and write everything back, so two admins saving
+-- different panels at once could undo each other's changes.
+-- program_merge_metadata_v1 merges only the given keys on the server.
+--
+-- Only the settings keys below can be written this way; review status,
+-- schemas and publishing state keep going through their own RPCs.
+-- Coalition managers of a coalition the program's organization belongs to
+-- can write builder checkpoints too, since they edit those programs in the
+-- coalition builder.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.program_merge_metadata_v1(
+  p_program_id uuid,
+  p_values jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid;
+  _key text;
+  _metadata jsonb;
+BEGIN
+  IF jsonb_typeof(p_values) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'p_values must be a JSON object';
+  END IF;
+
+  SELECT organization_id INTO _org_id FROM public.programs WHERE id = p_program_id;
+  IF _org_id IS NULL THEN
+    RAISE EXCEPTION 'Program not found';
+  END IF;
+
+  IF NOT (
+    public.is_superadmin()
+    OR public.is_admin_for('program', p_program_id)
+    OR is_org_admin_safe(auth.uid(), _org_id)
+  ) AND NOT (
+    p_values - 'builder_checkpoints' = '{}'::jsonb
+    AND EXISTS (
+      SELECT 1
+      FROM public.coalition_managers cm
+      JOIN public.coalition_memberships m ON m.coalition_id = cm.coalition_id
+      WHERE cm.user_id = auth.uid()
+        AND cm.status = 'active'
+        AND m.organization_id = _org_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to change this program';
+  END IF;
+
+  FOR _key IN SELECT jsonb_object_keys(p_values) LOOP
+    IF _key <> ALL (ARRAY[
+      'review_assignment',
+      'review_deadline',
+      'review_reminders',
+      'decision_letters',
+      'waitlistPromotion',
+      'acceptance_form',
+      'builder_checkpoints'
+    ]) THEN
+      RAISE EXCEPTION 'Program setting % cannot be changed here', _key;
+    END IF;
+  END LOOP;
+
+  UPDATE public.programs
+  SET metadata = COALESCE(metadata, '{}'::jsonb) || p_values,
+      updated_at = now()
+  WHERE id = p_program_id
+  RETURNING metadata INTO _metadata;
+
+  RETURN _metadata;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.program_merge_metadata_v1(uuid, jsonb) TO authenticated;
@@ -0,0 +1,45 @@
+-- ============================================
+-- PROGRAM TEMPLATES
+-- Org-level snapshots of a program's setup (basics, application schema,
+-- profile settings, reviewer form, claiming config) that new programs
+-- can start from in CreateProgramModal.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.program_templates (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  source_program_id uuid REFERENCES public.programs(id) ON DELETE SET NULL,
+  template jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_program_templates_organization_id
+ON public.program_templates(organization_id);
+
+COMMENT ON TABLE public.program_templates IS 'Reusable program setups saved by org admins';
+COMMENT ON COLUMN public.program_templates.template IS 'type, description, spots, privacy, copyable metadata and review_form';
+
+-- Enable RLS
+ALTER TABLE public.program_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org admins can read templates" ON public.program_templates;
+DROP POLICY IF EXISTS "Org admins can create templates" ON public.program_templates;
+DROP POLICY IF EXISTS "Org admins can delete templates" ON public.program_templates;
+
+-- is_org_admin_safe also lets superadmins through
+CREATE POLICY "Org admins can read templates"
+ON public.program_templates FOR SELECT
+TO authenticated
+USING (is_org_admin_safe(auth.uid(), organization_id));
+
+CREATE POLICY "Org admins can create templates"
+ON public.program_templates FOR INSERT
+TO authenticated
+WITH CHECK (is_org_admin_safe(auth.uid(), organization_id));
+
+CREATE POLICY "Org admins can delete templates"
+ON public.program_templates FOR DELETE
+TO authenticated
+USING (is_org_admin_safe(auth.uid(), organization_id));
@@ -0,0 +1,50 @@
+-- ============================================
+-- ORG QUESTION BANK
+-- Reusable application questions saved by org admins. Programs can insert
+-- a question as a linked copy (keeps the key bank_<id without dashes> and
+-- picks up later edits while the program is a draft) or as a detached copy.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.question_bank (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  field jsonb NOT NULL,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_bank_organization_id
+ON public.question_bank(organization_id);
+
+COMMENT ON TABLE public.question_bank IS 'Org-wide library of application questions';
+COMMENT ON COLUMN public.question_bank.field IS 'Builder field without key, bankId or showIf';
+
+-- Enable RLS
+ALTER TABLE public.question_bank ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org admins can read question bank" ON public.question_bank;
+DROP POLICY IF EXISTS "Org admins can add to question bank" ON public.question_bank;
+DROP POLICY IF EXISTS "Org admins can edit question bank" ON public.question_bank;
+DROP POLICY IF EXISTS "Org admins can delete from question bank" ON public.question_bank;
+
+CREATE POLICY "Org admins can read question bank"
+ON public.question_bank FOR SELECT
+TO authenticated
+USING (is_org_admin_safe(auth.uid(), organization_id));
+
+CREATE POLICY "Org admins can add to question bank"
+ON public.question_bank FOR INSERT
+TO authenticated
+WITH CHECK (is_org_admin_safe(auth.uid(), organization_id));
+
+CREATE POLICY "Org admins can edit question bank"
+ON public.question_bank FOR UPDATE
+TO authenticated
+USING (is_org_admin_safe(auth.uid(), organization_id))
+WITH CHECK (is_org_admin_safe(auth.uid(), organization_id));
+
+CREATE POLICY "Org admins can delete from question bank"
+ON public.question_bank FOR DELETE
+TO authenticated
+USING (is_org_admin_safe(auth.uid(), organization_id));
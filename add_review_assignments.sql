@@ -0,0 +1,582 @@
+-- ============================================
+-- AUTOMATIC REVIEWER ASSIGNMENT
+-- A program can set an assignment policy in metadata.review_assignment:
+--   { "enabled": true, "reviewers_per_app": 2,
+--     "require_senior": true, "senior_reviewer_ids": ["<uuid>", ...] }
+-- Each submitted application then gets that many of the program's active
+-- reviewers, always picking whoever has the fewest assignments so far.
+-- With require_senior, one of them is picked from the senior reviewers.
+-- While the policy is on, reviewers can only list, open and review the
+-- applications assigned to them; admins still see everything.
+-- Reviewers with a conflict of interest are skipped (add_review_conflicts.sql).
+--
+-- Apply this file before add_review_conflicts.sql. Until that file is
+-- applied, is_review_conflicted is a stub that reports no conflicts, so
+-- submissions keep working either way.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.application_reviewer_assignments (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  program_id uuid NOT NULL REFERENCES public.programs(id) ON DELETE CASCADE,
+  application_id uuid NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  reviewer_id uuid NOT NULL,
+  assigned_at timestamp with time zone DEFAULT now() NOT NULL,
+  UNIQUE (application_id, reviewer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_app_reviewer_assignments_program_id
+ON public.application_reviewer_assignments(program_id);
+
+CREATE INDEX IF NOT EXISTS idx_app_reviewer_assignments_reviewer_id
+ON public.application_reviewer_assignments(reviewer_id);
+
+COMMENT ON TABLE public.application_reviewer_assignments IS 'Which reviewers each application was assigned to under the program assignment policy';
+
+-- Enable RLS
+ALTER TABLE public.application_reviewer_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Reviewers can read own assignments" ON public.application_reviewer_assignments;
+DROP POLICY IF EXISTS "Org admins can read program assignments" ON public.application_reviewer_assignments;
+
+CREATE POLICY "Reviewers can read own assignments"
+ON public.application_reviewer_assignments FOR SELECT
+TO authenticated
+USING (reviewer_id = auth.uid());
+
+CREATE POLICY "Org admins can read program assignments"
+ON public.application_reviewer_assignments FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.programs p
+    WHERE p.id = program_id
+      AND is_org_admin_safe(auth.uid(), p.organization_id)
+  )
+);
+
+-- Rows are only written by the functions below
+
+-- ============================================
+-- Placeholder conflict check until add_review_conflicts.sql replaces it;
+-- left alone when the real one already exists
+-- ============================================
+DO $$
+BEGIN
+  IF to_regprocedure('public.is_review_conflicted(uuid, uuid)') IS NULL THEN
+    CREATE FUNCTION public.is_review_conflicted(
+      p_reviewer_id uuid,
+      p_application_id uuid
+    )
+    RETURNS boolean
+    LANGUAGE sql
+    STABLE
+    AS 'SELECT false';
+    REVOKE EXECUTE ON FUNCTION public.is_review_conflicted(uuid, uuid) FROM PUBLIC;
+  END IF;
+END;
+$$;
+
+-- ============================================
+-- Assign reviewers to one application until it has reviewers_per_app.
+-- Returns how many reviewers were added.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.assign_application_reviewers_v1(
+  p_application_id uuid
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _program_id uuid;
+  _policy jsonb;
+  _k integer;
+  _seniors uuid[];
+  _current integer;
+  _has_senior boolean;
+  _pick uuid;
+  _added integer := 0;
+BEGIN
+  SELECT a.program_id, p.metadata->'review_assignment'
+  INTO _program_id, _policy
+  FROM public.applications a
+  JOIN public.programs p ON p.id = a.program_id
+  WHERE a.id = p_application_id
+    AND a.status = 'submitted';
+
+  IF _program_id IS NULL OR COALESCE((_policy->>'enabled')::boolean, false) = false THEN
+    RETURN 0;
+  END IF;
+
+  _k := GREATEST(COALESCE((_policy->>'reviewers_per_app')::integer, 1), 1);
+  SELECT COALESCE(array_agg(value::uuid), '{}')
+  INTO _seniors
+  FROM jsonb_array_elements_text(COALESCE(_policy->'senior_reviewer_ids', '[]'::jsonb));
+
+  LOOP
+    SELECT count(*), COALESCE(bool_or(reviewer_id = ANY(_seniors)), false)
+    INTO _current, _has_senior
+    FROM public.application_reviewer_assignments
+    WHERE application_id = p_application_id;
+
+    EXIT WHEN _current >= _k;
+
+    -- Least-loaded active reviewer not already on this application;
+    -- seniors only while the senior slot is still open
+    SELECT r.user_id INTO _pick
+    FROM public.reviewers r
+    LEFT JOIN public.application_reviewer_assignments ara
+      ON ara.reviewer_id = r.user_id AND ara.program_id = _program_id
+    WHERE r.scope_type = 'program'
+      AND r.scope_id = _program_id
+      AND r.status = 'active'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.application_reviewer_assignments x
+        WHERE x.application_id = p_application_id AND x.reviewer_id = r.user_id
+      )
+      AND NOT public.is_review_conflicted(r.user_id, p_application_id)
+      AND (
+        NOT COALESCE((_policy->>'require_senior')::boolean, false)
+        OR _has_senior
+        OR r.user_id = ANY(_seniors)
+      )
+    GROUP BY r.user_id
+    ORDER BY count(ara.id), random()
+    LIMIT 1;
+
+    -- No senior available: fall back to anyone rather than leave a gap
+    IF _pick IS NULL AND NOT _has_senior THEN
+      SELECT r.user_id INTO _pick
+      FROM public.reviewers r
+      LEFT JOIN public.application_reviewer_assignments ara
+        ON ara.reviewer_id = r.user_id AND ara.program_id = _program_id
+      WHERE r.scope_type = 'program'
+        AND r.scope_id = _program_id
+        AND r.status = 'active'
+        AND NOT EXISTS (
+          SELECT 1 FROM public.application_reviewer_assignments x
+          WHERE x.application_id = p_application_id AND x.reviewer_id = r.user_id
+        )
+        AND NOT public.is_review_conflicted(r.user_id, p_application_id)
+      GROUP BY r.user_id
+      ORDER BY count(ara.id), random()
+      LIMIT 1;
+    END IF;
+
+    EXIT WHEN _pick IS NULL; -- fewer reviewers than K
+
+    INSERT INTO public.application_reviewer_assignments (program_id, application_id, reviewer_id)
+    VALUES (_program_id, p_application_id, _pick)
+    ON CONFLICT (application_id, reviewer_id) DO NOTHING;
+    _added := _added + 1;
+    _pick := NULL;
+  END LOOP;
+
+  RETURN _added;
+END;
+$$;
+
+-- Only called from the trigger and rebalance function below
+REVOKE EXECUTE ON FUNCTION public.assign_application_reviewers_v1(uuid) FROM PUBLIC;
+
+-- ============================================
+-- Drop assignments of reviewers who left the program (unless they already
+-- finalized that review) and fill every submitted application back up.
+-- Run after the policy changes or a reviewer is removed.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.rebalance_program_assignments_v1(
+  p_program_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid;
+  _removed integer;
+  _added integer := 0;
+  _app record;
+BEGIN
+  SELECT organization_id INTO _org_id FROM public.programs WHERE id = p_program_id;
+  IF _org_id IS NULL OR NOT is_org_admin_safe(auth.uid(), _org_id) THEN
+    RAISE EXCEPTION 'Only org admins can reassign reviewers';
+  END IF;
+
+  DELETE FROM public.application_reviewer_assignments ara
+  WHERE ara.program_id = p_program_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.reviewers r
+      WHERE r.scope_type = 'program'
+        AND r.scope_id = p_program_id
+        AND r.status = 'active'
+        AND r.user_id = ara.reviewer_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.application_reviews rev
+      WHERE rev.application_id = ara.application_id
+        AND rev.reviewer_id = ara.reviewer_id
+        AND rev.status = 'submitted'
+    );
+  GET DIAGNOSTICS _removed = ROW_COUNT;
+
+  FOR _app IN
+    SELECT id FROM public.applications
+    WHERE program_id = p_program_id AND status = 'submitted'
+    ORDER BY submitted_at NULLS LAST, created_at
+  LOOP
+    _added := _added + public.assign_application_reviewers_v1(_app.id);
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'removed', _removed, 'added', _added);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rebalance_program_assignments_v1(uuid) TO authenticated;
+
+-- ============================================
+-- TRIGGER: Assign reviewers as soon as an application is submitted
+-- ============================================
+CREATE OR REPLACE FUNCTION public.app_auto_assign_reviewers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'submitted' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.status = 'submitted' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.assign_application_reviewers_v1(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS applications_auto_assign_reviewers ON public.applications;
+CREATE TRIGGER applications_auto_assign_reviewers
+  AFTER INSERT OR UPDATE OF status ON public.applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.app_auto_assign_reviewers();
+
+-- ============================================
+-- May this user open or review this application under its program's
+-- assignment policy? Always true without a policy, and for admins of the
+-- program or its organization.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.review_assignment_allows(
+  p_user_id uuid,
+  p_application_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT COALESCE((p.metadata->'review_assignment'->>'enabled')::boolean, false)
+    OR EXISTS (
+      SELECT 1 FROM public.application_reviewer_assignments ara
+      WHERE ara.application_id = a.id AND ara.reviewer_id = p_user_id
+    )
+    OR EXISTS (SELECT 1 FROM public.profiles prof WHERE prof.id = p_user_id AND prof.role = 'superadmin')
+    OR EXISTS (
+      SELECT 1 FROM public.admins ad
+      WHERE ad.user_id = p_user_id
+        AND ad.status = 'active'
+        AND (
+          (ad.scope_type = 'org' AND ad.scope_id = p.organization_id)
+          OR (ad.scope_type = 'program' AND ad.scope_id = p.id)
+        )
+    )
+  FROM public.applications a
+  JOIN public.programs p ON p.id = a.program_id
+  WHERE a.id = p_application_id;
+$$;
+
+-- Internal: callers could otherwise probe other reviewers' assignments
+REVOKE EXECUTE ON FUNCTION public.review_assignment_allows(uuid, uuid) FROM PUBLIC;
+
+-- ============================================
+-- Review loader that only opens assigned applications
+-- (same as add_blind_review.sql plus the assignment check)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.review_get_v1(
+  p_application_id uuid
+)
+RETURNS TABLE (
+  application_id uuid,
+  program_id uuid,
+  applicant_answers jsonb,
+  application_schema jsonb,
+  review jsonb,
+  identity_hidden boolean,
+  anonymous_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_review jsonb;
+  v_hidden boolean;
+BEGIN
+  IF NOT public.review_assignment_allows(auth.uid(), p_application_id) THEN
+    RAISE EXCEPTION 'This application is not assigned to you';
+  END IF;
+
+  -- Get the most recent review for this application (collaborative - any reviewer)
+  SELECT jsonb_build_object(
+    'id', ar.id,
+    'application_id', ar.application_id,
+    'reviewer_id', ar.reviewer_id,
+    'reviewer_name', COALESCE(prof.full_name, 'Unknown'),
+    'score', ar.score,
+    'comments', ar.comments,
+    'ratings', ar.ratings,
+    'status', ar.status,
+    'submitted_at', ar.submitted_at,
+    'updated_at', ar.updated_at,
+    'created_at', ar.created_at,
+    'decision', ar.decision
+  ) INTO v_review
+  FROM public.application_reviews ar
+  LEFT JOIN public.profiles prof ON prof.id = ar.reviewer_id
+  WHERE ar.application_id = p_application_id
+  ORDER BY ar.updated_at DESC, ar.created_at DESC
+  LIMIT 1;
+
+  v_hidden := COALESCE(public.blind_review_hides_identity(p_application_id), false);
+
+  RETURN QUERY
+  SELECT
+    a.id AS application_id,
+    a.program_id,
+    CASE WHEN v_hidden
+      THEN public.blind_review_redact_answers(a.answers, p.metadata->'review_form'->'blind_review')
+      ELSE a.answers
+    END AS applicant_answers,
+    COALESCE(p.metadata->'application_schema', '{}'::jsonb) AS application_schema,
+    COALESCE(v_review, '{}'::jsonb) AS review,
+    v_hidden AS identity_hidden,
+    public.blind_review_code(a.id) AS anonymous_code
+  FROM public.applications a
+  JOIN public.programs p ON p.id = a.program_id
+  WHERE a.id = p_application_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_get_v1(uuid) TO authenticated;
+
+-- ============================================
+-- Review lists that only show assigned applications
+-- (same as add_blind_review.sql plus the assignment filter)
+-- ============================================
+DROP FUNCTION IF EXISTS public.reviews_list_v1(boolean, text, uuid, uuid, integer, integer);
+
+CREATE FUNCTION public.reviews_list_v1(
+  p_mine_only boolean DEFAULT false,
+  p_status text DEFAULT NULL,
+  p_program_id uuid DEFAULT NULL,
+  p_org_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 1000,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  review_id text,
+  application_id uuid,
+  status text,
+  score integer,
+  updated_at timestamptz,
+  submitted_at timestamptz,
+  comments text,
+  ratings jsonb,
+  reviewer_id uuid,
+  reviewer_name text,
+  applicant_id uuid,
+  applicant_name text,
+  program_id uuid,
+  program_name text,
+  org_id uuid,
+  org_name text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_is_admin boolean;
+  v_is_reviewer boolean;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User must be authenticated';
+  END IF;
+
+  -- Check if user is an admin (org-level or program-level)
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.admins a
+    WHERE a.user_id = v_user_id
+      AND a.status = 'active'
+      AND (
+        (a.scope_type = 'org' AND (p_org_id IS NULL OR a.scope_id = p_org_id))
+        OR (a.scope_type = 'program' AND (p_program_id IS NULL OR a.scope_id = p_program_id))
+      )
+  ) INTO v_is_admin;
+
+  -- Check if user is a reviewer for the program
+  IF p_program_id IS NOT NULL THEN
+    SELECT EXISTS (
+      SELECT 1
+      FROM public.reviewers r
+      WHERE r.user_id = v_user_id
+        AND r.scope_type = 'program'
+        AND r.scope_id = p_program_id
+        AND r.status = 'active'
+    ) INTO v_is_reviewer;
+  ELSE
+    v_is_reviewer := EXISTS (
+      SELECT 1
+      FROM public.reviewers r
+      WHERE r.user_id = v_user_id
+        AND r.status = 'active'
+    );
+  END IF;
+
+  -- If not admin and not reviewer, deny access
+  IF NOT v_is_admin AND NOT v_is_reviewer THEN
+    RAISE EXCEPTION 'Not authorized to view reviews';
+  END IF;
+
+  RETURN QUERY
+  WITH assigned_applications AS (
+    -- For reviewers: Get ALL submitted applications for programs they're assigned to
+    -- If p_mine_only is true, only include applications where user has a review
+    SELECT DISTINCT a.id AS app_id
+    FROM public.applications a
+    WHERE a.status = 'submitted'
+      AND (
+        -- If user is admin, see all applications
+        v_is_admin
+        OR
+        -- If user is reviewer, see applications for programs they're assigned to
+        (v_is_reviewer AND EXISTS (
+          SELECT 1
+          FROM public.reviewers r
+          WHERE r.user_id = v_user_id
+            AND r.scope_type = 'program'
+            AND r.scope_id = a.program_id
+            AND r.status = 'active'
+        ))
+      )
+      AND (p_program_id IS NULL OR a.program_id = p_program_id)
+      AND (p_org_id IS NULL OR EXISTS (
+        SELECT 1 FROM public.programs p
+        WHERE p.id = a.program_id AND p.organization_id = p_org_id
+      ))
+      -- Under an assignment policy reviewers only see their assignments
+      AND public.review_assignment_allows(v_user_id, a.id)
+      -- If p_mine_only is true, only include applications where user has a review
+      AND (
+        p_mine_only = false
+        OR EXISTS (
+          SELECT 1 FROM public.application_reviews ar
+          WHERE ar.application_id = a.id AND ar.reviewer_id = v_user_id
+        )
+      )
+  ),
+  existing_reviews AS (
+    -- Get existing reviews for these applications
+    -- If p_mine_only is true, only get current user's reviews
+    -- If false, get the most recent review (prioritizing current user's if exists)
+    SELECT DISTINCT ON (ar.application_id)
+      ar.id::text AS review_id,
+      ar.application_id,
+      ar.status,
+      ar.score,
+      ar.updated_at,
+      ar.submitted_at,
+      ar.comments,
+      ar.ratings,
+      ar.reviewer_id,
+      COALESCE(prof_reviewer.full_name, 'Unknown') AS reviewer_name
+    FROM public.application_reviews ar
+    JOIN assigned_applications aa ON aa.app_id = ar.application_id
+    LEFT JOIN public.profiles prof_reviewer ON prof_reviewer.id = ar.reviewer_id
+    WHERE (p_mine_only = false OR ar.reviewer_id = v_user_id)
+      AND (p_status IS NULL OR ar.status = p_status)
+    ORDER BY 
+      ar.application_id,
+      -- Prioritize current user's review if p_mine_only is false
+      CASE WHEN p_mine_only = false AND ar.reviewer_id = v_user_id THEN 0 ELSE 1 END,
+      ar.updated_at DESC
+  )
+  SELECT 
+    COALESCE(er.review_id, 'not_started_' || aa.app_id::text) AS review_id,
+    aa.app_id AS application_id,
+    COALESCE(er.status, 'not_started') AS status,
+    er.score,
+    COALESCE(er.updated_at, a.updated_at) AS updated_at,
+    -- Always use application's submitted_at (when the application was submitted)
+    COALESCE(a.submitted_at, a.updated_at) AS submitted_at,
+    er.comments,
+    er.ratings,
+    er.reviewer_id,
+    COALESCE(er.reviewer_name, '') AS reviewer_name,
+    CASE WHEN bl.hidden THEN NULL ELSE a.user_id END AS applicant_id,
+    CASE WHEN bl.hidden
+      THEN public.blind_review_code(a.id)
+      ELSE COALESCE(prof_applicant.full_name, '—')
+    END AS applicant_name,
+    a.program_id,
+    p.name AS program_name,
+    p.organization_id AS org_id,
+    o.name AS org_name
+  FROM assigned_applications aa
+  JOIN public.applications a ON a.id = aa.app_id
+  JOIN public.programs p ON p.id = a.program_id
+  JOIN public.organizations o ON o.id = p.organization_id
+  LEFT JOIN public.profiles prof_applicant ON prof_applicant.id = a.user_id
+  LEFT JOIN existing_reviews er ON er.application_id = aa.app_id
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(public.blind_review_hides_identity(a.id), false) AS hidden
+  ) bl
+  ORDER BY COALESCE(er.updated_at, a.submitted_at, a.updated_at) DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reviews_list_v1(boolean, text, uuid, uuid, integer, integer) TO authenticated;
+
+-- ============================================
+-- Block reviews of unassigned applications. A trigger on the reviews table
+-- covers app_upsert_review_v1 and any other write path.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.app_block_unassigned_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND NOT public.review_assignment_allows(auth.uid(), NEW.application_id) THEN
+    RAISE EXCEPTION 'This application is not assigned to you'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS application_reviews_block_unassigned ON public.application_reviews;
+CREATE TRIGGER application_reviews_block_unassigned
+  BEFORE INSERT OR UPDATE ON public.application_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.app_block_unassigned_review();
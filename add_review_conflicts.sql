@@ -0,0 +1,353 @@
+-- ============================================
+-- REVIEWER CONFLICTS OF INTEREST
+-- A conflict ties a reviewer to one application, to an applicant's account,
+-- or to an applicant's email address, across the whole organization.
+-- Reviewers declare their own from the review queue; org admins can
+-- pre-declare conflicts for anyone on the team.
+--
+-- Conflicted reviewers can't open or save reviews for those applications,
+-- and automatic assignment skips them.
+--
+-- Requires add_review_assignments.sql: apply that file first. This file
+-- replaces its placeholder is_review_conflicted with the real check.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.review_conflicts (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  reviewer_id uuid NOT NULL,
+  application_id uuid REFERENCES public.applications(id) ON DELETE CASCADE,
+  applicant_id uuid,
+  applicant_email text,
+  reason text,
+  declared_by uuid NOT NULL DEFAULT auth.uid(),
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  CONSTRAINT review_conflicts_target_check CHECK (
+    application_id IS NOT NULL OR applicant_id IS NOT NULL OR applicant_email IS NOT NULL
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_conflicts_reviewer_id
+ON public.review_conflicts(reviewer_id);
+
+CREATE INDEX IF NOT EXISTS idx_review_conflicts_organization_id
+ON public.review_conflicts(organization_id);
+
+COMMENT ON TABLE public.review_conflicts IS 'Reviewer conflicts of interest with applications or applicants';
+
+-- ============================================
+-- Can the current user declare a conflict in this organization (and for
+-- this application)? Checked as definer so reviewers' own RLS on
+-- applications and programs doesn't hide the rows.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.can_declare_review_conflict(
+  p_org_id uuid,
+  p_application_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.reviewers r
+    JOIN public.programs p ON p.id = r.scope_id
+    WHERE r.user_id = auth.uid()
+      AND r.scope_type = 'program'
+      AND r.status = 'active'
+      AND p.organization_id = p_org_id
+      AND (
+        p_application_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM public.applications a
+          WHERE a.id = p_application_id AND a.program_id = p.id
+        )
+      )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.can_declare_review_conflict(uuid, uuid) TO authenticated;
+
+-- Enable RLS
+ALTER TABLE public.review_conflicts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Reviewers can read own conflicts" ON public.review_conflicts;
+DROP POLICY IF EXISTS "Reviewers can declare own conflicts" ON public.review_conflicts;
+DROP POLICY IF EXISTS "Org admins can manage conflicts" ON public.review_conflicts;
+
+CREATE POLICY "Reviewers can read own conflicts"
+ON public.review_conflicts FOR SELECT
+TO authenticated
+USING (reviewer_id = auth.uid());
+
+-- Only for an organization the reviewer actively reviews for, and for an
+-- application in one of their own programs (see can_declare_review_conflict)
+CREATE POLICY "Reviewers can declare own conflicts"
+ON public.review_conflicts FOR INSERT
+TO authenticated
+WITH CHECK (
+  reviewer_id = auth.uid()
+  AND declared_by = auth.uid()
+  AND public.can_declare_review_conflict(organization_id, application_id)
+);
+
+-- Only admins can lift a conflict
+CREATE POLICY "Org admins can manage conflicts"
+ON public.review_conflicts FOR ALL
+TO authenticated
+USING (is_org_admin_safe(auth.uid(), organization_id))
+WITH CHECK (is_org_admin_safe(auth.uid(), organization_id));
+
+-- ============================================
+-- Does this reviewer have a conflict with this application?
+-- ============================================
+CREATE OR REPLACE FUNCTION public.is_review_conflicted(
+  p_reviewer_id uuid,
+  p_application_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.applications a
+    JOIN public.programs p ON p.id = a.program_id
+    LEFT JOIN auth.users u ON u.id = a.user_id
+    JOIN public.review_conflicts c
+      ON c.reviewer_id = p_reviewer_id
+     AND c.organization_id = p.organization_id
+    WHERE a.id = p_application_id
+      AND (
+        c.application_id = a.id
+        OR c.applicant_id = a.user_id
+        OR lower(c.applicant_email) = lower(u.email)
+      )
+  );
+$$;
+
+-- Internal: callers could otherwise probe other reviewers' conflicts
+REVOKE EXECUTE ON FUNCTION public.is_review_conflicted(uuid, uuid) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.my_review_conflict_v1(p_application_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_review_conflicted(auth.uid(), p_application_id);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.my_review_conflict_v1(uuid) TO authenticated;
+
+-- Applications in a program the current user is conflicted with
+CREATE OR REPLACE FUNCTION public.my_conflicted_applications_v1(p_program_id uuid)
+RETURNS TABLE (application_id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.id
+  FROM public.applications a
+  WHERE a.program_id = p_program_id
+    AND public.is_review_conflicted(auth.uid(), a.id);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.my_conflicted_applications_v1(uuid) TO authenticated;
+
+-- ============================================
+-- Org admin list, with email conflicts resolved to applicant accounts
+-- ============================================
+CREATE OR REPLACE FUNCTION public.org_list_review_conflicts_v1(p_org_id uuid)
+RETURNS TABLE (
+  id uuid,
+  reviewer_id uuid,
+  reviewer_name text,
+  reviewer_email text,
+  application_id uuid,
+  applicant_id uuid,
+  applicant_email text,
+  applicant_name text,
+  reason text,
+  declared_by uuid,
+  declared_by_reviewer boolean,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_org_admin_safe(auth.uid(), p_org_id) THEN
+    RAISE EXCEPTION 'Only org admins can list conflicts';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.reviewer_id,
+    rp.full_name,
+    ru.email::text,
+    c.application_id,
+    COALESCE(c.applicant_id, app.user_id, au.id),
+    COALESCE(c.applicant_email, au.email::text, apu.email::text),
+    COALESCE(ap.full_name, aap.full_name),
+    c.reason,
+    c.declared_by,
+    c.declared_by = c.reviewer_id,
+    c.created_at
+  FROM public.review_conflicts c
+  LEFT JOIN public.profiles rp ON rp.id = c.reviewer_id
+  LEFT JOIN auth.users ru ON ru.id = c.reviewer_id
+  LEFT JOIN public.applications app ON app.id = c.application_id
+  LEFT JOIN auth.users au
+    ON (c.applicant_id IS NOT NULL AND au.id = c.applicant_id)
+    OR (c.applicant_id IS NULL AND lower(au.email) = lower(c.applicant_email))
+  LEFT JOIN auth.users apu ON apu.id = app.user_id
+  LEFT JOIN public.profiles ap ON ap.id = au.id
+  LEFT JOIN public.profiles aap ON aap.id = app.user_id
+  WHERE c.organization_id = p_org_id
+  ORDER BY c.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.org_list_review_conflicts_v1(uuid) TO authenticated;
+
+-- ============================================
+-- TRIGGER: A new conflict takes the reviewer off affected applications
+-- and hands them to someone else under the assignment policy
+-- ============================================
+CREATE OR REPLACE FUNCTION public.app_apply_review_conflict()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _app record;
+BEGIN
+  FOR _app IN
+    SELECT ara.id, ara.application_id
+    FROM public.application_reviewer_assignments ara
+    JOIN public.programs p ON p.id = ara.program_id
+    WHERE ara.reviewer_id = NEW.reviewer_id
+      AND p.organization_id = NEW.organization_id
+      AND public.is_review_conflicted(NEW.reviewer_id, ara.application_id)
+  LOOP
+    DELETE FROM public.application_reviewer_assignments WHERE id = _app.id;
+    PERFORM public.assign_application_reviewers_v1(_app.application_id);
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS review_conflicts_apply ON public.review_conflicts;
+CREATE TRIGGER review_conflicts_apply
+  AFTER INSERT ON public.review_conflicts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.app_apply_review_conflict();
+
+-- ============================================
+-- Block conflicted reviewers from opening an application
+-- (same as add_review_assignments.sql plus the conflict check)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.review_get_v1(
+  p_application_id uuid
+)
+RETURNS TABLE (
+  application_id uuid,
+  program_id uuid,
+  applicant_answers jsonb,
+  application_schema jsonb,
+  review jsonb,
+  identity_hidden boolean,
+  anonymous_code text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_review jsonb;
+  v_hidden boolean;
+BEGIN
+  IF public.is_review_conflicted(auth.uid(), p_application_id) THEN
+    RAISE EXCEPTION 'You declared a conflict of interest with this application';
+  END IF;
+  IF NOT public.review_assignment_allows(auth.uid(), p_application_id) THEN
+    RAISE EXCEPTION 'This application is not assigned to you';
+  END IF;
+
+  -- Get the most recent review for this application (collaborative - any reviewer)
+  SELECT jsonb_build_object(
+    'id', ar.id,
+    'application_id', ar.application_id,
+    'reviewer_id', ar.reviewer_id,
+    'reviewer_name', COALESCE(prof.full_name, 'Unknown'),
+    'score', ar.score,
+    'comments', ar.comments,
+    'ratings', ar.ratings,
+    'status', ar.status,
+    'submitted_at', ar.submitted_at,
+    'updated_at', ar.updated_at,
+    'created_at', ar.created_at,
+    'decision', ar.decision
+  ) INTO v_review
+  FROM public.application_reviews ar
+  LEFT JOIN public.profiles prof ON prof.id = ar.reviewer_id
+  WHERE ar.application_id = p_application_id
+  ORDER BY ar.updated_at DESC, ar.created_at DESC
+  LIMIT 1;
+
+  v_hidden := COALESCE(public.blind_review_hides_identity(p_application_id), false);
+
+  RETURN QUERY
+  SELECT
+    a.id AS application_id,
+    a.program_id,
+    CASE WHEN v_hidden
+      THEN public.blind_review_redact_answers(a.answers, p.metadata->'review_form'->'blind_review')
+      ELSE a.answers
+    END AS applicant_answers,
+    COALESCE(p.metadata->'application_schema', '{}'::jsonb) AS application_schema,
+    COALESCE(v_review, '{}'::jsonb) AS review,
+    v_hidden AS identity_hidden,
+    public.blind_review_code(a.id) AS anonymous_code
+  FROM public.applications a
+  JOIN public.programs p ON p.id = a.program_id
+  WHERE a.id = p_application_id;
+END;
+$$;
+
+-- ============================================
+-- Block conflicted reviewers from scoring. A trigger on the reviews table
+-- covers app_upsert_review_v1 and any other write path.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.app_block_conflicted_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND public.is_review_conflicted(auth.uid(), NEW.application_id) THEN
+    RAISE EXCEPTION 'You declared a conflict of interest with this application'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS application_reviews_block_conflicts ON public.application_reviews;
+CREATE TRIGGER application_reviews_block_conflicts
+  BEFORE INSERT OR UPDATE ON public.application_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.app_block_conflicted_review();
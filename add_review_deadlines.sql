@@ -0,0 +1,434 @@
+-- ============================================
+-- REVIEW DEADLINES, PROGRESS AND REMINDERS
+-- A program can set a review deadline and automatic reminders in metadata:
+--   "review_deadline": "<ISO timestamp>",
+--   "review_reminders": { "auto": true, "days_before": 3, "every_days": 2 }
+-- With auto on, reviewers who still have reviews pending get a
+-- 'review_reminder' notification starting days_before the deadline, and
+-- again every every_days until they are done. Org admins can also nudge
+-- reviewers by hand from the Review Progress page.
+--
+-- A reviewer's pending work is every application assigned to them
+-- (add_review_assignments.sql) or that they started reviewing, whose review
+-- they haven't finalized. Reviews are collaborative, so "started" and
+-- "finalized" also count edits recorded in review_history
+-- (add_review_history.sql).
+--
+-- Notifications are emailed by the email-on-notification function.
+-- Automatic reminders need pg_cron (see the end of this file).
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.review_reminders (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  program_id uuid NOT NULL REFERENCES public.programs(id) ON DELETE CASCADE,
+  reviewer_id uuid NOT NULL,
+  -- NULL when sent by the schedule
+  sent_by uuid,
+  pending_count integer NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_reminders_program_reviewer
+ON public.review_reminders(program_id, reviewer_id, created_at);
+
+COMMENT ON TABLE public.review_reminders IS 'Log of review reminder nudges, used to throttle automatic reminders';
+
+-- Enable RLS
+ALTER TABLE public.review_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org admins can read review reminders" ON public.review_reminders;
+
+CREATE POLICY "Org admins can read review reminders"
+ON public.review_reminders FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.programs p
+    WHERE p.id = program_id
+      AND is_org_admin_safe(auth.uid(), p.organization_id)
+  )
+);
+
+-- Rows are only written by the functions below
+
+-- ============================================
+-- Per-reviewer progress for a program (internal; no permission check)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.review_progress_for_program(
+  p_program_id uuid
+)
+RETURNS TABLE (
+  reviewer_id uuid,
+  reviewer_name text,
+  assigned integer,
+  drafted integer,
+  finalized integer,
+  pending integer,
+  overdue integer,
+  last_reminded_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH prog AS (
+    SELECT
+      p.id,
+      p.organization_id,
+      NULLIF(p.metadata->>'review_deadline', '')::timestamptz AS deadline
+    FROM public.programs p
+    WHERE p.id = p_program_id
+  ),
+  team AS (
+    SELECT DISTINCT r.user_id
+    FROM public.reviewers r, prog
+    WHERE r.status = 'active'
+      AND (
+        (r.scope_type = 'program' AND r.scope_id = prog.id)
+        OR (r.scope_type = 'org' AND r.scope_id = prog.organization_id)
+      )
+  ),
+  pairs AS (
+    SELECT a.reviewer_id, a.application_id, true AS is_assigned
+    FROM public.application_reviewer_assignments a
+    WHERE a.program_id = p_program_id
+    UNION
+    SELECT ar.reviewer_id, ar.application_id, false
+    FROM public.application_reviews ar
+    JOIN public.applications ap ON ap.id = ar.application_id
+    WHERE ap.program_id = p_program_id AND ar.reviewer_id IS NOT NULL
+    UNION
+    SELECT h.actor_id, h.application_id, false
+    FROM public.review_history h
+    WHERE h.program_id = p_program_id AND h.actor_id IS NOT NULL
+  ),
+  pair_status AS (
+    SELECT
+      p.reviewer_id,
+      p.application_id,
+      bool_or(p.is_assigned) AS is_assigned,
+      CASE
+        WHEN EXISTS (
+          SELECT 1 FROM public.application_reviews ar
+          WHERE ar.application_id = p.application_id
+            AND ar.reviewer_id = p.reviewer_id
+            AND ar.status = 'submitted'
+        ) OR (
+          EXISTS (
+            SELECT 1 FROM public.review_history h
+            WHERE h.application_id = p.application_id
+              AND h.actor_id = p.reviewer_id
+              AND h.action = 'finalize'
+          )
+          AND EXISTS (
+            SELECT 1 FROM public.application_reviews ar
+            WHERE ar.application_id = p.application_id AND ar.status = 'submitted'
+          )
+        ) THEN 'finalized'
+        WHEN EXISTS (
+          SELECT 1 FROM public.application_reviews ar
+          WHERE ar.application_id = p.application_id AND ar.reviewer_id = p.reviewer_id
+        ) OR EXISTS (
+          SELECT 1 FROM public.review_history h
+          WHERE h.application_id = p.application_id AND h.actor_id = p.reviewer_id
+        ) THEN 'drafted'
+        ELSE 'not_started'
+      END AS status
+    FROM pairs p
+    WHERE p.reviewer_id IN (SELECT user_id FROM team)
+    GROUP BY p.reviewer_id, p.application_id
+  )
+  SELECT
+    t.user_id,
+    COALESCE(prof.full_name, u.email::text),
+    (count(*) FILTER (WHERE ps.is_assigned))::integer,
+    (count(*) FILTER (WHERE ps.status = 'drafted'))::integer,
+    (count(*) FILTER (WHERE ps.status = 'finalized'))::integer,
+    (count(*) FILTER (WHERE ps.status <> 'finalized'))::integer,
+    (CASE
+      WHEN prog.deadline < now()
+        THEN count(*) FILTER (WHERE ps.status <> 'finalized')
+      ELSE 0
+    END)::integer,
+    (
+      SELECT max(rr.created_at) FROM public.review_reminders rr
+      WHERE rr.program_id = p_program_id AND rr.reviewer_id = t.user_id
+    )
+  FROM team t
+  CROSS JOIN prog
+  LEFT JOIN pair_status ps ON ps.reviewer_id = t.user_id
+  LEFT JOIN public.profiles prof ON prof.id = t.user_id
+  LEFT JOIN auth.users u ON u.id = t.user_id
+  GROUP BY t.user_id, prof.full_name, u.email, prog.deadline;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_progress_for_program(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.review_progress_for_program(uuid) FROM authenticated;
+
+-- ============================================
+-- Org admin: per-reviewer progress
+-- ============================================
+CREATE OR REPLACE FUNCTION public.org_review_progress_v1(
+  p_program_id uuid
+)
+RETURNS TABLE (
+  reviewer_id uuid,
+  reviewer_name text,
+  assigned integer,
+  drafted integer,
+  finalized integer,
+  pending integer,
+  overdue integer,
+  last_reminded_at timestamp with time zone
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid;
+BEGIN
+  SELECT organization_id INTO _org_id FROM public.programs WHERE id = p_program_id;
+  IF _org_id IS NULL OR NOT is_org_admin_safe(auth.uid(), _org_id) THEN
+    RAISE EXCEPTION 'Only org admins can view review progress';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.review_progress_for_program(p_program_id) rp
+  ORDER BY rp.pending DESC, rp.reviewer_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.org_review_progress_v1(uuid) TO authenticated;
+
+-- ============================================
+-- Org admin: applications submitted vs. finalized per day, for a burndown.
+-- An application counts as finalized from its first finalize, as long as
+-- its review is still finalized now.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.org_review_burndown_v1(
+  p_program_id uuid
+)
+RETURNS TABLE (
+  day date,
+  submitted integer,
+  finalized integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid;
+BEGIN
+  SELECT organization_id INTO _org_id FROM public.programs WHERE id = p_program_id;
+  IF _org_id IS NULL OR NOT is_org_admin_safe(auth.uid(), _org_id) THEN
+    RAISE EXCEPTION 'Only org admins can view review progress';
+  END IF;
+
+  RETURN QUERY
+  WITH apps AS (
+    SELECT
+      COALESCE(a.submitted_at, a.updated_at)::date AS submitted_day,
+      (
+        SELECT min(ar.submitted_at) FROM public.application_reviews ar
+        WHERE ar.application_id = a.id AND ar.status = 'submitted'
+      ) AS review_submitted_at,
+      (
+        SELECT min(h.created_at) FROM public.review_history h
+        WHERE h.application_id = a.id AND h.action = 'finalize'
+      ) AS first_finalized_at
+    FROM public.applications a
+    WHERE a.program_id = p_program_id AND a.status <> 'draft'
+  ),
+  days AS (
+    SELECT generate_series(
+      (SELECT min(submitted_day) FROM apps),
+      current_date,
+      interval '1 day'
+    )::date AS d
+  )
+  SELECT
+    days.d,
+    (SELECT count(*) FROM apps WHERE apps.submitted_day <= days.d)::integer,
+    (
+      SELECT count(*) FROM apps
+      WHERE apps.review_submitted_at IS NOT NULL
+        AND COALESCE(apps.first_finalized_at, apps.review_submitted_at)::date <= days.d
+    )::integer
+  FROM days
+  ORDER BY days.d;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.org_review_burndown_v1(uuid) TO authenticated;
+
+-- ============================================
+-- Send reminders to reviewers with pending reviews (internal).
+-- p_reviewer_ids NULL means everyone with pending reviews.
+-- Returns how many reviewers were reminded.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.send_review_reminders(
+  p_program_id uuid,
+  p_reviewer_ids uuid[],
+  p_sent_by uuid
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _program_name text;
+  _deadline timestamptz;
+  _row record;
+  _message text;
+  _sent integer := 0;
+BEGIN
+  SELECT p.name, NULLIF(p.metadata->>'review_deadline', '')::timestamptz
+  INTO _program_name, _deadline
+  FROM public.programs p WHERE p.id = p_program_id;
+
+  FOR _row IN
+    SELECT * FROM public.review_progress_for_program(p_program_id) rp
+    WHERE rp.pending > 0
+      AND (p_reviewer_ids IS NULL OR rp.reviewer_id = ANY(p_reviewer_ids))
+  LOOP
+    _message := format(
+      'You have %s application%s left to review for %s.',
+      _row.pending,
+      CASE WHEN _row.pending = 1 THEN '' ELSE 's' END,
+      _program_name
+    );
+    IF _deadline IS NOT NULL AND _deadline < now() THEN
+      _message := _message || format(
+        ' The review deadline (%s) has passed.', to_char(_deadline, 'FMMonth FMDD, YYYY'));
+    ELSIF _deadline IS NOT NULL THEN
+      _message := _message || format(
+        ' Reviews are due %s.', to_char(_deadline, 'FMMonth FMDD, YYYY'));
+    END IF;
+
+    INSERT INTO public.notifications(user_id, type, title, message, data)
+    VALUES (
+      _row.reviewer_id,
+      'review_reminder',
+      'Reviews waiting for you',
+      _message,
+      jsonb_build_object(
+        'program_id', p_program_id,
+        'program_name', _program_name,
+        'pending', _row.pending,
+        'overdue', _row.overdue,
+        'deadline', _deadline
+      )
+    );
+
+    INSERT INTO public.review_reminders(program_id, reviewer_id, sent_by, pending_count)
+    VALUES (p_program_id, _row.reviewer_id, p_sent_by, _row.pending);
+
+    _sent := _sent + 1;
+  END LOOP;
+
+  RETURN _sent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_review_reminders(uuid, uuid[], uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.send_review_reminders(uuid, uuid[], uuid) FROM authenticated;
+
+-- Org admin: remind chosen reviewers (or everyone lagging) right now
+CREATE OR REPLACE FUNCTION public.org_send_review_reminders_v1(
+  p_program_id uuid,
+  p_reviewer_ids uuid[] DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid;
+BEGIN
+  SELECT organization_id INTO _org_id FROM public.programs WHERE id = p_program_id;
+  IF _org_id IS NULL OR NOT is_org_admin_safe(auth.uid(), _org_id) THEN
+    RAISE EXCEPTION 'Only org admins can send review reminders';
+  END IF;
+
+  RETURN public.send_review_reminders(p_program_id, p_reviewer_ids, auth.uid());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.org_send_review_reminders_v1(uuid, uuid[]) TO authenticated;
+
+-- ============================================
+-- Automatic reminders for every program that has them turned on.
+-- Run by pg_cron; returns how many reviewers were reminded.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.send_scheduled_review_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _program record;
+  _deadline timestamptz;
+  _days_before integer;
+  _every_days integer;
+  _due uuid[];
+  _total integer := 0;
+BEGIN
+  FOR _program IN
+    SELECT p.id, p.metadata
+    FROM public.programs p
+    WHERE p.deleted_at IS NULL
+      AND COALESCE((p.metadata->'review_reminders'->>'auto')::boolean, false)
+      AND NULLIF(p.metadata->>'review_deadline', '') IS NOT NULL
+  LOOP
+    _deadline := (_program.metadata->>'review_deadline')::timestamptz;
+    _days_before := COALESCE((_program.metadata->'review_reminders'->>'days_before')::integer, 3);
+    _every_days := GREATEST(COALESCE((_program.metadata->'review_reminders'->>'every_days')::integer, 2), 1);
+
+    CONTINUE WHEN now() < _deadline - make_interval(days => _days_before);
+
+    SELECT array_agg(rp.reviewer_id) INTO _due
+    FROM public.review_progress_for_program(_program.id) rp
+    WHERE rp.pending > 0
+      AND (
+        rp.last_reminded_at IS NULL
+        -- A little slack so a daily job doesn't skip a day
+        OR rp.last_reminded_at < now() - make_interval(days => _every_days) + interval '1 hour'
+      );
+
+    IF _due IS NOT NULL THEN
+      _total := _total + public.send_review_reminders(_program.id, _due, NULL);
+    END IF;
+  END LOOP;
+
+  RETURN _total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_scheduled_review_reminders() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.send_scheduled_review_reminders() FROM authenticated;
+
+-- ============================================
+-- SCHEDULE (daily at 14:00 UTC)
+-- Needs the pg_cron extension (Database → Extensions). If it wasn't
+-- enabled when this file ran, enable it and run this block again.
+-- ============================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'send-review-reminders',
+      '0 14 * * *',
+      'SELECT public.send_scheduled_review_reminders()'
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron is not enabled; automatic review reminders will not be sent';
+  END IF;
+END $$;
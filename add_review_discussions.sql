@@ -0,0 +1,260 @@
+-- ============================================
+-- REVIEWER DISCUSSION THREADS
+-- Internal conversation between reviewers and org admins about one
+-- application. Kept apart from application_reviews.comments, which can be
+-- published to the applicant; nothing here is ever shown to applicants.
+--
+-- Participants: active reviewers of the program (or the whole org) and org
+-- admins, minus anyone with a conflict of interest (add_review_conflicts.sql).
+-- @mentions create a 'review_mention' notification for the mentioned user.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.review_threads (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  application_id uuid NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  created_by uuid NOT NULL DEFAULT auth.uid(),
+  resolved_at timestamp with time zone,
+  resolved_by uuid,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.review_thread_messages (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  thread_id uuid NOT NULL REFERENCES public.review_threads(id) ON DELETE CASCADE,
+  -- Copied from the thread so realtime can filter on it
+  application_id uuid NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  author_id uuid NOT NULL DEFAULT auth.uid(),
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_threads_application_id
+ON public.review_threads(application_id);
+
+CREATE INDEX IF NOT EXISTS idx_review_thread_messages_thread_id
+ON public.review_thread_messages(thread_id);
+
+COMMENT ON TABLE public.review_threads IS 'Internal reviewer discussion threads per application (never shown to applicants)';
+COMMENT ON TABLE public.review_thread_messages IS 'Messages in reviewer discussion threads';
+
+-- ============================================
+-- Who can take part in an application's discussion
+-- ============================================
+CREATE OR REPLACE FUNCTION public.can_discuss_application(
+  p_user_id uuid,
+  p_application_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.applications a
+    JOIN public.programs p ON p.id = a.program_id
+    WHERE a.id = p_application_id
+      AND NOT public.is_review_conflicted(p_user_id, a.id)
+      AND (
+        is_org_admin_safe(p_user_id, p.organization_id)
+        OR EXISTS (
+          SELECT 1 FROM public.reviewers r
+          WHERE r.user_id = p_user_id
+            AND r.status = 'active'
+            AND (
+              (r.scope_type = 'program' AND r.scope_id = p.id)
+              OR (r.scope_type = 'org' AND r.scope_id = p.organization_id)
+            )
+        )
+      )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_discuss_application(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.can_discuss_application(uuid, uuid) TO authenticated;
+
+-- Enable RLS
+ALTER TABLE public.review_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.review_thread_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can read threads" ON public.review_threads;
+DROP POLICY IF EXISTS "Participants can start threads" ON public.review_threads;
+DROP POLICY IF EXISTS "Participants can resolve threads" ON public.review_threads;
+DROP POLICY IF EXISTS "Participants can read messages" ON public.review_thread_messages;
+DROP POLICY IF EXISTS "Participants can post messages" ON public.review_thread_messages;
+
+CREATE POLICY "Participants can read threads"
+ON public.review_threads FOR SELECT
+TO authenticated
+USING (public.can_discuss_application(auth.uid(), application_id));
+
+CREATE POLICY "Participants can start threads"
+ON public.review_threads FOR INSERT
+TO authenticated
+WITH CHECK (
+  created_by = auth.uid()
+  AND public.can_discuss_application(auth.uid(), application_id)
+);
+
+-- Resolving and reopening is the only update (enforced by the trigger below)
+CREATE POLICY "Participants can resolve threads"
+ON public.review_threads FOR UPDATE
+TO authenticated
+USING (public.can_discuss_application(auth.uid(), application_id))
+WITH CHECK (public.can_discuss_application(auth.uid(), application_id));
+
+CREATE OR REPLACE FUNCTION public.app_restrict_review_thread_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.id IS DISTINCT FROM OLD.id
+     OR NEW.application_id IS DISTINCT FROM OLD.application_id
+     OR NEW.created_by IS DISTINCT FROM OLD.created_by
+     OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Threads can only be resolved or reopened';
+  END IF;
+
+  -- The resolver is whoever resolves it, now
+  IF NEW.resolved_at IS NULL THEN
+    NEW.resolved_by := NULL;
+  ELSIF OLD.resolved_at IS NULL THEN
+    NEW.resolved_at := now();
+    NEW.resolved_by := auth.uid();
+  ELSE
+    NEW.resolved_at := OLD.resolved_at;
+    NEW.resolved_by := OLD.resolved_by;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_restrict_review_thread_update ON public.review_threads;
+CREATE TRIGGER trg_restrict_review_thread_update
+  BEFORE UPDATE ON public.review_threads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.app_restrict_review_thread_update();
+
+CREATE POLICY "Participants can read messages"
+ON public.review_thread_messages FOR SELECT
+TO authenticated
+USING (public.can_discuss_application(auth.uid(), application_id));
+
+CREATE POLICY "Participants can post messages"
+ON public.review_thread_messages FOR INSERT
+TO authenticated
+WITH CHECK (
+  author_id = auth.uid()
+  AND public.can_discuss_application(auth.uid(), application_id)
+  AND EXISTS (
+    SELECT 1 FROM public.review_threads t
+    WHERE t.id = thread_id AND t.application_id = review_thread_messages.application_id
+  )
+);
+
+-- Messages are append-only
+
+-- ============================================
+-- People who can be @mentioned on an application
+-- ============================================
+CREATE OR REPLACE FUNCTION public.review_discussion_members_v1(
+  p_application_id uuid
+)
+RETURNS TABLE (user_id uuid, full_name text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _program_id uuid;
+  _org_id uuid;
+BEGIN
+  IF NOT public.can_discuss_application(auth.uid(), p_application_id) THEN
+    RAISE EXCEPTION 'Not allowed to view this discussion';
+  END IF;
+
+  SELECT a.program_id, p.organization_id INTO _program_id, _org_id
+  FROM public.applications a
+  JOIN public.programs p ON p.id = a.program_id
+  WHERE a.id = p_application_id;
+
+  RETURN QUERY
+  SELECT DISTINCT ON (m.uid) m.uid, COALESCE(prof.full_name, u.email::text)
+  FROM (
+    SELECT r.user_id AS uid FROM public.reviewers r
+    WHERE r.status = 'active'
+      AND (
+        (r.scope_type = 'program' AND r.scope_id = _program_id)
+        OR (r.scope_type = 'org' AND r.scope_id = _org_id)
+      )
+    UNION
+    SELECT ad.user_id FROM public.admins ad
+    WHERE ad.status = 'active' AND ad.scope_type = 'org' AND ad.scope_id = _org_id
+  ) m
+  LEFT JOIN public.profiles prof ON prof.id = m.uid
+  LEFT JOIN auth.users u ON u.id = m.uid
+  WHERE NOT public.is_review_conflicted(m.uid, p_application_id)
+  ORDER BY m.uid;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_discussion_members_v1(uuid) TO authenticated;
+
+-- ============================================
+-- TRIGGER: Notify @mentioned teammates
+-- ============================================
+CREATE OR REPLACE FUNCTION public.app_notify_review_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _author_name text;
+  _uid uuid;
+BEGIN
+  IF COALESCE(array_length(NEW.mentions, 1), 0) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(full_name, 'A teammate') INTO _author_name
+  FROM public.profiles WHERE id = NEW.author_id;
+
+  FOREACH _uid IN ARRAY (SELECT array_agg(DISTINCT m) FROM unnest(NEW.mentions) m)
+  LOOP
+    CONTINUE WHEN _uid = NEW.author_id;
+    CONTINUE WHEN NOT public.can_discuss_application(_uid, NEW.application_id);
+
+    INSERT INTO public.notifications(user_id, type, title, message, data)
+    VALUES (
+      _uid,
+      'review_mention',
+      COALESCE(_author_name, 'A teammate') || ' mentioned you in a review discussion',
+      left(NEW.body, 200),
+      jsonb_build_object(
+        'application_id', NEW.application_id,
+        'thread_id', NEW.thread_id,
+        'message_id', NEW.id
+      )
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS review_thread_messages_notify_mentions ON public.review_thread_messages;
+CREATE TRIGGER review_thread_messages_notify_mentions
+  AFTER INSERT ON public.review_thread_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.app_notify_review_mentions();
+
+-- ============================================
+-- ENABLE REALTIME (delivered on the review:<application id> channel)
+-- ============================================
+ALTER PUBLICATION supabase_realtime ADD TABLE public.review_threads;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.review_thread_messages;
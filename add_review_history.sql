@@ -0,0 +1,193 @@
+-- ============================================
+-- REVIEW AUDIT TRAIL
+-- app_upsert_review_v1 overwrites a review in place, and the UI only shows
+-- the last editor. Every change to application_reviews now adds an
+-- immutable history entry with the fields that changed, so org admins can
+-- tell who changed a decision (or score, comments, rubric scores) and when.
+--
+-- Entries are written by a trigger, so every path is covered: reviewer
+-- saves, finalize/unfinalize, and org_set_application_decision_v1.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.review_history (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- No foreign key: history outlives a deleted review
+  review_id uuid NOT NULL,
+  application_id uuid NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  program_id uuid NOT NULL,
+  actor_id uuid,
+  -- Name at the time of the change, so the trail reads the same later
+  actor_name text,
+  -- create | save | finalize | unfinalize | decision
+  action text NOT NULL,
+  -- { field: { "from": old, "to": new } }; rubric scores as "criteria.<id>"
+  changes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_history_application_id
+ON public.review_history(application_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_review_history_program_id
+ON public.review_history(program_id, created_at);
+
+COMMENT ON TABLE public.review_history IS 'Immutable per-field change history of application reviews';
+
+-- Enable RLS (read only; entries are only ever written by the trigger below)
+ALTER TABLE public.review_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Review participants can read history" ON public.review_history;
+
+-- Same people who can see the review discussion (add_review_discussions.sql)
+CREATE POLICY "Review participants can read history"
+ON public.review_history FOR SELECT
+TO authenticated
+USING (public.can_discuss_application(auth.uid(), application_id));
+
+-- Entries can't be edited, not even by SECURITY DEFINER functions
+CREATE OR REPLACE FUNCTION public.app_block_review_history_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Review history entries cannot be changed';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_block_review_history_update ON public.review_history;
+CREATE TRIGGER trg_block_review_history_update
+  BEFORE UPDATE ON public.review_history
+  FOR EACH ROW EXECUTE FUNCTION public.app_block_review_history_update();
+
+-- ============================================
+-- Field-level diff of two review rows
+-- ============================================
+CREATE OR REPLACE FUNCTION public.review_changes(
+  p_old public.application_reviews,
+  p_new public.application_reviews
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _changes jsonb := '{}'::jsonb;
+  _old_ratings jsonb := COALESCE(p_old.ratings, '{}'::jsonb);
+  _new_ratings jsonb := COALESCE(p_new.ratings, '{}'::jsonb);
+  _old_decision text := COALESCE(p_old.decision, _old_ratings->>'decision');
+  _new_decision text := COALESCE(p_new.decision, _new_ratings->>'decision');
+  _key text;
+BEGIN
+  IF p_old.status IS DISTINCT FROM p_new.status THEN
+    _changes := _changes || jsonb_build_object(
+      'status', jsonb_build_object('from', p_old.status, 'to', p_new.status));
+  END IF;
+
+  IF p_old.score IS DISTINCT FROM p_new.score THEN
+    _changes := _changes || jsonb_build_object(
+      'score', jsonb_build_object('from', p_old.score, 'to', p_new.score));
+  END IF;
+
+  IF COALESCE(p_old.comments, '') IS DISTINCT FROM COALESCE(p_new.comments, '') THEN
+    _changes := _changes || jsonb_build_object(
+      'comments', jsonb_build_object('from', p_old.comments, 'to', p_new.comments));
+  END IF;
+
+  IF _old_decision IS DISTINCT FROM _new_decision THEN
+    _changes := _changes || jsonb_build_object(
+      'decision', jsonb_build_object('from', _old_decision, 'to', _new_decision));
+  END IF;
+
+  -- Rubric criterion scores
+  FOR _key IN
+    SELECT k FROM jsonb_object_keys(COALESCE(_old_ratings->'criteria', '{}'::jsonb)) k
+    UNION
+    SELECT k FROM jsonb_object_keys(COALESCE(_new_ratings->'criteria', '{}'::jsonb)) k
+  LOOP
+    IF (_old_ratings->'criteria'->_key) IS DISTINCT FROM (_new_ratings->'criteria'->_key) THEN
+      _changes := _changes || jsonb_build_object(
+        'criteria.' || _key,
+        jsonb_build_object(
+          'from', _old_ratings->'criteria'->_key,
+          'to', _new_ratings->'criteria'->_key));
+    END IF;
+  END LOOP;
+
+  -- Any other ratings keys
+  FOR _key IN
+    SELECT k FROM jsonb_object_keys(_old_ratings) k
+    UNION
+    SELECT k FROM jsonb_object_keys(_new_ratings) k
+  LOOP
+    CONTINUE WHEN _key IN ('decision', 'criteria');
+    IF (_old_ratings->_key) IS DISTINCT FROM (_new_ratings->_key) THEN
+      _changes := _changes || jsonb_build_object(
+        'ratings.' || _key,
+        jsonb_build_object('from', _old_ratings->_key, 'to', _new_ratings->_key));
+    END IF;
+  END LOOP;
+
+  RETURN _changes;
+END;
+$$;
+
+-- ============================================
+-- TRIGGER: Record every review change
+-- ============================================
+CREATE OR REPLACE FUNCTION public.app_record_review_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _empty public.application_reviews;
+  _changes jsonb;
+  _action text;
+  _actor uuid := auth.uid();
+  _actor_name text;
+  _program_id uuid;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    _changes := public.review_changes(_empty, NEW);
+    _action := CASE WHEN NEW.status = 'submitted' THEN 'finalize' ELSE 'create' END;
+  ELSE
+    _changes := public.review_changes(OLD, NEW);
+    -- Autosaves that change nothing aren't worth an entry
+    IF _changes = '{}'::jsonb THEN
+      RETURN NEW;
+    END IF;
+
+    _action := CASE
+      WHEN OLD.status IS DISTINCT FROM 'submitted' AND NEW.status = 'submitted' THEN 'finalize'
+      WHEN OLD.status = 'submitted' AND NEW.status IS DISTINCT FROM 'submitted' THEN 'unfinalize'
+      WHEN (SELECT array_agg(k) FROM jsonb_object_keys(_changes) k) = ARRAY['decision'] THEN 'decision'
+      ELSE 'save'
+    END;
+  END IF;
+
+  SELECT program_id INTO _program_id
+  FROM public.applications WHERE id = NEW.application_id;
+
+  IF _actor IS NOT NULL THEN
+    SELECT COALESCE(p.full_name, u.email::text) INTO _actor_name
+    FROM auth.users u
+    LEFT JOIN public.profiles p ON p.id = u.id
+    WHERE u.id = _actor;
+  END IF;
+
+  INSERT INTO public.review_history(
+    review_id, application_id, program_id, actor_id, actor_name, action, changes
+  )
+  VALUES (
+    NEW.id, NEW.application_id, _program_id, _actor, _actor_name, _action, _changes
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_record_review_history ON public.application_reviews;
+CREATE TRIGGER trg_record_review_history
+  AFTER INSERT OR UPDATE ON public.application_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.app_record_review_history();
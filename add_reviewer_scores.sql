@@ -0,0 +1,96 @@
+-- ============================================
+-- PER-REVIEWER SCORES FOR THE RANKING
+-- app_upsert_review_v1 keeps one shared review row per application, so
+-- application_reviews only ever holds the last score. The inbox ranking
+-- needs every reviewer's score, so it rebuilds them from review_history
+-- (add_review_history.sql, run that first): a reviewer's score is the
+-- review's score right after their latest entry that changed the score or
+-- finalized the review. Saves that leave the score alone don't count.
+--
+-- Example: reviewer A finalizes with 8, reviewer B unfinalizes, changes the
+-- score to 5 and finalizes again. The review row says 5; this returns
+-- A = 8 and B = 5. Had B only edited the comments, this returns A = 8 alone.
+--
+-- Reviews last changed before the history existed have no entries; the
+-- ranking falls back to the review row's score for those.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.org_reviewer_scores_v1(
+  p_program_id uuid
+)
+RETURNS TABLE (
+  application_id uuid,
+  reviewer_id uuid,
+  reviewer_name text,
+  score integer,
+  scored_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid;
+BEGIN
+  SELECT organization_id INTO _org_id FROM public.programs WHERE id = p_program_id;
+  IF _org_id IS NULL OR NOT is_org_admin_safe(auth.uid(), _org_id) THEN
+    RAISE EXCEPTION 'Only org admins can view reviewer scores';
+  END IF;
+
+  RETURN QUERY
+  WITH latest AS (
+    -- Each reviewer's most recent score change or finalize of each
+    -- application's review
+    SELECT DISTINCT ON (h.application_id, h.actor_id)
+      h.application_id,
+      h.review_id,
+      h.actor_id,
+      h.actor_name,
+      h.created_at
+    FROM public.review_history h
+    WHERE h.program_id = p_program_id
+      AND h.actor_id IS NOT NULL
+      AND h.action IN ('create', 'save', 'finalize')
+      AND (h.changes ? 'score' OR h.action = 'finalize')
+    ORDER BY h.application_id, h.actor_id, h.created_at DESC
+  )
+  SELECT
+    l.application_id,
+    l.actor_id,
+    COALESCE(prof.full_name, l.actor_name, 'Unknown'),
+    -- A cleared score is a JSON null and stays null
+    CASE WHEN jsonb_typeof(sc.value) = 'number'
+      THEN (sc.value #>> '{}')::numeric::integer
+    END,
+    l.created_at
+  FROM latest l
+  LEFT JOIN public.application_reviews ar ON ar.id = l.review_id
+  LEFT JOIN public.profiles prof ON prof.id = l.actor_id
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(
+      -- The last score change up to that entry...
+      (SELECT s.changes->'score'->'to'
+       FROM public.review_history s
+       WHERE s.review_id = l.review_id
+         AND s.changes ? 'score'
+         AND s.created_at <= l.created_at
+       ORDER BY s.created_at DESC
+       LIMIT 1),
+      -- ...or, if the score was set before the history began, what the
+      -- next change replaced...
+      (SELECT s.changes->'score'->'from'
+       FROM public.review_history s
+       WHERE s.review_id = l.review_id
+         AND s.changes ? 'score'
+         AND s.created_at > l.created_at
+       ORDER BY s.created_at ASC
+       LIMIT 1),
+      -- ...or the review's score if it never changed since
+      to_jsonb(ar.score)
+    ) AS value
+  ) sc;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.org_reviewer_scores_v1(uuid) TO authenticated;
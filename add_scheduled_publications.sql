@@ -0,0 +1,201 @@
+-- ============================================
+-- SCHEDULED RESULT PUBLICATION
+-- Org admins can queue a publication batch (applications, visibility and
+-- claim deadline) to be released at a future time, e.g. all decisions at
+-- 9:00 AM on a fixed date. Batches stay editable and cancellable until
+-- they are released.
+--
+-- Release runs server-side from pg_cron (see the end of this file), so no
+-- admin needs to be logged in. It calls publish_results_v1 as the admin who
+-- last scheduled or edited the batch, so the usual permission check applies
+-- and the results_published notifications (and their emails) are only
+-- created at release time.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.scheduled_publications (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  program_id uuid NOT NULL REFERENCES public.programs(id) ON DELETE CASCADE,
+  -- Filled in from the program
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  application_ids uuid[] NOT NULL CHECK (cardinality(application_ids) > 0),
+  visibility jsonb NOT NULL DEFAULT jsonb_build_object('decision', true, 'score', false, 'comments', false, 'customMessage', NULL),
+  claim_deadline timestamp with time zone,
+  publish_at timestamp with time zone NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'published', 'cancelled', 'failed')),
+  -- The release publishes as this admin
+  scheduled_by uuid NOT NULL DEFAULT auth.uid(),
+  released_at timestamp with time zone,
+  published_count integer,
+  error text,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  CHECK (claim_deadline IS NULL OR claim_deadline > publish_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_publications_program_id
+ON public.scheduled_publications(program_id);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_publications_due
+ON public.scheduled_publications(publish_at)
+WHERE status = 'pending';
+
+COMMENT ON TABLE public.scheduled_publications IS 'Publication batches queued for release at a future time';
+
+-- Enable RLS
+ALTER TABLE public.scheduled_publications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org admins can read scheduled publications" ON public.scheduled_publications;
+DROP POLICY IF EXISTS "Org admins can schedule publications" ON public.scheduled_publications;
+DROP POLICY IF EXISTS "Org admins can edit pending publications" ON public.scheduled_publications;
+
+CREATE POLICY "Org admins can read scheduled publications"
+ON public.scheduled_publications FOR SELECT
+TO authenticated
+USING (is_org_admin_safe(auth.uid(), organization_id));
+
+CREATE POLICY "Org admins can schedule publications"
+ON public.scheduled_publications FOR INSERT
+TO authenticated
+WITH CHECK (
+  status = 'pending'
+  AND is_org_admin_safe(auth.uid(), organization_id)
+);
+
+-- Only pending batches can be edited, and only cancelled from the client;
+-- released batches are history
+CREATE POLICY "Org admins can edit pending publications"
+ON public.scheduled_publications FOR UPDATE
+TO authenticated
+USING (
+  status = 'pending'
+  AND is_org_admin_safe(auth.uid(), organization_id)
+)
+WITH CHECK (
+  status IN ('pending', 'cancelled')
+  AND is_org_admin_safe(auth.uid(), organization_id)
+);
+
+-- Fill in the organization from the program (so the policies above check
+-- the right org), only accept the program's own applications, keep
+-- updated_at current, and release as whoever last edited a pending batch
+CREATE OR REPLACE FUNCTION public.app_prepare_scheduled_publication()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT organization_id INTO NEW.organization_id
+    FROM public.programs WHERE id = NEW.program_id;
+    NEW.scheduled_by := COALESCE(auth.uid(), NEW.scheduled_by);
+  ELSE
+    NEW.program_id := OLD.program_id;
+    NEW.organization_id := OLD.organization_id;
+    NEW.updated_at := now();
+    IF NEW.status = 'pending' AND auth.uid() IS NOT NULL THEN
+      NEW.scheduled_by := auth.uid();
+    END IF;
+  END IF;
+
+  IF NEW.organization_id IS NULL THEN
+    RAISE EXCEPTION 'Program not found';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM unnest(NEW.application_ids) AS ids(app_id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.applications a
+      WHERE a.id = ids.app_id AND a.program_id = NEW.program_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Scheduled applications must all belong to the program'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_prepare_scheduled_publication ON public.scheduled_publications;
+CREATE TRIGGER trg_prepare_scheduled_publication
+  BEFORE INSERT OR UPDATE ON public.scheduled_publications
+  FOR EACH ROW EXECUTE FUNCTION public.app_prepare_scheduled_publication();
+
+-- ============================================
+-- Release every pending batch that is due (internal, run by pg_cron).
+-- A batch that fails (e.g. its admin lost access) is marked failed with
+-- the error and nothing from it is published.
+-- Returns how many batches were released.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.release_scheduled_publications()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _batch public.scheduled_publications;
+  _count integer;
+  _released integer := 0;
+BEGIN
+  FOR _batch IN
+    SELECT * FROM public.scheduled_publications
+    WHERE status = 'pending' AND publish_at <= now()
+    ORDER BY publish_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      -- publish_results_v1 checks auth.uid(); act as the scheduling admin
+      -- for the rest of this transaction
+      PERFORM set_config('request.jwt.claim.sub', _batch.scheduled_by::text, true);
+      PERFORM set_config(
+        'request.jwt.claims',
+        jsonb_build_object('sub', _batch.scheduled_by, 'role', 'authenticated')::text,
+        true
+      );
+
+      SELECT count(*) INTO _count
+      FROM public.publish_results_v1(
+        _batch.application_ids,
+        _batch.visibility,
+        NULL,
+        _batch.claim_deadline
+      );
+
+      UPDATE public.scheduled_publications
+        SET status = 'published', released_at = now(), published_count = _count, error = NULL
+      WHERE id = _batch.id;
+
+      _released := _released + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.scheduled_publications
+        SET status = 'failed', released_at = now(), error = SQLERRM
+      WHERE id = _batch.id;
+    END;
+  END LOOP;
+
+  RETURN _released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_scheduled_publications() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.release_scheduled_publications() FROM authenticated;
+
+-- ============================================
+-- SCHEDULE (every minute)
+-- Needs the pg_cron extension (Database → Extensions). If it wasn't
+-- enabled when this file ran, enable it and run this block again.
+-- ============================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'release-scheduled-publications',
+      '* * * * *',
+      'SELECT public.release_scheduled_publications()'
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron is not enabled; scheduled publications will not be released';
+  END IF;
+END $$;
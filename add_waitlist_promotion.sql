@@ -0,0 +1,657 @@
+-- ============================================
+-- WAITLIST PROMOTION
+-- Opt-in per program, next to spotClaiming in metadata:
+--   "waitlistPromotion": {
+--     "enabled": true,
+--     "waitlistDecision": "waitlist",
+--     "order": "ranked" | "score",
+--     "ranking": ["<application id>", ...],
+--     "claimDays": 3,
+--     "enabledAt": "<ISO timestamp>"
+--   }
+-- When an offer for the claimable decision is declined, or its claim
+-- deadline passes unclaimed, the next waitlisted applicant is offered the
+-- spot: a new publication with the claimable decision, a fresh claim
+-- deadline (claimDays from now) and a results_published notification.
+-- Each freed offer promotes at most one applicant; in "exact" spots mode
+-- open offers never exceed the remaining spots.
+--
+-- "ranked" follows the admin's ranking, then score for anyone unranked;
+-- "score" uses the mean of the application's finalized review scores.
+-- Only offers freed after enabledAt count, so turning the policy on doesn't
+-- backfill old declines.
+--
+-- Declines promote immediately (trigger below); expired deadlines are
+-- picked up by pg_cron (see the end of this file). Admins can also offer a
+-- spot to a specific waitlisted applicant by hand.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.waitlist_promotions (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  program_id uuid NOT NULL REFERENCES public.programs(id) ON DELETE CASCADE,
+  -- The declined or expired offer this promotion replaces (NULL when manual)
+  freed_publication_id uuid UNIQUE REFERENCES public.application_publications(id) ON DELETE SET NULL,
+  reason text NOT NULL CHECK (reason IN ('declined', 'expired', 'manual')),
+  promoted_application_id uuid NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  promoted_publication_id uuid NOT NULL REFERENCES public.application_publications(id) ON DELETE CASCADE,
+  -- NULL when promoted automatically
+  promoted_by uuid,
+  created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_promotions_program_id
+ON public.waitlist_promotions(program_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_promotions_promoted_application_id
+ON public.waitlist_promotions(promoted_application_id);
+
+COMMENT ON TABLE public.waitlist_promotions IS 'Log of waitlisted applicants offered a spot freed by a decline or expired claim';
+
+-- Enable RLS
+ALTER TABLE public.waitlist_promotions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Org admins can read waitlist promotions" ON public.waitlist_promotions;
+
+-- Written only by the functions below
+CREATE POLICY "Org admins can read waitlist promotions"
+ON public.waitlist_promotions FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.programs p
+    WHERE p.id = program_id
+      AND is_org_admin_safe(auth.uid(), p.organization_id)
+  )
+);
+
+-- ============================================
+-- Claims check the decision the applicant was actually offered (the
+-- publication payload), so a promoted waitlisted applicant can claim.
+-- Otherwise the same as add_spot_claiming.sql.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.claim_or_decline_spot(
+  p_publication_id uuid,
+  p_action text -- 'claim' or 'decline'
+)
+RETURNS public.application_publications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pub public.application_publications;
+  _app_id uuid;
+  _program_id uuid;
+  _decision text;
+  _program public.programs;
+  _claiming_config jsonb;
+  _claimable_decision text;
+  _claim_deadline timestamp with time zone;
+  _allow_decline boolean;
+  _spots_count integer;
+  _spots_mode text;
+BEGIN
+  -- Get publication
+  SELECT * INTO _pub FROM public.application_publications WHERE id = p_publication_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Publication not found';
+  END IF;
+
+  -- Check if already claimed or declined
+  IF _pub.spot_claimed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Spot has already been claimed';
+  END IF;
+  IF _pub.spot_declined_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Offer has already been declined';
+  END IF;
+
+  -- Get application and program info
+  SELECT a.id, a.program_id
+    INTO _app_id, _program_id
+  FROM public.applications a
+  WHERE a.id = _pub.application_id;
+
+  IF _program_id IS NULL THEN
+    RAISE EXCEPTION 'Program not found';
+  END IF;
+
+  _decision := _pub.payload->>'decision';
+
+  -- SAFEGUARD: Check if any other publication for this application has already been claimed or declined
+  -- This prevents claiming multiple times even if there are multiple publications with the same decision
+  IF EXISTS (
+    SELECT 1
+    FROM public.application_publications
+    WHERE application_id = _app_id
+      AND id != p_publication_id
+      AND (spot_claimed_at IS NOT NULL OR spot_declined_at IS NOT NULL)
+  ) THEN
+    RAISE EXCEPTION 'You have already claimed or declined a spot for this application';
+  END IF;
+
+  -- Get program and claiming config
+  SELECT * INTO _program FROM public.programs WHERE id = _program_id;
+  _claiming_config := _program.metadata->'spotClaiming';
+
+  -- Check if claiming is enabled
+  IF NOT (_claiming_config->>'enabled')::boolean THEN
+    RAISE EXCEPTION 'Spot claiming is not enabled for this program';
+  END IF;
+
+  -- Extract claiming settings
+  _claimable_decision := _claiming_config->>'claimableDecision';
+  _allow_decline := COALESCE((_claiming_config->>'allowDecline')::boolean, true);
+  _spots_mode := _program.spots_mode;
+  _spots_count := _program.spots_count;
+
+  -- Validate decision matches claimable decision
+  IF LOWER(TRIM(COALESCE(_decision, ''))) != LOWER(TRIM(_claimable_decision)) THEN
+    RAISE EXCEPTION 'Your decision does not match the claimable decision';
+  END IF;
+
+  -- Use publication's deadline (per-publication, not program-level)
+  _claim_deadline := _pub.claim_deadline;
+
+  -- Validate deadline (if set)
+  IF _claim_deadline IS NOT NULL AND now() > _claim_deadline THEN
+    RAISE EXCEPTION 'The deadline to claim your spot has passed';
+  END IF;
+
+  -- Handle decline action
+  IF p_action = 'decline' THEN
+    IF NOT _allow_decline THEN
+      RAISE EXCEPTION 'Decline responses are not allowed for this program';
+    END IF;
+
+    UPDATE public.application_publications
+    SET spot_declined_at = now()
+    WHERE id = p_publication_id
+    RETURNING * INTO _pub;
+
+    RETURN _pub;
+  END IF;
+
+  -- Handle claim action
+  IF p_action = 'claim' THEN
+    -- Check if spots are available (only for exact mode)
+    IF _spots_mode = 'exact' THEN
+      IF _spots_count IS NULL OR _spots_count <= 0 THEN
+        RAISE EXCEPTION 'No spots available';
+      END IF;
+    END IF;
+
+    -- Update publication
+    UPDATE public.application_publications
+    SET spot_claimed_at = now()
+    WHERE id = p_publication_id
+    RETURNING * INTO _pub;
+
+    -- Decrement spots if in exact mode
+    IF _spots_mode = 'exact' THEN
+      PERFORM public.decrement_program_spots_if_needed(_program_id, _decision, _claimable_decision);
+    END IF;
+
+    RETURN _pub;
+  END IF;
+
+  RAISE EXCEPTION 'Invalid action. Must be "claim" or "decline"';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_or_decline_spot(uuid, text) TO authenticated;
+
+-- ============================================
+-- Waitlisted applicants who haven't been offered a spot, best first
+-- (internal). Waitlisted means the current publication carries the
+-- policy's waitlist decision.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.waitlist_candidates(
+  p_program_id uuid
+)
+RETURNS TABLE (
+  application_id uuid,
+  applicant_name text,
+  publication_id uuid,
+  score numeric,
+  rank integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy jsonb;
+  _ranking uuid[];
+BEGIN
+  SELECT metadata->'waitlistPromotion' INTO _policy
+  FROM public.programs WHERE id = p_program_id;
+
+  _ranking := ARRAY(
+    SELECT jsonb_array_elements_text(COALESCE(_policy->'ranking', '[]'::jsonb))::uuid
+  );
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    COALESCE(prof.full_name, 'Unknown'),
+    ap.id,
+    (
+      SELECT round(avg(ar.score)::numeric, 2) FROM public.application_reviews ar
+      WHERE ar.application_id = a.id AND ar.status = 'submitted' AND ar.score IS NOT NULL
+    ) AS avg_score,
+    array_position(_ranking, a.id)
+  FROM public.applications a
+  JOIN public.application_publications ap ON ap.id = a.results_current_publication_id
+  LEFT JOIN public.profiles prof ON prof.id = a.user_id
+  WHERE a.program_id = p_program_id
+    AND lower(trim(COALESCE(ap.payload->>'decision', ''))) =
+        lower(trim(COALESCE(_policy->>'waitlistDecision', 'waitlist')))
+    AND ap.spot_claimed_at IS NULL
+    AND ap.spot_declined_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.waitlist_promotions wp
+      WHERE wp.promoted_application_id = a.id
+    )
+  ORDER BY
+    CASE WHEN _policy->>'order' = 'ranked' THEN array_position(_ranking, a.id) END NULLS LAST,
+    avg_score DESC NULLS LAST,
+    a.submitted_at NULLS LAST;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.waitlist_candidates(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.waitlist_candidates(uuid) FROM authenticated;
+
+-- ============================================
+-- Offer the claimable decision to one waitlisted application (internal).
+-- p_application_id NULL means the next candidate. Returns the promotion
+-- id, or NULL when nobody is left on the waitlist.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.promote_from_waitlist(
+  p_program_id uuid,
+  p_application_id uuid,
+  p_actor uuid,
+  p_freed_publication_id uuid,
+  p_reason text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _program public.programs;
+  _policy jsonb;
+  _claimable text;
+  _app_id uuid;
+  _waitlist_pub public.application_publications;
+  _app_user uuid;
+  _deadline timestamptz;
+  _payload jsonb;
+  _template text;
+  _applicant_name text;
+  _org_name text;
+  _pub_id uuid;
+  _promotion_id uuid;
+BEGIN
+  SELECT * INTO _program FROM public.programs WHERE id = p_program_id;
+  _policy := _program.metadata->'waitlistPromotion';
+  _claimable := _program.metadata->'spotClaiming'->>'claimableDecision';
+  IF _claimable IS NULL OR trim(_claimable) = '' THEN
+    RAISE EXCEPTION 'Set up spot claiming before promoting from the waitlist';
+  END IF;
+
+  IF p_application_id IS NULL THEN
+    SELECT c.application_id INTO _app_id
+    FROM public.waitlist_candidates(p_program_id) c
+    LIMIT 1;
+    IF _app_id IS NULL THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    SELECT c.application_id INTO _app_id
+    FROM public.waitlist_candidates(p_program_id) c
+    WHERE c.application_id = p_application_id;
+    IF _app_id IS NULL THEN
+      RAISE EXCEPTION 'That application is not on the waitlist';
+    END IF;
+  END IF;
+
+  SELECT ap.* INTO _waitlist_pub
+  FROM public.applications a
+  JOIN public.application_publications ap ON ap.id = a.results_current_publication_id
+  WHERE a.id = _app_id;
+
+  SELECT user_id INTO _app_user FROM public.applications WHERE id = _app_id;
+
+  _deadline := now() + make_interval(days => GREATEST(COALESCE((_policy->>'claimDays')::int, 3), 1));
+
+  _payload := (_waitlist_pub.payload - 'letter') || jsonb_build_object(
+    'decision', _claimable,
+    'promoted_from_waitlist', true
+  );
+
+  -- Same letter as a direct offer would get (add_decision_letters.sql)
+  _template := _program.metadata->'decision_letters'->>lower(trim(_claimable));
+  IF _template IS NOT NULL AND trim(_template) <> '' THEN
+    SELECT full_name INTO _applicant_name FROM public.profiles WHERE id = _app_user;
+    SELECT name INTO _org_name FROM public.organizations WHERE id = _program.organization_id;
+
+    _payload := _payload || jsonb_build_object(
+      'letter',
+      public.render_decision_letter(_template, jsonb_build_object(
+        'applicant_name', COALESCE(_applicant_name, 'Applicant'),
+        'program_name', _program.name,
+        'org_name', _org_name,
+        'decision', _claimable,
+        'score', CASE WHEN COALESCE((_waitlist_pub.visibility->>'score')::boolean, false)
+          THEN _payload->>'score' END,
+        'reviewer_comments', CASE WHEN COALESCE((_waitlist_pub.visibility->>'comments')::boolean, false)
+          THEN _payload->>'comments' END,
+        'claim_deadline', to_char(_deadline AT TIME ZONE 'UTC', 'FMMonth FMDD, YYYY at HH24:MI "UTC"'),
+        'spots', _program.spots_count
+      ))
+    );
+  END IF;
+
+  INSERT INTO public.application_publications(application_id, org_id, published_by, payload, visibility, version, claim_deadline)
+  VALUES (
+    _app_id,
+    _program.organization_id,
+    COALESCE(p_actor, _waitlist_pub.published_by),
+    _payload,
+    _waitlist_pub.visibility,
+    1,
+    _deadline
+  )
+  RETURNING id INTO _pub_id;
+
+  UPDATE public.applications
+    SET results_current_publication_id = _pub_id
+  WHERE id = _app_id;
+
+  INSERT INTO public.application_publication_events(publication_id, event_type, actor_id, note)
+  VALUES (_pub_id, 'publish', COALESCE(p_actor, _waitlist_pub.published_by), 'waitlist promotion');
+
+  INSERT INTO public.notifications(user_id, type, title, message, data)
+  VALUES (
+    _app_user,
+    'results_published',
+    'A spot has opened up for you',
+    'You have been offered a spot from the waitlist. Claim it before the deadline.',
+    jsonb_build_object('application_id', _app_id, 'publication_id', _pub_id)
+  );
+
+  INSERT INTO public.waitlist_promotions(
+    program_id, freed_publication_id, reason,
+    promoted_application_id, promoted_publication_id, promoted_by
+  )
+  VALUES (p_program_id, p_freed_publication_id, p_reason, _app_id, _pub_id, p_actor)
+  RETURNING id INTO _promotion_id;
+
+  RETURN _promotion_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.promote_from_waitlist(uuid, uuid, uuid, uuid, text) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.promote_from_waitlist(uuid, uuid, uuid, uuid, text) FROM authenticated;
+
+-- ============================================
+-- Promote one waitlisted applicant per freed offer (internal).
+-- Returns how many applicants were promoted.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.fill_freed_waitlist_spots(
+  p_program_id uuid
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _program public.programs;
+  _policy jsonb;
+  _claimable text;
+  _enabled_at timestamptz;
+  _freed record;
+  _open_offers integer;
+  _promoted integer := 0;
+BEGIN
+  SELECT * INTO _program FROM public.programs WHERE id = p_program_id FOR UPDATE;
+  _policy := _program.metadata->'waitlistPromotion';
+  _claimable := _program.metadata->'spotClaiming'->>'claimableDecision';
+
+  IF NOT COALESCE((_policy->>'enabled')::boolean, false)
+     OR NOT COALESCE((_program.metadata->'spotClaiming'->>'enabled')::boolean, false)
+     OR _claimable IS NULL THEN
+    RETURN 0;
+  END IF;
+  _enabled_at := COALESCE((_policy->>'enabledAt')::timestamptz, '-infinity'::timestamptz);
+
+  FOR _freed IN
+    SELECT
+      ap.id,
+      CASE WHEN ap.spot_declined_at IS NOT NULL THEN 'declined' ELSE 'expired' END AS reason
+    FROM public.applications a
+    JOIN public.application_publications ap ON ap.id = a.results_current_publication_id
+    WHERE a.program_id = p_program_id
+      AND lower(trim(COALESCE(ap.payload->>'decision', ''))) = lower(trim(_claimable))
+      AND ap.spot_claimed_at IS NULL
+      AND (
+        ap.spot_declined_at IS NOT NULL
+        OR (ap.claim_deadline IS NOT NULL AND ap.claim_deadline < now())
+      )
+      AND COALESCE(ap.spot_declined_at, ap.claim_deadline) >= _enabled_at
+      AND NOT EXISTS (
+        SELECT 1 FROM public.waitlist_promotions wp
+        WHERE wp.freed_publication_id = ap.id
+      )
+    ORDER BY COALESCE(ap.spot_declined_at, ap.claim_deadline)
+  LOOP
+    -- Never offer more spots than are left
+    IF _program.spots_mode = 'exact' THEN
+      SELECT count(*) INTO _open_offers
+      FROM public.applications a
+      JOIN public.application_publications ap ON ap.id = a.results_current_publication_id
+      WHERE a.program_id = p_program_id
+        AND lower(trim(COALESCE(ap.payload->>'decision', ''))) = lower(trim(_claimable))
+        AND ap.spot_claimed_at IS NULL
+        AND ap.spot_declined_at IS NULL
+        AND (ap.claim_deadline IS NULL OR ap.claim_deadline >= now());
+      EXIT WHEN _open_offers >= COALESCE(_program.spots_count, 0);
+    END IF;
+
+    EXIT WHEN public.promote_from_waitlist(p_program_id, NULL, NULL, _freed.id, _freed.reason) IS NULL;
+    _promoted := _promoted + 1;
+  END LOOP;
+
+  RETURN _promoted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fill_freed_waitlist_spots(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.fill_freed_waitlist_spots(uuid) FROM authenticated;
+
+-- Promote as soon as an offer is declined
+CREATE OR REPLACE FUNCTION public.app_promote_on_decline()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _program_id uuid;
+BEGIN
+  SELECT program_id INTO _program_id FROM public.applications WHERE id = NEW.application_id;
+  PERFORM public.fill_freed_waitlist_spots(_program_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_promote_on_decline ON public.application_publications;
+CREATE TRIGGER trg_promote_on_decline
+  AFTER UPDATE OF spot_declined_at ON public.application_publications
+  FOR EACH ROW
+  WHEN (OLD.spot_declined_at IS NULL AND NEW.spot_declined_at IS NOT NULL)
+  EXECUTE FUNCTION public.app_promote_on_decline();
+
+-- Expired claim deadlines, for every program with the policy on (pg_cron)
+CREATE OR REPLACE FUNCTION public.promote_waitlists_for_expired_claims()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _program_id uuid;
+  _total integer := 0;
+BEGIN
+  FOR _program_id IN
+    SELECT id FROM public.programs
+    WHERE deleted_at IS NULL
+      AND COALESCE((metadata->'waitlistPromotion'->>'enabled')::boolean, false)
+  LOOP
+    _total := _total + public.fill_freed_waitlist_spots(_program_id);
+  END LOOP;
+  RETURN _total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.promote_waitlists_for_expired_claims() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.promote_waitlists_for_expired_claims() FROM authenticated;
+
+-- ============================================
+-- Org admin: the waitlist in promotion order
+-- ============================================
+CREATE OR REPLACE FUNCTION public.org_waitlist_v1(
+  p_program_id uuid
+)
+RETURNS TABLE (
+  application_id uuid,
+  applicant_name text,
+  publication_id uuid,
+  score numeric,
+  rank integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid;
+BEGIN
+  SELECT organization_id INTO _org_id FROM public.programs WHERE id = p_program_id;
+  IF _org_id IS NULL OR NOT is_org_admin_safe(auth.uid(), _org_id) THEN
+    RAISE EXCEPTION 'Only org admins can view the waitlist';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.waitlist_candidates(p_program_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.org_waitlist_v1(uuid) TO authenticated;
+
+-- ============================================
+-- Org admin: promotion log, with how each offer turned out
+-- ============================================
+CREATE OR REPLACE FUNCTION public.org_waitlist_promotions_v1(
+  p_program_id uuid
+)
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  reason text,
+  freed_applicant_name text,
+  promoted_application_id uuid,
+  promoted_applicant_name text,
+  promoted_by_name text,
+  claim_deadline timestamptz,
+  claimed_at timestamptz,
+  declined_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid;
+BEGIN
+  SELECT organization_id INTO _org_id FROM public.programs p WHERE p.id = p_program_id;
+  IF _org_id IS NULL OR NOT is_org_admin_safe(auth.uid(), _org_id) THEN
+    RAISE EXCEPTION 'Only org admins can view waitlist promotions';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    wp.id,
+    wp.created_at,
+    wp.reason,
+    freed_prof.full_name,
+    wp.promoted_application_id,
+    COALESCE(promoted_prof.full_name, 'Unknown'),
+    actor.full_name,
+    offer.claim_deadline,
+    offer.spot_claimed_at,
+    offer.spot_declined_at
+  FROM public.waitlist_promotions wp
+  JOIN public.application_publications offer ON offer.id = wp.promoted_publication_id
+  JOIN public.applications promoted_app ON promoted_app.id = wp.promoted_application_id
+  LEFT JOIN public.profiles promoted_prof ON promoted_prof.id = promoted_app.user_id
+  LEFT JOIN public.application_publications freed ON freed.id = wp.freed_publication_id
+  LEFT JOIN public.applications freed_app ON freed_app.id = freed.application_id
+  LEFT JOIN public.profiles freed_prof ON freed_prof.id = freed_app.user_id
+  LEFT JOIN public.profiles actor ON actor.id = wp.promoted_by
+  WHERE wp.program_id = p_program_id
+  ORDER BY wp.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.org_waitlist_promotions_v1(uuid) TO authenticated;
+
+-- ============================================
+-- Org admin: offer a spot to a specific waitlisted applicant now
+-- (manual override of the order, or extra spots). Returns the promotion id.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.org_promote_from_waitlist_v1(
+  p_program_id uuid,
+  p_application_id uuid
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _org_id uuid;
+BEGIN
+  SELECT organization_id INTO _org_id FROM public.programs WHERE id = p_program_id;
+  IF _org_id IS NULL OR NOT is_org_admin_safe(auth.uid(), _org_id) THEN
+    RAISE EXCEPTION 'Only org admins can promote from the waitlist';
+  END IF;
+
+  RETURN public.promote_from_waitlist(p_program_id, p_application_id, auth.uid(), NULL, 'manual');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.org_promote_from_waitlist_v1(uuid, uuid) TO authenticated;
+
+-- ============================================
+-- SCHEDULE (every 15 minutes)
+-- Needs the pg_cron extension (Database → Extensions). If it wasn't
+-- enabled when this file ran, enable it and run this block again.
+-- ============================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'promote-waitlists',
+      '*/15 * * * *',
+      'SELECT public.promote_waitlists_for_expired_claims()'
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron is not enabled; expired claims will not promote the waitlist';
+  END IF;
+END $$;
@@ -43,6 +43,7 @@ import ReviewHome from "./pages/review/ReviewHome";
 import ReviewAppPage from "./pages/review/ReviewAppPage";
 import AllReviewsPage from "./pages/review/AllReviewsPage";
 import OrgApplicationsInbox from "./pages/org-admin/OrgApplicationsInbox";
+import OrgReviewProgress from "./pages/org-admin/OrgReviewProgress";
 import OrgManageReviewers from "./pages/org-admin/OrgManageReviewers";
 import OrgMyTeams from "./pages/org-admin/OrgMyTeams";
 import OrgSettings from "./pages/org-admin/OrgSettings";
@@ -214,6 +215,16 @@ export default function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/org/:orgSlug/admin/review-progress"
+                element={
+                  <ProtectedRoute>
+                    <ProtectedOrgAdminRoute>
+                      <OrgReviewProgress />
+                    </ProtectedOrgAdminRoute>
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/org/:orgSlug/admin/publish-results"
                 element={
@@ -0,0 +1,381 @@
+import { useEffect, useState } from "react";
+import { supabase } from "../lib/supabase";
+import {
+  AcceptanceChecklistRow,
+  getAcceptanceForm,
+  listAcceptanceChecklist,
+  saveAcceptanceForm,
+} from "../lib/acceptanceForm";
+import {
+  ACCEPTANCE_FIELD_TYPES,
+  AcceptanceField,
+  AcceptanceFieldType,
+  acceptanceAnswerText,
+  acceptanceResponsesCsv,
+  hasOptions,
+  newAcceptanceField,
+} from "../utils/acceptanceForm";
+import OptionsInput from "./OptionsInput";
+import { FilePreview } from "./attachments/FilePreview";
+
+interface AcceptanceChecklistPanelProps {
+  programId: string;
+  programName: string;
+  // Reloads the tracker when it changes (e.g. after a refresh)
+  refreshKey?: number;
+}
+
+function offerState(row: AcceptanceChecklistRow) {
+  if (row.claimed_at) return "Claimed";
+  if (row.declined_at) return "Declined";
+  if (row.expired_at) return "Expired";
+  return "Offered";
+}
+
+function parseFile(value: any) {
+  try {
+    const file = typeof value === "string" ? JSON.parse(value) : value;
+    return file?.filePath ? file : null;
+  } catch {
+    return null;
+  }
+}
+
+export default function AcceptanceChecklistPanel({
+  programId,
+  programName,
+  refreshKey,
+}: AcceptanceChecklistPanelProps) {
+  const [fields, setFields] = useState<AcceptanceField[]>([]);
+  const [rows, setRows] = useState<AcceptanceChecklistRow[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [newType, setNewType] = useState<AcceptanceFieldType>("short_text");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadForm = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("programs")
+        .select("metadata")
+        .eq("id", programId)
+        .single();
+      if (error) throw error;
+      setFields(getAcceptanceForm(data));
+    } catch (err) {
+      console.error("Error loading acceptance form:", err);
+    }
+  };
+
+  const loadRows = async () => {
+    try {
+      setRows(await listAcceptanceChecklist(programId));
+    } catch (err) {
+      console.error("Error loading acceptance checklist:", err);
+    }
+  };
+
+  useEffect(() => {
+    loadForm(); /* eslint-disable-next-line */
+  }, [programId]);
+
+  useEffect(() => {
+    loadRows(); /* eslint-disable-next-line */
+  }, [programId, refreshKey]);
+
+  const updateField = (index: number, changes: Partial<AcceptanceField>) =>
+    setFields((prev) =>
+      prev.map((f, i) => (i === index ? { ...f, ...changes } : f))
+    );
+
+  const moveField = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= fields.length) return;
+    const next = [...fields];
+    [next[index], next[target]] = [next[target], next[index]];
+    setFields(next);
+  };
+
+  async function handleSave() {
+    if (fields.some((f) => !f.label.trim())) {
+      alert("Every question needs a label.");
+      return;
+    }
+    if (fields.some((f) => hasOptions(f.type) && !f.options?.length)) {
+      alert("Add at least one option to each select and ranking question.");
+      return;
+    }
+    try {
+      setSaving(true);
+      await saveAcceptanceForm(programId, fields);
+      setEditing(false);
+    } catch (err: any) {
+      console.error("Error saving acceptance form:", err);
+      alert(`Failed to save acceptance form: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const handleExport = () => {
+    const csv = acceptanceResponsesCsv(fields, rows);
+    const blob = new Blob([csv], { type: "text/csv" });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${programName.replace(/\s+/g, "_")}_acceptance_responses.csv`;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  };
+
+  const claimedRows = rows.filter((r) => r.claimed_at);
+  const completed = rows.filter((r) => r.submitted_at).length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 md:p-6">
+      <div className="flex items-center justify-between gap-3 mb-1">
+        <h3 className="text-lg font-semibold text-gray-900">
+          📋 Acceptance Checklist
+        </h3>
+        <div className="flex items-center gap-3 text-sm">
+          {!editing && (
+            <button
+              onClick={() => setEditing(true)}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              {fields.length > 0 ? "Edit form" : "Add form"}
+            </button>
+          )}
+          <button
+            onClick={handleExport}
+            disabled={fields.length === 0 || rows.length === 0}
+            className="text-gray-600 hover:text-gray-900 disabled:opacity-40"
+          >
+            ⬇️ Export CSV
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        {fields.length > 0
+          ? `Applicants answer ${fields.length} question${
+              fields.length !== 1 ? "s" : ""
+            } when they claim their spot.`
+          : "Ask accepted applicants for waivers, forms or preferences when they claim their spot."}
+      </p>
+
+      {editing && (
+        <div className="mb-6 space-y-3">
+          {fields.length === 0 && (
+            <p className="text-sm text-gray-500">No questions yet.</p>
+          )}
+          {fields.map((field, index) => (
+            <div
+              key={field.key}
+              className="border border-gray-200 rounded-lg p-3 space-y-2"
+            >
+              <div className="flex flex-col md:flex-row md:items-center gap-2">
+                <input
+                  value={field.label}
+                  onChange={(e) =>
+                    updateField(index, { label: e.target.value })
+                  }
+                  placeholder="Question"
+                  className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  {ACCEPTANCE_FIELD_TYPES.find((t) => t.type === field.type)
+                    ?.label ?? field.type}
+                </span>
+                <label className="flex items-center gap-1 text-sm text-gray-700 whitespace-nowrap">
+                  <input
+                    type="checkbox"
+                    checked={!!field.required}
+                    onChange={(e) =>
+                      updateField(index, { required: e.target.checked })
+                    }
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  Required
+                </label>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => moveField(index, -1)}
+                    disabled={index === 0}
+                    title="Move up"
+                    className="px-2 py-0.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => moveField(index, 1)}
+                    disabled={index === fields.length - 1}
+                    title="Move down"
+                    className="px-2 py-0.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() =>
+                      setFields((prev) => prev.filter((_, i) => i !== index))
+                    }
+                    title="Remove"
+                    className="px-2 py-0.5 rounded text-red-600 hover:bg-red-50"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+              <input
+                value={field.helpText ?? ""}
+                onChange={(e) =>
+                  updateField(index, {
+                    helpText: e.target.value || undefined,
+                  })
+                }
+                placeholder="Instructions (optional), e.g. a link to the waiver to sign"
+                className="w-full border border-gray-300 rounded-md px-3 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              {hasOptions(field.type) && (
+                <OptionsInput
+                  options={field.options ?? []}
+                  onChange={(options) => updateField(index, { options })}
+                />
+              )}
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <select
+                value={newType}
+                onChange={(e) =>
+                  setNewType(e.target.value as AcceptanceFieldType)
+                }
+                className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {ACCEPTANCE_FIELD_TYPES.map((t) => (
+                  <option key={t.type} value={t.type}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() =>
+                  setFields((prev) => [...prev, newAcceptanceField(newType)])
+                }
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                + Add question
+              </button>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => {
+                  setEditing(false);
+                  loadForm();
+                }}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save Form"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {fields.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-3">
+            Completed {completed} of {rows.length}
+            {claimedRows.some((r) => !r.submitted_at) && (
+              <span className="ml-2 text-orange-700">
+                · {claimedRows.filter((r) => !r.submitted_at).length} claimed
+                before the form was added
+              </span>
+            )}
+          </h4>
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-500">No offers yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {rows.map((row) => (
+                <li key={row.application_id} className="p-3 text-sm">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <span className="font-medium text-gray-900">
+                        {row.applicant_name}
+                      </span>
+                      <span className="text-gray-500">
+                        {" "}
+                        · {offerState(row)}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      {row.submitted_at ? (
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                          ✓ Complete
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                          Not submitted
+                        </span>
+                      )}
+                      {row.answers && (
+                        <button
+                          onClick={() =>
+                            setExpandedId((id) =>
+                              id === row.application_id
+                                ? null
+                                : row.application_id
+                            )
+                          }
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          {expandedId === row.application_id
+                            ? "Hide"
+                            : "Answers"}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {expandedId === row.application_id && row.answers && (
+                    <dl className="mt-3 space-y-2">
+                      {fields.map((field) => {
+                        const value = row.answers?.[field.key];
+                        const file =
+                          field.type === "file" ? parseFile(value) : null;
+                        return (
+                          <div key={field.key}>
+                            <dt className="text-xs font-medium text-gray-500">
+                              {field.label}
+                            </dt>
+                            <dd className="text-gray-900 break-words">
+                              {file ? (
+                                <FilePreview fileInfo={file} />
+                              ) : (
+                                acceptanceAnswerText(field, value) || "—"
+                              )}
+                            </dd>
+                          </div>
+                        );
+                      })}
+                    </dl>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useMemo, useState } from "react";
+import { SimpleFileUpload } from "./attachments/SimpleFileUpload";
+import WordLimitedTextarea from "./WordLimitedTextarea";
+import MultiSelectInput from "./MultiSelectInput";
+import RankingInput from "./RankingInput";
+import AutoLinkText from "./AutoLinkText";
+import QuestionHelp from "./QuestionHelp";
+import { missingRequired } from "../utils/answers";
+import { answerErrors } from "../utils/validation";
+import type { AcceptanceField } from "../utils/acceptanceForm";
+
+interface AcceptanceFormModalProps {
+  programName: string;
+  applicationId: string;
+  fields: AcceptanceField[];
+  initialAnswers?: Record<string, any>;
+  // "claim" submits the answers with the claim; "update" only saves them
+  mode: "claim" | "update";
+  onSubmit: (answers: Record<string, any>) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+export default function AcceptanceFormModal({
+  programName,
+  applicationId,
+  fields,
+  initialAnswers,
+  mode,
+  onSubmit,
+  onClose,
+}: AcceptanceFormModalProps) {
+  const [answers, setAnswers] = useState<Record<string, any>>(
+    initialAnswers ?? {}
+  );
+  const [showErrors, setShowErrors] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const missing = missingRequired({ fields: fields as any }, answers);
+  const errors = useMemo(
+    () => answerErrors({ fields: fields as any }, answers),
+    [fields, answers]
+  );
+
+  const update = (key: string, value: any) =>
+    setAnswers((prev) => ({ ...prev, [key]: value }));
+
+  async function handleSubmit() {
+    if (missing.length > 0 || Object.keys(errors).length > 0) {
+      setShowErrors(true);
+      return;
+    }
+    try {
+      setSubmitting(true);
+      await onSubmit(answers);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const renderInput = (field: AcceptanceField) => {
+    const val = answers[field.key] ?? "";
+    switch (field.type) {
+      case "long_text":
+        return (
+          <WordLimitedTextarea
+            value={val}
+            onChange={(value) => update(field.key, value)}
+            maxWords={500}
+            rows={3}
+          />
+        );
+      case "checkbox":
+        return null;
+      case "select":
+        return (
+          <select
+            className={inputClass}
+            value={val}
+            onChange={(e) => update(field.key, e.target.value)}
+          >
+            <option value="">Select an option...</option>
+            {field.options?.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      case "multi_select":
+        return (
+          <MultiSelectInput
+            options={field.options ?? []}
+            value={Array.isArray(val) ? val : []}
+            onChange={(value) => update(field.key, value)}
+          />
+        );
+      case "ranking":
+        return (
+          <RankingInput
+            options={field.options ?? []}
+            value={Array.isArray(val) ? val : []}
+            onChange={(value) => update(field.key, value)}
+          />
+        );
+      case "file":
+        return (
+          <SimpleFileUpload
+            applicationId={applicationId}
+            fieldId={`acceptance_${field.key}`}
+            value={val}
+            onChange={(value) => update(field.key, value)}
+          />
+        );
+      case "number":
+        return (
+          <input
+            type="number"
+            className={inputClass}
+            value={val ?? ""}
+            onChange={(e) =>
+              update(
+                field.key,
+                e.target.value === "" ? null : Number(e.target.value)
+              )
+            }
+          />
+        );
+      default:
+        return (
+          <input
+            type={
+              field.type === "phone"
+                ? "tel"
+                : field.type === "short_text"
+                ? "text"
+                : field.type
+            }
+            className={inputClass}
+            value={val}
+            onChange={(e) => update(field.key, e.target.value)}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg max-w-lg w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            📋 Acceptance Checklist
+          </h2>
+          <p className="mt-1 text-sm text-gray-600">
+            {mode === "claim"
+              ? `${programName} needs a few more things from you to claim your spot.`
+              : `Your answers for ${programName}.`}
+          </p>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {showErrors && missing.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              Please complete: {missing.join(", ")}
+            </div>
+          )}
+          {fields.map((field) => (
+            <div key={field.key}>
+              {field.type === "checkbox" ? (
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={answers[field.key] === true}
+                    onChange={(e) => update(field.key, e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <AutoLinkText text={field.label} />
+                  {field.required && <span className="text-red-500">*</span>}
+                </label>
+              ) : (
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <AutoLinkText text={field.label} />
+                  {field.required && <span className="text-red-500"> *</span>}
+                </label>
+              )}
+              <QuestionHelp helpText={field.helpText} />
+              {renderInput(field)}
+              {showErrors && errors[field.key] && (
+                <p className="mt-1 text-xs text-red-600">{errors[field.key]}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-6 border-t border-gray-200 flex gap-3 justify-end">
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={submitting}
+            className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            {submitting
+              ? "Submitting..."
+              : mode === "claim"
+              ? "Submit & Claim My Spot"
+              : "Save Answers"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
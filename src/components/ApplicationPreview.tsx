@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, type ReactNode } from "react";
 import { ApplicationFileViewer } from "./attachments/ApplicationFileViewer";
 import { SimpleFileUpload } from "./attachments/SimpleFileUpload";
 import { Program } from "../lib/programs";
@@ -6,15 +6,44 @@ import { FilePreview } from "./attachments/FilePreview";
 import { loadApplicationSchema } from "../lib/schemaLoader";
 import WordLimitedTextarea from "./WordLimitedTextarea";
 import AutoLinkText from "./AutoLinkText";
+import MultiSelectInput from "./MultiSelectInput";
+import RankingInput from "./RankingInput";
+import QuestionHelp from "./QuestionHelp";
+import type { QuestionMedia, ShowIfRule } from "../types/application";
+import { visibleFields } from "../utils/conditions";
 
 interface Field {
   id: string;
-  type: "short_text" | "long_text" | "date" | "select" | "checkbox" | "file";
+  key?: string;
+  type:
+    | "short_text"
+    | "long_text"
+    | "date"
+    | "select"
+    | "checkbox"
+    | "file"
+    | "number"
+    | "email"
+    | "phone"
+    | "url"
+    | "multi_select"
+    | "ranking"
+    | "section";
   label: string;
+  description?: string; // for section breaks
   required?: boolean;
   options?: string[];
   maxLength?: number;
   maxWords?: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  minSelections?: number;
+  maxSelections?: number;
+  showIf?: ShowIfRule;
+  helpText?: string;
+  placeholder?: string;
+  media?: QuestionMedia;
 }
 
 interface ApplicationPreviewProps {
@@ -23,6 +52,7 @@ interface ApplicationPreviewProps {
   isOpen: boolean;
   onClose: () => void;
   alwaysOpen?: boolean; // For super admin preview where it's always visible
+  banner?: ReactNode; // Shown above the form, e.g. changes since last approval
   // Override props for real-time preview (used in builder before saving)
   includeProfile?: boolean;
   includeCoalitionCommon?: boolean;
@@ -40,6 +70,7 @@ export default function ApplicationPreview({
   isOpen,
   onClose,
   alwaysOpen = false,
+  banner,
   includeProfile: overrideIncludeProfile,
   includeCoalitionCommon: overrideIncludeCoalitionCommon,
   profileSections: overrideProfileSections,
@@ -582,9 +613,28 @@ export default function ApplicationPreview({
   };
 
   const renderField = (field: Field, _index: number) => {
-    const val = answers[field.id];
+    // Builder fields carry `key`, stored schemas may carry `id`
+    const fieldId = field.id ?? field.key;
+    const val = answers[fieldId];
 
     switch (field.type) {
+      case "section":
+        // Section breaks become pages in the real form; here they group questions
+        return (
+          <div className="pt-4 border-t-2 border-gray-300">
+            <h4 className="text-base font-semibold text-gray-900">
+              {field.label}
+            </h4>
+            {field.description && (
+              <p className="text-sm text-gray-600 mt-1">
+                <AutoLinkText
+                  text={field.description}
+                  preserveWhitespace={true}
+                />
+              </p>
+            )}
+          </div>
+        );
       case "short_text":
         return (
           <div className="bg-white border rounded-lg p-6 space-y-3">
@@ -592,11 +642,13 @@ export default function ApplicationPreview({
               <AutoLinkText text={field.label} />
               {field.required && <span className="text-red-500 text-base font-semibold"> *</span>}
             </label>
+            <QuestionHelp helpText={field.helpText} media={field.media} className="" />
             <input
               className="w-full rounded-md border border-gray-300 px-4 py-3 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               type="text"
+              placeholder={field.placeholder}
               value={val ?? ""}
-              onChange={(e) => setVal(field.id, e.target.value)}
+              onChange={(e) => setVal(fieldId, e.target.value)}
             />
           </div>
         );
@@ -605,8 +657,16 @@ export default function ApplicationPreview({
           <div className="bg-white border rounded-lg p-6 space-y-3">
             <WordLimitedTextarea
               label={field.label}
+              help={
+                <QuestionHelp
+                  helpText={field.helpText}
+                  media={field.media}
+                  className=""
+                />
+              }
+              placeholder={field.placeholder}
               value={val ?? ""}
-              onChange={(value) => setVal(field.id, value)}
+              onChange={(value) => setVal(fieldId, value)}
               maxWords={field.maxWords ?? 100}
               rows={4}
               required={field.required}
@@ -620,11 +680,95 @@ export default function ApplicationPreview({
               <AutoLinkText text={field.label} />
               {field.required && <span className="text-red-500 text-base font-semibold"> *</span>}
             </label>
+            <QuestionHelp helpText={field.helpText} media={field.media} className="" />
             <input
               className="rounded-md border border-gray-300 px-4 py-3 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               type="date"
               value={val ?? ""}
-              onChange={(e) => setVal(field.id, e.target.value)}
+              onChange={(e) => setVal(fieldId, e.target.value)}
+            />
+          </div>
+        );
+      case "number":
+        return (
+          <div className="bg-white border rounded-lg p-6 space-y-3">
+            <label className="block text-sm font-medium text-gray-700">
+              <AutoLinkText text={field.label} />
+              {field.required && <span className="text-red-500 text-base font-semibold"> *</span>}
+            </label>
+            <QuestionHelp helpText={field.helpText} media={field.media} className="" />
+            <input
+              className="w-full rounded-md border border-gray-300 px-4 py-3 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              type="number"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              placeholder={field.placeholder}
+              value={val ?? ""}
+              onChange={(e) =>
+                setVal(
+                  fieldId,
+                  e.target.value === "" ? null : Number(e.target.value)
+                )
+              }
+            />
+          </div>
+        );
+      case "email":
+      case "phone":
+      case "url":
+        return (
+          <div className="bg-white border rounded-lg p-6 space-y-3">
+            <label className="block text-sm font-medium text-gray-700">
+              <AutoLinkText text={field.label} />
+              {field.required && <span className="text-red-500 text-base font-semibold"> *</span>}
+            </label>
+            <QuestionHelp helpText={field.helpText} media={field.media} className="" />
+            <input
+              className="w-full rounded-md border border-gray-300 px-4 py-3 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              type={field.type === "phone" ? "tel" : field.type}
+              placeholder={
+                field.placeholder ||
+                (field.type === "email"
+                  ? "name@example.com"
+                  : field.type === "url"
+                  ? "https://"
+                  : undefined)
+              }
+              value={val ?? ""}
+              onChange={(e) => setVal(fieldId, e.target.value)}
+            />
+          </div>
+        );
+      case "multi_select":
+        return (
+          <div className="bg-white border rounded-lg p-6 space-y-3">
+            <label className="block text-sm font-medium text-gray-700">
+              <AutoLinkText text={field.label} />
+              {field.required && <span className="text-red-500 text-base font-semibold"> *</span>}
+            </label>
+            <QuestionHelp helpText={field.helpText} media={field.media} className="" />
+            <MultiSelectInput
+              options={field.options ?? []}
+              value={val ?? []}
+              onChange={(value) => setVal(fieldId, value)}
+              minSelections={field.minSelections}
+              maxSelections={field.maxSelections}
+            />
+          </div>
+        );
+      case "ranking":
+        return (
+          <div className="bg-white border rounded-lg p-6 space-y-3">
+            <label className="block text-sm font-medium text-gray-700">
+              <AutoLinkText text={field.label} />
+              {field.required && <span className="text-red-500 text-base font-semibold"> *</span>}
+            </label>
+            <QuestionHelp helpText={field.helpText} media={field.media} className="" />
+            <RankingInput
+              options={field.options ?? []}
+              value={val ?? []}
+              onChange={(value) => setVal(fieldId, value)}
             />
           </div>
         );
@@ -635,12 +779,15 @@ export default function ApplicationPreview({
               <AutoLinkText text={field.label} />
               {field.required && <span className="text-red-500 text-base font-semibold"> *</span>}
             </label>
+            <QuestionHelp helpText={field.helpText} media={field.media} className="" />
             <select
               className="w-full rounded-md border border-gray-300 px-4 py-3 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               value={val ?? ""}
-              onChange={(e) => setVal(field.id, e.target.value)}
+              onChange={(e) => setVal(fieldId, e.target.value)}
             >
-              <option value="">Select an option...</option>
+              <option value="">
+                {field.placeholder || "Select an option..."}
+              </option>
               {field.options?.map((option, index) => (
                 <option key={index} value={option}>
                   {option}
@@ -657,13 +804,18 @@ export default function ApplicationPreview({
                 type="checkbox"
                 className="h-5 w-5 text-blue-600 focus:ring-2 focus:ring-blue-500"
                 checked={!!val}
-                onChange={(e) => setVal(field.id, e.target.checked)}
+                onChange={(e) => setVal(fieldId, e.target.checked)}
               />
               <label className="text-sm font-medium text-gray-700">
                 <AutoLinkText text={field.label} />
                 {field.required && <span className="text-red-500 text-base font-semibold"> *</span>}
               </label>
             </div>
+            <QuestionHelp
+              helpText={field.helpText}
+              media={field.media}
+              className="mt-3"
+            />
           </div>
         );
       case "file":
@@ -673,11 +825,12 @@ export default function ApplicationPreview({
               <AutoLinkText text={field.label} />
               {field.required && <span className="text-red-500 text-base font-semibold"> *</span>}
             </label>
+            <QuestionHelp helpText={field.helpText} media={field.media} className="" />
             <SimpleFileUpload
               applicationId="preview"
-              fieldId={field.id}
+              fieldId={fieldId}
               value={val || ""}
-              onChange={(value) => setVal(field.id, value)}
+              onChange={(value) => setVal(fieldId, value)}
               disabled={true}
             />
           </div>
@@ -690,6 +843,8 @@ export default function ApplicationPreview({
   if (alwaysOpen) {
     return (
       <div className="space-y-6">
+        {banner}
+
         {/* Profile Autofill Section */}
         {program && programUsesProfile(program) && (
           <div className="mb-6">
@@ -738,8 +893,10 @@ export default function ApplicationPreview({
                 </p>
               </div>
             ) : (
-              fields.map((field, index) => (
-                <div key={field.id || index}>{renderField(field, index)}</div>
+              visibleFields(fields, answers).map((field, index) => (
+                <div key={field.id || field.key || index}>
+                  {renderField(field, index)}
+                </div>
               ))
             )}
           </div>
@@ -829,6 +986,8 @@ export default function ApplicationPreview({
           </div>
 
           <div className="space-y-6">
+            {banner}
+
             {/* Profile Autofill Section */}
             {program && programUsesProfile(program) && (
               <div className="mb-6">
@@ -877,8 +1036,8 @@ export default function ApplicationPreview({
                     </p>
                   </div>
                 ) : (
-                  fields.map((field, index) => (
-                    <div key={field.id || index}>
+                  visibleFields(fields, answers).map((field, index) => (
+                    <div key={field.id || field.key || index}>
                       {renderField(field, index)}
                     </div>
                   ))
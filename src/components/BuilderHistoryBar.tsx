@@ -0,0 +1,159 @@
+import { useState } from "react";
+import type { BuilderCheckpoint } from "../lib/builderCheckpoints";
+
+interface BuilderHistoryBarProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  checkpoints: BuilderCheckpoint[];
+  onSaveCheckpoint: (name: string) => Promise<void>;
+  onRestoreCheckpoint: (checkpoint: BuilderCheckpoint) => void;
+  onDeleteCheckpoint: (checkpoint: BuilderCheckpoint) => Promise<void>;
+  disabled: boolean;
+}
+
+export default function BuilderHistoryBar({
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  checkpoints,
+  onSaveCheckpoint,
+  onRestoreCheckpoint,
+  onDeleteCheckpoint,
+  disabled,
+}: BuilderHistoryBarProps) {
+  const [showCheckpoints, setShowCheckpoints] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const isMac =
+    typeof navigator !== "undefined" && /Mac/i.test(navigator.platform);
+  const mod = isMac ? "⌘" : "Ctrl+";
+
+  async function handleSave() {
+    const name = prompt(
+      "Name this checkpoint",
+      `Checkpoint ${new Date().toLocaleString()}`
+    );
+    if (!name || !name.trim()) return;
+    setBusy(true);
+    try {
+      await onSaveCheckpoint(name.trim());
+      setShowCheckpoints(true);
+    } catch (e: any) {
+      alert(e?.message || "Failed to save checkpoint");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleDelete(checkpoint: BuilderCheckpoint) {
+    if (!confirm(`Delete the checkpoint "${checkpoint.name}"?`)) return;
+    setBusy(true);
+    try {
+      await onDeleteCheckpoint(checkpoint);
+    } catch (e: any) {
+      alert(e?.message || "Failed to delete checkpoint");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleRestore(checkpoint: BuilderCheckpoint) {
+    if (
+      !confirm(
+        `Restore the questions from "${checkpoint.name}"? You can undo this, and nothing is saved until you click Save Draft.`
+      )
+    )
+      return;
+    onRestoreCheckpoint(checkpoint);
+  }
+
+  return (
+    <div className="bg-white rounded-lg px-4 py-3 mb-4 shadow-sm border">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onUndo}
+            disabled={disabled || !canUndo}
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={`Undo (${mod}Z)`}
+          >
+            ↶ Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={disabled || !canRedo}
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={`Redo (${mod}Shift+Z)`}
+          >
+            ↷ Redo
+          </button>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowCheckpoints((v) => !v)}
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg"
+          >
+            🕒 Checkpoints ({checkpoints.length})
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={disabled || busy}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            📌 Save Checkpoint
+          </button>
+        </div>
+      </div>
+
+      {showCheckpoints && (
+        <div className="mt-3 border-t border-gray-100 pt-3">
+          {checkpoints.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No checkpoints yet. Save one before a big change so you can come
+              back to it.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {checkpoints.map((cp) => (
+                <li
+                  key={cp.id}
+                  className="py-2 flex items-center justify-between gap-3"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {cp.name}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(cp.created_at).toLocaleString()} ·{" "}
+                      {cp.fields.length} item
+                      {cp.fields.length !== 1 ? "s" : ""}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <button
+                      onClick={() => handleRestore(cp)}
+                      disabled={disabled || busy}
+                      className="px-3 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => handleDelete(cp)}
+                      disabled={disabled || busy}
+                      className="px-2 py-1 text-xs text-red-600 hover:text-red-700 hover:bg-red-50 rounded disabled:opacity-50"
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import type {
+  AppItem,
+  ConditionOperator,
+  FieldCondition,
+  ShowIfRule,
+} from "../types/application";
+import {
+  OPERATOR_LABELS,
+  operatorNeedsValue,
+  operatorsForType,
+} from "../utils/conditions";
+
+interface ConditionalLogicEditorProps {
+  rule?: ShowIfRule;
+  // Questions that come before this one; only their answers can drive it
+  candidates: AppItem[];
+  onChange: (rule: ShowIfRule | undefined) => void;
+  disabled?: boolean;
+}
+
+export default function ConditionalLogicEditor({
+  rule,
+  candidates,
+  onChange,
+  disabled = false,
+}: ConditionalLogicEditorProps) {
+  const sources = candidates.filter((c) => !!c.key && c.type !== "section");
+  const enabled = !!rule;
+  const conditions = rule?.conditions ?? [];
+
+  const newCondition = (): FieldCondition => {
+    const first = sources[0];
+    return {
+      field: first?.key || "",
+      operator: operatorsForType(first?.type)[0],
+      value: "",
+    };
+  };
+
+  const update = (next: FieldCondition[]) => {
+    onChange({ match: rule?.match ?? "all", conditions: next });
+  };
+
+  const updateCondition = (index: number, patch: Partial<FieldCondition>) => {
+    const next = [...conditions];
+    next[index] = { ...next[index], ...patch };
+    update(next);
+  };
+
+  const removeCondition = (index: number) => {
+    const next = conditions.filter((_, i) => i !== index);
+    onChange(next.length > 0 ? { ...rule!, conditions: next } : undefined);
+  };
+
+  if (sources.length === 0 && !enabled) {
+    return null;
+  }
+
+  return (
+    <div className="w-full p-3 bg-gray-50 rounded-md border">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) =>
+            onChange(
+              e.target.checked
+                ? { match: "all", conditions: [newCondition()] }
+                : undefined
+            )
+          }
+          disabled={disabled || (!enabled && sources.length === 0)}
+          className="w-3 h-3 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <span>Only show this question when…</span>
+      </label>
+
+      {enabled && (
+        <div className="mt-3 space-y-2">
+          {conditions.length > 1 && (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <span>Match</span>
+              <select
+                className="border rounded px-2 py-1 text-sm disabled:opacity-50 disabled:bg-gray-100"
+                value={rule?.match ?? "all"}
+                onChange={(e) =>
+                  onChange({
+                    match: e.target.value as ShowIfRule["match"],
+                    conditions,
+                  })
+                }
+                disabled={disabled}
+              >
+                <option value="all">all</option>
+                <option value="any">any</option>
+              </select>
+              <span>of the following</span>
+            </div>
+          )}
+
+          {conditions.map((condition, index) => {
+            const source = sources.find((s) => s.key === condition.field);
+            const operators = operatorsForType(source?.type);
+            const sourceOptions =
+              source &&
+              (source.type === "select" || source.type === "multi_select")
+                ? source.options
+                : undefined;
+
+            return (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <select
+                  className="flex-1 min-w-[10rem] border rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100"
+                  value={condition.field}
+                  onChange={(e) => {
+                    const next = sources.find((s) => s.key === e.target.value);
+                    updateCondition(index, {
+                      field: e.target.value,
+                      operator: operatorsForType(next?.type)[0],
+                      value: "",
+                    });
+                  }}
+                  disabled={disabled}
+                >
+                  {!source && (
+                    <option value={condition.field}>
+                      (question moved below or removed)
+                    </option>
+                  )}
+                  {sources.map((s) => (
+                    <option key={s.key} value={s.key}>
+                      {s.label || s.key}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="border rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100"
+                  value={condition.operator}
+                  onChange={(e) =>
+                    updateCondition(index, {
+                      operator: e.target.value as ConditionOperator,
+                    })
+                  }
+                  disabled={disabled}
+                >
+                  {operators.map((op) => (
+                    <option key={op} value={op}>
+                      {OPERATOR_LABELS[op]}
+                    </option>
+                  ))}
+                </select>
+                {operatorNeedsValue(condition.operator) &&
+                  (sourceOptions ? (
+                    <select
+                      className="border rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100"
+                      value={condition.value ?? ""}
+                      onChange={(e) =>
+                        updateCondition(index, { value: e.target.value })
+                      }
+                      disabled={disabled}
+                    >
+                      <option value="">Select an option...</option>
+                      {sourceOptions.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      className="border rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100"
+                      placeholder="Value"
+                      value={condition.value ?? ""}
+                      onChange={(e) =>
+                        updateCondition(index, { value: e.target.value })
+                      }
+                      disabled={disabled}
+                    />
+                  ))}
+                <button
+                  type="button"
+                  onClick={() => removeCondition(index)}
+                  disabled={disabled}
+                  className="text-red-600 hover:text-red-800 disabled:opacity-50 disabled:cursor-not-allowed px-2 py-1"
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+
+          {sources.length > 0 && (
+            <button
+              type="button"
+              onClick={() => update([...conditions, newCondition()])}
+              disabled={disabled}
+              className="flex items-center gap-2 text-blue-600 hover:text-blue-800 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              <span className="text-lg">+</span>
+              Add Condition
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
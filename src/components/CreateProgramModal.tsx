@@ -1,8 +1,14 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { orgCreateProgramDraft } from "../lib/programs";
 import { supabase } from "../lib/supabase";
 import { adminListPrograms } from "../services/admin";
+import {
+  createProgramFromTemplate,
+  deleteProgramTemplate,
+  listProgramTemplates,
+  type ProgramTemplate,
+} from "../lib/programTemplates";
 
 type CreateState = {
   name: string;
@@ -44,6 +50,49 @@ export default function CreateProgramModal({
     spots_count: "",
   });
 
+  const [templates, setTemplates] = useState<ProgramTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const selectedTemplate = templates.find((t) => t.id === templateId) ?? null;
+
+  useEffect(() => {
+    if (!open || !orgId) return;
+    listProgramTemplates(orgId)
+      .then(setTemplates)
+      .catch((e) => {
+        console.warn("Could not load program templates:", e);
+        setTemplates([]);
+      });
+  }, [open, orgId]);
+
+  // Starting from a template pre-fills its type, spots and privacy
+  function chooseTemplate(id: string) {
+    setTemplateId(id);
+    const t = templates.find((x) => x.id === id);
+    if (!t) return;
+    setForm((f) => ({
+      ...f,
+      type: t.template.type ?? f.type,
+      is_private: !!t.template.is_private,
+      spots_mode: t.template.spots_mode ?? "exact",
+      spots_count:
+        t.template.spots_count !== null && t.template.spots_count !== undefined
+          ? String(t.template.spots_count)
+          : "",
+    }));
+  }
+
+  async function handleDeleteTemplate() {
+    if (!selectedTemplate) return;
+    if (!confirm(`Delete the template "${selectedTemplate.name}"?`)) return;
+    try {
+      await deleteProgramTemplate(selectedTemplate.id);
+      setTemplates((list) => list.filter((t) => t.id !== selectedTemplate.id));
+      setTemplateId("");
+    } catch (e: any) {
+      setCreateError(getUserFriendlyError(e));
+    }
+  }
+
   // Helper to convert datetime-local to ISO or undefined
   const toISOorNull = (v: string) =>
     v ? new Date(v).toISOString() : undefined;
@@ -111,6 +160,29 @@ export default function CreateProgramModal({
         }
       }
 
+      const spotsCount =
+        form.spots_mode === "exact" ? parseInt(form.spots_count, 10) : null;
+
+      if (selectedTemplate) {
+        const fromTemplate = await createProgramFromTemplate(
+          {
+            ...selectedTemplate,
+            template: { ...selectedTemplate.template, type: form.type },
+          },
+          {
+            name: form.name,
+            open_at: toISOorNull(form.open_at) ?? null,
+            close_at: toISOorNull(form.close_at) ?? null,
+            spots_mode: form.spots_mode,
+            spots_count: spotsCount,
+            is_private: form.is_private,
+          }
+        );
+        setTemplateId("");
+        resetAndOpen(fromTemplate.id);
+        return;
+      }
+
       const newProgram = await orgCreateProgramDraft({
         organization_id: orgId,
         name: form.name,
@@ -118,8 +190,7 @@ export default function CreateProgramModal({
         open_at: toISOorNull(form.open_at),
         close_at: toISOorNull(form.close_at),
         spots_mode: form.spots_mode,
-        spots_count:
-          form.spots_mode === "exact" ? parseInt(form.spots_count, 10) : null,
+        spots_count: spotsCount,
       });
 
       // Update is_private after creation (since RPC might not support it)
@@ -130,27 +201,7 @@ export default function CreateProgramModal({
           .eq("id", newProgram.id);
       }
 
-      // Reset form
-      setForm({
-        name: "",
-        type: "audition",
-        open_at: "",
-        close_at: "",
-        is_private: false,
-        spots_mode: "exact",
-        spots_count: "",
-      });
-
-      // Close modal
-      onClose();
-
-      // Call onSuccess callback if provided (for pages that need to refresh)
-      if (onSuccess) {
-        onSuccess();
-      }
-
-      // Redirect to the application editor immediately
-      navigate(`/org/${orgSlug}/admin/programs/${newProgram.id}/builder`);
+      resetAndOpen(newProgram.id);
     } catch (e: any) {
       // If forbidden from creating, bounce to unauthorized
       if (e?.code === "42501" || `${e?.message ?? ""}`.includes("forbidden")) {
@@ -163,6 +214,30 @@ export default function CreateProgramModal({
     }
   }
 
+  function resetAndOpen(programId: string) {
+    // Reset form
+    setForm({
+      name: "",
+      type: "audition",
+      open_at: "",
+      close_at: "",
+      is_private: false,
+      spots_mode: "exact",
+      spots_count: "",
+    });
+
+    // Close modal
+    onClose();
+
+    // Call onSuccess callback if provided (for pages that need to refresh)
+    if (onSuccess) {
+      onSuccess();
+    }
+
+    // Redirect to the application editor immediately
+    navigate(`/org/${orgSlug}/admin/programs/${programId}/builder`);
+  }
+
   if (!open) return null;
 
   return (
@@ -202,6 +277,45 @@ export default function CreateProgramModal({
         <div className="p-6">
           <form onSubmit={handleCreate}>
             <div className="space-y-6">
+              {templates.length > 0 && (
+                <div>
+                  <label className="block text-sm font-semibold text-gray-800 mb-2">
+                    Start from
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <select
+                      className="flex-1 rounded-lg border border-gray-300 px-4 py-3 text-sm bg-white shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200"
+                      value={templateId}
+                      onChange={(e) => chooseTemplate(e.target.value)}
+                      disabled={creating}
+                    >
+                      <option value="">Blank program</option>
+                      {templates.map((t) => (
+                        <option key={t.id} value={t.id}>
+                          Template: {t.name}
+                        </option>
+                      ))}
+                    </select>
+                    {selectedTemplate && (
+                      <button
+                        type="button"
+                        onClick={handleDeleteTemplate}
+                        disabled={creating}
+                        className="px-3 py-2 text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                      >
+                        Delete template
+                      </button>
+                    )}
+                  </div>
+                  {selectedTemplate && (
+                    <p className="text-xs text-gray-600 mt-1">
+                      Copies the template's application, profile settings,
+                      reviewer form and claiming settings. Set a new title and
+                      dates below.
+                    </p>
+                  )}
+                </div>
+              )}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-semibold text-gray-800 mb-2">
@@ -471,4 +585,3 @@ export default function CreateProgramModal({
     </div>
   );
 }
-
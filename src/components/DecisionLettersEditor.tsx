@@ -0,0 +1,204 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "../lib/supabase";
+import {
+  getDecisionLetters,
+  saveDecisionLetters,
+} from "../lib/decisionLetters";
+import {
+  DecisionLetters,
+  LETTER_MERGE_FIELDS,
+  letterKey,
+  renderDecisionLetter,
+} from "../utils/decisionLetters";
+import AutoLinkText from "./AutoLinkText";
+
+interface DecisionLettersEditorProps {
+  programId: string;
+  decisions: string[];
+  // Merge field values for the preview, e.g. from the first queued result
+  sampleFields: Record<string, string | number | null | undefined>;
+}
+
+export default function DecisionLettersEditor({
+  programId,
+  decisions,
+  sampleFields,
+}: DecisionLettersEditorProps) {
+  const [letters, setLetters] = useState<DecisionLetters>({});
+  const [active, setActive] = useState("");
+  const [preview, setPreview] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const { data, error } = await supabase
+          .from("programs")
+          .select("metadata")
+          .eq("id", programId)
+          .single();
+        if (error) throw error;
+        setLetters(getDecisionLetters(data));
+      } catch (err) {
+        console.error("Error loading decision letters:", err);
+      }
+    })();
+  }, [programId]);
+
+  useEffect(() => {
+    if (!active && decisions.length > 0) setActive(decisions[0]);
+  }, [decisions, active]);
+
+  const key = letterKey(active);
+  const body = letters[key] ?? "";
+
+  const setBody = (value: string) => {
+    setLetters((prev) => ({ ...prev, [key]: value }));
+    setMessage(null);
+  };
+
+  // Insert at the cursor so fields can be dropped into the middle of a line
+  const insertField = (field: string) => {
+    const token = `{{${field}}}`;
+    const el = textareaRef.current;
+    if (!el) {
+      setBody(body + token);
+      return;
+    }
+    const next =
+      body.slice(0, el.selectionStart) + token + body.slice(el.selectionEnd);
+    setBody(next);
+    const cursor = el.selectionStart + token.length;
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  async function handleSave() {
+    try {
+      setSaving(true);
+      await saveDecisionLetters(programId, letters);
+      setMessage("Saved.");
+    } catch (err: any) {
+      console.error("Error saving decision letters:", err);
+      alert(`Failed to save decision letters: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 md:p-6">
+      <button
+        onClick={() => setExpanded((v) => !v)}
+        className="w-full flex items-center justify-between"
+      >
+        <span className="text-lg font-semibold text-gray-900">
+          ✉️ Decision Letters
+        </span>
+        <span className="text-xs text-gray-500">
+          {Object.values(letters).filter((l) => l.trim()).length} template(s){" "}
+          {expanded ? "▼" : "▶"}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-gray-600">
+            Each published result includes the letter for its decision, on the
+            applicant's results page and in the results email. Results without a
+            letter are sent as before.
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            {decisions.map((decision) => (
+              <button
+                key={decision}
+                onClick={() => setActive(decision)}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium border ${
+                  decision === active
+                    ? "bg-blue-600 text-white border-blue-600"
+                    : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                }`}
+              >
+                {decision}
+                {letters[letterKey(decision)]?.trim() ? " ✓" : ""}
+              </button>
+            ))}
+          </div>
+
+          {active && (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-gray-500">Insert:</span>
+                {LETTER_MERGE_FIELDS.map((field) => (
+                  <button
+                    key={field.key}
+                    onClick={() => insertField(field.key)}
+                    disabled={preview}
+                    className="px-2 py-0.5 rounded bg-gray-100 text-xs text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                  >
+                    {field.label}
+                  </button>
+                ))}
+                <label className="ml-auto flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={preview}
+                    onChange={(e) => setPreview(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  Preview
+                </label>
+              </div>
+
+              {preview ? (
+                <div className="min-h-[10rem] border border-gray-200 rounded-md p-3 text-sm text-gray-800 bg-gray-50 break-words">
+                  {body.trim() ? (
+                    <AutoLinkText
+                      text={renderDecisionLetter(body, {
+                        ...sampleFields,
+                        decision: active,
+                      })}
+                      preserveWhitespace={true}
+                    />
+                  ) : (
+                    <span className="text-gray-400">
+                      No letter for "{active}".
+                    </span>
+                  )}
+                </div>
+              ) : (
+                <textarea
+                  ref={textareaRef}
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  rows={10}
+                  placeholder={`Dear {{applicant_name}},\n\nThank you for applying to {{program_name}}...`}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              )}
+            </>
+          )}
+
+          <div className="flex items-center justify-end gap-3">
+            {message && (
+              <span className="text-sm text-green-700">{message}</span>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save Letters"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
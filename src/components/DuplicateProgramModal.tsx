@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import type { Program } from "../lib/programs";
+import { duplicateProgram } from "../lib/programTemplates";
+
+interface DuplicateProgramModalProps {
+  program: Program | null;
+  orgSlug: string | null;
+  onClose: () => void;
+}
+
+// ISO date -> datetime-local value, moved forward by `years`
+function shiftedLocal(iso: string | null | undefined, years: number) {
+  if (!iso) return "";
+  const date = new Date(iso);
+  date.setFullYear(date.getFullYear() + years);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export default function DuplicateProgramModal({
+  program,
+  orgSlug,
+  onClose,
+}: DuplicateProgramModalProps) {
+  const navigate = useNavigate();
+  const [name, setName] = useState("");
+  const [openAt, setOpenAt] = useState("");
+  const [closeAt, setCloseAt] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Suggest next season's dates
+  useEffect(() => {
+    if (!program) return;
+    setName(`${program.name} (Copy)`);
+    setOpenAt(shiftedLocal(program.open_at, 1));
+    setCloseAt(shiftedLocal(program.close_at, 1));
+    setError(null);
+  }, [program]);
+
+  if (!program) return null;
+
+  async function handleDuplicate(e: React.FormEvent) {
+    e.preventDefault();
+    if (!program) return;
+    if (!name.trim()) {
+      setError("Program name is required.");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const created = await duplicateProgram(program, {
+        name: name.trim(),
+        open_at: openAt ? new Date(openAt).toISOString() : null,
+        close_at: closeAt ? new Date(closeAt).toISOString() : null,
+      });
+      onClose();
+      navigate(`/org/${orgSlug}/admin/programs/${created.id}/builder`);
+    } catch (e: any) {
+      const message = e?.message || "";
+      setError(
+        message.includes("duplicate key value")
+          ? "A program with this name already exists. Please choose a different name."
+          : message || "Failed to duplicate program"
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full mx-4">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-xl font-semibold text-gray-900">
+            Duplicate Program
+          </h3>
+          <p className="text-sm text-gray-500 mt-1">
+            Copies the application, profile settings, reviewer form, claiming
+            settings and team into a new draft.
+          </p>
+        </div>
+        <form onSubmit={handleDuplicate} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-semibold text-gray-800 mb-2">
+              Title <span className="text-red-500">*</span>
+            </label>
+            <input
+              className="w-full rounded-lg border border-gray-300 px-4 py-3 text-sm bg-white shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={saving}
+              required
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-gray-800 mb-2">
+                Opens
+              </label>
+              <input
+                type="datetime-local"
+                step="60"
+                className="w-full rounded-lg border border-gray-300 px-4 py-3 text-sm bg-white shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                value={openAt}
+                onChange={(e) => setOpenAt(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-800 mb-2">
+                Closes
+              </label>
+              <input
+                type="datetime-local"
+                step="60"
+                className="w-full rounded-lg border border-gray-300 px-4 py-3 text-sm bg-white shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                value={closeAt}
+                onChange={(e) => setCloseAt(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+          </div>
+          {error && (
+            <div className="px-3 py-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 font-medium">
+              {error}
+            </div>
+          )}
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-6 py-3 text-sm font-semibold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {saving ? "Duplicating…" : "Duplicate & Open Editor"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
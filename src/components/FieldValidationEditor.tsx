@@ -0,0 +1,229 @@
+import { useState } from "react";
+import type { AppItem, FieldValidation } from "../types/application";
+import { isValidPattern } from "../utils/validation";
+
+interface FieldValidationEditorProps {
+  field: AppItem;
+  onChange: (validation: FieldValidation | undefined) => void;
+  disabled?: boolean;
+}
+
+const TEXT_TYPES = ["short_text", "long_text", "email", "phone", "url"];
+
+// Drop unset rules so an emptied editor removes `validation` entirely
+function clean(rules: FieldValidation): FieldValidation | undefined {
+  const next: FieldValidation = {};
+  for (const [k, v] of Object.entries(rules)) {
+    if (v === undefined || v === "" || (Array.isArray(v) && v.length === 0))
+      continue;
+    (next as any)[k] = v;
+  }
+  return Object.keys(next).length > 0 ? next : undefined;
+}
+
+function NumberRule({
+  label,
+  value,
+  onChange,
+  disabled,
+}: {
+  label: string;
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  disabled: boolean;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <label className="text-sm text-gray-700 whitespace-nowrap">{label}</label>
+      <input
+        className="w-24 border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        type="number"
+        min={0}
+        value={value ?? ""}
+        onChange={(e) =>
+          onChange(e.target.value ? Number(e.target.value) : undefined)
+        }
+        disabled={disabled}
+      />
+    </div>
+  );
+}
+
+function DateRule({
+  label,
+  value,
+  onChange,
+  disabled,
+}: {
+  label: string;
+  value: string | undefined;
+  onChange: (value: string | undefined) => void;
+  disabled: boolean;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <label className="text-sm text-gray-700 whitespace-nowrap">{label}</label>
+      <input
+        className="border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        type="date"
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        disabled={disabled}
+      />
+    </div>
+  );
+}
+
+export default function FieldValidationEditor({
+  field,
+  onChange,
+  disabled = false,
+}: FieldValidationEditorProps) {
+  const rules = field.validation ?? {};
+  const [open, setOpen] = useState(!!field.validation);
+  // Keep the raw text so typing "pdf, " doesn't get normalized away mid-edit
+  const [extensionsText, setExtensionsText] = useState(
+    (rules.allowedExtensions ?? []).join(", ")
+  );
+
+  const isText = TEXT_TYPES.includes(field.type);
+  const isDate = field.type === "date";
+  const isFile = field.type === "file";
+  if (!isText && !isDate && !isFile) return null;
+
+  const set = (patch: Partial<FieldValidation>) =>
+    onChange(clean({ ...rules, ...patch }));
+
+  const patternInvalid = !!rules.pattern && !isValidPattern(rules.pattern);
+
+  return (
+    <div className="w-full p-3 bg-gray-50 rounded-md border">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={open}
+          onChange={(e) => {
+            setOpen(e.target.checked);
+            if (!e.target.checked) {
+              setExtensionsText("");
+              onChange(undefined);
+            }
+          }}
+          disabled={disabled}
+          className="w-3 h-3 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <span>Validation rules</span>
+      </label>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          {isText && (
+            <>
+              <div className="flex flex-wrap gap-4 items-center">
+                <NumberRule
+                  label="Min characters:"
+                  value={rules.minLength}
+                  onChange={(minLength) => set({ minLength })}
+                  disabled={disabled}
+                />
+                <NumberRule
+                  label="Max characters:"
+                  value={rules.maxLength}
+                  onChange={(maxLength) => set({ maxLength })}
+                  disabled={disabled}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2 items-center">
+                <input
+                  className={`flex-1 min-w-[12rem] border rounded px-2 py-2 text-sm font-mono disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                    patternInvalid ? "border-red-400" : "border-gray-300"
+                  }`}
+                  placeholder="Pattern (regular expression), e.g. [A-Z]{2}\d{4}"
+                  value={rules.pattern ?? ""}
+                  onChange={(e) => set({ pattern: e.target.value })}
+                  disabled={disabled}
+                />
+                <input
+                  className="flex-1 min-w-[12rem] border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Message when it doesn't match"
+                  value={rules.patternMessage ?? ""}
+                  onChange={(e) => set({ patternMessage: e.target.value })}
+                  disabled={disabled}
+                />
+              </div>
+              {patternInvalid && (
+                <p className="text-xs text-red-600">
+                  This pattern isn't a valid regular expression and will be
+                  ignored.
+                </p>
+              )}
+            </>
+          )}
+
+          {isDate && (
+            <>
+              <div className="flex flex-wrap gap-4 items-center">
+                <DateRule
+                  label="Earliest:"
+                  value={rules.minDate}
+                  onChange={(minDate) => set({ minDate })}
+                  disabled={disabled}
+                />
+                <DateRule
+                  label="Latest:"
+                  value={rules.maxDate}
+                  onChange={(maxDate) => set({ maxDate })}
+                  disabled={disabled}
+                />
+              </div>
+              <div className="flex flex-wrap gap-4 items-center">
+                <NumberRule
+                  label="Min age:"
+                  value={rules.minAge}
+                  onChange={(minAge) => set({ minAge })}
+                  disabled={disabled}
+                />
+                <NumberRule
+                  label="Max age:"
+                  value={rules.maxAge}
+                  onChange={(maxAge) => set({ maxAge })}
+                  disabled={disabled}
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                Age limits treat the answer as a date of birth and are measured
+                on the program's open date.
+              </p>
+            </>
+          )}
+
+          {isFile && (
+            <div className="flex flex-wrap gap-4 items-center">
+              <input
+                className="flex-1 min-w-[12rem] border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Allowed extensions, e.g. pdf, png, jpg"
+                value={extensionsText}
+                onChange={(e) => {
+                  setExtensionsText(e.target.value);
+                  set({
+                    allowedExtensions: e.target.value
+                      .split(",")
+                      .map((x) => x.trim().replace(/^\./, "").toLowerCase())
+                      .filter(Boolean),
+                  });
+                }}
+                disabled={disabled}
+              />
+              <NumberRule
+                label="Max size (MB):"
+                value={rules.maxFileSizeMb}
+                onChange={(maxFileSizeMb) => set({ maxFileSizeMb })}
+                disabled={disabled}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
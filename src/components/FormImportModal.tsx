@@ -0,0 +1,270 @@
+import { useState } from "react";
+import ApplicationPreview from "./ApplicationPreview";
+import type { AppItem } from "../types/application";
+import { parseFormImport, type FormExport } from "../utils/formTransfer";
+
+export type FormImportMode = "replace" | "append";
+
+interface FormImportModalProps {
+  open: boolean;
+  onClose: () => void;
+  currentFields: AppItem[];
+  organizationId?: string;
+  onImport: (form: FormExport, mode: FormImportMode) => Promise<void>;
+}
+
+export default function FormImportModal({
+  open,
+  onClose,
+  currentFields,
+  organizationId,
+  onImport,
+}: FormImportModalProps) {
+  const [text, setText] = useState("");
+  const [mode, setMode] = useState<FormImportMode>("replace");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [parsed, setParsed] = useState<FormExport | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  if (!open) return null;
+
+  function reset() {
+    setText("");
+    setErrors([]);
+    setWarnings([]);
+    setParsed(null);
+    setShowPreview(false);
+  }
+
+  function close() {
+    reset();
+    onClose();
+  }
+
+  function check(source: string, importMode: FormImportMode) {
+    const result = parseFormImport(source, {
+      // Replacing the form frees up its keys; appending must avoid them
+      takenKeys:
+        importMode === "append"
+          ? currentFields.map((f) => f.key).filter((k): k is string => !!k)
+          : [],
+      organizationId,
+    });
+    if (result.ok) {
+      setParsed(result.form);
+      setWarnings(result.warnings);
+      setErrors([]);
+    } else {
+      setParsed(null);
+      setWarnings([]);
+      setErrors(result.errors);
+    }
+  }
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const contents = await file.text();
+    setText(contents);
+    check(contents, mode);
+    e.target.value = "";
+  }
+
+  async function handleImport() {
+    if (!parsed) return;
+    setImporting(true);
+    try {
+      await onImport(parsed, mode);
+      close();
+    } catch (e: any) {
+      setErrors([e?.message || "Import failed"]);
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  const questionCount = parsed
+    ? parsed.items.filter((i) => i.type !== "section").length
+    : 0;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+        <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-xl font-semibold text-gray-900">
+              Import Application Form
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Load a form exported from another program, organization or
+              environment.
+            </p>
+          </div>
+
+          <div className="p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Export file
+              </label>
+              <input
+                type="file"
+                accept=".json,application/json"
+                onChange={handleFile}
+                disabled={importing}
+                className="block w-full text-sm text-gray-700"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Or paste the JSON
+              </label>
+              <textarea
+                value={text}
+                onChange={(e) => {
+                  setText(e.target.value);
+                  setParsed(null);
+                }}
+                rows={6}
+                disabled={importing}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 text-xs font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder='{ "format": "applyhub.application-form", ... }'
+              />
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              {(
+                [
+                  [
+                    "replace",
+                    "Replace this form",
+                    "Questions, profile settings and reviewer form",
+                  ],
+                  [
+                    "append",
+                    "Add to current questions",
+                    "Only the questions; settings stay as they are",
+                  ],
+                ] as [FormImportMode, string, string][]
+              ).map(([value, title, hint]) => (
+                <label
+                  key={value}
+                  className="flex items-start gap-2 p-3 bg-white rounded-lg border border-gray-300 hover:bg-gray-50 cursor-pointer flex-1"
+                >
+                  <input
+                    type="radio"
+                    name="import_mode"
+                    className="h-4 w-4 mt-0.5 text-indigo-600"
+                    checked={mode === value}
+                    onChange={() => {
+                      setMode(value);
+                      if (text.trim()) check(text, value);
+                    }}
+                    disabled={importing}
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-800">
+                      {title}
+                    </span>
+                    <span className="block text-xs text-gray-500">{hint}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            {errors.length > 0 && (
+              <div className="px-3 py-2 bg-red-50 border border-red-200 rounded-lg">
+                <ul className="list-disc list-inside text-sm text-red-700 space-y-0.5">
+                  {errors.map((e, i) => (
+                    <li key={i}>{e}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {parsed && (
+              <div className="px-3 py-2 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+                <p className="font-medium">
+                  {questionCount} question{questionCount !== 1 ? "s" : ""}
+                  {parsed.source?.program_name
+                    ? ` from "${parsed.source.program_name}"`
+                    : ""}{" "}
+                  ready to import.
+                </p>
+                {warnings.length > 0 && (
+                  <ul className="list-disc list-inside mt-1 text-amber-800 space-y-0.5">
+                    {warnings.map((w, i) => (
+                      <li key={i}>{w}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-end gap-3">
+            <button
+              onClick={close}
+              disabled={importing}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            {!parsed ? (
+              <button
+                onClick={() => check(text, mode)}
+                disabled={importing || !text.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Check Form
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => setShowPreview(true)}
+                  disabled={importing}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                >
+                  👁️ Preview
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={importing}
+                  className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {importing ? "Importing…" : "Import & Save"}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {parsed && (
+        <ApplicationPreview
+          fields={
+            (mode === "append"
+              ? [...currentFields, ...parsed.items]
+              : parsed.items) as any
+          }
+          isOpen={showPreview}
+          onClose={() => setShowPreview(false)}
+          banner={
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+              Previewing the imported form. Nothing is saved until you click
+              Import & Save.
+            </div>
+          }
+          {...(mode === "replace"
+            ? {
+                includeProfile: parsed.profile.enabled,
+                includeCoalitionCommon: parsed.include_coalition_common,
+                profileSections: parsed.profile.sections,
+              }
+            : {})}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,133 @@
+import React from "react";
+import AutoLinkText from "./AutoLinkText";
+import { safeUrl } from "../utils/safeUrl";
+
+/**
+ * Renders a small, safe subset of markdown: paragraphs, line breaks,
+ * "-"/"*" and "1." lists, **bold**, *italic*, `code` and [text](url) links.
+ * Everything becomes React elements (never raw HTML), plain URLs are linked
+ * by AutoLinkText, and links that aren't http(s)/mailto render as text.
+ */
+
+interface MarkdownTextProps {
+  text: string;
+  className?: string;
+}
+
+const INLINE =
+  /\*\*([^*]+)\*\*|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\*([^*\s][^*]*)\*/g;
+
+const LINK_CLASS = "text-blue-600 hover:text-blue-800 underline";
+
+function renderInline(text: string, keyPrefix: string): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+  let match: RegExpExecArray | null;
+  INLINE.lastIndex = 0;
+
+  while ((match = INLINE.exec(text)) !== null) {
+    const key = `${keyPrefix}-${match.index}`;
+    if (match.index > last) {
+      nodes.push(
+        <AutoLinkText key={`${key}-t`} text={text.slice(last, match.index)} />
+      );
+    }
+    const [whole, bold, code, linkText, linkUrl, italic] = match;
+    if (bold !== undefined) {
+      nodes.push(
+        <strong key={key}>
+          <AutoLinkText text={bold} />
+        </strong>
+      );
+    } else if (code !== undefined) {
+      nodes.push(
+        <code key={key} className="px-1 py-0.5 bg-gray-100 rounded text-xs">
+          {code}
+        </code>
+      );
+    } else if (linkText !== undefined) {
+      const href = safeUrl(linkUrl);
+      nodes.push(
+        href ? (
+          <a
+            key={key}
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={`${LINK_CLASS} break-words`}
+          >
+            {linkText}
+          </a>
+        ) : (
+          <React.Fragment key={key}>{whole}</React.Fragment>
+        )
+      );
+    } else if (italic !== undefined) {
+      nodes.push(
+        <em key={key}>
+          <AutoLinkText text={italic} />
+        </em>
+      );
+    }
+    last = match.index + whole.length;
+  }
+
+  if (last < text.length) {
+    nodes.push(
+      <AutoLinkText key={`${keyPrefix}-end`} text={text.slice(last)} />
+    );
+  }
+  return nodes;
+}
+
+function renderLines(lines: string[], keyPrefix: string) {
+  return lines.map((line, i) => (
+    <React.Fragment key={`${keyPrefix}-${i}`}>
+      {i > 0 && <br />}
+      {renderInline(line, `${keyPrefix}-${i}`)}
+    </React.Fragment>
+  ));
+}
+
+export default function MarkdownText({
+  text,
+  className = "",
+}: MarkdownTextProps) {
+  if (!text || !text.trim()) return null;
+
+  const blocks = text
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n/)
+    .map((b) => b.split("\n").filter((l) => l.trim() !== ""))
+    .filter((lines) => lines.length > 0);
+
+  return (
+    <div className={`space-y-2 break-words ${className}`}>
+      {blocks.map((lines, b) => {
+        if (lines.every((l) => /^\s*[-*]\s+/.test(l))) {
+          return (
+            <ul key={b} className="list-disc list-inside space-y-0.5">
+              {lines.map((l, i) => (
+                <li key={i}>
+                  {renderInline(l.replace(/^\s*[-*]\s+/, ""), `${b}-${i}`)}
+                </li>
+              ))}
+            </ul>
+          );
+        }
+        if (lines.every((l) => /^\s*\d+[.)]\s+/.test(l))) {
+          return (
+            <ol key={b} className="list-decimal list-inside space-y-0.5">
+              {lines.map((l, i) => (
+                <li key={i}>
+                  {renderInline(l.replace(/^\s*\d+[.)]\s+/, ""), `${b}-${i}`)}
+                </li>
+              ))}
+            </ol>
+          );
+        }
+        return <p key={b}>{renderLines(lines, String(b))}</p>;
+      })}
+    </div>
+  );
+}
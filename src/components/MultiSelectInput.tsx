@@ -0,0 +1,71 @@
+interface MultiSelectInputProps {
+  options: string[];
+  value: string[];
+  onChange: (value: string[]) => void;
+  minSelections?: number;
+  maxSelections?: number;
+  disabled?: boolean;
+}
+
+export default function MultiSelectInput({
+  options,
+  value,
+  onChange,
+  minSelections,
+  maxSelections,
+  disabled = false,
+}: MultiSelectInputProps) {
+  const selected = Array.isArray(value) ? value : [];
+  const atMax = maxSelections !== undefined && selected.length >= maxSelections;
+
+  const toggle = (option: string, checked: boolean) => {
+    if (checked) {
+      if (atMax) return;
+      // Keep answers in the order the options are listed
+      onChange(options.filter((o) => o === option || selected.includes(o)));
+    } else {
+      onChange(selected.filter((o) => o !== option));
+    }
+  };
+
+  const hint =
+    minSelections && maxSelections
+      ? minSelections === maxSelections
+        ? `Choose ${minSelections}`
+        : `Choose ${minSelections}–${maxSelections}`
+      : minSelections
+      ? `Choose at least ${minSelections}`
+      : maxSelections
+      ? `Choose up to ${maxSelections}`
+      : null;
+
+  return (
+    <div className="space-y-2">
+      {options.map((option) => {
+        const checked = selected.includes(option);
+        return (
+          <label
+            key={option}
+            className="flex items-center gap-2 md:gap-3 text-xs md:text-sm text-gray-700"
+          >
+            <input
+              type="checkbox"
+              checked={checked}
+              onChange={(e) => toggle(option, e.target.checked)}
+              disabled={disabled || (!checked && atMax)}
+              className={`h-4 w-4 text-blue-600 focus:ring-2 focus:ring-blue-500 flex-shrink-0 ${
+                disabled ? "opacity-50" : ""
+              }`}
+            />
+            <span>{option}</span>
+          </label>
+        );
+      })}
+      {hint && (
+        <div className="text-xs text-gray-500">
+          {hint} · {selected.length} selected
+        </div>
+      )}
+    </div>
+  );
+}
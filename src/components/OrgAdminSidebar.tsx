@@ -149,6 +149,29 @@ export default function OrgAdminSidebar({
                 </svg>
                 Applications Inbox
               </Link>
+              <Link
+                to={`/org/${orgSlug}/admin/review-progress`}
+                className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition-colors ${
+                  isActive(`/org/${orgSlug}/admin/review-progress`)
+                    ? "bg-indigo-50 text-indigo-700 font-medium"
+                    : "text-gray-700 hover:bg-gray-100"
+                }`}
+              >
+                <svg
+                  className="w-5 h-5"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+                  />
+                </svg>
+                Review Progress
+              </Link>
               <Link
                 to={`/org/${orgSlug}/admin/publish-results`}
                 className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition-colors ${
@@ -8,6 +8,8 @@ import {
   listProgramAssignments,
   ProgramAssignments,
 } from "../lib/programAssignments";
+import { rebalanceProgramAssignments } from "../lib/reviewAssignments";
+import ReviewAssignmentPolicyCard from "./ReviewAssignmentPolicyCard";
 
 interface ProgramAssignmentManagerProps {
   programId: string;
@@ -35,6 +37,7 @@ export default function ProgramAssignmentManager({
   const [userName, setUserName] = useState("");
   const [isAdding, setIsAdding] = useState(false);
   const [foundUser, setFoundUser] = useState<any>(null);
+  const [loadsVersion, setLoadsVersion] = useState(0);
 
   useEffect(() => {
     loadAssignments();
@@ -137,6 +140,15 @@ export default function ProgramAssignmentManager({
           : await removeProgramAdmin(programId, email);
 
       if (result.success) {
+        if (type === "reviewer") {
+          // Hand the removed reviewer's unfinished applications to the rest
+          try {
+            await rebalanceProgramAssignments(programId);
+            setLoadsVersion((v) => v + 1);
+          } catch (err) {
+            console.warn("Could not reassign reviewer's applications:", err);
+          }
+        }
         setSuccess(
           `${type === "reviewer" ? "Reviewer" : "Admin"} removed successfully!`
         );
@@ -310,6 +322,12 @@ export default function ProgramAssignmentManager({
         )}
       </div>
 
+      <ReviewAssignmentPolicyCard
+        programId={programId}
+        reviewers={assignments.reviewers || []}
+        refreshToken={loadsVersion}
+      />
+
       {/* Admins List */}
       <div>
         <h4 className="font-medium text-gray-900 mb-3">
@@ -0,0 +1,161 @@
+import { useMemo } from "react";
+import {
+  diffBasics,
+  diffFields,
+  programBasics,
+  workingFields,
+  type ApprovedSnapshot,
+  type FieldDiff,
+  type PropertyChange,
+} from "../utils/schemaDiff";
+
+interface ProgramChangesPanelProps {
+  program: any;
+  // Fields being edited right now; defaults to the program's working schema
+  fields?: any[];
+}
+
+const BADGES: Record<string, string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  changed: "bg-amber-100 text-amber-800",
+  moved: "bg-blue-100 text-blue-800",
+};
+
+function ChangeLines({ changes }: { changes: PropertyChange[] }) {
+  return (
+    <ul className="mt-1 space-y-0.5">
+      {changes.map((c) => (
+        <li key={c.property} className="text-xs text-gray-600">
+          <span className="font-medium text-gray-700">{c.property}:</span>{" "}
+          <span className="line-through text-red-600">{c.before}</span>
+          {" → "}
+          <span className="text-green-700">{c.after}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function FieldDiffRow({ diff }: { diff: FieldDiff }) {
+  const badges =
+    diff.kind === "changed"
+      ? [
+          ...(diff.changes.length > 0 ? ["changed"] : []),
+          ...(diff.moved ? ["moved"] : []),
+        ]
+      : [diff.kind];
+  const label = diff.field.label || diff.field.key || "Untitled question";
+
+  return (
+    <li className="py-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {badges.map((b) => (
+          <span
+            key={b}
+            className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${BADGES[b]}`}
+          >
+            {b}
+          </span>
+        ))}
+        <span
+          className={`text-sm ${
+            diff.kind === "removed"
+              ? "line-through text-gray-500"
+              : "text-gray-900"
+          }`}
+        >
+          {label}
+        </span>
+        <span className="text-xs text-gray-400">
+          {diff.kind === "removed" ? "was" : ""} #{diff.position + 1}
+          {diff.field.type
+            ? ` · ${String(diff.field.type).replace("_", " ")}`
+            : ""}
+        </span>
+      </div>
+      {diff.kind === "changed" && diff.changes.length > 0 && (
+        <ChangeLines changes={diff.changes} />
+      )}
+    </li>
+  );
+}
+
+export default function ProgramChangesPanel({
+  program,
+  fields,
+}: ProgramChangesPanelProps) {
+  const snapshot = program?.metadata?.approved_snapshot as
+    | ApprovedSnapshot
+    | undefined;
+
+  const fieldDiffs = useMemo(
+    () =>
+      snapshot
+        ? diffFields(snapshot.fields ?? [], fields ?? workingFields(program))
+        : [],
+    [snapshot, fields, program]
+  );
+  const basicChanges = useMemo(
+    () =>
+      snapshot ? diffBasics(snapshot.basics ?? {}, programBasics(program)) : [],
+    [snapshot, program]
+  );
+
+  if (!snapshot) {
+    return (
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm text-gray-600">
+        No approved version on record yet, so there's nothing to compare
+        against. Changes will be tracked from the next approval.
+      </div>
+    );
+  }
+
+  const nothingChanged = fieldDiffs.length === 0 && basicChanges.length === 0;
+
+  return (
+    <div className="bg-white border border-amber-200 rounded-lg p-4">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+        <h3 className="text-base font-semibold text-gray-900">
+          Changes since last approval
+        </h3>
+        <span className="text-xs text-gray-500">
+          Approved {new Date(snapshot.approved_at).toLocaleString()}
+        </span>
+      </div>
+
+      {nothingChanged && (
+        <p className="text-sm text-gray-600">
+          Nothing has changed since the last approval.
+        </p>
+      )}
+
+      {basicChanges.length > 0 && (
+        <div className="mb-4">
+          <h4 className="text-sm font-medium text-gray-700 mb-1">
+            Program details
+          </h4>
+          <ChangeLines changes={basicChanges} />
+        </div>
+      )}
+
+      {fieldDiffs.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-1">
+            Application questions
+          </h4>
+          <ul className="divide-y divide-gray-100">
+            {fieldDiffs.map((diff) => (
+              <FieldDiffRow
+                key={`${diff.kind}-${diff.field.key ?? diff.field.id}-${
+                  diff.position
+                }`}
+                diff={diff}
+              />
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
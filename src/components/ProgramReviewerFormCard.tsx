@@ -1,11 +1,20 @@
 import { useEffect, useState, useRef } from "react";
 import { getProgramReviewForm, setProgramReviewForm } from "../lib/api";
+import RubricEditor from "./RubricEditor";
+import { RubricCriterion, rubricErrors } from "../utils/rubric";
+import {
+  BlindReviewSettings,
+  DEFAULT_BLIND_REVIEW,
+  PROFILE_SECTIONS,
+} from "../lib/blindReview";
 
 type ReviewForm = {
   show_score: boolean;
   show_comments: boolean;
   show_decision: boolean;
   decision_options: string[];
+  rubric: RubricCriterion[];
+  blind_review: BlindReviewSettings;
 };
 
 const DEFAULTS: ReviewForm = {
@@ -13,12 +22,17 @@ const DEFAULTS: ReviewForm = {
   show_comments: true,
   show_decision: false,
   decision_options: ["accept", "waitlist", "reject"],
+  rubric: [],
+  blind_review: DEFAULT_BLIND_REVIEW,
 };
 
 export default function ProgramReviewerFormCard({
   programId,
+  fields = [],
 }: {
   programId: string;
+  // Application questions, for choosing what blind review hides
+  fields?: { key?: string; label?: string; type?: string }[];
 }) {
   const [form, setForm] = useState<ReviewForm>(DEFAULTS);
   const [loadedFormSnapshot, setLoadedFormSnapshot] = useState<ReviewForm>(
@@ -104,6 +118,14 @@ export default function ProgramReviewerFormCard({
           : currentSnapshot.decision_options,
     };
     
+    const problems = normalizedCurrent.show_score
+      ? rubricErrors(normalizedCurrent.rubric)
+      : [];
+    if (problems.length > 0) {
+      alert(`Please fix the rubric before saving:\n\n${problems.join("\n")}`);
+      return;
+    }
+
     // Prevent redundant saves if nothing changed
     if (JSON.stringify(normalizedCurrent) === JSON.stringify(normalizedSnapshot)) {
       console.log("No changes detected, skipping save");
@@ -151,6 +173,21 @@ export default function ProgramReviewerFormCard({
     }
   };
 
+  const setBlind = (patch: Partial<BlindReviewSettings>) => {
+    const current = formRef.current;
+    const newForm = {
+      ...current,
+      blind_review: { ...current.blind_review, ...patch },
+    };
+    setForm(newForm);
+    formRef.current = newForm; // Update ref immediately
+  };
+
+  const toggleIn = <T,>(list: T[], item: T, on: boolean) =>
+    on
+      ? [...list.filter((x) => x !== item), item]
+      : list.filter((x) => x !== item);
+
   const removeOption = (opt: string) => {
     setForm((f) => {
       const newForm = {
@@ -207,6 +244,17 @@ export default function ProgramReviewerFormCard({
           <span className="text-sm font-medium text-gray-700">Score</span>
         </label>
 
+        {form.show_score && (
+          <RubricEditor
+            rubric={form.rubric}
+            onChange={(rubric) => {
+              const newForm = { ...formRef.current, rubric };
+              setForm(newForm);
+              formRef.current = newForm; // Update ref immediately
+            }}
+          />
+        )}
+
         <label className="flex items-center gap-2.5 p-2.5 bg-white rounded-lg border border-purple-100 hover:bg-purple-25 transition-colors">
           <input
             type="checkbox"
@@ -276,6 +324,88 @@ export default function ProgramReviewerFormCard({
           </div>
         )}
 
+        <label className="flex items-center gap-2.5 p-2.5 bg-white rounded-lg border border-purple-100 hover:bg-purple-25 transition-colors">
+          <input
+            type="checkbox"
+            className="h-4 w-4 text-purple-600"
+            checked={form.blind_review.enabled}
+            onChange={(e) => setBlind({ enabled: e.target.checked })}
+          />
+          <span className="text-sm font-medium text-gray-700">
+            Blind review
+          </span>
+        </label>
+
+        {form.blind_review.enabled && (
+          <div className="space-y-3">
+            <div className="text-xs text-gray-500">
+              Reviewers see an anonymous code instead of the applicant's
+              name. Org admins can reveal an applicant, and each reveal is
+              logged.
+            </div>
+            <div className="space-y-1.5">
+              <div className="text-sm text-gray-600">Hide profile sections</div>
+              {PROFILE_SECTIONS.map((section) => (
+                <label
+                  key={section.key}
+                  className="flex items-center gap-2 text-sm text-gray-700"
+                >
+                  <input
+                    type="checkbox"
+                    className="h-3.5 w-3.5 text-purple-600"
+                    checked={form.blind_review.hidden_profile_sections.includes(
+                      section.key
+                    )}
+                    onChange={(e) =>
+                      setBlind({
+                        hidden_profile_sections: toggleIn(
+                          form.blind_review.hidden_profile_sections,
+                          section.key,
+                          e.target.checked
+                        ),
+                      })
+                    }
+                  />
+                  {section.label}
+                </label>
+              ))}
+            </div>
+            {fields.some((f) => f.key && f.type !== "section") && (
+              <div className="space-y-1.5">
+                <div className="text-sm text-gray-600">Hide questions</div>
+                {fields
+                  .filter((f) => f.key && f.type !== "section")
+                  .map((f) => (
+                    <label
+                      key={f.key}
+                      className="flex items-center gap-2 text-sm text-gray-700"
+                    >
+                      <input
+                        type="checkbox"
+                        className="h-3.5 w-3.5 text-purple-600"
+                        checked={form.blind_review.hidden_fields.includes(
+                          f.key!
+                        )}
+                        onChange={(e) =>
+                          setBlind({
+                            hidden_fields: toggleIn(
+                              form.blind_review.hidden_fields,
+                              f.key!,
+                              e.target.checked
+                            ),
+                          })
+                        }
+                      />
+                      <span className="truncate">
+                        {f.label || "Untitled question"}
+                      </span>
+                    </label>
+                  ))}
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="pt-3 flex items-center justify-end gap-2">
           {saveStatus === "saved" && (
             <div className="flex items-center gap-2 text-sm text-green-600 font-medium">
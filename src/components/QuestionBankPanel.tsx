@@ -0,0 +1,184 @@
+import { useEffect, useMemo, useState } from "react";
+import type { AppItem } from "../types/application";
+import {
+  bankFieldKey,
+  deleteFromQuestionBank,
+  fieldFromBank,
+  listQuestionBank,
+  type BankQuestion,
+} from "../lib/questionBank";
+
+interface QuestionBankPanelProps {
+  orgId: string | null | undefined;
+  fields: AppItem[];
+  disabled: boolean;
+  onInsert: (field: AppItem) => void;
+  // Bumped by the builder after it saves a question, to reload the list
+  refreshToken?: number;
+}
+
+export default function QuestionBankPanel({
+  orgId,
+  fields,
+  disabled,
+  onInsert,
+  refreshToken,
+}: QuestionBankPanelProps) {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [linked, setLinked] = useState(true);
+
+  useEffect(() => {
+    if (!orgId) return;
+    let mounted = true;
+    setLoading(true);
+    listQuestionBank(orgId)
+      .then((list) => {
+        if (mounted) {
+          setQuestions(list);
+          setError(null);
+        }
+      })
+      .catch((e) => {
+        console.error("Failed to load question bank:", e);
+        if (mounted) setError("Could not load the question bank.");
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [orgId, refreshToken]);
+
+  const usedKeys = useMemo(
+    () => new Set(fields.map((f) => f.key).filter(Boolean)),
+    [fields]
+  );
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return questions;
+    return questions.filter((q) =>
+      [q.field.label, q.field.type, ...((q.field as any).options ?? [])]
+        .join(" ")
+        .toLowerCase()
+        .includes(term)
+    );
+  }, [questions, search]);
+
+  async function handleDelete(q: BankQuestion) {
+    if (
+      !confirm(
+        `Remove "${q.field.label}" from the question bank? Programs that already use it keep their copy.`
+      )
+    )
+      return;
+    try {
+      await deleteFromQuestionBank(q.id);
+      setQuestions((list) => list.filter((x) => x.id !== q.id));
+    } catch (e: any) {
+      alert(e?.message || "Failed to delete question");
+    }
+  }
+
+  if (!orgId) return null;
+
+  return (
+    <div className="bg-white rounded-lg p-6 mb-4 shadow-sm border">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-1 h-8 bg-amber-500 rounded-full"></div>
+          <h3 className="text-lg font-semibold text-gray-900">Question Bank</h3>
+        </div>
+        <span className="text-sm text-gray-500">{questions.length} saved</span>
+      </div>
+
+      {questions.length === 0 && !loading && !error ? (
+        <p className="text-sm text-gray-600">
+          Save any question with 📚 Save to Bank to reuse it in your other
+          programs.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-col sm:flex-row gap-3 mb-4">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search saved questions..."
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <label
+              className="flex items-center gap-2 text-sm text-gray-700"
+              title="Linked questions share an answer key across programs and pick up edits made to the bank"
+            >
+              <input
+                type="checkbox"
+                checked={linked}
+                onChange={(e) => setLinked(e.target.checked)}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              Keep linked to bank
+            </label>
+          </div>
+
+          {loading && (
+            <p className="text-sm text-gray-500">Loading questions…</p>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <ul className="divide-y divide-gray-100 max-h-72 overflow-y-auto">
+            {filtered.map((q) => {
+              const alreadyLinked = usedKeys.has(bankFieldKey(q.id));
+              return (
+                <li
+                  key={q.id}
+                  className="py-2 flex items-center justify-between gap-3"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {q.field.label}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {q.field.type.replace("_", " ")}
+                      {q.field.required ? " · required" : ""}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <button
+                      onClick={() => onInsert(fieldFromBank(q, linked))}
+                      disabled={disabled || (linked && alreadyLinked)}
+                      className="px-3 py-1 text-xs font-medium rounded-md bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                      title={
+                        linked && alreadyLinked
+                          ? "Already linked in this form"
+                          : undefined
+                      }
+                    >
+                      {linked ? "Insert linked" : "Insert copy"}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(q)}
+                      disabled={disabled}
+                      className="px-2 py-1 text-xs text-red-600 hover:text-red-700 hover:bg-red-50 rounded disabled:opacity-50"
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+            {!loading && filtered.length === 0 && questions.length > 0 && (
+              <li className="py-2 text-sm text-gray-500">
+                No saved questions match "{search}".
+              </li>
+            )}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import MarkdownText from "./MarkdownText";
+import type { QuestionMedia } from "../types/application";
+import { safeImageUrl, safeUrl } from "../utils/safeUrl";
+
+interface QuestionHelpProps {
+  helpText?: string;
+  media?: QuestionMedia;
+  // Reviewers see the instructions folded away under the question
+  collapsible?: boolean;
+  className?: string;
+}
+
+function MediaBlock({ media }: { media: QuestionMedia }) {
+  if (media.kind === "image") {
+    const src = safeImageUrl(media.url);
+    if (!src) return null;
+    return (
+      <figure className="space-y-1">
+        <a href={src} target="_blank" rel="noopener noreferrer">
+          <img
+            src={src}
+            alt={media.caption || ""}
+            loading="lazy"
+            referrerPolicy="no-referrer"
+            className="max-h-96 max-w-full rounded-md border border-gray-200"
+          />
+        </a>
+        {media.caption && (
+          <figcaption className="text-xs text-gray-500">
+            {media.caption}
+          </figcaption>
+        )}
+      </figure>
+    );
+  }
+
+  const href = safeUrl(media.url);
+  if (!href) return null;
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="inline-flex items-center gap-2 px-3 py-2 bg-blue-50 border border-blue-200 rounded-md text-sm text-blue-700 hover:bg-blue-100 break-all"
+    >
+      <span>📎</span>
+      {media.caption || href}
+    </a>
+  );
+}
+
+export default function QuestionHelp({
+  helpText,
+  media,
+  collapsible = false,
+  className = "mb-2 md:mb-3",
+}: QuestionHelpProps) {
+  const hasHelp = !!helpText?.trim();
+  const hasMedia = !!media?.url?.trim();
+  if (!hasHelp && !hasMedia) return null;
+
+  const content = (
+    <div className="space-y-2 text-xs md:text-sm text-gray-600">
+      {hasHelp && <MarkdownText text={helpText!} />}
+      {hasMedia && <MediaBlock media={media!} />}
+    </div>
+  );
+
+  if (collapsible) {
+    return (
+      <details className="text-xs text-gray-500">
+        <summary className="cursor-pointer select-none">
+          Instructions shown to applicants
+        </summary>
+        <div className="mt-2">{content}</div>
+      </details>
+    );
+  }
+  return <div className={className}>{content}</div>;
+}
@@ -0,0 +1,172 @@
+import { useState } from "react";
+import type { AppItem, QuestionMedia } from "../types/application";
+import QuestionHelp from "./QuestionHelp";
+import { safeImageUrl, safeUrl } from "../utils/safeUrl";
+
+interface QuestionHelpEditorProps {
+  field: AppItem;
+  onChange: (updates: Partial<AppItem>) => void;
+  disabled?: boolean;
+}
+
+// Types with a text box or dropdown that can show a placeholder
+const PLACEHOLDER_TYPES = [
+  "short_text",
+  "long_text",
+  "number",
+  "email",
+  "phone",
+  "url",
+  "select",
+];
+
+export default function QuestionHelpEditor({
+  field,
+  onChange,
+  disabled = false,
+}: QuestionHelpEditorProps) {
+  const [open, setOpen] = useState(
+    !!(field.helpText || field.placeholder || field.media)
+  );
+  if (field.type === "section") return null;
+
+  const media = field.media;
+  const setMedia = (patch: Partial<QuestionMedia>) => {
+    const next = { kind: "link", url: "", ...media, ...patch } as QuestionMedia;
+    onChange({ media: next });
+  };
+  const mediaUrlInvalid =
+    !!media?.url?.trim() &&
+    !(media.kind === "image" ? safeImageUrl(media.url) : safeUrl(media.url));
+
+  return (
+    <div className="w-full p-3 bg-gray-50 rounded-md border">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={open}
+          onChange={(e) => {
+            setOpen(e.target.checked);
+            if (!e.target.checked) {
+              onChange({
+                helpText: undefined,
+                placeholder: undefined,
+                media: undefined,
+              });
+            }
+          }}
+          disabled={disabled}
+          className="w-3 h-3 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <span>Help text, placeholder & attachment</span>
+      </label>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          <div>
+            <label className="block text-sm text-gray-700 mb-1">
+              Help text
+            </label>
+            <textarea
+              className="w-full border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              rows={3}
+              placeholder="Instructions shown under the question..."
+              value={field.helpText ?? ""}
+              onChange={(e) =>
+                onChange({ helpText: e.target.value || undefined })
+              }
+              disabled={disabled}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Supports **bold**, *italic*, [link text](https://...) and lists
+              starting with "-".
+            </p>
+          </div>
+
+          {PLACEHOLDER_TYPES.includes(field.type) && (
+            <div>
+              <label className="block text-sm text-gray-700 mb-1">
+                Placeholder
+              </label>
+              <input
+                className="w-full border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Example answer shown in the empty box"
+                value={field.placeholder ?? ""}
+                onChange={(e) =>
+                  onChange({ placeholder: e.target.value || undefined })
+                }
+                disabled={disabled}
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm text-gray-700 mb-1">
+              Image or link
+            </label>
+            <div className="flex flex-wrap gap-2 items-center">
+              <select
+                className="border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100"
+                value={media?.kind ?? ""}
+                onChange={(e) =>
+                  e.target.value
+                    ? setMedia({
+                        kind: e.target.value as QuestionMedia["kind"],
+                      })
+                    : onChange({ media: undefined })
+                }
+                disabled={disabled}
+              >
+                <option value="">None</option>
+                <option value="image">Image</option>
+                <option value="link">Link / document</option>
+              </select>
+              {media && (
+                <>
+                  <input
+                    className={`flex-1 min-w-[12rem] border rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                      mediaUrlInvalid ? "border-red-400" : "border-gray-300"
+                    }`}
+                    placeholder="https://..."
+                    value={media.url}
+                    onChange={(e) => setMedia({ url: e.target.value })}
+                    disabled={disabled}
+                  />
+                  <input
+                    className="flex-1 min-w-[10rem] border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder={
+                      media.kind === "image"
+                        ? "Caption (optional)"
+                        : "Link text (optional)"
+                    }
+                    value={media.caption ?? ""}
+                    onChange={(e) =>
+                      setMedia({ caption: e.target.value || undefined })
+                    }
+                    disabled={disabled}
+                  />
+                </>
+              )}
+            </div>
+            {mediaUrlInvalid && (
+              <p className="text-xs text-red-600 mt-1">
+                {media?.kind === "image"
+                  ? "Images need an http:// or https:// address."
+                  : "Links need an http://, https:// or mailto: address."}
+              </p>
+            )}
+          </div>
+
+          {(field.helpText || media?.url) && (
+            <div className="p-3 bg-white border border-gray-200 rounded">
+              <p className="text-xs font-medium text-gray-500 mb-2">
+                Applicants will see:
+              </p>
+              <QuestionHelp helpText={field.helpText} media={media} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
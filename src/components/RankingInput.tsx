@@ -0,0 +1,78 @@
+interface RankingInputProps {
+  options: string[];
+  value: string[];
+  onChange: (value: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Ordered list the applicant rearranges; the answer is every option,
+ * most preferred first
+ */
+export default function RankingInput({
+  options,
+  value,
+  onChange,
+  disabled = false,
+}: RankingInputProps) {
+  const ranked = Array.isArray(value)
+    ? value.filter((o) => options.includes(o))
+    : [];
+  // Options added after the applicant ranked go to the bottom
+  const order = [...ranked, ...options.filter((o) => !ranked.includes(o))];
+  const isRanked = ranked.length === options.length && options.length > 0;
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= order.length) return;
+    const next = [...order];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <ol className="space-y-2">
+        {order.map((option, index) => (
+          <li
+            key={option}
+            className="flex items-center gap-2 md:gap-3 bg-gray-50 border border-gray-200 rounded-md px-3 py-2 text-xs md:text-sm text-gray-700"
+          >
+            <span className="w-6 font-semibold text-gray-500">
+              {index + 1}.
+            </span>
+            <span className="flex-1">{option}</span>
+            <button
+              type="button"
+              onClick={() => move(index, index - 1)}
+              disabled={disabled || index === 0}
+              className="px-2 py-1 text-gray-500 hover:text-gray-800 disabled:opacity-30 disabled:cursor-not-allowed"
+              aria-label={`Move ${option} up`}
+            >
+              ▲
+            </button>
+            <button
+              type="button"
+              onClick={() => move(index, index + 1)}
+              disabled={disabled || index === order.length - 1}
+              className="px-2 py-1 text-gray-500 hover:text-gray-800 disabled:opacity-30 disabled:cursor-not-allowed"
+              aria-label={`Move ${option} down`}
+            >
+              ▼
+            </button>
+          </li>
+        ))}
+      </ol>
+      {!isRanked && options.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onChange(order)}
+          disabled={disabled}
+          className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Keep this order
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { supabase } from "../lib/supabase";
+import type { ProgramAssignment } from "../lib/programAssignments";
+import {
+  AssignmentPolicy,
+  DEFAULT_ASSIGNMENT_POLICY,
+  getAssignmentPolicy,
+  getReviewerLoads,
+  rebalanceProgramAssignments,
+  saveAssignmentPolicy,
+} from "../lib/reviewAssignments";
+
+interface ReviewAssignmentPolicyCardProps {
+  programId: string;
+  reviewers: ProgramAssignment[];
+  // Bump to reload reviewer loads after the team changes
+  refreshToken?: number;
+}
+
+export default function ReviewAssignmentPolicyCard({
+  programId,
+  reviewers,
+  refreshToken = 0,
+}: ReviewAssignmentPolicyCardProps) {
+  const [policy, setPolicy] = useState<AssignmentPolicy>(
+    DEFAULT_ASSIGNMENT_POLICY
+  );
+  const [loads, setLoads] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase
+          .from("programs")
+          .select("metadata")
+          .eq("id", programId)
+          .single();
+        if (error) throw error;
+        setPolicy(getAssignmentPolicy(data));
+      } catch (err) {
+        console.error("Error loading assignment policy:", err);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [programId]);
+
+  useEffect(() => {
+    if (!policy.enabled) return;
+    getReviewerLoads(programId)
+      .then(setLoads)
+      .catch((err) => console.error("Error loading reviewer loads:", err));
+  }, [programId, policy.enabled, refreshToken]);
+
+  const describe = (result: { removed: number; added: number }) =>
+    `${result.added} assignment${result.added !== 1 ? "s" : ""} added, ${
+      result.removed
+    } removed.`;
+
+  async function handleSave() {
+    if (policy.enabled && reviewers.length < policy.reviewers_per_app) {
+      const ok = confirm(
+        `Only ${reviewers.length} reviewer${
+          reviewers.length !== 1 ? "s are" : " is"
+        } on this program, so applications will get fewer than ${
+          policy.reviewers_per_app
+        }. Save anyway?`
+      );
+      if (!ok) return;
+    }
+    try {
+      setSaving(true);
+      setMessage(null);
+      const result = await saveAssignmentPolicy(programId, policy);
+      setMessage(result ? `Saved. ${describe(result)}` : "Saved.");
+      if (policy.enabled) setLoads(await getReviewerLoads(programId));
+    } catch (err: any) {
+      console.error("Error saving assignment policy:", err);
+      alert(`Failed to save assignment policy: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRebalance() {
+    try {
+      setSaving(true);
+      setMessage(null);
+      const result = await rebalanceProgramAssignments(programId);
+      setMessage(describe(result));
+      setLoads(await getReviewerLoads(programId));
+    } catch (err: any) {
+      console.error("Error rebalancing assignments:", err);
+      alert(`Failed to reassign reviewers: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const toggleSenior = (userId: string, on: boolean) =>
+    setPolicy((p) => ({
+      ...p,
+      senior_reviewer_ids: on
+        ? [...p.senior_reviewer_ids.filter((id) => id !== userId), userId]
+        : p.senior_reviewer_ids.filter((id) => id !== userId),
+    }));
+
+  if (loading) {
+    return (
+      <div className="text-sm text-gray-500">Loading assignment policy...</div>
+    );
+  }
+
+  return (
+    <div className="border border-indigo-100 bg-indigo-50 rounded-lg p-4 space-y-4">
+      <div>
+        <h4 className="font-medium text-gray-900">Automatic Assignment</h4>
+        <p className="text-sm text-gray-600 mt-1">
+          Give each submitted application a set number of reviewers, spread
+          evenly across the team. Reviewers only see their own assignments in
+          the review queue.
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          className="h-4 w-4 text-indigo-600"
+          checked={policy.enabled}
+          onChange={(e) =>
+            setPolicy((p) => ({ ...p, enabled: e.target.checked }))
+          }
+        />
+        Assign reviewers automatically
+      </label>
+
+      {policy.enabled && (
+        <div className="space-y-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Reviewers per application
+            <input
+              type="number"
+              min={1}
+              max={Math.max(1, reviewers.length)}
+              value={policy.reviewers_per_app}
+              onChange={(e) =>
+                setPolicy((p) => ({
+                  ...p,
+                  reviewers_per_app: Math.max(1, Number(e.target.value) || 1),
+                }))
+              }
+              className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="h-4 w-4 text-indigo-600"
+              checked={policy.require_senior}
+              onChange={(e) =>
+                setPolicy((p) => ({ ...p, require_senior: e.target.checked }))
+              }
+            />
+            At least one senior reviewer per application
+          </label>
+
+          {reviewers.length > 0 && (
+            <div className="bg-white rounded-md border border-gray-200 divide-y">
+              {reviewers.map((r) => (
+                <div
+                  key={r.user_id}
+                  className="flex items-center justify-between px-3 py-2 text-sm"
+                >
+                  <span className="text-gray-900">
+                    {r.full_name || r.email}
+                  </span>
+                  <div className="flex items-center gap-4">
+                    <span className="text-xs text-gray-500">
+                      {loads[r.user_id] ?? 0} assigned
+                    </span>
+                    {policy.require_senior && (
+                      <label className="flex items-center gap-1 text-xs text-gray-700">
+                        <input
+                          type="checkbox"
+                          className="h-3.5 w-3.5 text-indigo-600"
+                          checked={policy.senior_reviewer_ids.includes(
+                            r.user_id
+                          )}
+                          onChange={(e) =>
+                            toggleSenior(r.user_id, e.target.checked)
+                          }
+                        />
+                        Senior
+                      </label>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        {message && <span className="text-sm text-green-700">{message}</span>}
+        {policy.enabled && (
+          <button
+            onClick={handleRebalance}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-indigo-700 bg-white border border-indigo-200 rounded-md hover:bg-indigo-50 disabled:opacity-50"
+          >
+            Fill Gaps Now
+          </button>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm font-medium disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save Policy"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { findUserByEmail } from "../lib/programAssignments";
+import {
+  ReviewConflict,
+  declareConflict,
+  deleteConflict,
+  listOrgConflicts,
+} from "../lib/reviewConflicts";
+
+interface ReviewConflictsPanelProps {
+  orgId: string;
+  members: { id: string; email: string; full_name: string | null }[];
+}
+
+export default function ReviewConflictsPanel({
+  orgId,
+  members,
+}: ReviewConflictsPanelProps) {
+  const [conflicts, setConflicts] = useState<ReviewConflict[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [reviewerId, setReviewerId] = useState("");
+  const [applicantEmail, setApplicantEmail] = useState("");
+  const [reason, setReason] = useState("");
+
+  async function load() {
+    try {
+      setConflicts(await listOrgConflicts(orgId));
+    } catch (err) {
+      console.error("Error loading conflicts:", err);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, [orgId]);
+
+  async function handleAdd() {
+    if (!reviewerId || !applicantEmail.trim()) {
+      alert("Choose a reviewer and enter the applicant's email.");
+      return;
+    }
+    try {
+      setSaving(true);
+      // Link the account too, so the conflict survives an email change
+      const applicant = await findUserByEmail(applicantEmail.trim());
+      await declareConflict({
+        organizationId: orgId,
+        reviewerId,
+        applicantId: applicant?.user_id || undefined,
+        applicantEmail,
+        reason,
+      });
+      setApplicantEmail("");
+      setReason("");
+      await load();
+    } catch (err: any) {
+      console.error("Error declaring conflict:", err);
+      alert(`Failed to declare conflict: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(conflict: ReviewConflict) {
+    if (
+      !confirm(
+        `Lift this conflict? ${
+          conflict.reviewer_name || conflict.reviewer_email
+        } will be able to review the applicant again.`
+      )
+    ) {
+      return;
+    }
+    try {
+      await deleteConflict(conflict.id);
+      setConflicts((prev) => prev.filter((c) => c.id !== conflict.id));
+    } catch (err: any) {
+      console.error("Error deleting conflict:", err);
+      alert(`Failed to lift conflict: ${err.message}`);
+    }
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-2xl shadow-lg overflow-hidden">
+      <div className="px-8 py-6 bg-gradient-to-r from-orange-50 to-amber-50 border-b border-gray-200">
+        <div className="flex items-center gap-3">
+          <div className="w-2 h-6 bg-gradient-to-b from-orange-500 to-amber-600 rounded-full"></div>
+          <h2 className="text-xl font-bold text-gray-900">
+            Conflicts of Interest
+          </h2>
+        </div>
+        <p className="text-sm text-gray-600 mt-2">
+          Conflicted reviewers can't open or score the applicant's applications,
+          and automatic assignment skips them.
+        </p>
+      </div>
+
+      <div className="p-8 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <select
+            value={reviewerId}
+            onChange={(e) => setReviewerId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="">Select reviewer...</option>
+            {members.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.full_name || m.email}
+              </option>
+            ))}
+          </select>
+          <input
+            type="email"
+            value={applicantEmail}
+            onChange={(e) => setApplicantEmail(e.target.value)}
+            placeholder="Applicant email"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (optional)"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={saving}
+            className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 text-sm font-medium disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Declare Conflict"}
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="text-sm text-gray-500">Loading conflicts...</div>
+        ) : conflicts.length === 0 ? (
+          <div className="text-sm text-gray-500">
+            No conflicts declared yet.
+          </div>
+        ) : (
+          <div className="border border-gray-200 rounded-lg divide-y">
+            {conflicts.map((c) => (
+              <div
+                key={c.id}
+                className="flex items-center justify-between px-4 py-3 text-sm"
+              >
+                <div>
+                  <div className="text-gray-900">
+                    <span className="font-medium">
+                      {c.reviewer_name || c.reviewer_email}
+                    </span>{" "}
+                    ↔{" "}
+                    {c.applicant_name ||
+                      c.applicant_email ||
+                      "Single application"}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-0.5">
+                    {c.declared_by_reviewer
+                      ? "Declared by reviewer"
+                      : "Declared by admin"}{" "}
+                    · {new Date(c.created_at).toLocaleDateString()}
+                    {c.reason ? ` · ${c.reason}` : ""}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleDelete(c)}
+                  className="text-xs text-red-600 hover:text-red-800"
+                >
+                  Lift
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
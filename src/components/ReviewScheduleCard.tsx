@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { supabase } from "../lib/supabase";
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  ReviewReminderSettings,
+  getReminderSettings,
+  getReviewDeadline,
+  saveReviewSchedule,
+} from "../lib/reviewProgress";
+
+interface ReviewScheduleCardProps {
+  programId: string;
+  onSaved?: () => void;
+}
+
+// ISO timestamp <-> value of a datetime-local input (local time)
+function toLocalInput(iso: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(
+    d.getHours()
+  )}:${pad(d.getMinutes())}`;
+}
+
+export default function ReviewScheduleCard({
+  programId,
+  onSaved,
+}: ReviewScheduleCardProps) {
+  const [deadline, setDeadline] = useState("");
+  const [reminders, setReminders] = useState<ReviewReminderSettings>(
+    DEFAULT_REMINDER_SETTINGS
+  );
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setLoading(true);
+        setMessage(null);
+        const { data, error } = await supabase
+          .from("programs")
+          .select("metadata")
+          .eq("id", programId)
+          .single();
+        if (error) throw error;
+        setDeadline(toLocalInput(getReviewDeadline(data)));
+        setReminders(getReminderSettings(data));
+      } catch (err) {
+        console.error("Error loading review schedule:", err);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [programId]);
+
+  async function handleSave() {
+    if (reminders.auto && !deadline) {
+      alert("Set a review deadline to send automatic reminders.");
+      return;
+    }
+    try {
+      setSaving(true);
+      setMessage(null);
+      await saveReviewSchedule(
+        programId,
+        deadline ? new Date(deadline).toISOString() : null,
+        reminders
+      );
+      setMessage("Saved.");
+      onSaved?.();
+    } catch (err: any) {
+      console.error("Error saving review schedule:", err);
+      alert(`Failed to save review deadline: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const setNumber = (key: "days_before" | "every_days", value: string) =>
+    setReminders((r) => ({
+      ...r,
+      [key]: Math.max(key === "every_days" ? 1 : 0, Number(value) || 0),
+    }));
+
+  if (loading) {
+    return (
+      <div className="text-sm text-gray-500">Loading review deadline...</div>
+    );
+  }
+
+  return (
+    <div className="border border-indigo-100 bg-indigo-50 rounded-lg p-4 space-y-4">
+      <div>
+        <h4 className="font-medium text-gray-900">Deadline & Reminders</h4>
+        <p className="text-sm text-gray-600 mt-1">
+          Reviewers see the deadline in their queue. Reminders go to reviewers
+          who still have assigned or started reviews to finalize, in the app and
+          by email.
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        Review deadline
+        <input
+          type="datetime-local"
+          value={deadline}
+          onChange={(e) => setDeadline(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+        />
+        {deadline && (
+          <button
+            onClick={() => setDeadline("")}
+            className="text-xs text-gray-500 hover:text-gray-800"
+          >
+            Clear
+          </button>
+        )}
+      </label>
+
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          className="h-4 w-4 text-indigo-600"
+          checked={reminders.auto}
+          onChange={(e) =>
+            setReminders((r) => ({ ...r, auto: e.target.checked }))
+          }
+        />
+        Send reminders automatically
+      </label>
+
+      {reminders.auto && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+          Start
+          <input
+            type="number"
+            min={0}
+            value={reminders.days_before}
+            onChange={(e) => setNumber("days_before", e.target.value)}
+            className="w-16 px-2 py-1 border border-gray-300 rounded-md text-sm"
+          />
+          days before the deadline, then every
+          <input
+            type="number"
+            min={1}
+            value={reminders.every_days}
+            onChange={(e) => setNumber("every_days", e.target.value)}
+            className="w-16 px-2 py-1 border border-gray-300 rounded-md text-sm"
+          />
+          days until done.
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        {message && <span className="text-sm text-green-700">{message}</span>}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm font-medium disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </div>
+  );
+}
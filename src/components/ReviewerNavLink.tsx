@@ -1,10 +1,13 @@
 import { Link, useLocation } from "react-router-dom";
 import { hasReviewerAssignments } from "../lib/capabilities";
 import { useCapabilitiesContext } from "../providers/CapabilitiesProvider";
+import { useUnreadNotifications } from "../hooks/useUnreadNotifications";
 
 export default function ReviewerNavLink() {
   const { capabilities, loading } = useCapabilitiesContext();
   const location = useLocation();
+  // Unread @mentions in review discussions
+  const { hasUnread } = useUnreadNotifications("reviewer");
 
   if (loading) return null;
   if (!hasReviewerAssignments(capabilities)) return null;
@@ -14,7 +17,7 @@ export default function ReviewerNavLink() {
   return (
     <Link
       to="/review"
-      className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-colors text-sm font-medium ${
+      className={`relative flex items-center gap-2 px-3 py-2 rounded-lg transition-colors text-sm font-medium ${
         isActive
           ? "bg-[#1F3A52]/10 text-[#1F3A52]"
           : "text-gray-700 hover:bg-gray-100"
@@ -34,6 +37,9 @@ export default function ReviewerNavLink() {
         />
       </svg>
       <span>Reviews</span>
+      {hasUnread && (
+        <span className="absolute -top-1 -right-1 h-3 w-3 bg-red-500 rounded-full border-2 border-white shadow-sm"></span>
+      )}
     </Link>
   );
 }
@@ -0,0 +1,180 @@
+import {
+  RubricCriterion,
+  newCriterion,
+  scalePoints,
+  weightPercent,
+} from "../utils/rubric";
+
+interface RubricEditorProps {
+  rubric: RubricCriterion[];
+  onChange: (rubric: RubricCriterion[]) => void;
+}
+
+const SCALE_BOTTOMS = [0, 1];
+const SCALE_TOPS = [3, 4, 5, 7, 10];
+
+export default function RubricEditor({ rubric, onChange }: RubricEditorProps) {
+  const update = (idx: number, patch: Partial<RubricCriterion>) => {
+    onChange(rubric.map((c, i) => (i === idx ? { ...c, ...patch } : c)));
+  };
+
+  const setAnchor = (idx: number, point: number, text: string) => {
+    const anchors = { ...(rubric[idx].anchors ?? {}) };
+    if (text) anchors[String(point)] = text;
+    else delete anchors[String(point)];
+    update(idx, {
+      anchors: Object.keys(anchors).length > 0 ? anchors : undefined,
+    });
+  };
+
+  const move = (idx: number, dir: -1 | 1) => {
+    const target = idx + dir;
+    if (target < 0 || target >= rubric.length) return;
+    const next = [...rubric];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm text-gray-600">
+        Rubric criteria
+        <span className="block text-xs text-gray-500">
+          With criteria set, reviewers score each one and the overall score (out
+          of 100) is the weighted average. Leave empty for a single score box.
+        </span>
+      </div>
+
+      {rubric.map((c, idx) => (
+        <div
+          key={c.id}
+          className="p-3 bg-white rounded-lg border border-purple-100 space-y-2"
+        >
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              placeholder="e.g., Technique"
+              value={c.name}
+              onChange={(e) => update(idx, { name: e.target.value })}
+              className="flex-1 rounded border px-2.5 py-1.5 text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => move(idx, -1)}
+              disabled={idx === 0}
+              className="px-1.5 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+              title="Move up"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => move(idx, 1)}
+              disabled={idx === rubric.length - 1}
+              className="px-1.5 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+              title="Move down"
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(rubric.filter((_, i) => i !== idx))}
+              className="px-1.5 text-red-500 hover:text-red-700"
+              title="Remove criterion"
+            >
+              ×
+            </button>
+          </div>
+
+          <textarea
+            rows={2}
+            placeholder="What reviewers should look for (optional)"
+            value={c.description ?? ""}
+            onChange={(e) =>
+              update(idx, { description: e.target.value || undefined })
+            }
+            className="w-full rounded border px-2.5 py-1.5 text-sm resize-none"
+          />
+
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+            <label className="flex items-center gap-1.5">
+              Scale
+              <select
+                value={c.min}
+                onChange={(e) => update(idx, { min: Number(e.target.value) })}
+                className="rounded border px-1.5 py-1 text-sm"
+              >
+                {SCALE_BOTTOMS.map((v) => (
+                  <option key={v} value={v}>
+                    {v}
+                  </option>
+                ))}
+              </select>
+              to
+              <select
+                value={c.max}
+                onChange={(e) => update(idx, { max: Number(e.target.value) })}
+                className="rounded border px-1.5 py-1 text-sm"
+              >
+                {SCALE_TOPS.map((v) => (
+                  <option key={v} value={v}>
+                    {v}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1.5">
+              Weight
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={c.weight}
+                onChange={(e) =>
+                  update(idx, {
+                    weight: e.target.value === "" ? 0 : Number(e.target.value),
+                  })
+                }
+                className="w-16 rounded border px-1.5 py-1 text-sm"
+              />
+            </label>
+            <span className="text-xs text-gray-500">
+              {weightPercent(rubric, c)}% of overall score
+            </span>
+          </div>
+
+          <details className="text-sm">
+            <summary className="cursor-pointer text-xs text-purple-700 select-none">
+              Scale anchors
+              {c.anchors ? ` (${Object.keys(c.anchors).length})` : ""}
+            </summary>
+            <div className="mt-2 space-y-1.5">
+              {scalePoints(c).map((point) => (
+                <div key={point} className="flex items-center gap-2">
+                  <span className="w-6 text-right text-xs font-medium text-gray-600">
+                    {point}
+                  </span>
+                  <input
+                    type="text"
+                    placeholder="What this score means (optional)"
+                    value={c.anchors?.[String(point)] ?? ""}
+                    onChange={(e) => setAnchor(idx, point, e.target.value)}
+                    className="flex-1 rounded border px-2 py-1 text-xs"
+                  />
+                </div>
+              ))}
+            </div>
+          </details>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...rubric, newCriterion()])}
+        className="px-2.5 py-1.5 bg-purple-600 text-white rounded text-sm hover:bg-purple-700"
+      >
+        + Add Criterion
+      </button>
+    </div>
+  );
+}
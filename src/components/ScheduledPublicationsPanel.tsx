@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import {
+  PublicationVisibility,
+  ScheduledPublication,
+  cancelScheduledPublication,
+  listScheduledPublications,
+  updateScheduledPublication,
+} from "../lib/scheduledPublications";
+
+interface ScheduledPublicationsPanelProps {
+  programId: string;
+  // Application id -> applicant name, for listing who is in a batch
+  applicantNames: Record<string, string>;
+  // Reloads the list when it changes (after scheduling or a refresh)
+  refreshKey?: number;
+}
+
+// ISO timestamp -> value of a datetime-local input (local time)
+function toDateTimeLocal(iso: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(
+    d.getHours()
+  )}:${pad(d.getMinutes())}`;
+}
+
+function visibilitySummary(visibility: PublicationVisibility) {
+  const parts = [
+    visibility.decision && "decision",
+    visibility.score && "score",
+    visibility.comments && "comments",
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "nothing";
+}
+
+export default function ScheduledPublicationsPanel({
+  programId,
+  applicantNames,
+  refreshKey,
+}: ScheduledPublicationsPanelProps) {
+  const [batches, setBatches] = useState<ScheduledPublication[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [publishAt, setPublishAt] = useState("");
+  const [claimDeadline, setClaimDeadline] = useState("");
+  const [visibility, setVisibility] = useState<PublicationVisibility>({
+    decision: true,
+    score: false,
+    comments: false,
+  });
+  const [saving, setSaving] = useState(false);
+
+  const load = async () => {
+    try {
+      setBatches(await listScheduledPublications(programId));
+    } catch (err) {
+      console.error("Error loading scheduled publications:", err);
+    }
+  };
+
+  useEffect(() => {
+    load(); /* eslint-disable-next-line */
+  }, [programId, refreshKey]);
+
+  const startEditing = (batch: ScheduledPublication) => {
+    setEditingId(batch.id);
+    setPublishAt(toDateTimeLocal(batch.publish_at));
+    setClaimDeadline(toDateTimeLocal(batch.claim_deadline));
+    setVisibility(batch.visibility);
+  };
+
+  const handleSave = async (id: string) => {
+    if (!publishAt || new Date(publishAt) <= new Date()) {
+      alert("Choose a release time in the future.");
+      return;
+    }
+    if (claimDeadline && new Date(claimDeadline) <= new Date(publishAt)) {
+      alert("The claim deadline must be after the release time.");
+      return;
+    }
+    try {
+      setSaving(true);
+      await updateScheduledPublication(id, {
+        visibility,
+        claimDeadline: claimDeadline
+          ? new Date(claimDeadline).toISOString()
+          : null,
+        publishAt: new Date(publishAt).toISOString(),
+      });
+      setEditingId(null);
+      await load();
+    } catch (err: any) {
+      console.error("Error updating scheduled publication:", err);
+      alert(`Failed to update scheduled publication: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (batch: ScheduledPublication) => {
+    if (
+      !confirm(
+        `Cancel the release of ${
+          batch.application_ids.length
+        } result(s) on ${new Date(batch.publish_at).toLocaleString()}?`
+      )
+    ) {
+      return;
+    }
+    try {
+      await cancelScheduledPublication(batch.id);
+      await load();
+    } catch (err: any) {
+      console.error("Error cancelling scheduled publication:", err);
+      alert(`Failed to cancel scheduled publication: ${err.message}`);
+    }
+  };
+
+  if (batches.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 md:p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">
+        Scheduled Releases
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Applicants are notified when a batch is released, not before.
+      </p>
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {batches.map((batch) => (
+          <li key={batch.id} className="p-4">
+            {editingId === batch.id ? (
+              <div className="space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <label className="block text-sm text-gray-700">
+                    Release at
+                    <input
+                      type="datetime-local"
+                      value={publishAt}
+                      onChange={(e) => setPublishAt(e.target.value)}
+                      className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </label>
+                  <label className="block text-sm text-gray-700">
+                    Claim deadline (optional)
+                    <input
+                      type="datetime-local"
+                      value={claimDeadline}
+                      onChange={(e) => setClaimDeadline(e.target.value)}
+                      className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </label>
+                </div>
+                <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+                  {(["decision", "score", "comments"] as const).map((key) => (
+                    <label key={key} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={visibility[key]}
+                        onChange={(e) =>
+                          setVisibility((v) => ({
+                            ...v,
+                            [key]: e.target.checked,
+                          }))
+                        }
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      Show {key}
+                    </label>
+                  ))}
+                </div>
+                <textarea
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+                  placeholder="Optional custom message"
+                  value={visibility.customMessage ?? ""}
+                  onChange={(e) =>
+                    setVisibility((v) => ({
+                      ...v,
+                      customMessage: e.target.value || null,
+                    }))
+                  }
+                  rows={2}
+                />
+                <div className="flex gap-2 justify-end">
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => handleSave(batch.id)}
+                    disabled={saving}
+                    className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {saving ? "Saving..." : "Save"}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div>
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                  <div className="text-sm text-gray-900">
+                    <span className="font-medium">
+                      🕘 {new Date(batch.publish_at).toLocaleString()}
+                    </span>
+                    <span className="text-gray-500">
+                      {" "}
+                      · {batch.application_ids.length} result
+                      {batch.application_ids.length !== 1 ? "s" : ""} · shows{" "}
+                      {visibilitySummary(batch.visibility)}
+                      {batch.claim_deadline &&
+                        ` · claim by ${new Date(
+                          batch.claim_deadline
+                        ).toLocaleString()}`}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3 text-sm">
+                    <button
+                      onClick={() =>
+                        setExpandedId((id) =>
+                          id === batch.id ? null : batch.id
+                        )
+                      }
+                      className="text-gray-600 hover:text-gray-900"
+                    >
+                      {expandedId === batch.id ? "Hide" : "Applicants"}
+                    </button>
+                    {batch.status === "pending" ? (
+                      <>
+                        <button
+                          onClick={() => startEditing(batch)}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleCancel(batch)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Cancel release
+                        </button>
+                      </>
+                    ) : (
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                        Failed
+                      </span>
+                    )}
+                  </div>
+                </div>
+                {batch.status === "failed" && batch.error && (
+                  <p className="mt-2 text-sm text-red-600">
+                    Nothing was published: {batch.error}
+                  </p>
+                )}
+                {expandedId === batch.id && (
+                  <p className="mt-2 text-sm text-gray-600">
+                    {batch.application_ids
+                      .map((id) => applicantNames[id] ?? "Unknown applicant")
+                      .join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,362 @@
+import { useEffect, useState } from "react";
+import { supabase } from "../lib/supabase";
+import {
+  WaitlistCandidate,
+  WaitlistPolicy,
+  WaitlistPromotion,
+  DEFAULT_WAITLIST_POLICY,
+  getWaitlistPolicy,
+  listWaitlist,
+  listWaitlistPromotions,
+  promoteFromWaitlist,
+  saveWaitlistPolicy,
+} from "../lib/waitlist";
+
+interface WaitlistPromotionPanelProps {
+  programId: string;
+  claimableDecision: string;
+  // Decisions that can be used as the waitlist decision
+  decisions: string[];
+  // Called after a manual promotion so the page can reload its lists
+  onPromoted?: () => void;
+}
+
+const REASON_LABELS: Record<WaitlistPromotion["reason"], string> = {
+  declined: "Declined",
+  expired: "Deadline passed",
+  manual: "Manual",
+};
+
+function offerStatus(promotion: WaitlistPromotion) {
+  if (promotion.claimed_at) {
+    return { label: "Claimed", className: "bg-green-100 text-green-800" };
+  }
+  if (promotion.declined_at) {
+    return { label: "Declined", className: "bg-red-100 text-red-800" };
+  }
+  if (
+    promotion.claim_deadline &&
+    new Date(promotion.claim_deadline) < new Date()
+  ) {
+    return { label: "Expired", className: "bg-gray-100 text-gray-700" };
+  }
+  return { label: "Pending", className: "bg-yellow-100 text-yellow-800" };
+}
+
+export default function WaitlistPromotionPanel({
+  programId,
+  claimableDecision,
+  decisions,
+  onPromoted,
+}: WaitlistPromotionPanelProps) {
+  const [policy, setPolicy] = useState<WaitlistPolicy>(DEFAULT_WAITLIST_POLICY);
+  const [candidates, setCandidates] = useState<WaitlistCandidate[]>([]);
+  const [promotions, setPromotions] = useState<WaitlistPromotion[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadPolicy = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("programs")
+        .select("metadata")
+        .eq("id", programId)
+        .single();
+      if (error) throw error;
+      setPolicy(getWaitlistPolicy(data));
+    } catch (err) {
+      console.error("Error loading waitlist policy:", err);
+    }
+  };
+
+  const loadLists = async () => {
+    try {
+      const [waitlist, log] = await Promise.all([
+        listWaitlist(programId),
+        listWaitlistPromotions(programId),
+      ]);
+      setCandidates(waitlist);
+      setPromotions(log);
+    } catch (err) {
+      console.error("Error loading waitlist:", err);
+    }
+  };
+
+  useEffect(() => {
+    loadPolicy();
+    loadLists(); /* eslint-disable-next-line */
+  }, [programId]);
+
+  const update = (changes: Partial<WaitlistPolicy>) => {
+    setPolicy((prev) => ({ ...prev, ...changes }));
+    setMessage(null);
+  };
+
+  // The list is shown in promotion order, so moving a row is the ranking
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= candidates.length) return;
+    const next = [...candidates];
+    [next[index], next[target]] = [next[target], next[index]];
+    setCandidates(next);
+    update({ order: "ranked" });
+  };
+
+  async function handleSave() {
+    if (policy.enabled && !policy.waitlistDecision) {
+      alert("Choose which decision is the waitlist.");
+      return;
+    }
+    try {
+      setSaving(true);
+      await saveWaitlistPolicy(programId, {
+        ...policy,
+        ranking:
+          policy.order === "ranked"
+            ? candidates.map((c) => c.application_id)
+            : policy.ranking,
+      });
+      await Promise.all([loadPolicy(), loadLists()]);
+      setMessage("Saved.");
+    } catch (err: any) {
+      console.error("Error saving waitlist policy:", err);
+      alert(`Failed to save waitlist settings: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handlePromote(candidate: WaitlistCandidate) {
+    if (
+      !confirm(
+        `Offer a "${claimableDecision}" spot to ${candidate.applicant_name} now? They will be notified and have ${policy.claimDays} day(s) to claim it.`
+      )
+    ) {
+      return;
+    }
+    try {
+      setPromotingId(candidate.application_id);
+      await promoteFromWaitlist(programId, candidate.application_id);
+      await loadLists();
+      onPromoted?.();
+    } catch (err: any) {
+      console.error("Error promoting from waitlist:", err);
+      alert(`Failed to offer spot: ${err.message}`);
+    } finally {
+      setPromotingId(null);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 md:p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">
+        🪜 Waitlist Promotion
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">
+        When a "{claimableDecision}" offer is declined or its claim deadline
+        passes, the next waitlisted applicant is offered the spot with a fresh
+        deadline.
+      </p>
+
+      <div className="space-y-4">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={policy.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <span className="text-sm font-medium text-gray-700">
+            Promote from the waitlist automatically
+          </span>
+        </label>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <label className="block text-sm text-gray-700">
+            Waitlist decision
+            <select
+              value={policy.waitlistDecision}
+              onChange={(e) => update({ waitlistDecision: e.target.value })}
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Select a decision...</option>
+              {decisions
+                .filter((d) => d !== claimableDecision)
+                .map((d) => (
+                  <option key={d} value={d}>
+                    {d}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700">
+            Order
+            <select
+              value={policy.order}
+              onChange={(e) =>
+                update({ order: e.target.value as WaitlistPolicy["order"] })
+              }
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="score">Average review score</option>
+              <option value="ranked">My ranking</option>
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700">
+            Days to claim
+            <input
+              type="number"
+              min={1}
+              value={policy.claimDays}
+              onChange={(e) =>
+                update({ claimDays: Math.max(1, Number(e.target.value) || 1) })
+              }
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center justify-end gap-3">
+          {message && <span className="text-sm text-green-700">{message}</span>}
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save Waitlist Settings"}
+          </button>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">
+            Waitlist ({candidates.length})
+          </h4>
+          {candidates.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {policy.waitlistDecision
+                ? `No published "${policy.waitlistDecision}" results waiting for a spot.`
+                : "Save a waitlist decision to see the waitlist."}
+            </p>
+          ) : (
+            <ol className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {candidates.map((candidate, index) => (
+                <li
+                  key={candidate.application_id}
+                  className="flex items-center justify-between gap-3 p-3 text-sm"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span className="w-6 text-right text-gray-400">
+                      {index + 1}.
+                    </span>
+                    <span className="font-medium text-gray-900 truncate">
+                      {candidate.applicant_name}
+                    </span>
+                    {candidate.score !== null && (
+                      <span className="text-gray-500">
+                        avg {candidate.score}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <button
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0}
+                      title="Move up"
+                      className="px-2 py-0.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-30"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => move(index, 1)}
+                      disabled={index === candidates.length - 1}
+                      title="Move down"
+                      className="px-2 py-0.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-30"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => handlePromote(candidate)}
+                      disabled={promotingId !== null}
+                      className="px-3 py-1 text-xs font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+                    >
+                      {promotingId === candidate.application_id
+                        ? "Offering..."
+                        : "Offer spot now"}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+          {policy.order === "ranked" && candidates.length > 1 && (
+            <p className="mt-2 text-xs text-gray-500">
+              Save to keep the order. Applicants you haven't ranked go last, by
+              score.
+            </p>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">
+            Promotion log
+          </h4>
+          {promotions.length === 0 ? (
+            <p className="text-sm text-gray-500">No promotions yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="py-2 pr-4">When</th>
+                    <th className="py-2 pr-4">Offered to</th>
+                    <th className="py-2 pr-4">Spot freed by</th>
+                    <th className="py-2 pr-4">Claim by</th>
+                    <th className="py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {promotions.map((promotion) => {
+                    const status = offerStatus(promotion);
+                    return (
+                      <tr key={promotion.id}>
+                        <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">
+                          {new Date(promotion.created_at).toLocaleString()}
+                        </td>
+                        <td className="py-2 pr-4 font-medium text-gray-900">
+                          {promotion.promoted_applicant_name}
+                        </td>
+                        <td className="py-2 pr-4 text-gray-600">
+                          {REASON_LABELS[promotion.reason]}
+                          {promotion.freed_applicant_name &&
+                            ` · ${promotion.freed_applicant_name}`}
+                          {promotion.reason === "manual" &&
+                            promotion.promoted_by_name &&
+                            ` · by ${promotion.promoted_by_name}`}
+                        </td>
+                        <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">
+                          {promotion.claim_deadline
+                            ? new Date(
+                                promotion.claim_deadline
+                              ).toLocaleString()
+                            : "—"}
+                        </td>
+                        <td className="py-2">
+                          <span
+                            className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${status.className}`}
+                          >
+                            {status.label}
+                          </span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
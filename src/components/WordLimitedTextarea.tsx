@@ -17,6 +17,7 @@ interface WordLimitedTextareaProps {
   disabled?: boolean;
   required?: boolean;
   label?: string;
+  help?: React.ReactNode; // shown between the label and the box
 }
 
 export default function WordLimitedTextarea({
@@ -29,6 +30,7 @@ export default function WordLimitedTextarea({
   disabled = false,
   required = false,
   label = "",
+  help,
 }: WordLimitedTextareaProps) {
   const [localValue, setLocalValue] = useState(value);
   const [isOverLimit, setIsOverLimit] = useState(false);
@@ -68,6 +70,7 @@ export default function WordLimitedTextarea({
           {required && <span className="text-red-500 text-base font-semibold"> *</span>}
         </label>
       )}
+      {help}
       <textarea
         className={`w-full rounded-md border px-3 py-2 md:px-4 md:py-3 text-sm md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
           isOverLimit
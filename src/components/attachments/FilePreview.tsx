@@ -30,6 +30,24 @@ function setCachedSignedUrl(filePath: string, url: string, expiresInSeconds: num
   });
 }
 
+// Sign a file ahead of time and let the browser download it when idle,
+// so the preview shows immediately once it mounts
+export async function prefetchFile(filePath: string) {
+  if (getCachedSignedUrl(filePath)) return;
+
+  const expirySeconds = 60 * 10; // 10 minutes, same as the preview
+  const { data, error } = await supabase.storage
+    .from("application-files")
+    .createSignedUrl(filePath, expirySeconds);
+  if (error || !data?.signedUrl) return;
+  setCachedSignedUrl(filePath, data.signedUrl, expirySeconds);
+
+  const link = document.createElement("link");
+  link.rel = "prefetch";
+  link.href = data.signedUrl;
+  document.head.appendChild(link);
+}
+
 export function FilePreview({ fileInfo }: { fileInfo: FileInfo }) {
   console.log("[file-preview] FilePreview mounted with fileInfo:", fileInfo);
 
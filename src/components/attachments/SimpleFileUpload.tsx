@@ -2,6 +2,7 @@
 import { useState, useEffect } from "react";
 import { supabase } from "../../lib/supabase";
 import { FilePreview } from "./FilePreview";
+import { fileExtension, normalizeExtensions } from "../../utils/validation";
 
 const ALLOWED_TYPES = [
   "image/png",
@@ -18,6 +19,7 @@ export function SimpleFileUpload({
   value,
   onChange,
   maxSizeMB = 50,
+  allowedExtensions,
   disabled = false,
   applicationStatus,
 }: {
@@ -26,12 +28,18 @@ export function SimpleFileUpload({
   value: string;
   onChange: (value: string) => void;
   maxSizeMB?: number;
+  allowedExtensions?: string[]; // per-question restriction on top of ALLOWED_TYPES
   disabled?: boolean;
   applicationStatus?: "draft" | "submitted" | "reviewing" | "accepted" | "rejected" | "waitlisted";
 }) {
   const [file, setFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
   const maxBytes = maxSizeMB * 1024 * 1024;
+  const extensions = normalizeExtensions(allowedExtensions);
+  const accept =
+    extensions.length > 0
+      ? extensions.map((e) => `.${e}`).join(",")
+      : ALLOWED_TYPES.join(",");
 
   console.log("[simple-upload] mounted for field", fieldId, "value:", value);
 
@@ -67,6 +75,18 @@ export function SimpleFileUpload({
         setFile(null);
         return;
       }
+      if (
+        extensions.length > 0 &&
+        !extensions.includes(fileExtension(file.name))
+      ) {
+        alert(
+          `Unsupported file type. Allowed: ${extensions
+            .map((e) => `.${e}`)
+            .join(", ")}`
+        );
+        setFile(null);
+        return;
+      }
       if (file.size > maxBytes) {
         alert(`File too large. Max ${maxSizeMB} MB.`);
         setFile(null);
@@ -183,7 +203,7 @@ export function SimpleFileUpload({
       {!currentFile && (
         <input
           type="file"
-          accept={ALLOWED_TYPES.join(",")}
+          accept={accept}
           onChange={(e) => setFile(e.target.files?.[0] ?? null)}
           disabled={disabled || uploading}
           className="w-full text-xs md:text-sm text-gray-500 file:mr-2 md:file:mr-4 file:py-1.5 md:file:py-2 file:px-3 md:file:px-4 file:rounded-full file:border-0 file:text-xs md:file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 disabled:opacity-50"
@@ -208,7 +228,7 @@ export function SimpleFileUpload({
                 <>
                   <input
                     type="file"
-                    accept={ALLOWED_TYPES.join(",")}
+                    accept={accept}
                     onChange={(e) => setFile(e.target.files?.[0] ?? null)}
                     disabled={disabled || uploading}
                     className="hidden"
@@ -2,6 +2,13 @@ import React from "react";
 import ProfileCard from "../profile/ProfileCard";
 import { FilePreview } from "../attachments/FilePreview";
 import AutoLinkText from "../AutoLinkText";
+import QuestionHelp from "../QuestionHelp";
+import { isFieldVisible } from "../../utils/conditions";
+import { isSectionBreak } from "../../utils/sections";
+import {
+  BlindReviewSettings,
+  PROFILE_SECTIONS,
+} from "../../lib/blindReview";
 
 type RawField = {
   id?: string;
@@ -57,7 +64,17 @@ function formatValue(value: any, field: Field): string {
       if (Array.isArray(value)) return value.join(", ");
       return String(value);
     case "select":
+    case "multi_select":
       return Array.isArray(value) ? value.join(", ") : String(value);
+    case "ranking":
+      if (!Array.isArray(value)) return String(value);
+      if (value.length === 0) return "—";
+      return value.map((v, i) => `${i + 1}. ${v}`).join("\n");
+    case "number":
+    case "email":
+    case "phone":
+    case "url":
+      return String(value);
     case "date":
       try {
         const dateStr = String(value);
@@ -192,10 +209,13 @@ export default function AnswersViewer({
   applicationSchema,
   answers,
   program,
+  blind,
 }: {
   applicationSchema: any;
   answers: Record<string, any>;
   program?: any;
+  // Blind review: hide these questions and profile sections
+  blind?: BlindReviewSettings | null;
 }) {
   const fields = React.useMemo(
     () => normalizeSchema(applicationSchema),
@@ -205,11 +225,21 @@ export default function AnswersViewer({
   // Use the applicant's profile data that was saved when they submitted their application
   // This is the correct profile data to display to reviewers
   const profileForReview = answers?.profile;
+  const hiddenFields = new Set(blind?.hidden_fields ?? []);
+  const profileSections = {
+    ...(program?.metadata?.application?.profile?.sections ?? {}),
+  };
+  blind?.hidden_profile_sections.forEach((s) => {
+    profileSections[s] = false;
+  });
+  const anyProfileSectionShown = PROFILE_SECTIONS.some(
+    ({ key }) => profileSections[key] !== false
+  );
 
   return (
     <div className="space-y-6">
       {/* Profile Autofill Section */}
-      {profileForReview && (
+      {profileForReview && anyProfileSectionShown && (
         <div className="bg-blue-50 border-2 border-blue-200 rounded-xl p-6">
           <div className="flex items-center gap-3 mb-4">
             <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
@@ -223,7 +253,7 @@ export default function AnswersViewer({
           </p>
           <ProfileCard
             profile={profileForReview}
-            sectionSettings={program?.metadata?.application?.profile?.sections}
+            sectionSettings={profileSections}
           />
         </div>
       )}
@@ -242,6 +272,38 @@ export default function AnswersViewer({
 
         <div className="space-y-4">
           {fields.map((field, idx) => {
+            // Questions the applicant was never asked aren't shown to reviewers
+            if (!isFieldVisible(field, fields, answers)) return null;
+
+            if (isSectionBreak(field)) {
+              return (
+                <div
+                  key={field.id ?? `f-${idx}`}
+                  className="pt-2 border-b border-gray-300"
+                >
+                  <h4 className="text-base font-semibold text-gray-800 pb-1">
+                    {field.label}
+                  </h4>
+                </div>
+              );
+            }
+
+            if (hiddenFields.has(field.key ?? field.id)) {
+              return (
+                <div
+                  key={field.id ?? `f-${idx}`}
+                  className="bg-white border border-gray-200 rounded-lg p-4 space-y-3"
+                >
+                  <div className="text-sm font-medium text-gray-600">
+                    {field.label}
+                  </div>
+                  <div className="text-sm italic text-gray-400">
+                    🙈 Hidden for blind review
+                  </div>
+                </div>
+              );
+            }
+
             const rawValue = getAnswerForField(field, idx, answers);
             const display = formatValue(rawValue, field);
 
@@ -269,6 +331,11 @@ export default function AnswersViewer({
                 <div className="text-sm font-medium text-gray-600">
                   {field.label}
                 </div>
+                <QuestionHelp
+                  helpText={field.helpText}
+                  media={field.media}
+                  collapsible
+                />
                 {!isFileField || !fileInfo ? (
                   <div className="text-base text-gray-900">
                     <AutoLinkText text={display} preserveWhitespace={true} />
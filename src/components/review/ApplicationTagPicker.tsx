@@ -0,0 +1,149 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  ApplicationTag,
+  TAG_COLORS,
+  tagChipClass,
+} from "../../lib/applicationTags";
+
+export function TagChip({ tag }: { tag: ApplicationTag }) {
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${tagChipClass(
+        tag.color
+      )}`}
+    >
+      {tag.name}
+    </span>
+  );
+}
+
+interface ApplicationTagPickerProps {
+  tags: ApplicationTag[];
+  appliedIds: string[];
+  onToggle: (tagId: string, applied: boolean) => void;
+  onCreate: (name: string, color: string) => Promise<ApplicationTag | null>;
+}
+
+// Tag chips for one application plus a dropdown to toggle org tags or
+// create a new one
+export default function ApplicationTagPicker({
+  tags,
+  appliedIds,
+  onToggle,
+  onCreate,
+}: ApplicationTagPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState("gray");
+  const [creating, setCreating] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (
+        dropdownRef.current &&
+        !dropdownRef.current.contains(event.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    setCreating(true);
+    const tag = await onCreate(newName, newColor);
+    setCreating(false);
+    if (tag) {
+      onToggle(tag.id, true);
+      setNewName("");
+    }
+  };
+
+  const applied = tags.filter((tag) => appliedIds.includes(tag.id));
+
+  return (
+    <div className="relative inline-flex flex-wrap items-center gap-1">
+      {applied.map((tag) => (
+        <TagChip key={tag.id} tag={tag} />
+      ))}
+      <div ref={dropdownRef} className="relative">
+        <button
+          type="button"
+          onClick={() => setIsOpen((open) => !open)}
+          className="px-1.5 py-0.5 text-xs text-gray-400 hover:text-gray-700 rounded"
+          title="Tags"
+        >
+          🏷️
+        </button>
+
+        {isOpen && (
+          <div className="absolute z-20 mt-1 w-60 bg-white border border-gray-200 rounded-lg shadow-lg p-2 text-sm">
+            {tags.length === 0 ? (
+              <p className="px-2 py-1 text-xs text-gray-500">
+                No tags yet. Create the first one below.
+              </p>
+            ) : (
+              <div className="max-h-48 overflow-y-auto">
+                {tags.map((tag) => {
+                  const isApplied = appliedIds.includes(tag.id);
+                  return (
+                    <label
+                      key={tag.id}
+                      className="flex items-center gap-2 px-2 py-1 rounded hover:bg-gray-50 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 text-indigo-600 border-gray-300 rounded"
+                        checked={isApplied}
+                        onChange={() => onToggle(tag.id, !isApplied)}
+                      />
+                      <TagChip tag={tag} />
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="mt-2 pt-2 border-t border-gray-100 flex items-center gap-1">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleCreate();
+                }}
+                placeholder="New tag"
+                className="flex-1 min-w-0 rounded border border-gray-300 px-2 py-1 text-xs"
+              />
+              <select
+                value={newColor}
+                onChange={(e) => setNewColor(e.target.value)}
+                className="rounded border border-gray-300 px-1 py-1 text-xs"
+                title="Color"
+              >
+                {Object.entries(TAG_COLORS).map(([key, color]) => (
+                  <option key={key} value={key}>
+                    {color.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleCreate}
+                disabled={creating || !newName.trim()}
+                className="px-2 py-1 text-xs font-medium text-white bg-indigo-600 rounded hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
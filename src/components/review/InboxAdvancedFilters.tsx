@@ -0,0 +1,223 @@
+import type { ApplicationTag } from "../../lib/applicationTags";
+import {
+  InboxFilters,
+  NO_DECISION,
+  UNASSIGNED,
+} from "../../utils/inboxFilters";
+import { TagChip } from "./ApplicationTagPicker";
+
+interface InboxAdvancedFiltersProps {
+  filters: InboxFilters;
+  onChange: (patch: Partial<InboxFilters>) => void;
+  tags: ApplicationTag[];
+  reviewers: { id: string; name: string }[];
+  decisions: string[];
+  // Questions of the selected program; empty when no program is selected
+  answerFields: { key: string; label: string; options?: string[] }[];
+}
+
+const inputClass =
+  "rounded-lg border border-gray-300 px-3 py-2 text-sm bg-white shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500";
+
+function parseScore(value: string) {
+  if (value.trim() === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+export default function InboxAdvancedFilters({
+  filters,
+  onChange,
+  tags,
+  reviewers,
+  decisions,
+  answerFields,
+}: InboxAdvancedFiltersProps) {
+  const answerField = answerFields.find((f) => f.key === filters.answerKey);
+
+  const toggleTag = (tagId: string) =>
+    onChange({
+      tagIds: filters.tagIds.includes(tagId)
+        ? filters.tagIds.filter((id) => id !== tagId)
+        : [...filters.tagIds, tagId],
+    });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+      {/* Tags */}
+      <div className="md:col-span-2">
+        <div className="flex items-center gap-2 mb-2">
+          <label className="text-sm font-semibold text-gray-800">Tags</label>
+          {filters.tagIds.length > 1 && (
+            <select
+              className="rounded border border-gray-300 px-2 py-1 text-xs bg-white"
+              value={filters.tagMatch}
+              onChange={(e) =>
+                onChange({ tagMatch: e.target.value as "any" | "all" })
+              }
+            >
+              <option value="any">Any of</option>
+              <option value="all">All of</option>
+            </select>
+          )}
+        </div>
+        {tags.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            No tags yet. Add one from the 🏷️ button on any application.
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {tags.map((tag) => (
+              <button
+                key={tag.id}
+                type="button"
+                onClick={() => toggleTag(tag.id)}
+                className={`rounded-full ${
+                  filters.tagIds.includes(tag.id)
+                    ? "ring-2 ring-indigo-500 ring-offset-1"
+                    : "opacity-60 hover:opacity-100"
+                }`}
+              >
+                <TagChip tag={tag} />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Score range */}
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-semibold text-gray-800 w-24">
+          Score
+        </label>
+        <input
+          type="number"
+          placeholder="Min"
+          className={`${inputClass} w-24`}
+          value={filters.minScore ?? ""}
+          onChange={(e) => onChange({ minScore: parseScore(e.target.value) })}
+        />
+        <span className="text-gray-500">–</span>
+        <input
+          type="number"
+          placeholder="Max"
+          className={`${inputClass} w-24`}
+          value={filters.maxScore ?? ""}
+          onChange={(e) => onChange({ maxScore: parseScore(e.target.value) })}
+        />
+      </div>
+
+      {/* Reviewer */}
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-semibold text-gray-800 w-24">
+          Reviewer
+        </label>
+        <select
+          className={`${inputClass} flex-1`}
+          value={filters.reviewerId}
+          onChange={(e) => onChange({ reviewerId: e.target.value })}
+        >
+          <option value="">Anyone</option>
+          <option value={UNASSIGNED}>Not assigned</option>
+          {reviewers.map((reviewer) => (
+            <option key={reviewer.id} value={reviewer.id}>
+              {reviewer.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Decision */}
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-semibold text-gray-800 w-24">
+          Decision
+        </label>
+        <select
+          className={`${inputClass} flex-1`}
+          value={filters.decision}
+          onChange={(e) => onChange({ decision: e.target.value })}
+        >
+          <option value="">Any</option>
+          <option value={NO_DECISION}>No decision yet</option>
+          {decisions.map((decision) => (
+            <option key={decision} value={decision}>
+              {decision}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Submitted date */}
+      <div className="flex items-center gap-2">
+        <label className="text-sm font-semibold text-gray-800 w-24">
+          Submitted
+        </label>
+        <input
+          type="date"
+          className={inputClass}
+          value={filters.submittedFrom}
+          onChange={(e) => onChange({ submittedFrom: e.target.value })}
+        />
+        <span className="text-gray-500">–</span>
+        <input
+          type="date"
+          className={inputClass}
+          value={filters.submittedTo}
+          onChange={(e) => onChange({ submittedTo: e.target.value })}
+        />
+      </div>
+
+      {/* Answer value */}
+      <div className="md:col-span-2 flex flex-col md:flex-row md:items-center gap-2">
+        <label className="text-sm font-semibold text-gray-800 w-24">
+          Answer
+        </label>
+        {answerFields.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            Select a program to filter by its questions.
+          </p>
+        ) : (
+          <>
+            <select
+              className={`${inputClass} md:w-72`}
+              value={filters.answerKey}
+              onChange={(e) =>
+                onChange({ answerKey: e.target.value, answerValue: "" })
+              }
+            >
+              <option value="">Choose a question…</option>
+              {answerFields.map((field) => (
+                <option key={field.key} value={field.key}>
+                  {field.label}
+                </option>
+              ))}
+            </select>
+            {answerField?.options?.length ? (
+              <select
+                className={`${inputClass} flex-1`}
+                value={filters.answerValue}
+                onChange={(e) => onChange({ answerValue: e.target.value })}
+              >
+                <option value="">Any answer</option>
+                {answerField.options.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                placeholder="Answer contains…"
+                className={`${inputClass} flex-1`}
+                value={filters.answerValue}
+                disabled={!filters.answerKey}
+                onChange={(e) => onChange({ answerValue: e.target.value })}
+              />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
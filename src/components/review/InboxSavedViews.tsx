@@ -0,0 +1,70 @@
+import type { InboxSavedView } from "../../lib/applicationTags";
+
+interface InboxSavedViewsProps {
+  views: InboxSavedView[];
+  activeViewId: string;
+  // Whether the filters differ from the active view
+  modified: boolean;
+  onApply: (viewId: string) => void;
+  onSaveNew: () => void;
+  onUpdate: () => void;
+  onDelete: () => void;
+}
+
+// Named filter combinations shared by everyone on the org team
+export default function InboxSavedViews({
+  views,
+  activeViewId,
+  modified,
+  onApply,
+  onSaveNew,
+  onUpdate,
+  onDelete,
+}: InboxSavedViewsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <label className="text-sm font-semibold text-gray-800">View</label>
+      <select
+        className="rounded-lg border border-gray-300 px-4 py-2 text-sm bg-white shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200"
+        value={activeViewId}
+        onChange={(e) => onApply(e.target.value)}
+      >
+        <option value="">All applications</option>
+        {views.map((view) => (
+          <option key={view.id} value={view.id}>
+            {view.name}
+          </option>
+        ))}
+      </select>
+      {activeViewId && modified && (
+        <span className="text-xs text-amber-700">Modified</span>
+      )}
+      <button
+        type="button"
+        onClick={onSaveNew}
+        className="px-3 py-2 text-sm font-medium text-indigo-700 hover:text-indigo-900"
+      >
+        💾 Save as view
+      </button>
+      {activeViewId && (
+        <>
+          <button
+            type="button"
+            onClick={onUpdate}
+            disabled={!modified}
+            className="px-3 py-2 text-sm font-medium text-gray-700 hover:text-gray-900 disabled:opacity-40"
+          >
+            Update view
+          </button>
+          <button
+            type="button"
+            onClick={onDelete}
+            className="px-3 py-2 text-sm font-medium text-red-600 hover:text-red-800"
+          >
+            Delete view
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
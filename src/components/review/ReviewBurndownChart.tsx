@@ -0,0 +1,170 @@
+import { useMemo } from "react";
+import type { BurndownPoint } from "../../lib/reviewProgress";
+
+interface ReviewBurndownChartProps {
+  points: BurndownPoint[];
+  deadline: string | null;
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PAD = { top: 16, right: 16, bottom: 28, left: 36 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dayTime(day: string) {
+  return new Date(`${day}T00:00:00`).getTime();
+}
+
+function shortDate(time: number) {
+  return new Date(time).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Applications still waiting for a finalized review, per day. The x-axis
+ * runs on to the deadline when it is still ahead.
+ */
+export default function ReviewBurndownChart({
+  points,
+  deadline,
+}: ReviewBurndownChartProps) {
+  const chart = useMemo(() => {
+    if (points.length === 0) return null;
+    const start = dayTime(points[0].day);
+    const lastDay = dayTime(points[points.length - 1].day);
+    const deadlineTime = deadline ? new Date(deadline).getTime() : null;
+    const end = Math.max(lastDay, deadlineTime ?? 0, start + DAY_MS);
+    const maxY = Math.max(1, ...points.map((p) => p.submitted));
+
+    const x = (time: number) =>
+      PAD.left +
+      ((time - start) / (end - start)) * (WIDTH - PAD.left - PAD.right);
+    const y = (value: number) =>
+      HEIGHT - PAD.bottom - (value / maxY) * (HEIGHT - PAD.top - PAD.bottom);
+
+    const line = (value: (p: BurndownPoint) => number) =>
+      points.map((p) => `${x(dayTime(p.day))},${y(value(p))}`).join(" ");
+
+    return {
+      start,
+      end,
+      maxY,
+      x,
+      y,
+      submitted: line((p) => p.submitted),
+      remaining: line((p) => p.submitted - p.finalized),
+      deadlineX:
+        deadlineTime !== null && deadlineTime >= start ? x(deadlineTime) : null,
+    };
+  }, [points, deadline]);
+
+  if (!chart) {
+    return (
+      <div className="text-sm text-gray-500">
+        No submitted applications yet.
+      </div>
+    );
+  }
+
+  const last = points[points.length - 1];
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Review burndown"
+      >
+        {[0, 0.5, 1].map((f) => {
+          const value = Math.round(chart.maxY * f);
+          return (
+            <g key={f}>
+              <line
+                x1={PAD.left}
+                x2={WIDTH - PAD.right}
+                y1={chart.y(value)}
+                y2={chart.y(value)}
+                stroke="#e5e7eb"
+              />
+              <text
+                x={PAD.left - 6}
+                y={chart.y(value) + 4}
+                textAnchor="end"
+                fontSize="11"
+                fill="#6b7280"
+              >
+                {value}
+              </text>
+            </g>
+          );
+        })}
+        <text
+          x={PAD.left}
+          y={HEIGHT - 8}
+          fontSize="11"
+          fill="#6b7280"
+          textAnchor="start"
+        >
+          {shortDate(chart.start)}
+        </text>
+        <text
+          x={WIDTH - PAD.right}
+          y={HEIGHT - 8}
+          fontSize="11"
+          fill="#6b7280"
+          textAnchor="end"
+        >
+          {shortDate(chart.end)}
+        </text>
+
+        {chart.deadlineX !== null && (
+          <g>
+            <line
+              x1={chart.deadlineX}
+              x2={chart.deadlineX}
+              y1={PAD.top}
+              y2={HEIGHT - PAD.bottom}
+              stroke="#dc2626"
+              strokeDasharray="4 4"
+            />
+            <text
+              x={chart.deadlineX - 4}
+              y={PAD.top + 10}
+              fontSize="11"
+              fill="#dc2626"
+              textAnchor="end"
+            >
+              Deadline
+            </text>
+          </g>
+        )}
+
+        <polyline
+          points={chart.submitted}
+          fill="none"
+          stroke="#a5b4fc"
+          strokeWidth={2}
+        />
+        <polyline
+          points={chart.remaining}
+          fill="none"
+          stroke="#4f46e5"
+          strokeWidth={2.5}
+        />
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-600">
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-0.5 bg-indigo-600 inline-block" />
+          Awaiting a finalized review ({last.submitted - last.finalized})
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-0.5 bg-indigo-300 inline-block" />
+          Submitted ({last.submitted})
+        </span>
+      </div>
+    </div>
+  );
+}
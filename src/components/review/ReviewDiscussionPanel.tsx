@@ -0,0 +1,281 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  DiscussionMember,
+  ReviewThread,
+  extractMentions,
+  listDiscussionMembers,
+  markMentionsRead,
+  postMessage,
+  setThreadResolved,
+  startThread,
+} from "../../lib/reviewDiscussions";
+
+interface ReviewDiscussionPanelProps {
+  applicationId: string;
+  threads: ReviewThread[];
+  currentUserId: string | null;
+  // Realtime refreshes threads too; this just avoids waiting for it
+  onChanged: () => void;
+}
+
+export default function ReviewDiscussionPanel({
+  applicationId,
+  threads,
+  currentUserId,
+  onChanged,
+}: ReviewDiscussionPanelProps) {
+  const [members, setMembers] = useState<DiscussionMember[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
+
+  useEffect(() => {
+    listDiscussionMembers(applicationId)
+      .then(setMembers)
+      .catch((err) => console.error("Error loading discussion members:", err));
+    if (currentUserId) {
+      markMentionsRead(applicationId, currentUserId).catch((err) =>
+        console.error("Error marking mentions as read:", err)
+      );
+    }
+  }, [applicationId, currentUserId]);
+
+  const nameOf = (userId: string | null) =>
+    members.find((m) => m.user_id === userId)?.full_name ?? "Former teammate";
+
+  const open = threads.filter((t) => !t.resolved_at);
+  const resolved = threads.filter((t) => t.resolved_at);
+
+  async function handleStart(body: string) {
+    await startThread(applicationId, body, extractMentions(body, members));
+    onChanged();
+  }
+
+  async function handleReply(thread: ReviewThread, body: string) {
+    await postMessage(
+      applicationId,
+      thread.id,
+      body,
+      extractMentions(body, members)
+    );
+    onChanged();
+  }
+
+  async function toggleResolved(thread: ReviewThread) {
+    if (!currentUserId) return;
+    try {
+      await setThreadResolved(thread.id, !thread.resolved_at, currentUserId);
+      onChanged();
+    } catch (err: any) {
+      console.error("Error updating thread:", err);
+      alert(`Failed to update thread: ${err.message}`);
+    }
+  }
+
+  const renderThread = (thread: ReviewThread) => (
+    <div
+      key={thread.id}
+      className={`border rounded-lg p-4 ${
+        thread.resolved_at
+          ? "border-gray-200 bg-gray-50"
+          : "border-indigo-100 bg-white"
+      }`}
+    >
+      <div className="space-y-3">
+        {thread.messages.map((m) => (
+          <div key={m.id}>
+            <div className="text-xs text-gray-500">
+              <span className="font-medium text-gray-800">
+                {nameOf(m.author_id)}
+              </span>{" "}
+              · {new Date(m.created_at).toLocaleString()}
+            </div>
+            <MessageBody body={m.body} members={members} />
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 flex items-center justify-between gap-3">
+        {thread.resolved_at ? (
+          <span className="text-xs text-green-700">
+            ✓ Resolved by {nameOf(thread.resolved_by)}
+          </span>
+        ) : (
+          <span />
+        )}
+        <button
+          onClick={() => toggleResolved(thread)}
+          className="text-xs text-gray-600 hover:text-indigo-700"
+        >
+          {thread.resolved_at ? "Reopen" : "✓ Resolve"}
+        </button>
+      </div>
+
+      {!thread.resolved_at && (
+        <div className="mt-3">
+          <MessageComposer
+            members={members}
+            placeholder="Reply..."
+            submitLabel="Reply"
+            onSubmit={(body) => handleReply(thread, body)}
+          />
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-1">
+        <div className="text-lg font-semibold">💬 Reviewer Discussion</div>
+        <span className="text-xs text-gray-500">
+          {open.length} open thread{open.length !== 1 ? "s" : ""}
+        </span>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Only reviewers and org admins see this. It is never published to the
+        applicant. Type @ to mention a teammate.
+      </p>
+
+      <MessageComposer
+        members={members}
+        placeholder="Start a new thread..."
+        submitLabel="Post"
+        onSubmit={handleStart}
+      />
+
+      <div className="mt-4 space-y-3">
+        {open.map(renderThread)}
+        {threads.length === 0 && (
+          <div className="text-sm text-gray-500">No discussion yet.</div>
+        )}
+      </div>
+
+      {resolved.length > 0 && (
+        <div className="mt-4">
+          <button
+            onClick={() => setShowResolved((v) => !v)}
+            className="text-xs text-gray-600 hover:text-gray-900"
+          >
+            {showResolved ? "▼" : "▶"} {resolved.length} resolved thread
+            {resolved.length !== 1 ? "s" : ""}
+          </button>
+          {showResolved && (
+            <div className="mt-3 space-y-3">{resolved.map(renderThread)}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Highlights "@Full Name" for known members
+function MessageBody({
+  body,
+  members,
+}: {
+  body: string;
+  members: DiscussionMember[];
+}) {
+  const parts = useMemo(() => {
+    const names = members
+      .map((m) => m.full_name)
+      .filter(Boolean)
+      .sort((a, b) => b.length - a.length)
+      .map((n) => n.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    if (names.length === 0) return [body];
+    return body.split(new RegExp(`(@(?:${names.join("|")}))`, "gi"));
+  }, [body, members]);
+
+  return (
+    <p className="text-sm text-gray-800 whitespace-pre-wrap mt-1">
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <span key={i} className="font-medium text-indigo-700">
+            {part}
+          </span>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  );
+}
+
+function MessageComposer({
+  members,
+  placeholder,
+  submitLabel,
+  onSubmit,
+}: {
+  members: DiscussionMember[];
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<void>;
+}) {
+  const [text, setText] = useState("");
+  const [posting, setPosting] = useState(false);
+
+  // Suggest members while the text ends in "@partial name"
+  const query = text.match(/@([^@\n]{0,30})$/)?.[1];
+  const suggestions =
+    query === undefined
+      ? []
+      : members
+          .filter((m) =>
+            m.full_name?.toLowerCase().startsWith(query.toLowerCase())
+          )
+          .slice(0, 5);
+
+  const insertMention = (member: DiscussionMember) =>
+    setText((t) => t.replace(/@([^@\n]{0,30})$/, `@${member.full_name} `));
+
+  async function submit() {
+    if (!text.trim()) return;
+    try {
+      setPosting(true);
+      await onSubmit(text);
+      setText("");
+    } catch (err: any) {
+      console.error("Error posting message:", err);
+      alert(`Failed to post message: ${err.message}`);
+    } finally {
+      setPosting(false);
+    }
+  }
+
+  return (
+    <div className="relative">
+      <textarea
+        className="border rounded px-3 py-2 w-full h-20 resize-none text-sm"
+        value={text}
+        placeholder={placeholder}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) submit();
+        }}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute z-10 left-0 mt-1 w-64 bg-white border border-gray-200 rounded-md shadow-lg">
+          {suggestions.map((m) => (
+            <button
+              key={m.user_id}
+              type="button"
+              onClick={() => insertMention(m)}
+              className="block w-full text-left px-3 py-2 text-sm hover:bg-indigo-50"
+            >
+              @{m.full_name}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end mt-2">
+        <button
+          onClick={submit}
+          disabled={posting || !text.trim()}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium disabled:opacity-50"
+        >
+          {posting ? "Posting..." : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { ReviewHistoryEntry, listReviewHistory } from "../../lib/reviewHistory";
+import type { RubricCriterion } from "../../utils/rubric";
+import {
+  HISTORY_ACTION_LABELS,
+  historyFieldLabel,
+  historyValue,
+} from "../../utils/reviewHistory";
+
+interface ReviewHistoryPanelProps {
+  applicationId: string;
+  rubric: RubricCriterion[];
+  // Reloads the timeline when it changes, e.g. the review's updated_at
+  refreshKey?: string | null;
+}
+
+const ACTION_COLORS: Record<string, string> = {
+  create: "bg-gray-100 text-gray-700",
+  save: "bg-blue-100 text-blue-800",
+  finalize: "bg-green-100 text-green-800",
+  unfinalize: "bg-yellow-100 text-yellow-800",
+  decision: "bg-purple-100 text-purple-800",
+};
+
+// Long comments are shown shortened; the export has them in full
+function shorten(text: string) {
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+}
+
+export default function ReviewHistoryPanel({
+  applicationId,
+  rubric,
+  refreshKey,
+}: ReviewHistoryPanelProps) {
+  const [entries, setEntries] = useState<ReviewHistoryEntry[]>([]);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    listReviewHistory(applicationId)
+      .then(setEntries)
+      .catch((err) => console.error("Error loading review history:", err));
+  }, [applicationId, refreshKey]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <button
+        onClick={() => setExpanded((v) => !v)}
+        className="w-full flex items-center justify-between"
+      >
+        <span className="text-lg font-semibold">🕓 Change History</span>
+        <span className="text-xs text-gray-500">
+          {entries.length} change{entries.length !== 1 ? "s" : ""}{" "}
+          {expanded ? "▼" : "▶"}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="mt-4">
+          {entries.length === 0 ? (
+            <div className="text-sm text-gray-500">No changes yet.</div>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+              {entries.map((entry) => (
+                <li key={entry.id} className="relative ml-4">
+                  <div className="absolute -left-[1.375rem] top-1 w-3 h-3 rounded-full bg-gray-300 border border-white" />
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                    <span className="font-medium text-gray-800">
+                      {entry.actor_name ?? "System"}
+                    </span>
+                    <span
+                      className={`px-2 py-0.5 rounded-full font-medium ${
+                        ACTION_COLORS[entry.action] ?? ACTION_COLORS.save
+                      }`}
+                    >
+                      {HISTORY_ACTION_LABELS[entry.action] ?? entry.action}
+                    </span>
+                    <span>{new Date(entry.created_at).toLocaleString()}</span>
+                  </div>
+                  <ul className="mt-1 space-y-0.5 text-sm text-gray-700">
+                    {Object.entries(entry.changes)
+                      .filter(([field]) => field !== "status")
+                      .map(([field, change]) => (
+                        <li key={field}>
+                          <span className="text-gray-500">
+                            {historyFieldLabel(field, rubric)}:
+                          </span>{" "}
+                          <span className="line-through text-gray-400">
+                            {shorten(historyValue(field, change.from))}
+                          </span>{" "}
+                          → {shorten(historyValue(field, change.to))}
+                        </li>
+                      ))}
+                  </ul>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { Link } from "react-router-dom";
+import type { ReviewQueue } from "../../lib/reviewQueue";
+
+export const WORKSPACE_SHORTCUTS: { keys: string; action: string }[] = [
+  { keys: "J / →", action: "Next application" },
+  { keys: "K / ←", action: "Previous application" },
+  {
+    keys: "1–9, 0",
+    action: "Score (0 = 10); with a rubric, scores the highlighted criterion",
+  },
+  { keys: "[ / ]", action: "Previous / next rubric criterion" },
+  { keys: "D", action: "Cycle decision" },
+  { keys: "S", action: "Save draft" },
+  { keys: "F", action: "Finalize and go to the next unfinished application" },
+  { keys: "?", action: "Show or hide shortcuts" },
+];
+
+interface ReviewWorkspaceBarProps {
+  queue: ReviewQueue;
+  position: number;
+  onPrev: () => void;
+  onNext: () => void;
+  showHelp: boolean;
+  onToggleHelp: () => void;
+}
+
+export default function ReviewWorkspaceBar({
+  queue,
+  position,
+  onPrev,
+  onNext,
+  showHelp,
+  onToggleHelp,
+}: ReviewWorkspaceBarProps) {
+  const total = queue.ids.length;
+  const remaining = queue.ids.filter((id) => !queue.done.includes(id)).length;
+
+  return (
+    <div className="bg-indigo-50 border-b border-indigo-100">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-3 text-sm">
+            <Link
+              to={queue.returnTo}
+              className="text-indigo-700 hover:text-indigo-900"
+            >
+              ← {queue.label}
+            </Link>
+            <span className="text-gray-700">
+              <span className="font-semibold">{position + 1}</span> of {total} ·{" "}
+              <span className="font-semibold">{remaining}</span> remaining
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onPrev}
+              disabled={position <= 0}
+              className="px-3 py-1.5 text-sm bg-white border border-indigo-200 rounded-md text-indigo-700 hover:bg-indigo-100 disabled:opacity-40"
+            >
+              ← Previous
+            </button>
+            <button
+              onClick={onNext}
+              disabled={position >= total - 1}
+              className="px-3 py-1.5 text-sm bg-white border border-indigo-200 rounded-md text-indigo-700 hover:bg-indigo-100 disabled:opacity-40"
+            >
+              Next →
+            </button>
+            <button
+              onClick={onToggleHelp}
+              className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900"
+              title="Keyboard shortcuts (?)"
+            >
+              ⌨️ Shortcuts
+            </button>
+          </div>
+        </div>
+
+        {showHelp && (
+          <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 bg-white border border-indigo-100 rounded-md p-3 text-xs text-gray-700">
+            {WORKSPACE_SHORTCUTS.map((s) => (
+              <div key={s.keys} className="flex gap-3">
+                <kbd className="min-w-[4rem] font-mono font-semibold text-gray-900">
+                  {s.keys}
+                </kbd>
+                <span>{s.action}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
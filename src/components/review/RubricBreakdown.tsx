@@ -0,0 +1,34 @@
+import { RubricCriterion, getCriterionScores } from "../../utils/rubric";
+
+interface RubricBreakdownProps {
+  rubric: RubricCriterion[] | undefined;
+  ratings: Record<string, any> | null | undefined;
+}
+
+// Compact per-criterion scores shown under the overall score in review tables
+export default function RubricBreakdown({
+  rubric,
+  ratings,
+}: RubricBreakdownProps) {
+  if (!rubric || rubric.length === 0) return null;
+  const scores = getCriterionScores(ratings);
+  if (Object.keys(scores).length === 0) return null;
+
+  return (
+    <div className="mt-1 space-y-0.5">
+      {rubric.map((c) => (
+        <div
+          key={c.id}
+          className="flex justify-between gap-3 text-xs text-gray-500 font-normal whitespace-nowrap"
+          title={c.anchors?.[String(scores[c.id])] ?? ""}
+        >
+          <span className="truncate max-w-[8rem]">{c.name}</span>
+          <span>
+            {scores[c.id] ?? "—"}
+            <span className="text-gray-400">/{c.max}</span>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
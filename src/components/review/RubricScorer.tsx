@@ -0,0 +1,89 @@
+import {
+  CriterionScores,
+  RubricCriterion,
+  scalePoints,
+  weightPercent,
+} from "../../utils/rubric";
+
+interface RubricScorerProps {
+  rubric: RubricCriterion[];
+  scores: CriterionScores;
+  overall: number | null;
+  onScore: (criterionId: string, value: number | null) => void;
+  disabled?: boolean;
+  // Criterion the workspace number keys score
+  activeCriterionId?: string | null;
+}
+
+export default function RubricScorer({
+  rubric,
+  scores,
+  overall,
+  onScore,
+  disabled = false,
+  activeCriterionId = null,
+}: RubricScorerProps) {
+  const scoredCount = rubric.filter((c) => scores[c.id] !== undefined).length;
+
+  return (
+    <div className="space-y-4">
+      {rubric.map((c) => {
+        const value = scores[c.id];
+        const anchor =
+          value !== undefined ? c.anchors?.[String(value)] : undefined;
+        return (
+          <div
+            key={c.id}
+            className={`text-sm ${
+              c.id === activeCriterionId
+                ? "rounded-md ring-2 ring-indigo-300 ring-offset-4"
+                : ""
+            }`}
+          >
+            <div className="flex items-baseline justify-between gap-2">
+              <span className="font-medium">{c.name}</span>
+              <span className="text-xs text-gray-500">
+                {weightPercent(rubric, c)}%
+              </span>
+            </div>
+            {c.description && (
+              <p className="text-xs text-gray-500 mt-0.5">{c.description}</p>
+            )}
+            <div className="flex flex-wrap gap-1 mt-2">
+              {scalePoints(c).map((point) => (
+                <button
+                  key={point}
+                  type="button"
+                  title={c.anchors?.[String(point)] ?? ""}
+                  onClick={() => onScore(c.id, value === point ? null : point)}
+                  disabled={disabled}
+                  className={`w-8 h-8 rounded border text-sm font-medium transition-colors ${
+                    value === point
+                      ? "bg-blue-600 border-blue-600 text-white"
+                      : "bg-white border-gray-300 text-gray-700 hover:bg-gray-100"
+                  } ${disabled ? "cursor-not-allowed opacity-60" : ""}`}
+                >
+                  {point}
+                </button>
+              ))}
+            </div>
+            {anchor && <p className="text-xs text-blue-700 mt-1">{anchor}</p>}
+          </div>
+        );
+      })}
+
+      <div className="flex items-baseline justify-between pt-3 border-t border-gray-200 text-sm">
+        <span className="font-medium">Overall score</span>
+        <span>
+          <span className="text-lg font-semibold">{overall ?? "—"}</span>
+          <span className="text-xs text-gray-500"> / 100</span>
+        </span>
+      </div>
+      {scoredCount < rubric.length && (
+        <p className="text-xs text-gray-500 -mt-3">
+          {scoredCount} of {rubric.length} criteria scored
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import type { ReviewsListRow } from "../../types/reviews";
+import { listReviewerScores, setApplicationDecision } from "../../lib/api";
+import {
+  AGGREGATION_METHODS,
+  AggregatedApplication,
+  AggregationMethod,
+  ReviewerScoreEntry,
+  aggregateScores,
+  formatAggregate,
+} from "../../utils/scoreAggregation";
+
+type SortKey = "rank" | "spread" | "reviews";
+
+interface ScoreRankingPanelProps {
+  programId: string;
+  // Every review row of the program
+  rows: ReviewsListRow[];
+  formConfig: any;
+  applicantLabel: (row: ReviewsListRow) => string | null;
+  onDecisionChanged: () => void;
+}
+
+export default function ScoreRankingPanel({
+  programId,
+  rows,
+  formConfig,
+  applicantLabel,
+  onDecisionChanged,
+}: ScoreRankingPanelProps) {
+  const [method, setMethod] = useState<AggregationMethod>("mean");
+  const [sortKey, setSortKey] = useState<SortKey>("rank");
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [reviewerScores, setReviewerScores] = useState<ReviewerScoreEntry[]>(
+    []
+  );
+
+  // Reloaded with the rows so new saves are counted
+  useEffect(() => {
+    listReviewerScores(programId)
+      .then(setReviewerScores)
+      .catch((err) => {
+        console.error("Error loading reviewer scores:", err);
+        setReviewerScores([]);
+      });
+  }, [programId, rows]);
+
+  const ranked = useMemo(
+    () => aggregateScores(rows, method, reviewerScores),
+    [rows, method, reviewerScores]
+  );
+
+  const sorted = useMemo(() => {
+    if (sortKey === "rank") return ranked;
+    const copy = [...ranked];
+    if (sortKey === "spread") {
+      // Least agreement first, so disputed applications get a second look
+      copy.sort((a, b) => (b.spread ?? -1) - (a.spread ?? -1));
+    } else {
+      copy.sort((a, b) => b.scores.length - a.scores.length);
+    }
+    return copy;
+  }, [ranked, sortKey]);
+
+  // Spread above the typical spread is marked as low agreement
+  const typicalSpread = useMemo(() => {
+    const spreads = ranked
+      .map((a) => a.spread)
+      .filter((s): s is number => s !== null);
+    return spreads.length
+      ? spreads.reduce((s, v) => s + v, 0) / spreads.length
+      : null;
+  }, [ranked]);
+
+  // Keep a decision that was removed from the form selectable
+  const decisionOptions = (app: AggregatedApplication): string[] => {
+    const options: string[] = formConfig?.decision_options ?? [];
+    return app.decision && !options.includes(app.decision)
+      ? [...options, app.decision]
+      : options;
+  };
+
+  async function handleDecision(app: AggregatedApplication, value: string) {
+    try {
+      setSavingId(app.application_id);
+      await setApplicationDecision(app.application_id, value || null);
+      onDecisionChanged();
+    } catch (err: any) {
+      console.error("Error setting decision:", err);
+      alert(`Failed to set decision: ${err.message}`);
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  const header = (label: string, key?: SortKey) => (
+    <th className="text-left p-4 font-semibold text-gray-900">
+      {key ? (
+        <button
+          onClick={() => setSortKey(key)}
+          className={`hover:text-indigo-700 ${
+            sortKey === key ? "text-indigo-700" : ""
+          }`}
+        >
+          {label}
+          {sortKey === key ? " ↓" : ""}
+        </button>
+      ) : (
+        label
+      )}
+    </th>
+  );
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-2xl shadow-lg overflow-hidden mb-8">
+      <div className="px-8 py-6 bg-gradient-to-r from-indigo-50 to-blue-50 border-b border-indigo-200 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-3">
+            <div className="w-2 h-6 bg-gradient-to-b from-indigo-500 to-indigo-600 rounded-full"></div>
+            <h2 className="text-xl font-bold text-gray-900">Ranking</h2>
+          </div>
+          <p className="text-sm text-gray-600 mt-1">
+            Finalized scores from every reviewer, combined per application.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-semibold text-gray-800">
+            Combine by
+          </label>
+          <select
+            className="rounded-lg border border-gray-300 px-4 py-2 text-sm bg-white shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            value={method}
+            onChange={(e) => setMethod(e.target.value as AggregationMethod)}
+          >
+            {AGGREGATION_METHODS.map((m) => (
+              <option key={m.value} value={m.value}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {ranked.length === 0 ? (
+        <div className="p-8 text-center text-sm text-gray-500">
+          No applications to rank yet.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {header("Rank", "rank")}
+                {header("Applicant")}
+                {header("Reviewer Scores", "reviews")}
+                {header(method === "zscore" ? "Normalized" : "Score")}
+                {header("Spread", "spread")}
+                {header("Decision")}
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((app) => (
+                <tr
+                  key={app.application_id}
+                  className="border-t border-gray-100 hover:bg-gray-50"
+                >
+                  <td className="p-4 font-semibold text-gray-900">
+                    {app.rank ?? "—"}
+                  </td>
+                  <td className="p-4 text-gray-700">
+                    <Link
+                      to={`/review/app/${app.application_id}`}
+                      className="text-indigo-700 hover:text-indigo-900"
+                    >
+                      {applicantLabel(app.row)}
+                    </Link>
+                  </td>
+                  <td className="p-4">
+                    {app.scores.length === 0 ? (
+                      <span className="text-xs text-gray-400">
+                        Not finalized
+                      </span>
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {app.scores.map((s, i) => (
+                          <span
+                            key={`${s.reviewer_id}-${i}`}
+                            title={`${s.reviewer_name} · z ${formatAggregate(
+                              s.z,
+                              "zscore"
+                            )}${
+                              s.outlier ? " · far from the other reviewers" : ""
+                            }`}
+                            className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                              s.outlier
+                                ? "bg-red-100 text-red-800"
+                                : "bg-gray-100 text-gray-700"
+                            }`}
+                          >
+                            {s.outlier && "⚠️ "}
+                            {s.score}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td className="p-4 font-semibold text-gray-900">
+                    {formatAggregate(app.aggregate, method)}
+                  </td>
+                  <td className="p-4">
+                    {app.spread === null ? (
+                      <span className="text-xs text-gray-400">—</span>
+                    ) : (
+                      <span
+                        className={`text-xs font-medium ${
+                          typicalSpread !== null && app.spread > typicalSpread
+                            ? "text-red-700"
+                            : "text-green-700"
+                        }`}
+                        title="Standard deviation of the reviewers' scores"
+                      >
+                        ±{app.spread.toFixed(1)}
+                        {typicalSpread !== null && app.spread > typicalSpread
+                          ? " low agreement"
+                          : ""}
+                      </span>
+                    )}
+                  </td>
+                  <td className="p-4">
+                    {formConfig?.show_decision ? (
+                      <select
+                        className="rounded-lg border border-gray-300 px-2 py-1 text-sm bg-white disabled:opacity-50"
+                        value={app.decision ?? ""}
+                        disabled={
+                          app.scores.length === 0 ||
+                          savingId === app.application_id
+                        }
+                        onChange={(e) => handleDecision(app, e.target.value)}
+                      >
+                        <option value="">No decision</option>
+                        {decisionOptions(app).map((option: string) => (
+                          <option key={option} value={option}>
+                            {option}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold bg-gray-100 text-gray-500 border border-gray-200">
+                        Disabled
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
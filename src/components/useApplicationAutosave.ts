@@ -1,5 +1,5 @@
 // components/useApplicationAutosave.ts
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { saveApplication } from "../lib/rpc";
 
 type Answers = Record<string, any>;
@@ -187,5 +187,8 @@ export function useApplicationAutosave(
     };
   }, [pushToServer]);
 
-  return { answers, setAnswers, saveStatus };
+  // Save immediately, e.g. when the applicant moves to another page
+  const flush = useCallback(() => pushToServer.flush(), [pushToServer]);
+
+  return { answers, setAnswers, saveStatus, flush };
 }
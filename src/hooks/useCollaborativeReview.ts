@@ -2,6 +2,14 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import { createClient } from "../lib/supabase-browser";
 import type { ReviewGetRow } from "../types/reviews";
 import { getProgramReviewForm } from "../lib/api";
+import {
+  RubricCriterion,
+  getCriterionScores,
+  weightedScore,
+} from "../utils/rubric";
+import { BlindReviewSettings, getBlindReview } from "../lib/blindReview";
+import { ReviewThread, listThreads } from "../lib/reviewDiscussions";
+import { takePrefetchedReview } from "../lib/reviewQueue";
 
 type LoaderRow = ReviewGetRow & {
   application_schema?: any;
@@ -12,12 +20,19 @@ type ReviewFormConfig = {
   show_comments: boolean;
   show_decision: boolean;
   decision_options: string[];
+  rubric: RubricCriterion[];
+  blind_review: BlindReviewSettings | null;
 };
 
 export function useCollaborativeReview(appId: string) {
   const supabase = createClient();
   const [answers, setAnswers] = useState<Record<string, any>>({});
   const [review, setReview] = useState<ReviewGetRow["review"]>({});
+  // Blind review: whether the server left out the applicant's identity
+  const [identity, setIdentity] = useState<{
+    hidden: boolean;
+    code: string | null;
+  }>({ hidden: false, code: null });
   const [applicationSchema, setApplicationSchema] = useState<any>({
     fields: [],
   });
@@ -26,6 +41,8 @@ export function useCollaborativeReview(appId: string) {
     show_comments: true,
     show_decision: false,
     decision_options: ["accept", "waitlist", "reject"],
+    rubric: [],
+    blind_review: null,
   });
   const [program, setProgram] = useState<any>(null);
   const [loading, setLoading] = useState<boolean>(true);
@@ -33,6 +50,7 @@ export function useCollaborativeReview(appId: string) {
     "idle"
   );
   const [error, setError] = useState<string | null>(null);
+  const [threads, setThreads] = useState<ReviewThread[]>([]);
 
   // ---------- MAIN LOAD FUNCTION ----------
   const load = useCallback(async () => {
@@ -40,13 +58,21 @@ export function useCollaborativeReview(appId: string) {
     setError(null);
 
     try {
-      // Try the new RPC first
-      const { data, error } = await supabase.rpc("review_get_v1", {
-        p_application_id: appId,
-      });
+      // Try the new RPC first (the review workspace may have prefetched it)
+      const { data, error } =
+        takePrefetchedReview(appId) ??
+        (await supabase.rpc("review_get_v1", {
+          p_application_id: appId,
+        }));
 
       if (error) {
         console.error("review_get_v1 error:", error);
+        // Conflicted reviewers are blocked on purpose; don't work around it
+        if (error.message?.includes("conflict of interest")) {
+          setError(error.message);
+          setLoading(false);
+          return;
+        }
         // Fallback to direct queries if RPC fails
         await loadWithDirectQueries();
         return;
@@ -62,6 +88,10 @@ export function useCollaborativeReview(appId: string) {
         row?.applicant_answers?.profile
       );
       setAnswers((row?.applicant_answers as any) ?? {});
+      setIdentity({
+        hidden: !!row?.identity_hidden,
+        code: row?.anonymous_code ?? null,
+      });
 
       // If RPC doesn't return application_schema, fetch it using centralized loader
       let schema = (row?.application_schema as any) ?? {};
@@ -113,6 +143,8 @@ export function useCollaborativeReview(appId: string) {
                 "waitlist",
                 "reject",
               ],
+              rubric: formConfig.rubric ?? [],
+              blind_review: getBlindReview(formConfig),
             });
           }
         }
@@ -179,6 +211,33 @@ export function useCollaborativeReview(appId: string) {
   // ---------- FALLBACK LOAD (Direct queries) ----------
   async function loadWithDirectQueries() {
     try {
+      const { data: appRow, error: appRowError } = await supabase
+        .from("applications")
+        .select("program_id")
+        .eq("id", appId)
+        .single();
+
+      if (appRowError) {
+        console.error("Error loading application:", appRowError);
+        setError("Failed to load application data");
+        setLoading(false);
+        return;
+      }
+
+      // Direct queries skip the server's blind-review redaction, so they
+      // must never run for a blind program (or one whose form won't load)
+      let blind = true;
+      try {
+        blind = !!getBlindReview(await getProgramReviewForm(appRow.program_id));
+      } catch (err) {
+        console.error("Error checking blind review (fallback):", err);
+      }
+      if (blind) {
+        setError("Failed to load application data. Please try again.");
+        setLoading(false);
+        return;
+      }
+
       // Load application data directly
       const { data: appData, error: appError } = await supabase
         .from("applications")
@@ -249,8 +308,11 @@ export function useCollaborativeReview(appId: string) {
               show_comments: true,
               show_decision: false,
               decision_options: ["accept", "waitlist", "reject"],
+              rubric: [],
               ...formConfig,
+              blind_review: getBlindReview(formConfig),
             });
+            setIdentity({ hidden: !!getBlindReview(formConfig), code: null });
           }
         }
       } catch (err) {
@@ -320,13 +382,29 @@ export function useCollaborativeReview(appId: string) {
     }
   }
 
+  // Reviewer discussion, kept apart from the review itself
+  const loadThreads = useCallback(async () => {
+    try {
+      setThreads(await listThreads(appId));
+    } catch (err) {
+      console.error("Error loading discussion:", err);
+    }
+  }, [appId]);
+
   // Stable reference to load function to prevent infinite loops
   const loadRef = useRef(load);
   loadRef.current = load;
+  const loadThreadsRef = useRef(loadThreads);
+  loadThreadsRef.current = loadThreads;
 
   // Load on mount and when appId changes
   useEffect(() => {
+    // The workspace reuses this hook across applications; don't carry over
+    // the previous application's review while the next one loads
+    setReview({});
+    setThreads([]);
     load();
+    loadThreads();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [appId]); // Only depend on appId, not load function
 
@@ -354,6 +432,26 @@ export function useCollaborativeReview(appId: string) {
           }
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "review_threads",
+          filter: `application_id=eq.${appId}`,
+        },
+        () => loadThreadsRef.current()
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "review_thread_messages",
+          filter: `application_id=eq.${appId}`,
+        },
+        () => loadThreadsRef.current()
+      )
       .subscribe();
 
     return () => {
@@ -391,11 +489,14 @@ export function useCollaborativeReview(appId: string) {
           // Refresh data to get updated reviewer_name and updated_at
           await loadRef.current();
           setSaving("saved");
+          return true;
         } else {
           setSaving("error");
+          return false;
         }
       } catch (error) {
         setSaving("error");
+        return false;
       }
     },
     [
@@ -450,11 +551,14 @@ export function useCollaborativeReview(appId: string) {
           // Refresh data to get updated reviewer_name and updated_at
           await loadRef.current();
           setSaving("saved");
+          return true;
         } else {
           setSaving("error");
+          return false;
         }
       } catch (error) {
         setSaving("error");
+        return false;
       }
     },
     [
@@ -530,6 +634,23 @@ export function useCollaborativeReview(appId: string) {
     setReview((r) => ({ ...r, comments }));
   }, []);
 
+  // Scoring a rubric criterion also recomputes the weighted overall score
+  const setCriterionScore = useCallback(
+    (criterionId: string, value: number | null) => {
+      setReview((r) => {
+        const criteria = { ...getCriterionScores(r.ratings) };
+        if (value === null) delete criteria[criterionId];
+        else criteria[criterionId] = value;
+        return {
+          ...r,
+          ratings: { ...r.ratings, criteria },
+          score: weightedScore(reviewFormConfig.rubric, criteria),
+        };
+      });
+    },
+    [reviewFormConfig.rubric]
+  );
+
   const setRatingsJSON = useCallback((jsonText: string) => {
     try {
       const parsed = jsonText.trim() ? JSON.parse(jsonText) : {};
@@ -557,6 +678,7 @@ export function useCollaborativeReview(appId: string) {
   return {
     answers,
     review,
+    identity,
     applicationSchema,
     reviewFormConfig,
     program,
@@ -568,8 +690,11 @@ export function useCollaborativeReview(appId: string) {
     unfinalize,
     setScore,
     setComments,
+    setCriterionScore,
     setRatingsJSON,
     setDecision,
     getRatingsJSON,
+    threads,
+    reloadThreads: loadThreads,
   };
 }
@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Changes closer together than this (typing a question) become one step
+const COALESCE_MS = 800;
+const MAX_STEPS = 100;
+
+function isTextInput(target: EventTarget | null) {
+  const el = target as HTMLElement | null;
+  if (!el) return false;
+  const tag = el.tagName;
+  return (
+    tag === "TEXTAREA" ||
+    (tag === "INPUT" &&
+      !["checkbox", "radio", "button", "submit"].includes(
+        (el as HTMLInputElement).type
+      )) ||
+    el.isContentEditable
+  );
+}
+
+/**
+ * Undo/redo for editor state. Watches a snapshot of everything undoable and
+ * records a step whenever it changes; `restore` puts a snapshot back.
+ * Nothing is recorded until `ready` (so the initial load isn't a step), and
+ * Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl+Y work outside text boxes, which
+ * keep the browser's own text undo.
+ */
+export function useEditHistory<T>(
+  snapshot: T,
+  restore: (state: T) => void,
+  ready: boolean
+) {
+  const past = useRef<T[]>([]);
+  const future = useRef<T[]>([]);
+  const current = useRef<T>(snapshot);
+  const currentJson = useRef(JSON.stringify(snapshot));
+  const wasReady = useRef(false);
+  const lastChangeAt = useRef(0);
+  const restoreRef = useRef(restore);
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    restoreRef.current = restore;
+  }, [restore]);
+
+  useEffect(() => {
+    const json = JSON.stringify(snapshot);
+    if (!ready || !wasReady.current) {
+      // Still loading, or just finished: this is the starting point
+      wasReady.current = ready;
+      const hadSteps = past.current.length > 0 || future.current.length > 0;
+      past.current = [];
+      future.current = [];
+      current.current = snapshot;
+      currentJson.current = json;
+      if (hadSteps) setVersion((v) => v + 1);
+      return;
+    }
+    if (json === currentJson.current) return;
+
+    const now = Date.now();
+    if (now - lastChangeAt.current > COALESCE_MS || !past.current.length) {
+      past.current = [...past.current, current.current].slice(-MAX_STEPS);
+    }
+    lastChangeAt.current = now;
+    future.current = [];
+    current.current = snapshot;
+    currentJson.current = json;
+    setVersion((v) => v + 1);
+  }, [snapshot, ready]);
+
+  const moveTo = useCallback((target: T) => {
+    current.current = target;
+    currentJson.current = JSON.stringify(target);
+    lastChangeAt.current = 0;
+    restoreRef.current(target);
+    setVersion((v) => v + 1);
+  }, []);
+
+  const undo = useCallback(() => {
+    const previous = past.current[past.current.length - 1];
+    if (previous === undefined) return;
+    past.current = past.current.slice(0, -1);
+    future.current = [current.current, ...future.current];
+    moveTo(previous);
+  }, [moveTo]);
+
+  const redo = useCallback(() => {
+    const next = future.current[0];
+    if (next === undefined) return;
+    future.current = future.current.slice(1);
+    past.current = [...past.current, current.current];
+    moveTo(next);
+  }, [moveTo]);
+
+  useEffect(() => {
+    if (!ready) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [ready, undo, redo]);
+
+  return {
+    undo,
+    redo,
+    canUndo: past.current.length > 0,
+    canRedo: future.current.length > 0,
+  };
+}
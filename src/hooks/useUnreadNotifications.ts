@@ -9,8 +9,16 @@ import { useAuth } from "../auth/AuthProvider";
  * - Debounces database queries
  * - Ensures proper cleanup to prevent duplicate subscriptions
  * - Only checks on mount and when explicitly needed
+ *
+ * "applicant" covers results and other applicant notifications; "reviewer"
+ * covers @mentions in review discussions and review deadline reminders,
+ * which show on the Reviews link.
  */
-export function useUnreadNotifications() {
+export const REVIEWER_TYPES = ["review_mention", "review_reminder"];
+
+export function useUnreadNotifications(
+  scope: "applicant" | "reviewer" = "applicant"
+) {
   const { user } = useAuth();
   const [hasUnread, setHasUnread] = useState(false);
   const [loading, setLoading] = useState(true);
@@ -34,11 +42,16 @@ export function useUnreadNotifications() {
     const checkUnread = async () => {
       try {
         // Use efficient query - just check if at least one unread exists
-        const { count, error } = await supabase
+        let query = supabase
           .from("notifications")
           .select("*", { count: "exact", head: true })
           .eq("user_id", user.id)
           .is("read_at", null);
+        query =
+          scope === "reviewer"
+            ? query.in("type", REVIEWER_TYPES)
+            : query.not("type", "in", `(${REVIEWER_TYPES.join(",")})`);
+        const { count, error } = await query;
 
         if (!error) {
           setHasUnread((count ?? 0) > 0);
@@ -80,7 +93,7 @@ export function useUnreadNotifications() {
     // Subscribe to new notifications (realtime - no database queries)
     // Use a unique channel name per user to prevent conflicts
     const channel = supabase
-      .channel(`unread_notifications_${user.id}`)
+      .channel(`unread_notifications_${scope}_${user.id}`)
       .on(
         "postgres_changes",
         {
@@ -91,8 +104,11 @@ export function useUnreadNotifications() {
         },
         (payload) => {
           // Immediately show dot when new notification arrives
-          // Only show if it's unread (read_at is null)
-          if (!payload.new?.read_at) {
+          // Only show if it's unread (read_at is null) and in this scope
+          const inScope =
+            REVIEWER_TYPES.includes(payload.new?.type) ===
+            (scope === "reviewer");
+          if (!payload.new?.read_at && inScope) {
             setHasUnread(true);
           }
         }
@@ -154,7 +170,7 @@ export function useUnreadNotifications() {
         channelRef.current = null;
       }
     };
-  }, [user?.id]);
+  }, [user?.id, scope]);
 
   return { hasUnread, loading };
 }
@@ -18,6 +18,8 @@ import {
   adminRestoreProgram,
 } from "../services/admin";
 import { useOrgAdminModals } from "../contexts/OrgAdminModalContext";
+import DuplicateProgramModal from "../components/DuplicateProgramModal";
+import { saveProgramAsTemplate } from "../lib/programTemplates";
 
 type ProgramWithDeleted = Program & {
   deleted_at?: string | null;
@@ -60,6 +62,9 @@ export default function OrgAdminHomeV2() {
   const [modalSpotsCount, setModalSpotsCount] = useState<string>("");
   const [modalSaving, setModalSaving] = useState(false);
 
+  const [duplicatingProgram, setDuplicatingProgram] =
+    useState<ProgramWithDeleted | null>(null);
+
   // Helper to convert ISO date to datetime-local format
   const toDateTimeLocal = (iso: string | null | undefined): string => {
     if (!iso) return "";
@@ -308,6 +313,19 @@ export default function OrgAdminHomeV2() {
     }
   };
 
+  const onSaveAsTemplate = async (program: ProgramWithDeleted) => {
+    const name = prompt("Template name", program.name);
+    if (!name || !name.trim()) return;
+    try {
+      await saveProgramAsTemplate(program, name.trim());
+      setSuccess(
+        `Saved "${name.trim()}" as a template. Pick it when creating a new program.`
+      );
+    } catch (e: any) {
+      setListError(getUserFriendlyError(e));
+    }
+  };
+
   // Filter programs based on search term
   const filteredPrograms = useMemo(() => {
     if (!searchTerm.trim()) return programs;
@@ -805,6 +823,26 @@ export default function OrgAdminHomeV2() {
                                       </svg>
                                       Review
                                     </Link>
+                                    <button
+                                      onClick={() => setDuplicatingProgram(p)}
+                                      className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors duration-150"
+                                      title="Duplicate program"
+                                    >
+                                      <svg
+                                        className="w-3 h-3"
+                                        fill="none"
+                                        stroke="currentColor"
+                                        viewBox="0 0 24 24"
+                                      >
+                                        <path
+                                          strokeLinecap="round"
+                                          strokeLinejoin="round"
+                                          strokeWidth={2}
+                                          d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+                                        />
+                                      </svg>
+                                      Duplicate
+                                    </button>
                                     <button
                                       onClick={() => onDelete(p.id)}
                                       className="inline-flex items-center gap-1 px-2 py-1.5 text-xs font-semibold rounded-lg bg-red-100 text-red-700 hover:bg-red-200 transition-colors duration-150"
@@ -912,6 +950,13 @@ export default function OrgAdminHomeV2() {
 
                                       {/* Action Buttons Row - Bottom Right */}
                                       <div className="flex items-center justify-end gap-3 pt-6 mt-6 border-t border-gray-200">
+                                        <button
+                                          onClick={() => onSaveAsTemplate(p)}
+                                          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors duration-150"
+                                          title="Save this program's setup as a template for new programs"
+                                        >
+                                          Save as Template
+                                        </button>
                                         <button
                                           onClick={() =>
                                             openEditDetailsModal(p)
@@ -986,6 +1031,13 @@ export default function OrgAdminHomeV2() {
         </div>
       </div>
 
+      {/* Duplicate Program Modal */}
+      <DuplicateProgramModal
+        program={duplicatingProgram}
+        orgSlug={orgSlug ?? null}
+        onClose={() => setDuplicatingProgram(null)}
+      />
+
       {/* Edit Details Modal */}
       {showDetailsModal && editingProgram && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -0,0 +1,77 @@
+// src/lib/acceptanceForm.ts
+// Post-acceptance form, responses and claiming (add_acceptance_checklist.sql)
+import { supabase } from "./supabase";
+import { mergeProgramMetadata } from "./api";
+import type { AcceptanceField } from "../utils/acceptanceForm";
+
+export interface AcceptanceChecklistRow {
+  application_id: string;
+  applicant_name: string;
+  claimed_at: string | null;
+  declined_at: string | null;
+  expired_at: string | null;
+  answers: Record<string, any> | null;
+  submitted_at: string | null;
+  updated_at: string | null;
+}
+
+export function getAcceptanceForm(
+  program: { metadata?: any } | null | undefined
+): AcceptanceField[] {
+  return program?.metadata?.acceptance_form?.fields ?? [];
+}
+
+export async function saveAcceptanceForm(
+  programId: string,
+  fields: AcceptanceField[]
+) {
+  await mergeProgramMetadata(programId, {
+    acceptance_form: {
+      fields: fields.map((f) => ({ ...f, label: f.label.trim() })),
+    },
+  });
+}
+
+export async function listAcceptanceChecklist(programId: string) {
+  const { data, error } = await supabase.rpc("org_acceptance_checklist_v1", {
+    p_program_id: programId,
+  });
+  if (error) throw error;
+  return (data ?? []) as AcceptanceChecklistRow[];
+}
+
+// Application id -> answers, for the signed-in applicant's applications
+export async function getMyAcceptanceResponses(applicationIds: string[]) {
+  if (applicationIds.length === 0) return {};
+  const { data, error } = await supabase
+    .from("acceptance_responses")
+    .select("application_id, answers")
+    .in("application_id", applicationIds);
+  if (error) throw error;
+  return Object.fromEntries(
+    (data ?? []).map((r: any) => [r.application_id, r.answers ?? {}])
+  ) as Record<string, Record<string, any>>;
+}
+
+// Saves the answers (if any) and claims the spot in one transaction
+export async function claimSpot(
+  publicationId: string,
+  answers: Record<string, any> | null
+) {
+  const { error } = await supabase.rpc("claim_spot_v1", {
+    p_publication_id: publicationId,
+    p_answers: answers,
+  });
+  if (error) throw error;
+}
+
+export async function submitAcceptanceResponse(
+  publicationId: string,
+  answers: Record<string, any>
+) {
+  const { error } = await supabase.rpc("submit_acceptance_response_v1", {
+    p_publication_id: publicationId,
+    p_answers: answers,
+  });
+  if (error) throw error;
+}
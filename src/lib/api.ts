@@ -1,4 +1,5 @@
 import { supabase } from "./supabase";
+import type { ReviewerScoreEntry } from "../utils/scoreAggregation";
 
 export async function fetchProgram(programId: string) {
   const { data, error } = await supabase
@@ -80,6 +81,31 @@ export async function upsertReview(params: {
   return data;
 }
 
+// Org admins: set the decision on an application's finalized reviews
+// without touching scores or comments
+export async function setApplicationDecision(
+  applicationId: string,
+  decision: string | null
+) {
+  const { error } = await supabase.rpc("org_set_application_decision_v1", {
+    p_application_id: applicationId,
+    p_decision: decision,
+  });
+  if (error) throw error;
+}
+
+// Org admins: every reviewer's own score per application, rebuilt from the
+// review history (add_reviewer_scores.sql)
+export async function listReviewerScores(
+  programId: string
+): Promise<ReviewerScoreEntry[]> {
+  const { data, error } = await supabase.rpc("org_reviewer_scores_v1", {
+    p_program_id: programId,
+  });
+  if (error) throw error;
+  return (data ?? []) as ReviewerScoreEntry[];
+}
+
 // Cache for program review forms to avoid repeated calls
 const reviewFormCache: Map<
   string,
@@ -279,3 +305,21 @@ export async function getProgramMetadataBatch(programIds: string[]): Promise<Rec
 export function invalidateProgramMetadataCache(programId: string) {
   programMetadataCache.delete(programId);
 }
+
+/**
+ * Merge settings keys into a program's metadata on the server, leaving every
+ * other key as stored (add_program_metadata_merge.sql). Returns the new
+ * metadata.
+ */
+export async function mergeProgramMetadata(
+  programId: string,
+  values: Record<string, any>
+): Promise<any> {
+  const { data, error } = await supabase.rpc("program_merge_metadata_v1", {
+    p_program_id: programId,
+    p_values: values,
+  });
+  if (error) throw error;
+  invalidateProgramMetadataCache(programId);
+  return data ?? {};
+}
@@ -0,0 +1,176 @@
+// src/lib/applicationTags.ts
+// Org-wide application tags and saved inbox views (add_application_tags.sql)
+import { supabase } from "./supabase";
+import type { InboxFilters } from "../utils/inboxFilters";
+
+export type ApplicationTag = {
+  id: string;
+  organization_id: string;
+  name: string;
+  color: string;
+  created_at: string;
+};
+
+export type InboxSavedView = {
+  id: string;
+  organization_id: string;
+  name: string;
+  filters: Partial<InboxFilters>;
+  created_by: string;
+  updated_at: string;
+};
+
+// Stored by key so the palette can change without touching data
+export const TAG_COLORS: Record<string, { label: string; chip: string }> = {
+  gray: { label: "Gray", chip: "bg-gray-100 text-gray-800 border-gray-200" },
+  red: { label: "Red", chip: "bg-red-100 text-red-800 border-red-200" },
+  orange: {
+    label: "Orange",
+    chip: "bg-orange-100 text-orange-800 border-orange-200",
+  },
+  yellow: {
+    label: "Yellow",
+    chip: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  },
+  green: {
+    label: "Green",
+    chip: "bg-green-100 text-green-800 border-green-200",
+  },
+  teal: { label: "Teal", chip: "bg-teal-100 text-teal-800 border-teal-200" },
+  blue: { label: "Blue", chip: "bg-blue-100 text-blue-800 border-blue-200" },
+  purple: {
+    label: "Purple",
+    chip: "bg-purple-100 text-purple-800 border-purple-200",
+  },
+  pink: { label: "Pink", chip: "bg-pink-100 text-pink-800 border-pink-200" },
+};
+
+export function tagChipClass(color: string) {
+  return (TAG_COLORS[color] ?? TAG_COLORS.gray).chip;
+}
+
+// ---------- Tags ----------
+
+export async function listOrgTags(orgId: string): Promise<ApplicationTag[]> {
+  const { data, error } = await supabase
+    .from("application_tags")
+    .select("id, organization_id, name, color, created_at")
+    .eq("organization_id", orgId)
+    .order("name");
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function createTag(
+  orgId: string,
+  name: string,
+  color: string
+): Promise<ApplicationTag> {
+  const { data, error } = await supabase
+    .from("application_tags")
+    .insert({ organization_id: orgId, name: name.trim(), color })
+    .select("id, organization_id, name, color, created_at")
+    .single();
+  if (error) {
+    if (error.code === "23505") {
+      throw new Error(`A tag named "${name.trim()}" already exists`);
+    }
+    throw error;
+  }
+  return data;
+}
+
+// Org admins only; removes the tag from every application
+export async function deleteTag(tagId: string) {
+  const { error } = await supabase
+    .from("application_tags")
+    .delete()
+    .eq("id", tagId);
+  if (error) throw error;
+}
+
+/**
+ * Tag ids per application for the whole org, for filtering the inbox
+ * without a query per row.
+ */
+export async function listOrgTagLinks(
+  orgId: string
+): Promise<Record<string, string[]>> {
+  const { data, error } = await supabase
+    .from("application_tag_links")
+    .select("application_id, tag_id, application_tags!inner(organization_id)")
+    .eq("application_tags.organization_id", orgId);
+  if (error) throw error;
+
+  const byApplication: Record<string, string[]> = {};
+  (data ?? []).forEach((link: any) => {
+    if (!byApplication[link.application_id]) {
+      byApplication[link.application_id] = [];
+    }
+    byApplication[link.application_id].push(link.tag_id);
+  });
+  return byApplication;
+}
+
+// Works for one application or a bulk selection
+export async function addTag(applicationIds: string[], tagId: string) {
+  if (applicationIds.length === 0) return;
+  const { error } = await supabase.from("application_tag_links").upsert(
+    applicationIds.map((id) => ({ application_id: id, tag_id: tagId })),
+    { onConflict: "application_id,tag_id", ignoreDuplicates: true }
+  );
+  if (error) throw error;
+}
+
+export async function removeTag(applicationIds: string[], tagId: string) {
+  if (applicationIds.length === 0) return;
+  const { error } = await supabase
+    .from("application_tag_links")
+    .delete()
+    .eq("tag_id", tagId)
+    .in("application_id", applicationIds);
+  if (error) throw error;
+}
+
+// ---------- Saved views ----------
+
+export async function listInboxViews(orgId: string): Promise<InboxSavedView[]> {
+  const { data, error } = await supabase
+    .from("inbox_saved_views")
+    .select("id, organization_id, name, filters, created_by, updated_at")
+    .eq("organization_id", orgId)
+    .order("name");
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function saveInboxView(
+  orgId: string,
+  name: string,
+  filters: InboxFilters
+): Promise<InboxSavedView> {
+  const { data, error } = await supabase
+    .from("inbox_saved_views")
+    .insert({ organization_id: orgId, name: name.trim(), filters })
+    .select("id, organization_id, name, filters, created_by, updated_at")
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+// Overwrite a view with the current filters
+export async function updateInboxView(viewId: string, filters: InboxFilters) {
+  const { error } = await supabase
+    .from("inbox_saved_views")
+    .update({ filters })
+    .eq("id", viewId);
+  if (error) throw error;
+}
+
+export async function deleteInboxView(viewId: string) {
+  const { error } = await supabase
+    .from("inbox_saved_views")
+    .delete()
+    .eq("id", viewId);
+  if (error) throw error;
+}
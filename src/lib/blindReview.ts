@@ -0,0 +1,94 @@
+// src/lib/blindReview.ts
+import { supabase } from "./supabase";
+
+export type ProfileSectionKey =
+  | "personal"
+  | "family"
+  | "writing"
+  | "experience";
+
+// Stored in the program's review form (metadata.review_form.blind_review)
+export type BlindReviewSettings = {
+  enabled: boolean;
+  hidden_fields: string[]; // question keys
+  hidden_profile_sections: ProfileSectionKey[];
+};
+
+export type IdentityReveal = {
+  id: string;
+  application_id: string;
+  revealed_by: string;
+  revealed_by_name: string | null;
+  created_at: string;
+};
+
+export const PROFILE_SECTIONS: { key: ProfileSectionKey; label: string }[] = [
+  { key: "personal", label: "Personal information (name, email, address)" },
+  { key: "family", label: "Family" },
+  { key: "writing", label: "Writing" },
+  { key: "experience", label: "Experience" },
+];
+
+export const DEFAULT_BLIND_REVIEW: BlindReviewSettings = {
+  enabled: false,
+  hidden_fields: [],
+  hidden_profile_sections: ["personal"],
+};
+
+// Settings for a program's review form, or null when blind review is off
+export function getBlindReview(
+  reviewForm: any | null | undefined
+): BlindReviewSettings | null {
+  const b = reviewForm?.blind_review;
+  if (!b?.enabled) return null;
+  return {
+    enabled: true,
+    hidden_fields: Array.isArray(b.hidden_fields) ? b.hidden_fields : [],
+    hidden_profile_sections: Array.isArray(b.hidden_profile_sections)
+      ? b.hidden_profile_sections
+      : [],
+  };
+}
+
+/**
+ * Logs the reveal (org admins only, checked by the server) and returns the
+ * applicant's name and unredacted answers
+ */
+export async function revealIdentity(applicationId: string): Promise<{
+  applicant_name: string;
+  applicant_answers: Record<string, any>;
+}> {
+  const { data, error } = await supabase.rpc("reveal_applicant_identity_v1", {
+    p_application_id: applicationId,
+  });
+  if (error) throw error;
+  return data?.[0] ?? { applicant_name: "—", applicant_answers: {} };
+}
+
+export async function listIdentityReveals(
+  applicationId: string
+): Promise<IdentityReveal[]> {
+  const { data, error } = await supabase
+    .from("review_identity_reveals")
+    .select("id, application_id, revealed_by, created_at")
+    .eq("application_id", applicationId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+
+  const rows = data ?? [];
+  const userIds = [...new Set(rows.map((r: any) => r.revealed_by))];
+  const names = new Map<string, string>();
+  if (userIds.length > 0) {
+    const { data: profiles } = await supabase
+      .from("profiles")
+      .select("id, full_name")
+      .in("id", userIds);
+    (profiles ?? []).forEach((p: any) => {
+      if (p.full_name) names.set(p.id, p.full_name);
+    });
+  }
+  return rows.map((r: any) => ({
+    ...r,
+    revealed_by_name: names.get(r.revealed_by) ?? null,
+  }));
+}
@@ -0,0 +1,60 @@
+// src/lib/builderCheckpoints.ts
+import { mergeProgramMetadata } from "./api";
+
+// Named snapshots of a program's questions, kept in metadata.builder_checkpoints
+export type BuilderCheckpoint = {
+  id: string;
+  name: string;
+  created_at: string;
+  created_by?: string;
+  fields: any[];
+};
+
+const MAX_CHECKPOINTS = 20;
+
+export function listCheckpoints(program: { metadata?: any } | null) {
+  const list = program?.metadata?.builder_checkpoints;
+  return Array.isArray(list) ? (list as BuilderCheckpoint[]) : [];
+}
+
+// Coalition managers can't read programs directly, so the list comes from
+// the program the builder loaded (kept current with the metadata returned)
+function writeCheckpoints(
+  program: { id: string; metadata?: any },
+  update: (list: BuilderCheckpoint[]) => BuilderCheckpoint[]
+) {
+  return mergeProgramMetadata(program.id, {
+    builder_checkpoints: update(listCheckpoints(program)),
+  });
+}
+
+/**
+ * Save the current questions under a name. The oldest checkpoints are
+ * dropped past MAX_CHECKPOINTS. Returns the program's new metadata.
+ */
+export function saveCheckpoint(
+  program: { id: string; metadata?: any },
+  name: string,
+  fields: any[],
+  userId?: string
+) {
+  const checkpoint: BuilderCheckpoint = {
+    id: `cp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    created_at: new Date().toISOString(),
+    created_by: userId,
+    fields,
+  };
+  return writeCheckpoints(program, (list) =>
+    [checkpoint, ...list].slice(0, MAX_CHECKPOINTS)
+  );
+}
+
+export function deleteCheckpoint(
+  program: { id: string; metadata?: any },
+  checkpointId: string
+) {
+  return writeCheckpoints(program, (list) =>
+    list.filter((c) => c.id !== checkpointId)
+  );
+}
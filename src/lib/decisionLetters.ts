@@ -0,0 +1,21 @@
+// src/lib/decisionLetters.ts
+// Per-decision letter templates in program metadata (add_decision_letters.sql)
+import { mergeProgramMetadata } from "./api";
+import type { DecisionLetters } from "../utils/decisionLetters";
+
+export function getDecisionLetters(
+  program: { metadata?: any } | null | undefined
+): DecisionLetters {
+  return program?.metadata?.decision_letters ?? {};
+}
+
+export async function saveDecisionLetters(
+  programId: string,
+  letters: DecisionLetters
+) {
+  // Empty templates mean "no letter" for that decision
+  const decisionLetters = Object.fromEntries(
+    Object.entries(letters).filter(([, body]) => body.trim() !== "")
+  );
+  await mergeProgramMetadata(programId, { decision_letters: decisionLetters });
+}
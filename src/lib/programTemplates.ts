@@ -0,0 +1,237 @@
+// src/lib/programTemplates.ts
+import { supabase } from "./supabase";
+import { orgCreateProgramDraft, Program } from "./programs";
+import { setBuilderSchema } from "../data/api";
+import { getProgramReviewForm, setProgramReviewForm } from "./api";
+import {
+  addProgramAdmin,
+  addProgramReviewer,
+  listProgramAssignments,
+} from "./programAssignments";
+
+// Everything needed to recreate a program's setup (but not its people)
+export type ProgramTemplateContent = {
+  type: Program["type"];
+  description: string | null;
+  spots_mode: Program["spots_mode"];
+  spots_count: number | null;
+  is_private: boolean;
+  metadata: any;
+  review_form: any | null;
+};
+
+export type ProgramTemplate = {
+  id: string;
+  organization_id: string;
+  name: string;
+  source_program_id: string | null;
+  template: ProgramTemplateContent;
+  created_at: string;
+};
+
+/**
+ * The parts of program metadata that describe its setup. Review status,
+ * publishing and approval history stay with the original program.
+ */
+export function copyableMetadata(meta: any) {
+  const m = meta ?? {};
+  const copy: any = { review_status: "draft" };
+  if (m.application) {
+    // The working schema already includes any pending edits
+    copy.application = {
+      ...m.application,
+      schema: m.pending_schema ?? m.application.schema,
+    };
+  }
+  if (m.form) copy.form = m.form;
+  if (m.review_form) copy.review_form = m.review_form;
+  if (m.review_assignment) copy.review_assignment = m.review_assignment;
+  if (m.review_reminders) copy.review_reminders = m.review_reminders;
+  if (m.spotClaiming) copy.spotClaiming = m.spotClaiming;
+  if (m.waitlistPromotion) {
+    // The ranking lists the original program's applications
+    const { enabled, waitlistDecision, order, claimDays } = m.waitlistPromotion;
+    copy.waitlistPromotion = { enabled, waitlistDecision, order, claimDays };
+  }
+  if (m.acceptance_form) copy.acceptance_form = m.acceptance_form;
+  if (m.decision_letters) copy.decision_letters = m.decision_letters;
+  if (m.is_private !== undefined) copy.is_private = m.is_private;
+  return copy;
+}
+
+function isPrivate(program: Program) {
+  return (
+    program.is_private === true ||
+    ((program.is_private === null || program.is_private === undefined) &&
+      program.metadata?.is_private === true)
+  );
+}
+
+async function templateFromProgram(
+  program: Program
+): Promise<ProgramTemplateContent> {
+  let reviewForm: any = null;
+  try {
+    reviewForm = await getProgramReviewForm(program.id);
+  } catch (e) {
+    console.warn("Could not load review form for", program.id, e);
+  }
+  return {
+    type: program.type,
+    description: program.description,
+    spots_mode: program.spots_mode ?? "exact",
+    spots_count: program.spots_count ?? null,
+    is_private: isPrivate(program),
+    metadata: copyableMetadata(program.metadata),
+    review_form: reviewForm ?? program.metadata?.review_form ?? null,
+  };
+}
+
+/**
+ * Create a draft program from template content. The application schema and
+ * reviewer form go through their own RPCs so every loader sees them.
+ */
+async function createFromContent(
+  orgId: string,
+  content: ProgramTemplateContent,
+  details: { name: string; open_at?: string | null; close_at?: string | null }
+): Promise<Program> {
+  const created = await orgCreateProgramDraft({
+    organization_id: orgId,
+    name: details.name,
+    type: content.type,
+    description: content.description ?? undefined,
+    open_at: details.open_at ?? null,
+    close_at: details.close_at ?? null,
+    metadata: content.metadata,
+    spots_mode: content.spots_mode ?? "exact",
+    spots_count: content.spots_count,
+  });
+
+  if (content.is_private) {
+    // A private template must never leave a public draft behind silently
+    const { data, error } = await supabase
+      .from("programs")
+      .update({ is_private: true })
+      .eq("id", created.id)
+      .select("id");
+    if (error) throw error;
+    if (!data?.length)
+      throw new Error("Could not make the new program private");
+  }
+
+  const schema = content.metadata?.application?.schema;
+  if (schema && Array.isArray(schema.fields)) {
+    await setBuilderSchema(created.id, schema);
+  }
+  if (content.review_form) {
+    await setProgramReviewForm(created.id, content.review_form);
+  }
+  return created;
+}
+
+/**
+ * Copy a program's basics, form, reviewer form, claiming settings and team
+ * into a new draft with its own name and dates
+ */
+export async function duplicateProgram(
+  source: Program,
+  details: { name: string; open_at?: string | null; close_at?: string | null }
+): Promise<Program> {
+  const content = await templateFromProgram(source);
+  const created = await createFromContent(
+    source.organization_id,
+    content,
+    details
+  );
+
+  // Team assignments are best effort: one bad email shouldn't undo the copy
+  try {
+    const team = await listProgramAssignments(source.id);
+    const results = await Promise.allSettled([
+      ...(team.reviewers ?? []).map((r) =>
+        addProgramReviewer(created.id, r.email, r.full_name ?? undefined)
+      ),
+      ...(team.admins ?? []).map((a) =>
+        addProgramAdmin(created.id, a.email, a.full_name ?? undefined)
+      ),
+    ]);
+    const failed = results.filter((r) => r.status === "rejected").length;
+    if (failed > 0) {
+      console.warn(`${failed} team assignment(s) could not be copied`);
+    }
+  } catch (e) {
+    console.warn("Could not copy team assignments:", e);
+  }
+
+  return created;
+}
+
+export async function listProgramTemplates(
+  orgId: string
+): Promise<ProgramTemplate[]> {
+  const { data, error } = await supabase
+    .from("program_templates")
+    .select(
+      "id, organization_id, name, source_program_id, template, created_at"
+    )
+    .eq("organization_id", orgId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as ProgramTemplate[];
+}
+
+export async function saveProgramAsTemplate(
+  program: Program,
+  name: string
+): Promise<ProgramTemplate> {
+  const template = await templateFromProgram(program);
+  const { data, error } = await supabase
+    .from("program_templates")
+    .insert({
+      organization_id: program.organization_id,
+      name,
+      source_program_id: program.id,
+      template,
+    })
+    .select(
+      "id, organization_id, name, source_program_id, template, created_at"
+    )
+    .single();
+  if (error) throw error;
+  return data as ProgramTemplate;
+}
+
+export async function deleteProgramTemplate(templateId: string) {
+  const { error } = await supabase
+    .from("program_templates")
+    .delete()
+    .eq("id", templateId);
+  if (error) throw error;
+}
+
+export async function createProgramFromTemplate(
+  template: ProgramTemplate,
+  details: {
+    name: string;
+    open_at?: string | null;
+    close_at?: string | null;
+    spots_mode?: Program["spots_mode"];
+    spots_count?: number | null;
+    is_private?: boolean;
+  }
+): Promise<Program> {
+  return createFromContent(
+    template.organization_id,
+    {
+      ...template.template,
+      spots_mode: details.spots_mode ?? template.template.spots_mode,
+      spots_count:
+        details.spots_count !== undefined
+          ? details.spots_count
+          : template.template.spots_count,
+      is_private: details.is_private ?? template.template.is_private,
+    },
+    details
+  );
+}
@@ -261,7 +261,20 @@ export async function publicListPrograms(params?: {
 
 export type BuilderField = {
   id: string;
-  type: "short_text" | "long_text" | "date" | "select" | "checkbox" | "file";
+  type:
+    | "short_text"
+    | "long_text"
+    | "date"
+    | "select"
+    | "checkbox"
+    | "file"
+    | "number"
+    | "email"
+    | "phone"
+    | "url"
+    | "multi_select"
+    | "ranking"
+    | "section";
   label: string;
   required?: boolean;
   options?: string[];
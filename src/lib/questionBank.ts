@@ -0,0 +1,169 @@
+// src/lib/questionBank.ts
+import { supabase } from "./supabase";
+import { setBuilderSchema } from "../data/api";
+import type { AppItem } from "../types/application";
+
+export type BankQuestion = {
+  id: string;
+  organization_id: string;
+  field: AppItem;
+  created_at: string;
+  updated_at: string;
+};
+
+const COLUMNS = "id, organization_id, field, created_at, updated_at";
+
+/**
+ * Answer key shared by every linked copy of a bank question, so answers
+ * can be compared across programs
+ */
+export function bankFieldKey(questionId: string) {
+  return `bank_${questionId.replace(/-/g, "")}`;
+}
+
+// Program-specific parts (key, link, conditions) never go into the bank
+function bankContent(field: AppItem): AppItem {
+  const { key: _key, bankId: _bankId, showIf: _showIf, ...rest } = field;
+  return rest as AppItem;
+}
+
+export async function listQuestionBank(orgId: string): Promise<BankQuestion[]> {
+  const { data, error } = await supabase
+    .from("question_bank")
+    .select(COLUMNS)
+    .eq("organization_id", orgId)
+    .order("updated_at", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as BankQuestion[];
+}
+
+export async function saveToQuestionBank(
+  orgId: string,
+  field: AppItem
+): Promise<BankQuestion> {
+  const { data, error } = await supabase
+    .from("question_bank")
+    .insert({ organization_id: orgId, field: bankContent(field) })
+    .select(COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as BankQuestion;
+}
+
+export async function deleteFromQuestionBank(questionId: string) {
+  const { error } = await supabase
+    .from("question_bank")
+    .delete()
+    .eq("id", questionId);
+  if (error) throw error;
+}
+
+/**
+ * The field to add to a form. Linked copies keep the bank's key and pick up
+ * later edits; detached copies get a fresh key and are on their own.
+ */
+export function fieldFromBank(
+  question: BankQuestion,
+  linked: boolean
+): AppItem {
+  const content = bankContent(question.field);
+  if (linked) {
+    return { ...content, key: bankFieldKey(question.id), bankId: question.id };
+  }
+  const key = `${content.type}_${Date.now()}_${Math.random()
+    .toString(36)
+    .substr(2, 9)}`;
+  return { ...content, key };
+}
+
+// Replace linked fields with the bank's version, keeping their key and conditions
+export function applyBankQuestion(
+  fields: AppItem[],
+  question: BankQuestion
+): AppItem[] {
+  return fields.map((f) =>
+    f.bankId === question.id
+      ? ({
+          ...bankContent(question.field),
+          key: f.key,
+          bankId: f.bankId,
+          ...(f.showIf ? { showIf: f.showIf } : {}),
+        } as AppItem)
+      : f
+  );
+}
+
+/**
+ * Save a linked field's current content back to the bank and push it to the
+ * org's other draft programs. Published and in-review programs keep the
+ * version they were approved with until they're next edited.
+ */
+export async function updateBankQuestion(
+  questionId: string,
+  field: AppItem,
+  skipProgramId?: string
+): Promise<{ question: BankQuestion; updatedPrograms: number }> {
+  const { data, error } = await supabase
+    .from("question_bank")
+    .update({ field: bankContent(field), updated_at: new Date().toISOString() })
+    .eq("id", questionId)
+    .select(COLUMNS)
+    .single();
+  if (error) throw error;
+  const updated = data as BankQuestion;
+
+  const { data: programs, error: programsError } = await supabase
+    .from("programs")
+    .select("id, published, metadata")
+    .eq("organization_id", updated.organization_id);
+  if (programsError) throw programsError;
+
+  let updatedPrograms = 0;
+  for (const program of programs ?? []) {
+    const meta = (program.metadata ?? {}) as any;
+    const status = meta.review_status ?? "draft";
+    if (program.id === skipProgramId || program.published || status !== "draft")
+      continue;
+
+    const app = meta.application ?? {};
+    const schemaFields: AppItem[] | undefined = app.schema?.fields;
+    const builderFields: AppItem[] | undefined = app.builder;
+    const linked = (list?: AppItem[]) =>
+      Array.isArray(list) && list.some((f) => f.bankId === updated.id);
+    if (!linked(schemaFields) && !linked(builderFields)) continue;
+
+    const nextApplication = { ...app };
+    if (linked(schemaFields)) {
+      nextApplication.schema = {
+        ...app.schema,
+        fields: applyBankQuestion(schemaFields!, updated),
+      };
+    }
+    if (linked(builderFields)) {
+      nextApplication.builder = applyBankQuestion(builderFields!, updated);
+    }
+
+    const { error: updateError } = await supabase
+      .from("programs")
+      .update({ metadata: { ...meta, application: nextApplication } })
+      .eq("id", program.id);
+    if (updateError) {
+      console.warn(
+        "Could not update linked question in",
+        program.id,
+        updateError
+      );
+      continue;
+    }
+    if (nextApplication.schema) {
+      try {
+        await setBuilderSchema(program.id, nextApplication.schema);
+      } catch (e) {
+        console.warn("Could not sync builder schema for", program.id, e);
+      }
+    }
+    updatedPrograms++;
+  }
+
+  return { question: updated, updatedPrograms };
+}
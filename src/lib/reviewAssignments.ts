@@ -0,0 +1,81 @@
+// src/lib/reviewAssignments.ts
+import { supabase } from "./supabase";
+import { mergeProgramMetadata } from "./api";
+
+// Stored in program metadata.review_assignment (read by the SQL functions)
+export type AssignmentPolicy = {
+  enabled: boolean;
+  reviewers_per_app: number;
+  require_senior: boolean;
+  senior_reviewer_ids: string[];
+};
+
+export const DEFAULT_ASSIGNMENT_POLICY: AssignmentPolicy = {
+  enabled: false,
+  reviewers_per_app: 2,
+  require_senior: false,
+  senior_reviewer_ids: [],
+};
+
+export function getAssignmentPolicy(
+  program: { metadata?: any } | null | undefined
+): AssignmentPolicy {
+  return {
+    ...DEFAULT_ASSIGNMENT_POLICY,
+    ...(program?.metadata?.review_assignment ?? {}),
+  };
+}
+
+/**
+ * Save the policy and bring existing submissions in line with it.
+ * New submissions are assigned by a database trigger.
+ */
+export async function saveAssignmentPolicy(
+  programId: string,
+  policy: AssignmentPolicy
+) {
+  await mergeProgramMetadata(programId, { review_assignment: policy });
+
+  return policy.enabled ? rebalanceProgramAssignments(programId) : null;
+}
+
+// Drops assignments of removed reviewers and fills every application up to K
+export async function rebalanceProgramAssignments(
+  programId: string
+): Promise<{ removed: number; added: number }> {
+  const { data, error } = await supabase.rpc(
+    "rebalance_program_assignments_v1",
+    { p_program_id: programId }
+  );
+  if (error) throw error;
+  return { removed: data?.removed ?? 0, added: data?.added ?? 0 };
+}
+
+// Number of applications assigned to each reviewer in a program
+export async function getReviewerLoads(
+  programId: string
+): Promise<Record<string, number>> {
+  const { data, error } = await supabase
+    .from("application_reviewer_assignments")
+    .select("reviewer_id")
+    .eq("program_id", programId);
+  if (error) throw error;
+  const loads: Record<string, number> = {};
+  (data ?? []).forEach((row: any) => {
+    loads[row.reviewer_id] = (loads[row.reviewer_id] ?? 0) + 1;
+  });
+  return loads;
+}
+
+export async function listMyAssignedApplicationIds(
+  programId: string,
+  userId: string
+): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from("application_reviewer_assignments")
+    .select("application_id")
+    .eq("program_id", programId)
+    .eq("reviewer_id", userId);
+  if (error) throw error;
+  return new Set((data ?? []).map((row: any) => row.application_id));
+}
@@ -0,0 +1,94 @@
+// src/lib/reviewConflicts.ts
+import { supabase } from "./supabase";
+
+export type ReviewConflict = {
+  id: string;
+  reviewer_id: string;
+  reviewer_name: string | null;
+  reviewer_email: string | null;
+  application_id: string | null;
+  applicant_id: string | null;
+  applicant_email: string | null;
+  applicant_name: string | null;
+  reason: string | null;
+  declared_by: string;
+  declared_by_reviewer: boolean;
+  created_at: string;
+};
+
+/**
+ * Record a conflict for one application, an applicant account or an
+ * applicant email. Reviewers may only declare their own; org admins can
+ * declare for anyone on the team.
+ */
+export async function declareConflict(conflict: {
+  organizationId: string;
+  reviewerId: string;
+  applicationId?: string;
+  applicantId?: string;
+  applicantEmail?: string;
+  reason?: string;
+}) {
+  const { error } = await supabase.from("review_conflicts").insert({
+    organization_id: conflict.organizationId,
+    reviewer_id: conflict.reviewerId,
+    application_id: conflict.applicationId ?? null,
+    applicant_id: conflict.applicantId ?? null,
+    applicant_email: conflict.applicantEmail?.trim().toLowerCase() || null,
+    reason: conflict.reason?.trim() || null,
+  });
+  if (error) throw error;
+}
+
+export async function deleteConflict(conflictId: string) {
+  const { error } = await supabase
+    .from("review_conflicts")
+    .delete()
+    .eq("id", conflictId);
+  if (error) throw error;
+}
+
+// Org admins only
+export async function listOrgConflicts(
+  orgId: string
+): Promise<ReviewConflict[]> {
+  const { data, error } = await supabase.rpc("org_list_review_conflicts_v1", {
+    p_org_id: orgId,
+  });
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function hasMyConflict(applicationId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc("my_review_conflict_v1", {
+    p_application_id: applicationId,
+  });
+  if (error) throw error;
+  return data === true;
+}
+
+export async function listMyConflictedApplicationIds(
+  programId: string
+): Promise<Set<string>> {
+  const { data, error } = await supabase.rpc("my_conflicted_applications_v1", {
+    p_program_id: programId,
+  });
+  if (error) throw error;
+  return new Set((data ?? []).map((row: any) => row.application_id));
+}
+
+// Whether a reviewer/application pair in a review list is conflicted
+export function isConflictedPair(
+  conflicts: ReviewConflict[],
+  reviewerId: string | null,
+  applicationId: string,
+  applicantId: string | null
+) {
+  if (!reviewerId) return false;
+  return conflicts.some(
+    (c) =>
+      c.reviewer_id === reviewerId &&
+      (c.application_id === applicationId ||
+        (!!applicantId && c.applicant_id === applicantId))
+  );
+}
@@ -0,0 +1,135 @@
+// src/lib/reviewDiscussions.ts
+// Internal reviewer discussion. Never shown to applicants, unlike the
+// review's own comments.
+import { supabase } from "./supabase";
+
+export type ReviewThreadMessage = {
+  id: string;
+  thread_id: string;
+  application_id: string;
+  author_id: string;
+  body: string;
+  mentions: string[];
+  created_at: string;
+};
+
+export type ReviewThread = {
+  id: string;
+  application_id: string;
+  created_by: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  created_at: string;
+  messages: ReviewThreadMessage[];
+};
+
+export type DiscussionMember = {
+  user_id: string;
+  full_name: string;
+};
+
+export async function listThreads(
+  applicationId: string
+): Promise<ReviewThread[]> {
+  const { data, error } = await supabase
+    .from("review_threads")
+    .select("*, messages:review_thread_messages(*)")
+    .eq("application_id", applicationId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data ?? []).map((t: any) => ({
+    ...t,
+    messages: [...(t.messages ?? [])].sort((a, b) =>
+      a.created_at.localeCompare(b.created_at)
+    ),
+  }));
+}
+
+// Reviewers and org admins who can see this application's discussion
+export async function listDiscussionMembers(
+  applicationId: string
+): Promise<DiscussionMember[]> {
+  const { data, error } = await supabase.rpc("review_discussion_members_v1", {
+    p_application_id: applicationId,
+  });
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function startThread(
+  applicationId: string,
+  body: string,
+  mentions: string[]
+) {
+  const { data, error } = await supabase
+    .from("review_threads")
+    .insert({ application_id: applicationId })
+    .select("id")
+    .single();
+  if (error) throw error;
+  await postMessage(applicationId, data.id, body, mentions);
+}
+
+export async function postMessage(
+  applicationId: string,
+  threadId: string,
+  body: string,
+  mentions: string[]
+) {
+  const { error } = await supabase.from("review_thread_messages").insert({
+    thread_id: threadId,
+    application_id: applicationId,
+    body: body.trim(),
+    mentions,
+  });
+  if (error) throw error;
+}
+
+export async function setThreadResolved(
+  threadId: string,
+  resolved: boolean,
+  userId: string
+) {
+  const { error } = await supabase
+    .from("review_threads")
+    .update(
+      resolved
+        ? { resolved_at: new Date().toISOString(), resolved_by: userId }
+        : { resolved_at: null, resolved_by: null }
+    )
+    .eq("id", threadId);
+  if (error) throw error;
+}
+
+/**
+ * Members mentioned as "@Full Name" in a message. Longer names are matched
+ * first so "@Ann Lee" doesn't also count as "@Ann".
+ */
+export function extractMentions(body: string, members: DiscussionMember[]) {
+  const lower = body.toLowerCase();
+  const ids: string[] = [];
+  let rest = lower;
+  [...members]
+    .filter((m) => m.full_name)
+    .sort((a, b) => b.full_name.length - a.full_name.length)
+    .forEach((m) => {
+      const tag = `@${m.full_name.toLowerCase()}`;
+      if (rest.includes(tag)) {
+        ids.push(m.user_id);
+        rest = rest.split(tag).join("");
+      }
+    });
+  return ids;
+}
+
+// Opening the discussion counts as reading the mentions in it
+export async function markMentionsRead(applicationId: string, userId: string) {
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("type", "review_mention")
+    .eq("data->>application_id", applicationId)
+    .is("read_at", null);
+  if (error) throw error;
+}
@@ -0,0 +1,52 @@
+// src/lib/reviewHistory.ts
+// Immutable review change history, written by a trigger on
+// application_reviews (add_review_history.sql)
+import { supabase } from "./supabase";
+
+export type ReviewHistoryAction =
+  | "create"
+  | "save"
+  | "finalize"
+  | "unfinalize"
+  | "decision";
+
+export type ReviewFieldChange = { from: any; to: any };
+
+export type ReviewHistoryEntry = {
+  id: string;
+  review_id: string;
+  application_id: string;
+  program_id: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  action: ReviewHistoryAction;
+  // Keyed by field: status, score, comments, decision, criteria.<id>, ...
+  changes: Record<string, ReviewFieldChange>;
+  created_at: string;
+};
+
+// Newest first
+export async function listReviewHistory(
+  applicationId: string
+): Promise<ReviewHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from("review_history")
+    .select("*")
+    .eq("application_id", applicationId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Whole program, oldest first, for the export
+export async function listProgramReviewHistory(
+  programId: string
+): Promise<ReviewHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from("review_history")
+    .select("*")
+    .eq("program_id", programId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
@@ -0,0 +1,116 @@
+// src/lib/reviewProgress.ts
+// Review deadlines, progress and reminder nudges (add_review_deadlines.sql)
+import { supabase } from "./supabase";
+import { mergeProgramMetadata } from "./api";
+
+// Stored in program metadata.review_reminders (read by the SQL schedule)
+export type ReviewReminderSettings = {
+  auto: boolean;
+  // Start reminding this many days before the deadline
+  days_before: number;
+  // Then at most once every this many days, until the reviewer is done
+  every_days: number;
+};
+
+export const DEFAULT_REMINDER_SETTINGS: ReviewReminderSettings = {
+  auto: false,
+  days_before: 3,
+  every_days: 2,
+};
+
+export function getReviewDeadline(
+  program: { metadata?: any } | null | undefined
+): string | null {
+  return program?.metadata?.review_deadline || null;
+}
+
+export function getReminderSettings(
+  program: { metadata?: any } | null | undefined
+): ReviewReminderSettings {
+  return {
+    ...DEFAULT_REMINDER_SETTINGS,
+    ...(program?.metadata?.review_reminders ?? {}),
+  };
+}
+
+export async function saveReviewSchedule(
+  programId: string,
+  deadline: string | null,
+  reminders: ReviewReminderSettings
+) {
+  await mergeProgramMetadata(programId, {
+    review_deadline: deadline,
+    review_reminders: reminders,
+  });
+}
+
+export type ReviewerProgress = {
+  reviewer_id: string;
+  reviewer_name: string | null;
+  assigned: number;
+  drafted: number;
+  finalized: number;
+  // Assigned or started, not finalized
+  pending: number;
+  // Pending after the deadline
+  overdue: number;
+  last_reminded_at: string | null;
+};
+
+export async function getReviewProgress(
+  programId: string
+): Promise<ReviewerProgress[]> {
+  const { data, error } = await supabase.rpc("org_review_progress_v1", {
+    p_program_id: programId,
+  });
+  if (error) throw error;
+  return data ?? [];
+}
+
+export type BurndownPoint = {
+  day: string;
+  submitted: number;
+  finalized: number;
+};
+
+export async function getReviewBurndown(
+  programId: string
+): Promise<BurndownPoint[]> {
+  const { data, error } = await supabase.rpc("org_review_burndown_v1", {
+    p_program_id: programId,
+  });
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Notify reviewers with pending reviews (emailed via email-on-notification).
+ * Without reviewerIds, everyone with pending reviews is reminded.
+ * Returns how many reviewers were reminded.
+ */
+export async function sendReviewReminders(
+  programId: string,
+  reviewerIds?: string[]
+): Promise<number> {
+  const { data, error } = await supabase.rpc("org_send_review_reminders_v1", {
+    p_program_id: programId,
+    p_reviewer_ids: reviewerIds ?? null,
+  });
+  if (error) throw error;
+  return data ?? 0;
+}
+
+// Called when a reviewer opens the program's queue
+export async function markReviewRemindersRead(
+  programId: string,
+  userId: string
+) {
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("type", "review_reminder")
+    .eq("data->>program_id", programId)
+    .is("read_at", null);
+  if (error) throw error;
+}
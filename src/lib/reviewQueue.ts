@@ -0,0 +1,113 @@
+// src/lib/reviewQueue.ts
+// Sequential review workspace: the list a reviewer opened an application
+// from is remembered for the session, so ReviewAppPage can step through it
+// in the same filter and sort order.
+import { supabase } from "./supabase";
+import { prefetchFile } from "../components/attachments/FilePreview";
+
+const STORAGE_KEY = "review_queue";
+
+export type ReviewQueue = {
+  // Shown in the workspace bar, e.g. the program name
+  label: string;
+  // Where "back to queue" goes
+  returnTo: string;
+  ids: string[];
+  // Applications whose review is finalized
+  done: string[];
+};
+
+export function saveReviewQueue(queue: ReviewQueue) {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+  } catch (err) {
+    console.warn("Could not save review queue:", err);
+  }
+}
+
+// Remember a review list (already filtered and sorted) as the queue
+export function saveReviewQueueFromRows(
+  label: string,
+  returnTo: string,
+  rows: { application_id: string; status: string }[],
+  skip: Set<string> = new Set()
+) {
+  const ids = rows
+    .map((row) => row.application_id)
+    .filter((id) => !skip.has(id));
+  saveReviewQueue({
+    label,
+    returnTo,
+    ids: [...new Set(ids)],
+    done: rows
+      .filter((row) => row.status === "submitted")
+      .map((row) => row.application_id),
+  });
+}
+
+export function getReviewQueue(): ReviewQueue | null {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    const queue = raw ? JSON.parse(raw) : null;
+    return queue && Array.isArray(queue.ids) ? queue : null;
+  } catch {
+    return null;
+  }
+}
+
+export function markQueueItemDone(applicationId: string, done = true) {
+  const queue = getReviewQueue();
+  if (!queue) return;
+  const rest = queue.done.filter((id) => id !== applicationId);
+  saveReviewQueue({
+    ...queue,
+    done: done ? [...rest, applicationId] : rest,
+  });
+}
+
+// ---------- Prefetching the next application ----------
+
+const PREFETCH_TTL = 60000; // 1 minute
+const MAX_PREFETCH_FILE_BYTES = 25 * 1024 * 1024;
+const prefetched = new Map<
+  string,
+  { result: { data: any; error: any }; timestamp: number }
+>();
+
+/**
+ * Load an application's answers ahead of time and warm its files, so moving
+ * to it in the workspace is instant. useCollaborativeReview picks the
+ * result up with takePrefetchedReview.
+ */
+export async function prefetchApplication(applicationId: string) {
+  const cached = prefetched.get(applicationId);
+  if (cached && Date.now() - cached.timestamp < PREFETCH_TTL) return;
+
+  const result = await supabase.rpc("review_get_v1", {
+    p_application_id: applicationId,
+  });
+  if (result.error) return;
+  prefetched.set(applicationId, { result, timestamp: Date.now() });
+
+  const answers = result.data?.[0]?.applicant_answers ?? {};
+  Object.values(answers).forEach((value: any) => {
+    let file = value;
+    if (typeof value === "string" && value.includes("filePath")) {
+      try {
+        file = JSON.parse(value);
+      } catch {
+        return;
+      }
+    }
+    if (file?.filePath && (file.fileSize ?? 0) <= MAX_PREFETCH_FILE_BYTES) {
+      prefetchFile(file.filePath);
+    }
+  });
+}
+
+export function takePrefetchedReview(applicationId: string) {
+  const cached = prefetched.get(applicationId);
+  prefetched.delete(applicationId);
+  if (!cached || Date.now() - cached.timestamp >= PREFETCH_TTL) return null;
+  return cached.result;
+}
@@ -0,0 +1,93 @@
+// src/lib/scheduledPublications.ts
+// Publication batches released at a future time (add_scheduled_publications.sql)
+import { supabase } from "./supabase";
+
+export type PublicationVisibility = {
+  decision: boolean;
+  score: boolean;
+  comments: boolean;
+  customMessage?: string | null;
+};
+
+export type ScheduledPublication = {
+  id: string;
+  program_id: string;
+  application_ids: string[];
+  visibility: PublicationVisibility;
+  claim_deadline: string | null;
+  publish_at: string;
+  status: "pending" | "published" | "cancelled" | "failed";
+  released_at: string | null;
+  published_count: number | null;
+  error: string | null;
+  updated_at: string;
+};
+
+const COLUMNS =
+  "id, program_id, application_ids, visibility, claim_deadline, publish_at, status, released_at, published_count, error, updated_at";
+
+// Pending batches, plus the past week's failed ones so admins notice them
+export async function listScheduledPublications(
+  programId: string
+): Promise<ScheduledPublication[]> {
+  const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from("scheduled_publications")
+    .select(COLUMNS)
+    .eq("program_id", programId)
+    .or(`status.eq.pending,and(status.eq.failed,released_at.gte.${weekAgo})`)
+    .order("publish_at");
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function schedulePublication(input: {
+  programId: string;
+  applicationIds: string[];
+  visibility: PublicationVisibility;
+  claimDeadline: string | null;
+  publishAt: string;
+}): Promise<ScheduledPublication> {
+  const { data, error } = await supabase
+    .from("scheduled_publications")
+    .insert({
+      program_id: input.programId,
+      application_ids: input.applicationIds,
+      visibility: input.visibility,
+      claim_deadline: input.claimDeadline,
+      publish_at: input.publishAt,
+    })
+    .select(COLUMNS)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateScheduledPublication(
+  id: string,
+  changes: {
+    visibility: PublicationVisibility;
+    claimDeadline: string | null;
+    publishAt: string;
+  }
+) {
+  const { error } = await supabase
+    .from("scheduled_publications")
+    .update({
+      visibility: changes.visibility,
+      claim_deadline: changes.claimDeadline,
+      publish_at: changes.publishAt,
+    })
+    .eq("id", id)
+    .eq("status", "pending");
+  if (error) throw error;
+}
+
+export async function cancelScheduledPublication(id: string) {
+  const { error } = await supabase
+    .from("scheduled_publications")
+    .update({ status: "cancelled" })
+    .eq("id", id)
+    .eq("status", "pending");
+  if (error) throw error;
+}
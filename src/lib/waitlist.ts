@@ -0,0 +1,106 @@
+// src/lib/waitlist.ts
+// Waitlist promotion policy and admin RPCs (add_waitlist_promotion.sql)
+import { supabase } from "./supabase";
+import { mergeProgramMetadata } from "./api";
+
+export type WaitlistOrder = "ranked" | "score";
+
+export interface WaitlistPolicy {
+  enabled: boolean;
+  waitlistDecision: string;
+  order: WaitlistOrder;
+  // Application ids, first offered first (used when order is "ranked")
+  ranking: string[];
+  claimDays: number;
+  // Declines and expiries before this don't promote anyone
+  enabledAt: string | null;
+}
+
+export interface WaitlistCandidate {
+  application_id: string;
+  applicant_name: string;
+  publication_id: string;
+  score: number | null;
+  rank: number | null;
+}
+
+export interface WaitlistPromotion {
+  id: string;
+  created_at: string;
+  reason: "declined" | "expired" | "manual";
+  freed_applicant_name: string | null;
+  promoted_application_id: string;
+  promoted_applicant_name: string;
+  promoted_by_name: string | null;
+  claim_deadline: string | null;
+  claimed_at: string | null;
+  declined_at: string | null;
+}
+
+export const DEFAULT_WAITLIST_POLICY: WaitlistPolicy = {
+  enabled: false,
+  waitlistDecision: "",
+  order: "score",
+  ranking: [],
+  claimDays: 3,
+  enabledAt: null,
+};
+
+export function getWaitlistPolicy(
+  program: { metadata?: any } | null | undefined
+): WaitlistPolicy {
+  return {
+    ...DEFAULT_WAITLIST_POLICY,
+    ...(program?.metadata?.waitlistPromotion ?? {}),
+  };
+}
+
+export async function saveWaitlistPolicy(
+  programId: string,
+  policy: WaitlistPolicy
+) {
+  // The stored policy decides whether enabledAt carries over
+  const { data, error } = await supabase
+    .from("programs")
+    .select("metadata")
+    .eq("id", programId)
+    .single();
+  if (error) throw error;
+  const previous = getWaitlistPolicy(data);
+  // Only spots freed from now on count, so switching on never backfills
+  const enabledAt = policy.enabled
+    ? previous.enabled
+      ? previous.enabledAt
+      : new Date().toISOString()
+    : null;
+  await mergeProgramMetadata(programId, {
+    waitlistPromotion: { ...policy, enabledAt },
+  });
+}
+
+export async function listWaitlist(programId: string) {
+  const { data, error } = await supabase.rpc("org_waitlist_v1", {
+    p_program_id: programId,
+  });
+  if (error) throw error;
+  return (data ?? []) as WaitlistCandidate[];
+}
+
+export async function listWaitlistPromotions(programId: string) {
+  const { data, error } = await supabase.rpc("org_waitlist_promotions_v1", {
+    p_program_id: programId,
+  });
+  if (error) throw error;
+  return (data ?? []) as WaitlistPromotion[];
+}
+
+export async function promoteFromWaitlist(
+  programId: string,
+  applicationId: string
+) {
+  const { error } = await supabase.rpc("org_promote_from_waitlist_v1", {
+    p_program_id: programId,
+    p_application_id: applicationId,
+  });
+  if (error) throw error;
+}
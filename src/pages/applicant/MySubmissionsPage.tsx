@@ -5,8 +5,19 @@ import { Link } from "react-router-dom";
 import { supabase } from "../../lib/supabase";
 import { useAuth } from "../../auth/AuthProvider";
 import AutoLinkText from "../../components/AutoLinkText";
-import { useUnreadNotifications } from "../../hooks/useUnreadNotifications";
+import {
+  REVIEWER_TYPES,
+  useUnreadNotifications,
+} from "../../hooks/useUnreadNotifications";
 import OrgLogo from "../../components/OrgLogo";
+import AcceptanceFormModal from "../../components/AcceptanceFormModal";
+import {
+  claimSpot,
+  getAcceptanceForm,
+  getMyAcceptanceResponses,
+  submitAcceptanceResponse,
+} from "../../lib/acceptanceForm";
+import type { AcceptanceField } from "../../utils/acceptanceForm";
 
 type ResultsRow = {
   application_id: string;
@@ -24,9 +35,15 @@ type ResultsRow = {
     decision?: string | null;
     score?: number | null;
     comments?: string | null;
+    // Rendered decision letter (add_decision_letters.sql)
+    letter?: string | null;
+    // Offered after someone else declined (add_waitlist_promotion.sql)
+    promoted_from_waitlist?: boolean;
   };
   spot_claimed_at?: string | null;
   spot_declined_at?: string | null;
+  // Set by the claim deadline job (add_claim_deadline_expiry.sql)
+  spot_expired_at?: string | null;
   claim_deadline?: string | null;
   any_publication_claimed_at?: string | null;
   any_publication_declined_at?: string | null;
@@ -88,9 +105,19 @@ export default function MySubmissionsPage() {
         allowDecline: boolean;
         spotsCount: number | null;
         spotsMode: string | null;
+        // Post-acceptance form answered when claiming (may be empty)
+        acceptanceFields: AcceptanceField[];
       }
     >
   >({});
+  // Application id -> acceptance form answers already submitted
+  const [acceptanceResponses, setAcceptanceResponses] = useState<
+    Record<string, Record<string, any>>
+  >({});
+  const [checklistFor, setChecklistFor] = useState<{
+    row: ResultsRow;
+    mode: "claim" | "update";
+  } | null>(null);
 
   // Memoize refreshResults to prevent unnecessary re-renders and ensure stable reference
   const refreshResults = useCallback(async () => {
@@ -153,6 +180,7 @@ export default function MySubmissionsPage() {
                 allowDecline: claiming.allowDecline !== false,
                 spotsCount: prg.spots_count,
                 spotsMode: prg.spots_mode,
+                acceptanceFields: getAcceptanceForm(prg),
               };
             }
           }
@@ -166,6 +194,16 @@ export default function MySubmissionsPage() {
         // No programs, clear configs
         setProgramClaimingConfigs({});
       }
+
+      try {
+        setAcceptanceResponses(
+          await getMyAcceptanceResponses([
+            ...new Set(allPubs.map((pub) => pub.application_id)),
+          ])
+        );
+      } catch (error) {
+        console.error("Failed to load acceptance responses:", error);
+      }
     }
   }, []); // Empty deps - function doesn't depend on any props/state that changes
 
@@ -198,6 +236,36 @@ export default function MySubmissionsPage() {
     }
   };
 
+  // Claims with an acceptance form go through the checklist first
+  const handleClaimClick = (row: ResultsRow) => {
+    if (programClaimingConfigs[row.program_id]?.acceptanceFields.length) {
+      setChecklistFor({ row, mode: "claim" });
+    } else {
+      handleClaimOrDecline(row.publication_id, "claim");
+    }
+  };
+
+  const handleChecklistSubmit = async (answers: Record<string, any>) => {
+    if (!checklistFor) return;
+    const { row, mode } = checklistFor;
+    try {
+      if (mode === "claim") {
+        await claimSpot(row.publication_id, answers);
+      } else {
+        await submitAcceptanceResponse(row.publication_id, answers);
+      }
+      setChecklistFor(null);
+      await refreshResults();
+      alert(
+        mode === "claim"
+          ? "✅ Your spot has been claimed!"
+          : "Your answers have been saved."
+      );
+    } catch (error: any) {
+      alert(error.message || "Failed to submit your answers");
+    }
+  };
+
   // Memoize refreshApplications to prevent unnecessary re-renders
   const refreshApplications = useCallback(async () => {
     if (!user?.id) return;
@@ -251,6 +319,7 @@ export default function MySubmissionsPage() {
         .from("notifications")
         .update({ read_at: new Date().toISOString() })
         .eq("user_id", user.id)
+        .not("type", "in", `(${REVIEWER_TYPES.join(",")})`)
         .is("read_at", null);
 
       if (error) {
@@ -537,9 +606,12 @@ export default function MySubmissionsPage() {
                     const deadline = r.claim_deadline
                       ? new Date(r.claim_deadline)
                       : null;
-                    const deadlinePassed = deadline
-                      ? new Date() > deadline
-                      : false;
+                    const deadlinePassed =
+                      !!r.spot_expired_at ||
+                      (deadline ? new Date() > deadline : false);
+                    const expiredAt = r.spot_expired_at
+                      ? new Date(r.spot_expired_at)
+                      : deadline;
                     const spotsAvailable =
                       config?.spotsMode !== "exact" ||
                       (config?.spotsCount ?? 0) > 0;
@@ -696,6 +768,15 @@ export default function MySubmissionsPage() {
                           </div>
                         </div>
 
+                        {p.letter && (
+                          <div className="mb-4 md:mb-6 border border-gray-200 rounded-lg p-4 md:p-6 text-gray-800 leading-relaxed break-words">
+                            <AutoLinkText
+                              text={p.letter}
+                              preserveWhitespace={true}
+                            />
+                          </div>
+                        )}
+
                         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
                           {v.decision && p.decision && (
                             <div className="bg-purple-50 rounded-lg p-4">
@@ -765,6 +846,21 @@ export default function MySubmissionsPage() {
                                       ).toLocaleString()
                                     : "—"}
                                 </p>
+                                {config.acceptanceFields.length > 0 && (
+                                  <button
+                                    onClick={() =>
+                                      setChecklistFor({
+                                        row: r,
+                                        mode: "update",
+                                      })
+                                    }
+                                    className="mt-2 text-sm font-medium text-green-800 underline hover:text-green-900"
+                                  >
+                                    {acceptanceResponses[r.application_id]
+                                      ? "📋 View or update your checklist answers"
+                                      : "📋 Complete your acceptance checklist"}
+                                  </button>
+                                )}
                               </div>
                             ) : isDeclined ? (
                               <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
@@ -783,6 +879,11 @@ export default function MySubmissionsPage() {
                                   ⏰ Time has run out. The deadline to claim
                                   your spot has passed.
                                 </p>
+                                {expiredAt && (
+                                  <p className="mt-1 text-xs text-gray-500">
+                                    Offer expired {expiredAt.toLocaleString()}
+                                  </p>
+                                )}
                               </div>
                             ) : !spotsAvailable && decisionMatches ? (
                               <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -793,6 +894,12 @@ export default function MySubmissionsPage() {
                               </div>
                             ) : showClaimButtons ? (
                               <div className="space-y-3">
+                                {p.promoted_from_waitlist && (
+                                  <p className="text-sm text-green-700">
+                                    🎉 A spot opened up and you've been offered
+                                    it from the waitlist.
+                                  </p>
+                                )}
                                 {deadline && (
                                   <p className="text-xs text-gray-600">
                                     Claim by: {deadline.toLocaleString()}
@@ -800,12 +907,7 @@ export default function MySubmissionsPage() {
                                 )}
                                 <div className="flex gap-3">
                                   <button
-                                    onClick={() =>
-                                      handleClaimOrDecline(
-                                        r.publication_id,
-                                        "claim"
-                                      )
-                                    }
+                                    onClick={() => handleClaimClick(r)}
                                     disabled={claimingLoading[r.publication_id]}
                                     className="flex-1 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
                                   >
@@ -851,6 +953,21 @@ export default function MySubmissionsPage() {
           </div>
         </div>
       )}
+
+      {checklistFor && (
+        <AcceptanceFormModal
+          programName={checklistFor.row.program_name}
+          applicationId={checklistFor.row.application_id}
+          fields={
+            programClaimingConfigs[checklistFor.row.program_id]
+              ?.acceptanceFields ?? []
+          }
+          initialAnswers={acceptanceResponses[checklistFor.row.application_id]}
+          mode={checklistFor.mode}
+          onSubmit={handleChecklistSubmit}
+          onClose={() => setChecklistFor(null)}
+        />
+      )}
     </div>
   );
 }
@@ -13,6 +13,8 @@ import { useApplicationAutosave } from "../../components/useApplicationAutosave"
 import { SimpleFileUpload } from "../../components/attachments/SimpleFileUpload";
 import ProfileCard from "../../components/profile/ProfileCard";
 import WordLimitedTextarea from "../../components/WordLimitedTextarea";
+import MultiSelectInput from "../../components/MultiSelectInput";
+import RankingInput from "../../components/RankingInput";
 import {
   programUsesProfile,
   fetchProfileSnapshot,
@@ -21,7 +23,10 @@ import {
   validateProfileSections,
 } from "../../lib/profileFill";
 import type { ProgramApplicationSchema } from "../../types/application";
-import { missingRequired } from "../../utils/answers";
+import { isAnswerMissing, missingRequired } from "../../utils/answers";
+import { answerErrors } from "../../utils/validation";
+import { isFieldVisible } from "../../utils/conditions";
+import { splitIntoPages } from "../../utils/sections";
 import {
   isPastDeadline,
   isBeforeOpenDate,
@@ -34,6 +39,7 @@ import { isUUID } from "../../lib/id";
 import { useAuth } from "../../auth/AuthProvider";
 import LoginModal from "../../components/LoginModal";
 import AutoLinkText from "../../components/AutoLinkText";
+import QuestionHelp from "../../components/QuestionHelp";
 
 type AppRow = {
   id: string;
@@ -53,6 +59,17 @@ type AppRow = {
   program_metadata?: any;
 };
 
+// Normalize a stored schema field into the item shape the form renders,
+// keeping per-type settings (options, limits, conditions, ...) as-is
+function toFormItem(f: any) {
+  return {
+    ...f,
+    key: f.key || f.id || `q_${Math.random()}`,
+    type: f.type?.toLowerCase() || f.type,
+    label: f.label || f.name || "",
+  };
+}
+
 export default function ApplicationForm({
   applicationIdProp,
   programIdProp,
@@ -214,29 +231,13 @@ export default function ApplicationForm({
         // Load schema from programs_public if available
         if (progData.application_schema) {
           const items = (progData.application_schema.fields || []).map(
-            (f: any) => ({
-              key: f.key || f.id || `q_${Math.random()}`,
-              type: f.type?.toLowerCase() || f.type,
-              label: f.label || f.name || "",
-              required: f.required,
-              maxLength: f.maxLength,
-              maxWords: f.maxWords,
-              options: f.options,
-            })
+            toFormItem
           );
           setSchema({ items });
         } else {
           // Fallback to schema loader
           const loadedSchema = await loadApplicationSchemaById(progId);
-          const items = (loadedSchema.fields || []).map((f: any) => ({
-            key: f.key || f.id || `q_${Math.random()}`,
-            type: f.type?.toLowerCase() || f.type,
-            label: f.label || f.name || "",
-            required: f.required,
-            maxLength: f.maxLength,
-            maxWords: f.maxWords,
-            options: f.options,
-          }));
+          const items = (loadedSchema.fields || []).map(toFormItem);
           setSchema({ items });
         }
 
@@ -264,15 +265,7 @@ export default function ApplicationForm({
       const loadedSchema = await loadApplicationSchema(programData);
       console.log("🔍 ApplicationForm - Loaded schema:", loadedSchema);
       // Convert fields to items format (matching ApplicationPage structure)
-      const items = (loadedSchema.fields || []).map((f: any) => ({
-        key: f.key || f.id || `q_${Math.random()}`,
-        type: f.type?.toLowerCase() || f.type,
-        label: f.label || f.name || "",
-        required: f.required,
-        maxLength: f.maxLength,
-        maxWords: f.maxWords,
-        options: f.options,
-      }));
+      const items = (loadedSchema.fields || []).map(toFormItem);
       setSchema({ items });
 
       // Check if program is published and load profile/organization in parallel
@@ -348,7 +341,7 @@ export default function ApplicationForm({
     }
   };
 
-  const { answers, setAnswers, saveStatus } = useApplicationAutosave(
+  const { answers, setAnswers, saveStatus, flush } = useApplicationAutosave(
     applicationId || "",
     appRow?.answers ?? {},
     appRow?.updated_at ?? undefined
@@ -363,6 +356,33 @@ export default function ApplicationForm({
 
   const items = useMemo(() => schema.items ?? [], [schema]);
 
+  // Section breaks split the form into pages. Pages whose questions are all
+  // hidden by conditional logic are skipped; `number` is the page's position
+  // among all pages so it stays stable when answers hide or show pages.
+  const pages = useMemo(() => {
+    const all = splitIntoPages(items).map((page, number) => ({
+      ...page,
+      number,
+    }));
+    const shown = all.filter(
+      (page) =>
+        page.entries.length === 0 ||
+        page.entries.some(({ item }) => isFieldVisible(item, items, answers))
+    );
+    return shown.length > 0 ? shown : all.slice(0, 1);
+  }, [items, answers]);
+  // Both track a page `number`, not a position in the visible list
+  const [currentPage, setCurrentPage] = useState(0);
+  const [furthestPage, setFurthestPage] = useState(0);
+  const [showPageErrors, setShowPageErrors] = useState(false);
+  // If the current page gets hidden, fall back to the closest earlier page
+  const pageIndex = pages.reduce(
+    (found, p, i) => (p.number <= currentPage ? i : found),
+    0
+  );
+  const page = pages[pageIndex];
+  const isMultiPage = pages.length > 1;
+
   // Check if application is currently open
   const isOpen = isApplicationOpen(programOpenDate, programDeadline);
   const isBeforeOpen = isBeforeOpenDate(programOpenDate);
@@ -378,6 +398,71 @@ export default function ApplicationForm({
     setAnswers((prev) => ({ ...prev, [name]: value }));
   };
 
+  // Required questions still unanswered on a page (conditional logic aware)
+  const pageMissing = (index: number) =>
+    missingRequired(
+      { fields: items as any },
+      answers,
+      (pages[index]?.entries ?? []).map(({ item }) => item) as any
+    );
+
+  // Answers that break a field's validation rules, checked as the applicant types
+  const errors = useMemo(
+    () =>
+      answerErrors({ fields: items as any }, answers, {
+        referenceDate: programOpenDate,
+      }),
+    [items, answers, programOpenDate]
+  );
+
+  const pageInvalid = (index: number) =>
+    (pages[index]?.entries ?? [])
+      .filter(({ item }) => !!item.key && !!errors[item.key])
+      .map(({ item }) => item.label || item.key!);
+
+  const pageHasProblems = (index: number) =>
+    pageMissing(index).length > 0 || pageInvalid(index).length > 0;
+
+  // Inline message under a question: rule violations show right away,
+  // unanswered required questions only once the applicant tries to move on
+  const fieldError = (item: any, key: string) => {
+    const message =
+      errors[key] ??
+      (showPageErrors && item.required && isAnswerMissing(item, answers?.[key])
+        ? "This question is required"
+        : null);
+    if (!message) return null;
+    return <p className="mt-2 text-xs md:text-sm text-red-600">{message}</p>;
+  };
+
+  const pageRequiredCount = (index: number) =>
+    (pages[index]?.entries ?? []).filter(
+      ({ item }) => item.required && isFieldVisible(item, items, answers)
+    ).length;
+
+  const goToPage = (target: number) => {
+    if (target === pageIndex || target < 0 || target >= pages.length) return;
+
+    // Moving forward requires the current page to be complete
+    if (target > pageIndex && isFormEditable) {
+      if (pageHasProblems(pageIndex)) {
+        setShowPageErrors(true);
+        return;
+      }
+    }
+
+    // Persist this page's answers right away instead of waiting for the debounce
+    if (isFormEditable && isUUID(applicationId) && appRow?.status === "draft") {
+      flush();
+    }
+
+    setShowPageErrors(false);
+    const { number } = pages[target];
+    setCurrentPage(number);
+    setFurthestPage((prev) => Math.max(prev, number));
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
   const handleSubmit = async () => {
     if (!appRow || !isUUID(applicationId)) return;
     if (!canEdit) {
@@ -391,16 +476,20 @@ export default function ApplicationForm({
       return;
     }
 
-    // Validate required fields
+    // Validate required fields and field rules; problems are shown inline
     if (schema) {
       const missing = missingRequired(
         { fields: (schema.items || []) as any },
         answers
       );
-      if (missing.length > 0) {
-        alert(
-          `Please complete the following required fields: ${missing.join(", ")}`
+      if (missing.length > 0 || Object.keys(errors).length > 0) {
+        // Send the applicant back to the first page that still needs attention
+        const firstIncomplete = pages.findIndex((_, i) => pageHasProblems(i));
+        setCurrentPage(
+          pages[firstIncomplete !== -1 ? firstIncomplete : pageIndex].number
         );
+        setShowPageErrors(true);
+        window.scrollTo({ top: 0, behavior: "smooth" });
         return;
       }
     }
@@ -643,66 +732,130 @@ export default function ApplicationForm({
         {/* Application Card */}
         <div className="bg-white rounded-lg border shadow-sm">
           <div className="p-4 md:p-6">
+            {/* Section Stepper */}
+            {!isBeforeOpen && isMultiPage && (
+              <div className="mb-5 md:mb-6">
+                <div className="flex items-center justify-between mb-2 text-xs md:text-sm text-gray-600">
+                  <span>
+                    Step {pageIndex + 1} of {pages.length}
+                  </span>
+                  <span>
+                    {pages.filter((_, i) => pageMissing(i).length === 0).length}{" "}
+                    of {pages.length} sections complete
+                  </span>
+                </div>
+                <div className="w-full h-1.5 bg-gray-200 rounded-full mb-3 md:mb-4">
+                  <div
+                    className="h-1.5 bg-blue-600 rounded-full transition-all duration-300"
+                    style={{
+                      width: `${((pageIndex + 1) / pages.length) * 100}%`,
+                    }}
+                  />
+                </div>
+                <ol className="flex flex-wrap gap-2">
+                  {pages.map((p, i) => {
+                    const required = pageRequiredCount(i);
+                    const missing = pageMissing(i).length;
+                    const isCurrent = i === pageIndex;
+                    const reachable =
+                      !isFormEditable || p.number <= furthestPage;
+                    return (
+                      <li key={p.number}>
+                        <button
+                          onClick={() => goToPage(i)}
+                          disabled={!reachable}
+                          className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs md:text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                            isCurrent
+                              ? "bg-blue-600 border-blue-600 text-white"
+                              : "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+                          }`}
+                        >
+                          <span className="font-semibold">
+                            {missing === 0 && p.number < furthestPage
+                              ? "✓"
+                              : i + 1}
+                          </span>
+                          <span className="truncate max-w-[10rem]">
+                            {p.title || "Questions"}
+                          </span>
+                          {required > 0 && (
+                            <span
+                              className={
+                                isCurrent ? "text-blue-100" : "text-gray-400"
+                              }
+                            >
+                              {required - missing}/{required}
+                            </span>
+                          )}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+            )}
+
             {!isBeforeOpen && (
               <div className="space-y-5 md:space-y-6">
-                {/* Profile Autofill Section */}
-                {(() => {
-                  const program = {
-                    id: programDetails?.id,
-                    name: programDetails?.name,
-                    metadata: programDetails?.metadata,
-                  };
+                {/* Profile Autofill Section (first page only) */}
+                {pageIndex === 0 &&
+                  (() => {
+                    const program = {
+                      id: programDetails?.id,
+                      name: programDetails?.name,
+                      metadata: programDetails?.metadata,
+                    };
 
-                  return (
-                    programUsesProfile(program) && (
-                      <div className="mb-5 md:mb-8">
-                        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 md:p-6">
-                          <div className="flex items-center justify-between mb-3 md:mb-4 gap-2">
-                            <div className="flex items-center gap-2 md:gap-3 min-w-0 flex-1">
-                              <div className="w-1.5 h-1.5 md:w-2 md:h-2 bg-blue-500 rounded-full flex-shrink-0"></div>
-                              <h2 className="text-sm md:text-lg font-semibold text-blue-900 truncate">
-                                Applicant Profile (Autofilled)
-                              </h2>
+                    return (
+                      programUsesProfile(program) && (
+                        <div className="mb-5 md:mb-8">
+                          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 md:p-6">
+                            <div className="flex items-center justify-between mb-3 md:mb-4 gap-2">
+                              <div className="flex items-center gap-2 md:gap-3 min-w-0 flex-1">
+                                <div className="w-1.5 h-1.5 md:w-2 md:h-2 bg-blue-500 rounded-full flex-shrink-0"></div>
+                                <h2 className="text-sm md:text-lg font-semibold text-blue-900 truncate">
+                                  Applicant Profile (Autofilled)
+                                </h2>
+                              </div>
+                              <a
+                                href="/profile"
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-xs md:text-sm text-blue-600 hover:text-blue-800 underline whitespace-nowrap flex-shrink-0"
+                              >
+                                Edit Profile →
+                              </a>
                             </div>
-                            <a
-                              href="/profile"
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-xs md:text-sm text-blue-600 hover:text-blue-800 underline whitespace-nowrap flex-shrink-0"
-                            >
-                              Edit Profile →
-                            </a>
+                            <p className="text-xs md:text-sm text-blue-700 mb-4 md:mb-6">
+                              {appRow?.status === "submitted"
+                                ? "This information was automatically filled from your profile at the time of submission and is now locked."
+                                : isNotLoggedIn
+                                ? "These sections will be automatically filled from your profile once you sign in."
+                                : "This information was automatically filled from your profile and will be updated as you make changes."}
+                            </p>
+
+                            {profileSnap || isNotLoggedIn ? (
+                              <ProfileCard
+                                profile={profileSnap || {}}
+                                sectionSettings={
+                                  programDetails?.metadata?.application?.profile
+                                    ?.sections
+                                }
+                              />
+                            ) : (
+                              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 md:p-4">
+                                <p className="text-xs md:text-sm text-yellow-800">
+                                  🔍 Debug: Profile autofill is enabled but no
+                                  profile data loaded yet. Check console for
+                                  debugging info.
+                                </p>
+                              </div>
+                            )}
                           </div>
-                          <p className="text-xs md:text-sm text-blue-700 mb-4 md:mb-6">
-                            {appRow?.status === "submitted"
-                              ? "This information was automatically filled from your profile at the time of submission and is now locked."
-                              : isNotLoggedIn
-                              ? "These sections will be automatically filled from your profile once you sign in."
-                              : "This information was automatically filled from your profile and will be updated as you make changes."}
-                          </p>
-
-                          {profileSnap || isNotLoggedIn ? (
-                            <ProfileCard
-                              profile={profileSnap || {}}
-                              sectionSettings={
-                                programDetails?.metadata?.application?.profile
-                                  ?.sections
-                              }
-                            />
-                          ) : (
-                            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 md:p-4">
-                              <p className="text-xs md:text-sm text-yellow-800">
-                                🔍 Debug: Profile autofill is enabled but no
-                                profile data loaded yet. Check console for
-                                debugging info.
-                              </p>
-                            </div>
-                          )}
                         </div>
-                      </div>
-                    )
-                  );
-                })()}
+                      )
+                    );
+                  })()}
 
                 {/* Organization Application Questions Section */}
                 {(() => {
@@ -734,7 +887,7 @@ export default function ApplicationForm({
                     </div>
                   ) : (
                     <div className="p-4 md:p-6">
-                      {hasOtherSections && (
+                      {hasOtherSections && !page?.title && (
                         <>
                           <div className="flex items-center gap-2 md:gap-3 mb-3 md:mb-4">
                             <div className="w-1.5 h-1.5 md:w-2 md:h-2 bg-gray-400 rounded-full flex-shrink-0"></div>
@@ -747,11 +900,51 @@ export default function ApplicationForm({
                           </p>
                         </>
                       )}
+                      {page?.title && (
+                        <div className="mb-4 md:mb-6">
+                          <div className="flex items-center gap-2 md:gap-3 mb-2">
+                            <div className="w-1.5 h-1.5 md:w-2 md:h-2 bg-blue-500 rounded-full flex-shrink-0"></div>
+                            <h2 className="text-sm md:text-lg font-semibold text-gray-900">
+                              {page.title}
+                            </h2>
+                          </div>
+                          {page.description && (
+                            <p className="text-xs md:text-sm text-gray-600">
+                              <AutoLinkText
+                                text={page.description}
+                                preserveWhitespace={true}
+                              />
+                            </p>
+                          )}
+                        </div>
+                      )}
+                      {showPageErrors && pageHasProblems(pageIndex) && (
+                        <div className="mb-4 md:mb-6 bg-red-50 border border-red-200 rounded-lg p-3 md:p-4 text-xs md:text-sm text-red-700">
+                          {pageMissing(pageIndex).length > 0 && (
+                            <div>
+                              Please complete the required fields on this page
+                              before continuing:{" "}
+                              {pageMissing(pageIndex).join(", ")}
+                            </div>
+                          )}
+                          {pageInvalid(pageIndex).length > 0 && (
+                            <div>
+                              Please fix the highlighted answers:{" "}
+                              {pageInvalid(pageIndex).join(", ")}
+                            </div>
+                          )}
+                        </div>
+                      )}
                       <div className="space-y-4 md:space-y-6">
-                        {items.map((item, idx) => {
+                        {(page?.entries ?? []).map(({ item, index: idx }) => {
                           const key = item.key || `q_${idx}`;
                           const val = answers?.[key] ?? "";
 
+                          // Skip questions whose conditions aren't met yet
+                          if (!isFieldVisible(item, items, answers)) {
+                            return null;
+                          }
+
                           switch (item.type) {
                             case "short_text":
                               return (
@@ -768,6 +961,10 @@ export default function ApplicationForm({
                                       </span>
                                     )}
                                   </label>
+                                  <QuestionHelp
+                                    helpText={item.helpText}
+                                    media={item.media}
+                                  />
                                   <input
                                     className={`w-full rounded-md border border-gray-300 px-3 py-2 md:px-4 md:py-3 text-sm md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
                                       !isFormEditable
@@ -775,6 +972,7 @@ export default function ApplicationForm({
                                         : ""
                                     }`}
                                     value={val}
+                                    placeholder={item.placeholder}
                                     maxLength={item.maxLength}
                                     onChange={(e) =>
                                       update(key, e.target.value)
@@ -787,6 +985,7 @@ export default function ApplicationForm({
                                         : "not-allowed",
                                     }}
                                   />
+                                  {fieldError(item, key)}
                                 </div>
                               );
                             case "long_text":
@@ -797,6 +996,13 @@ export default function ApplicationForm({
                                 >
                                   <WordLimitedTextarea
                                     label={item.label}
+                                    help={
+                                      <QuestionHelp
+                                        helpText={item.helpText}
+                                        media={item.media}
+                                      />
+                                    }
+                                    placeholder={item.placeholder}
                                     value={val}
                                     onChange={(value) => update(key, value)}
                                     maxWords={item.maxWords ?? 100}
@@ -804,6 +1010,7 @@ export default function ApplicationForm({
                                     required={item.required}
                                     disabled={!isFormEditable}
                                   />
+                                  {fieldError(item, key)}
                                 </div>
                               );
                             case "checkbox":
@@ -836,6 +1043,12 @@ export default function ApplicationForm({
                                       )}
                                     </label>
                                   </div>
+                                  <QuestionHelp
+                                    helpText={item.helpText}
+                                    media={item.media}
+                                    className="mt-2 md:mt-3"
+                                  />
+                                  {fieldError(item, key)}
                                 </div>
                               );
                             case "date":
@@ -853,6 +1066,10 @@ export default function ApplicationForm({
                                       </span>
                                     )}
                                   </label>
+                                  <QuestionHelp
+                                    helpText={item.helpText}
+                                    media={item.media}
+                                  />
                                   <input
                                     type="date"
                                     className={`w-full rounded-md border border-gray-300 px-3 py-2 md:px-4 md:py-3 text-sm md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
@@ -872,6 +1089,169 @@ export default function ApplicationForm({
                                         : "not-allowed",
                                     }}
                                   />
+                                  {fieldError(item, key)}
+                                </div>
+                              );
+                            case "number":
+                              return (
+                                <div
+                                  key={key}
+                                  className="bg-white border border-gray-200 rounded-lg p-3 md:p-6"
+                                >
+                                  <label className="block text-xs md:text-sm font-medium text-gray-700 mb-2 md:mb-3">
+                                    <AutoLinkText text={item.label} />
+                                    {item.required && (
+                                      <span className="text-red-500 text-base font-semibold">
+                                        {" "}
+                                        *
+                                      </span>
+                                    )}
+                                  </label>
+                                  <QuestionHelp
+                                    helpText={item.helpText}
+                                    media={item.media}
+                                  />
+                                  <input
+                                    type="number"
+                                    className={`w-full rounded-md border border-gray-300 px-3 py-2 md:px-4 md:py-3 text-sm md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                                      !isFormEditable
+                                        ? "opacity-70 bg-gray-100 border-gray-300 text-gray-500"
+                                        : ""
+                                    }`}
+                                    value={val ?? ""}
+                                    placeholder={item.placeholder}
+                                    min={item.min}
+                                    max={item.max}
+                                    step={item.step}
+                                    onChange={(e) =>
+                                      update(
+                                        key,
+                                        e.target.value === ""
+                                          ? null
+                                          : Number(e.target.value)
+                                      )
+                                    }
+                                    disabled={!isFormEditable}
+                                    readOnly={!isFormEditable}
+                                    style={{
+                                      cursor: isFormEditable
+                                        ? "text"
+                                        : "not-allowed",
+                                    }}
+                                  />
+                                  {fieldError(item, key)}
+                                </div>
+                              );
+                            case "email":
+                            case "phone":
+                            case "url":
+                              return (
+                                <div
+                                  key={key}
+                                  className="bg-white border border-gray-200 rounded-lg p-3 md:p-6"
+                                >
+                                  <label className="block text-xs md:text-sm font-medium text-gray-700 mb-2 md:mb-3">
+                                    <AutoLinkText text={item.label} />
+                                    {item.required && (
+                                      <span className="text-red-500 text-base font-semibold">
+                                        {" "}
+                                        *
+                                      </span>
+                                    )}
+                                  </label>
+                                  <QuestionHelp
+                                    helpText={item.helpText}
+                                    media={item.media}
+                                  />
+                                  <input
+                                    type={
+                                      item.type === "phone" ? "tel" : item.type
+                                    }
+                                    className={`w-full rounded-md border border-gray-300 px-3 py-2 md:px-4 md:py-3 text-sm md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                                      !isFormEditable
+                                        ? "opacity-70 bg-gray-100 border-gray-300 text-gray-500"
+                                        : ""
+                                    }`}
+                                    value={val}
+                                    placeholder={
+                                      item.placeholder
+                                        ? item.placeholder
+                                        : item.type === "email"
+                                        ? "name@example.com"
+                                        : item.type === "url"
+                                        ? "https://"
+                                        : undefined
+                                    }
+                                    onChange={(e) =>
+                                      update(key, e.target.value)
+                                    }
+                                    disabled={!isFormEditable}
+                                    readOnly={!isFormEditable}
+                                    style={{
+                                      cursor: isFormEditable
+                                        ? "text"
+                                        : "not-allowed",
+                                    }}
+                                  />
+                                  {fieldError(item, key)}
+                                </div>
+                              );
+                            case "multi_select":
+                              return (
+                                <div
+                                  key={key}
+                                  className="bg-white border border-gray-200 rounded-lg p-3 md:p-6"
+                                >
+                                  <label className="block text-xs md:text-sm font-medium text-gray-700 mb-2 md:mb-3">
+                                    <AutoLinkText text={item.label} />
+                                    {item.required && (
+                                      <span className="text-red-500 text-base font-semibold">
+                                        {" "}
+                                        *
+                                      </span>
+                                    )}
+                                  </label>
+                                  <QuestionHelp
+                                    helpText={item.helpText}
+                                    media={item.media}
+                                  />
+                                  <MultiSelectInput
+                                    options={item.options ?? []}
+                                    value={Array.isArray(val) ? val : []}
+                                    onChange={(value) => update(key, value)}
+                                    minSelections={item.minSelections}
+                                    maxSelections={item.maxSelections}
+                                    disabled={!isFormEditable}
+                                  />
+                                  {fieldError(item, key)}
+                                </div>
+                              );
+                            case "ranking":
+                              return (
+                                <div
+                                  key={key}
+                                  className="bg-white border border-gray-200 rounded-lg p-3 md:p-6"
+                                >
+                                  <label className="block text-xs md:text-sm font-medium text-gray-700 mb-2 md:mb-3">
+                                    <AutoLinkText text={item.label} />
+                                    {item.required && (
+                                      <span className="text-red-500 text-base font-semibold">
+                                        {" "}
+                                        *
+                                      </span>
+                                    )}
+                                  </label>
+                                  <QuestionHelp
+                                    helpText={item.helpText}
+                                    media={item.media}
+                                  />
+                                  <RankingInput
+                                    options={item.options ?? []}
+                                    value={Array.isArray(val) ? val : []}
+                                    onChange={(value) => update(key, value)}
+                                    disabled={!isFormEditable}
+                                  />
+                                  {fieldError(item, key)}
                                 </div>
                               );
                             case "select":
@@ -889,6 +1269,10 @@ export default function ApplicationForm({
                                       </span>
                                     )}
                                   </label>
+                                  <QuestionHelp
+                                    helpText={item.helpText}
+                                    media={item.media}
+                                  />
                                   <select
                                     className={`w-full rounded-md border border-gray-300 px-3 py-2 md:px-4 md:py-3 text-sm md:text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
                                       !isFormEditable
@@ -907,7 +1291,8 @@ export default function ApplicationForm({
                                     }}
                                   >
                                     <option value="">
-                                      Select an option...
+                                      {item.placeholder ||
+                                        "Select an option..."}
                                     </option>
                                     {item.options?.map((option: string) => (
                                       <option key={option} value={option}>
@@ -915,6 +1300,7 @@ export default function ApplicationForm({
                                       </option>
                                     ))}
                                   </select>
+                                  {fieldError(item, key)}
                                 </div>
                               );
                             case "file":
@@ -963,14 +1349,23 @@ export default function ApplicationForm({
                                       </span>
                                     )}
                                   </label>
+                                  <QuestionHelp
+                                    helpText={item.helpText}
+                                    media={item.media}
+                                  />
                                   <SimpleFileUpload
                                     applicationId={applicationId || ""}
                                     fieldId={key}
                                     value={fileValue}
                                     onChange={(value) => update(key, value)}
+                                    maxSizeMB={item.validation?.maxFileSizeMb}
+                                    allowedExtensions={
+                                      item.validation?.allowedExtensions
+                                    }
                                     disabled={!isFormEditable || !applicationId}
                                     applicationStatus={appRow?.status}
                                   />
+                                  {fieldError(item, key)}
                                 </div>
                               );
                             default:
@@ -1016,15 +1411,60 @@ export default function ApplicationForm({
                       )}
                     </div>
                   )}
+                  <div className="flex items-center gap-2 md:gap-3 ml-auto">
+                    {isMultiPage && pageIndex > 0 && (
+                      <button
+                        onClick={() => goToPage(pageIndex - 1)}
+                        className="rounded-md border border-gray-300 bg-white px-4 py-2.5 md:px-5 md:py-3 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                      >
+                        ← Previous
+                      </button>
+                    )}
+                    {isMultiPage && pageIndex < pages.length - 1 ? (
+                      <button
+                        onClick={() => goToPage(pageIndex + 1)}
+                        className="rounded-md bg-blue-600 px-5 py-2.5 md:px-6 md:py-3 text-sm md:text-sm font-medium text-white hover:bg-blue-700"
+                      >
+                        Next →
+                      </button>
+                    ) : (
+                      <button
+                        onClick={handleSubmit}
+                        className="rounded-md bg-blue-600 px-5 py-2.5 md:px-6 md:py-3 text-sm md:text-sm font-medium text-white disabled:opacity-50 hover:bg-blue-700"
+                        disabled={submitting || !canEdit}
+                        title={
+                          !canEdit ? "Cannot submit - deadline has passed" : ""
+                        }
+                      >
+                        {submitting ? "Submitting..." : "Submit Application"}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+
+            {/* Page navigation for read-only views */}
+            {!isBeforeOpen &&
+              isMultiPage &&
+              !(
+                appRow &&
+                (appRow.status === "draft" ||
+                  (appRow.status === "submitted" && isEditing))
+              ) && (
+                <div className="flex items-center justify-between pt-4 border-t">
+                  <button
+                    onClick={() => goToPage(pageIndex - 1)}
+                    disabled={pageIndex === 0}
+                    className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    ← Previous
+                  </button>
                   <button
-                    onClick={handleSubmit}
-                    className="rounded-md bg-blue-600 px-5 py-2.5 md:px-6 md:py-3 text-sm md:text-sm font-medium text-white disabled:opacity-50 hover:bg-blue-700"
-                    disabled={submitting || !canEdit}
-                    title={
-                      !canEdit ? "Cannot submit - deadline has passed" : ""
-                    }
+                    onClick={() => goToPage(pageIndex + 1)}
+                    disabled={pageIndex === pages.length - 1}
+                    className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    {submitting ? "Submitting..." : "Submit Application"}
+                    Next →
                   </button>
                 </div>
               )}
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useParams, Link, useNavigate } from "react-router-dom";
 import { supabase } from "../../lib/supabase";
 import { useAuth } from "../../auth/AuthProvider";
@@ -6,7 +6,25 @@ import { isUUID } from "../../lib/id";
 import { saveBuilderSchema } from "../../lib/programs";
 import { loadApplicationSchema } from "../../lib/schemaLoader";
 import type { AppItem } from "../../types/application";
+import { renameConditionsOn, stripConditionsOn } from "../../utils/conditions";
+import {
+  bankFieldKey,
+  saveToQuestionBank,
+  updateBankQuestion,
+} from "../../lib/questionBank";
 import OptionsInput from "../../components/OptionsInput";
+import ConditionalLogicEditor from "../../components/ConditionalLogicEditor";
+import FieldValidationEditor from "../../components/FieldValidationEditor";
+import QuestionHelpEditor from "../../components/QuestionHelpEditor";
+import QuestionBankPanel from "../../components/QuestionBankPanel";
+import BuilderHistoryBar from "../../components/BuilderHistoryBar";
+import {
+  deleteCheckpoint,
+  listCheckpoints,
+  saveCheckpoint,
+  type BuilderCheckpoint,
+} from "../../lib/builderCheckpoints";
+import { useEditHistory } from "../../hooks/useEditHistory";
 import ApplicationPreview from "../../components/ApplicationPreview";
 import ProgramReviewerFormCard from "../../components/ProgramReviewerFormCard";
 import AutoLinkText from "../../components/AutoLinkText";
@@ -45,15 +63,19 @@ type Coalition = { id: string; slug: string; name: string };
 function SortableField({
   field,
   idx,
+  precedingFields,
   isDisabled,
   onUpdateField,
   onRemoveField,
+  onSaveToBank,
 }: {
   field: AppItem;
   idx: number;
+  precedingFields: AppItem[];
   isDisabled: boolean;
   onUpdateField: (idx: number, updates: Partial<AppItem>) => void;
   onRemoveField: (idx: number) => void;
+  onSaveToBank: (idx: number) => void;
 }) {
   const {
     attributes,
@@ -93,25 +115,67 @@ function SortableField({
                 ? "text-pink-600"
                 : field.type === "file"
                 ? "text-gray-600"
+                : field.type === "number"
+                ? "text-teal-600"
+                : field.type === "email" ||
+                  field.type === "phone" ||
+                  field.type === "url"
+                ? "text-cyan-600"
+                : field.type === "multi_select"
+                ? "text-violet-600"
+                : field.type === "ranking"
+                ? "text-amber-600"
+                : field.type === "section"
+                ? "text-indigo-600"
                 : "text-gray-600"
             }`}
           >
             {field.type.replace("_", " ")}
           </span>
-          <label className="flex items-center gap-1.5 text-xs font-medium text-gray-600">
-            <input
-              type="checkbox"
-              checked={!!field.required}
-              onChange={(e) =>
-                onUpdateField(idx, { required: e.target.checked })
-              }
-              disabled={isDisabled}
-              className="w-3 h-3 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-            />
-            <span>Required</span>
-          </label>
+          {field.type !== "section" && (
+            <label className="flex items-center gap-1.5 text-xs font-medium text-gray-600">
+              <input
+                type="checkbox"
+                checked={!!field.required}
+                onChange={(e) =>
+                  onUpdateField(idx, { required: e.target.checked })
+                }
+                disabled={isDisabled}
+                className="w-3 h-3 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>Required</span>
+            </label>
+          )}
+          {field.bankId && (
+            <span
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+              title="Linked to the question bank: edits saved to the bank update every draft that uses it"
+            >
+              📚 Linked
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-1">
+          {field.type !== "section" && (
+            <button
+              className="flex items-center gap-1 px-2 py-1 text-xs text-amber-700 hover:text-amber-800 hover:bg-amber-50 rounded disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              onClick={() => onSaveToBank(idx)}
+              disabled={isDisabled}
+            >
+              <span>📚</span>
+              {field.bankId ? "Update Bank" : "Save to Bank"}
+            </button>
+          )}
+          {field.bankId && (
+            <button
+              className="flex items-center gap-1 px-2 py-1 text-xs text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              onClick={() => onUpdateField(idx, { bankId: undefined })}
+              disabled={isDisabled}
+              title="Keep this question as-is and stop following the bank"
+            >
+              Detach
+            </button>
+          )}
           {/* Drag Handle */}
           <button
             {...attributes}
@@ -139,12 +203,16 @@ function SortableField({
         {/* Question Label */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
-            Question Text *
+            {field.type === "section" ? "Section Title *" : "Question Text *"}
           </label>
           <div className="flex gap-3 items-center">
             <input
               className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-base disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="Enter your question here..."
+              placeholder={
+                field.type === "section"
+                  ? "Enter a title for this page..."
+                  : "Enter your question here..."
+              }
               value={field.label}
               onChange={(e) => onUpdateField(idx, { label: e.target.value })}
               disabled={isDisabled}
@@ -173,16 +241,155 @@ function SortableField({
         </div>
 
         {/* Additional Options Row */}
-        <div className="flex flex-wrap gap-4 items-center"></div>
+        {field.type === "number" && (
+          <div className="flex flex-wrap gap-4 items-center">
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                Min:
+              </label>
+              <input
+                className="w-24 border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                type="number"
+                value={field.min ?? ""}
+                onChange={(e) => {
+                  const val = e.target.value
+                    ? Number(e.target.value)
+                    : undefined;
+                  onUpdateField(idx, { min: val });
+                }}
+                disabled={isDisabled}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                Max:
+              </label>
+              <input
+                className="w-24 border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                type="number"
+                value={field.max ?? ""}
+                onChange={(e) => {
+                  const val = e.target.value
+                    ? Number(e.target.value)
+                    : undefined;
+                  onUpdateField(idx, { max: val });
+                }}
+                disabled={isDisabled}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                Step:
+              </label>
+              <input
+                className="w-24 border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                type="number"
+                value={field.step ?? ""}
+                onChange={(e) => {
+                  const val = e.target.value
+                    ? Number(e.target.value)
+                    : undefined;
+                  onUpdateField(idx, { step: val });
+                }}
+                disabled={isDisabled}
+              />
+            </div>
+          </div>
+        )}
 
         {/* Select Options */}
-        {field.type === "select" && (
+        {(field.type === "select" ||
+          field.type === "multi_select" ||
+          field.type === "ranking") && (
           <OptionsInput
             options={field.options ?? []}
             onChange={(options) => onUpdateField(idx, { options })}
             disabled={isDisabled}
           />
         )}
+
+        {/* Selection Limits */}
+        {field.type === "multi_select" && (
+          <div className="flex flex-wrap gap-4 items-center">
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                Min selections:
+              </label>
+              <input
+                className="w-24 border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                type="number"
+                value={field.minSelections ?? ""}
+                onChange={(e) => {
+                  const val = e.target.value
+                    ? Number(e.target.value)
+                    : undefined;
+                  onUpdateField(idx, { minSelections: val });
+                }}
+                disabled={isDisabled}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                Max selections:
+              </label>
+              <input
+                className="w-24 border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                type="number"
+                value={field.maxSelections ?? ""}
+                onChange={(e) => {
+                  const val = e.target.value
+                    ? Number(e.target.value)
+                    : undefined;
+                  onUpdateField(idx, { maxSelections: val });
+                }}
+                disabled={isDisabled}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Section Description */}
+        {field.type === "section" && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Section Description
+            </label>
+            <textarea
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+              rows={2}
+              placeholder="Optional instructions shown at the top of this page"
+              value={field.description ?? ""}
+              onChange={(e) =>
+                onUpdateField(idx, { description: e.target.value })
+              }
+              disabled={isDisabled}
+            />
+          </div>
+        )}
+
+        {/* Help Text & Attachment */}
+        <QuestionHelpEditor
+          field={field}
+          onChange={(updates) => onUpdateField(idx, updates)}
+          disabled={isDisabled}
+        />
+
+        {/* Validation Rules */}
+        <FieldValidationEditor
+          field={field}
+          onChange={(validation) => onUpdateField(idx, { validation })}
+          disabled={isDisabled}
+        />
+
+        {/* Conditional Logic */}
+        {field.type !== "section" && (
+          <ConditionalLogicEditor
+            rule={field.showIf}
+            candidates={precedingFields}
+            onChange={(showIf) => onUpdateField(idx, { showIf })}
+            disabled={isDisabled}
+          />
+        )}
       </div>
     </div>
   );
@@ -209,6 +416,7 @@ export default function CoalitionProgramBuilder() {
   const [includeExperienceInfo, setIncludeExperienceInfo] =
     useState<boolean>(true);
   const [fields, setFields] = useState<any[]>([]);
+  const [fieldsLoaded, setFieldsLoaded] = useState(false);
   const [saving, setSaving] = useState(false);
   const [msg, setMsg] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
@@ -251,7 +459,63 @@ export default function CoalitionProgramBuilder() {
 
   // Field remove handler
   const handleRemoveField = (idx: number) => {
-    setFields((f) => f.filter((_, i) => i !== idx));
+    setFields((f) => {
+      const removedKey = f[idx]?.key;
+      const remaining = f.filter((_, i) => i !== idx);
+      // Questions that depended on the removed one lose that condition
+      return removedKey ? stripConditionsOn(remaining, removedKey) : remaining;
+    });
+  };
+
+  // Question bank: bumping this reloads the bank panel
+  const [bankRefresh, setBankRefresh] = useState(0);
+
+  // Save a question to the org's bank, or push a linked question's edits back
+  const handleSaveToBank = async (idx: number) => {
+    const field = fields[idx] as AppItem | undefined;
+    if (!field || !program) return;
+    try {
+      if (field.bankId) {
+        const { updatedPrograms } = await updateBankQuestion(
+          field.bankId,
+          field,
+          program.id
+        );
+        alert(
+          updatedPrograms > 0
+            ? `Question bank updated. ${updatedPrograms} other draft program${
+                updatedPrograms !== 1 ? "s" : ""
+              } using this question ${
+                updatedPrograms !== 1 ? "were" : "was"
+              } updated too.`
+            : "Question bank updated."
+        );
+      } else {
+        const saved = await saveToQuestionBank(program.organization_id, field);
+        const oldKey = field.key;
+        const newKey = bankFieldKey(saved.id);
+        // Before anyone can apply, take the shared key so answers line up
+        // with other programs using this question
+        const rekey = !program.published && !!oldKey;
+        setFields((f) => {
+          const next = f.map((x, i) =>
+            i === idx
+              ? { ...x, bankId: saved.id, ...(rekey ? { key: newKey } : {}) }
+              : x
+          );
+          return rekey && oldKey
+            ? renameConditionsOn(next, oldKey, newKey)
+            : next;
+        });
+      }
+      setBankRefresh((n) => n + 1);
+    } catch (e: any) {
+      alert(e?.message || "Failed to save to the question bank");
+    }
+  };
+
+  const handleInsertFromBank = (field: AppItem) => {
+    setFields((f) => [...f, field]);
   };
 
   // load coalition
@@ -311,6 +575,7 @@ export default function CoalitionProgramBuilder() {
         console.error("Failed to load schema:", e);
         setFields([]);
       }
+      setFieldsLoaded(true);
     })();
   }, [programId, navigate]);
 
@@ -367,6 +632,29 @@ export default function CoalitionProgramBuilder() {
     };
   }, [programId]);
 
+  // Undo/redo for the questions
+  const historySnapshot = useMemo(() => ({ fields }), [fields]);
+  // Same lock as `isDisabled` below: no undo/redo while submitted for review
+  const historyLocked =
+    (program?.metadata as any)?.review_status === "submitted" && !isEditing;
+  const history = useEditHistory(
+    historySnapshot,
+    (state) => setFields(state.fields),
+    fieldsLoaded && !historyLocked
+  );
+
+  async function handleSaveCheckpoint(name: string) {
+    if (!program) return;
+    const metadata = await saveCheckpoint(program, name, fields, user?.id);
+    setProgram({ ...program, metadata });
+  }
+
+  async function handleDeleteCheckpoint(checkpoint: BuilderCheckpoint) {
+    if (!program) return;
+    const metadata = await deleteCheckpoint(program, checkpoint.id);
+    setProgram({ ...program, metadata });
+  }
+
   // simple field add helper
   function addField(type: AppItem["type"]) {
     const label = type
@@ -880,9 +1168,21 @@ export default function CoalitionProgramBuilder() {
                 Add questions to your application form.
               </p>
 
+              <BuilderHistoryBar
+                canUndo={history.canUndo}
+                canRedo={history.canRedo}
+                onUndo={history.undo}
+                onRedo={history.redo}
+                checkpoints={listCheckpoints(program)}
+                onSaveCheckpoint={handleSaveCheckpoint}
+                onRestoreCheckpoint={(cp) => setFields(cp.fields)}
+                onDeleteCheckpoint={handleDeleteCheckpoint}
+                disabled={isDisabled}
+              />
+
               {/* Field Type Selection Section */}
               <div className="bg-white rounded-lg p-3 mb-4 shadow-sm border">
-                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-2">
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-7 gap-2">
                   <button
                     onClick={() => addField("short_text")}
                     className="flex items-center justify-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-300 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 w-full"
@@ -943,9 +1243,87 @@ export default function CoalitionProgramBuilder() {
                       File Upload
                     </span>
                   </button>
+                  <button
+                    onClick={() => addField("number")}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-300 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 w-full"
+                    disabled={isDisabled}
+                  >
+                    <div className="text-lg">🔢</div>
+                    <span className="text-xs font-medium text-gray-700">
+                      Number
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => addField("email")}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-300 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 w-full"
+                    disabled={isDisabled}
+                  >
+                    <div className="text-lg">✉️</div>
+                    <span className="text-xs font-medium text-gray-700">
+                      Email
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => addField("phone")}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-300 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 w-full"
+                    disabled={isDisabled}
+                  >
+                    <div className="text-lg">📞</div>
+                    <span className="text-xs font-medium text-gray-700">
+                      Phone
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => addField("url")}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-300 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 w-full"
+                    disabled={isDisabled}
+                  >
+                    <div className="text-lg">🔗</div>
+                    <span className="text-xs font-medium text-gray-700">
+                      URL
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => addField("multi_select")}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-300 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 w-full"
+                    disabled={isDisabled}
+                  >
+                    <div className="text-lg">✅</div>
+                    <span className="text-xs font-medium text-gray-700">
+                      Multi-Select
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => addField("ranking")}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-300 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 w-full"
+                    disabled={isDisabled}
+                  >
+                    <div className="text-lg">🏆</div>
+                    <span className="text-xs font-medium text-gray-700">
+                      Ranking
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => addField("section")}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-300 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 w-full"
+                    disabled={isDisabled}
+                  >
+                    <div className="text-lg">📑</div>
+                    <span className="text-xs font-medium text-gray-700">
+                      Section Break
+                    </span>
+                  </button>
                 </div>
               </div>
 
+              <QuestionBankPanel
+                orgId={program?.organization_id}
+                fields={fields}
+                disabled={isDisabled}
+                onInsert={handleInsertFromBank}
+                refreshToken={bankRefresh}
+              />
+
               {/* Configured Questions Section */}
               <div className="bg-white rounded-lg p-6 shadow-sm border">
                 <div className="flex items-center justify-between mb-6">
@@ -989,9 +1367,11 @@ export default function CoalitionProgramBuilder() {
                             key={field.key || `field-${idx}`}
                             field={field}
                             idx={idx}
+                            precedingFields={fields.slice(0, idx)}
                             isDisabled={isDisabled}
                             onUpdateField={handleUpdateField}
                             onRemoveField={handleRemoveField}
+                            onSaveToBank={handleSaveToBank}
                           />
                         ))}
                       </div>
@@ -1057,7 +1437,9 @@ export default function CoalitionProgramBuilder() {
             {/* Spacer to match approval notice height exactly - py-4 (32px) + inner py-2 (16px) + text height */}
             <div style={{ height: "68px" }}></div>
             <div className="sticky" style={{ top: "68px" }}>
-              {program && <ProgramReviewerFormCard programId={program.id} />}
+              {program && (
+                <ProgramReviewerFormCard programId={program.id} fields={fields} />
+              )}
             </div>
           </div>
         </div>
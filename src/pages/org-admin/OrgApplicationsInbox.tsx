@@ -13,6 +13,40 @@ import {
 } from "../../lib/requestDeduplication";
 import type { ReviewsListRow } from "../../types/reviews";
 import { getOrgBySlug } from "../../lib/orgs";
+import RubricBreakdown from "../../components/review/RubricBreakdown";
+import { saveReviewQueueFromRows } from "../../lib/reviewQueue";
+import ScoreRankingPanel from "../../components/review/ScoreRankingPanel";
+import {
+  ReviewConflict,
+  isConflictedPair,
+  listOrgConflicts,
+} from "../../lib/reviewConflicts";
+import {
+  ApplicationTag,
+  InboxSavedView,
+  addTag,
+  createTag,
+  deleteInboxView,
+  listInboxViews,
+  listOrgTagLinks,
+  listOrgTags,
+  removeTag,
+  saveInboxView,
+  updateInboxView,
+} from "../../lib/applicationTags";
+import {
+  EMPTY_INBOX_FILTERS,
+  InboxFilters,
+  countAdvancedFilters,
+  filterInboxRows,
+  normalizeInboxFilters,
+} from "../../utils/inboxFilters";
+import { loadApplicationSchemaById } from "../../lib/schemaLoader";
+import { listProgramReviewHistory } from "../../lib/reviewHistory";
+import { reviewHistoryCsv } from "../../utils/reviewHistory";
+import ApplicationTagPicker from "../../components/review/ApplicationTagPicker";
+import InboxAdvancedFilters from "../../components/review/InboxAdvancedFilters";
+import InboxSavedViews from "../../components/review/InboxSavedViews";
 
 export default function OrgApplicationsInbox() {
   const { orgSlug } = useParams<{ orgSlug: string }>();
@@ -23,16 +57,32 @@ export default function OrgApplicationsInbox() {
   const [allRows, setAllRows] = useState<ReviewsListRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [mineOnly, setMineOnly] = useState(false);
-  const [status, setStatus] = useState<
-    "" | "draft" | "submitted" | "not_started"
-  >("");
-  const [searchTerm, setSearchTerm] = useState("");
-  const [selectedProgramId, setSelectedProgramId] = useState<string>("");
+  const [filters, setFilters] = useState<InboxFilters>(EMPTY_INBOX_FILTERS);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const {
+    mineOnly,
+    status,
+    search: searchTerm,
+    programId: selectedProgramId,
+  } = filters;
   const [programFormConfigs, setProgramFormConfigs] = useState<
     Record<string, any>
   >({});
   const [programs, setPrograms] = useState<any[]>([]);
+  const [conflicts, setConflicts] = useState<ReviewConflict[]>([]);
+  // Submission date and answers per application, for the advanced filters
+  const [appDetails, setAppDetails] = useState<
+    Record<string, { submitted_at: string | null; answers: any }>
+  >({});
+  const [answerFields, setAnswerFields] = useState<
+    { key: string; label: string; options?: string[] }[]
+  >([]);
+  const [tags, setTags] = useState<ApplicationTag[]>([]);
+  const [tagLinks, setTagLinks] = useState<Record<string, string[]>>({});
+  const [views, setViews] = useState<InboxSavedView[]>([]);
+  const [activeViewId, setActiveViewId] = useState("");
+  const [selectedAppIds, setSelectedAppIds] = useState<Set<string>>(new Set());
+  const [bulkTagId, setBulkTagId] = useState("");
 
   // Load organization
   useEffect(() => {
@@ -71,6 +121,68 @@ export default function OrgApplicationsInbox() {
     })();
   }, [orgId]);
 
+  // Load declared conflicts so conflicted reviewer/applicant pairs stand out
+  useEffect(() => {
+    if (!orgId) return;
+    listOrgConflicts(orgId)
+      .then(setConflicts)
+      .catch((error) => console.error("Error loading conflicts:", error));
+  }, [orgId]);
+
+  // Load org tags, which applications carry them, and saved views
+  const loadTagLinks = useCallback(async () => {
+    if (!orgId) return;
+    try {
+      setTagLinks(await listOrgTagLinks(orgId));
+    } catch (error) {
+      console.error("Error loading application tags:", error);
+    }
+  }, [orgId]);
+
+  useEffect(() => {
+    if (!orgId) return;
+    listOrgTags(orgId)
+      .then(setTags)
+      .catch((error) => console.error("Error loading tags:", error));
+    listInboxViews(orgId)
+      .then(setViews)
+      .catch((error) => console.error("Error loading saved views:", error));
+    loadTagLinks();
+
+    const ch = supabase
+      .channel(`tags:org:${orgId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "application_tag_links" },
+        loadTagLinks
+      )
+      .subscribe();
+    return () => {
+      supabase.removeChannel(ch);
+    };
+  }, [orgId, loadTagLinks]);
+
+  // Questions of the selected program, for filtering by answer
+  useEffect(() => {
+    if (!selectedProgramId) {
+      setAnswerFields([]);
+      return;
+    }
+    loadApplicationSchemaById(selectedProgramId)
+      .then((schema) =>
+        setAnswerFields(
+          schema.fields
+            .filter((f: any) => f.type !== "SECTION")
+            .map((f: any) => ({
+              key: f.key,
+              label: f.label || f.key,
+              options: f.options,
+            }))
+        )
+      )
+      .catch((error) => console.error("Error loading program schema:", error));
+  }, [selectedProgramId]);
+
   // Load form configurations for all unique programs
   async function loadProgramFormConfigs(reviews: ReviewsListRow[]) {
     const uniqueProgramIds = [...new Set(reviews.map((r) => r.program_id))];
@@ -153,12 +265,14 @@ export default function OrgApplicationsInbox() {
             program_id,
             user_id,
             status,
+            answers,
+            submitted_at,
             created_at,
             updated_at,
             programs!inner(name, organization_id, organizations(name))
           `
           )
-          .eq("status", "submitted")
+          .neq("status", "draft")
           .eq("programs.organization_id", orgId),
       ]);
 
@@ -199,7 +313,20 @@ export default function OrgApplicationsInbox() {
         return;
       }
 
-      const submittedApps = appsResult.value.data;
+      const orgApps = appsResult.value.data ?? [];
+      const submittedApps = orgApps.filter((app) => app.status === "submitted");
+
+      const details: Record<
+        string,
+        { submitted_at: string | null; answers: any }
+      > = {};
+      orgApps.forEach((app) => {
+        details[app.id] = {
+          submitted_at: app.submitted_at,
+          answers: app.answers ?? {},
+        };
+      });
+      setAppDetails(details);
 
       const reviewsMap = new Map<string, ReviewsListRow>();
       existingReviews.forEach((review) => {
@@ -342,31 +469,203 @@ export default function OrgApplicationsInbox() {
     return colors[colorIndex];
   };
 
-  const filteredRows = useMemo(() => {
-    let filtered = allRows;
+  // Blind-review programs get an anonymous code from the server instead of
+  // the applicant's name
+  const applicantLabel = (row: ReviewsListRow) =>
+    row.applicant_name ?? row.applicant_id;
+
+  const filteredRows = useMemo(
+    () =>
+      filterInboxRows(allRows, filters, {
+        applicantLabel,
+        tagIds: (applicationId) => tagLinks[applicationId] ?? [],
+        application: (applicationId) => appDetails[applicationId] ?? null,
+      }),
+    [allRows, filters, tagLinks, appDetails, programFormConfigs]
+  );
+
+  const hasFilters =
+    JSON.stringify(filters) !== JSON.stringify(EMPTY_INBOX_FILTERS);
+
+  const updateFilters = (patch: Partial<InboxFilters>) =>
+    setFilters((prev) => ({ ...prev, ...patch }));
+
+  const reviewerOptions = useMemo(() => {
+    const byId = new Map<string, string>();
+    allRows.forEach((row) => {
+      if (row.reviewer_id) byId.set(row.reviewer_id, row.reviewer_name);
+    });
+    return [...byId.entries()]
+      .map(([id, name]) => ({ id, name: name || id }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [allRows]);
+
+  const decisionOptions = useMemo(() => {
+    const options = new Set<string>();
+    Object.values(programFormConfigs).forEach((config: any) =>
+      (config?.decision_options ?? []).forEach((d: string) => options.add(d))
+    );
+    allRows.forEach((row) => {
+      if (row.ratings?.decision) options.add(row.ratings.decision);
+    });
+    return [...options];
+  }, [allRows, programFormConfigs]);
+
+  // Every recorded review change in the selected program, as CSV
+  const handleExportHistory = async () => {
+    if (!selectedProgramId) return;
+    try {
+      const entries = await listProgramReviewHistory(selectedProgramId);
+      const rowByApp = new Map(
+        programRows.map((row) => [row.application_id, row])
+      );
+      const csv = reviewHistoryCsv(
+        entries,
+        programFormConfigs[selectedProgramId]?.rubric ?? [],
+        (applicationId) => {
+          const row = rowByApp.get(applicationId);
+          return row ? applicantLabel(row) : "";
+        }
+      );
+      const programName =
+        programs.find((p) => p.id === selectedProgramId)?.name ?? "program";
+      const blob = new Blob([csv], { type: "text/csv" });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${programName.replace(/\s+/g, "_")}_review_history.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error("Error exporting review history:", error);
+      alert("Failed to export review history");
+    }
+  };
+
+  // ---------- Saved views ----------
+
+  const activeView = views.find((view) => view.id === activeViewId);
+  const viewModified =
+    !!activeView &&
+    JSON.stringify(normalizeInboxFilters(activeView.filters)) !==
+      JSON.stringify(filters);
+
+  const applyView = (viewId: string) => {
+    setActiveViewId(viewId);
+    const view = views.find((v) => v.id === viewId);
+    const next = normalizeInboxFilters(view?.filters);
+    setFilters(next);
+    setShowAdvanced(countAdvancedFilters(next) > 0);
+  };
+
+  const handleSaveView = async () => {
+    if (!orgId) return;
+    const name = prompt("Name this view (shared with your team)");
+    if (!name?.trim()) return;
+    try {
+      const view = await saveInboxView(orgId, name, filters);
+      setViews((prev) =>
+        [...prev, view].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setActiveViewId(view.id);
+    } catch (error: any) {
+      console.error("Error saving view:", error);
+      alert(error.message || "Failed to save view");
+    }
+  };
 
-    if (selectedProgramId) {
-      filtered = filtered.filter((row) => row.program_id === selectedProgramId);
+  const handleUpdateView = async () => {
+    if (!activeView) return;
+    try {
+      await updateInboxView(activeView.id, filters);
+      setViews((prev) =>
+        prev.map((v) => (v.id === activeView.id ? { ...v, filters } : v))
+      );
+    } catch (error: any) {
+      console.error("Error updating view:", error);
+      alert(error.message || "Failed to update view");
     }
+  };
 
-    if (status) {
-      filtered = filtered.filter((row) => row.status === status);
+  const handleDeleteView = async () => {
+    if (!activeView) return;
+    if (!confirm(`Delete the view "${activeView.name}" for everyone?`)) return;
+    try {
+      await deleteInboxView(activeView.id);
+      setViews((prev) => prev.filter((v) => v.id !== activeView.id));
+      setActiveViewId("");
+    } catch (error: any) {
+      console.error("Error deleting view:", error);
+      alert(error.message || "Failed to delete view");
     }
+  };
 
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase();
-      filtered = filtered.filter(
-        (row) =>
-          row.program_name.toLowerCase().includes(term) ||
-          (row.applicant_name &&
-            row.applicant_name.toLowerCase().includes(term)) ||
-          (row.applicant_id && row.applicant_id.toLowerCase().includes(term)) ||
-          (row.reviewer_name && row.reviewer_name.toLowerCase().includes(term))
+  // ---------- Tags ----------
+
+  const handleCreateTag = async (name: string, color: string) => {
+    if (!orgId) return null;
+    try {
+      const tag = await createTag(orgId, name, color);
+      setTags((prev) =>
+        [...prev, tag].sort((a, b) => a.name.localeCompare(b.name))
       );
+      return tag;
+    } catch (error: any) {
+      console.error("Error creating tag:", error);
+      alert(error.message || "Failed to create tag");
+      return null;
     }
+  };
 
-    return filtered;
-  }, [allRows, selectedProgramId, searchTerm, status]);
+  const setTagOn = async (
+    applicationIds: string[],
+    tagId: string,
+    applied: boolean
+  ) => {
+    setTagLinks((prev) => {
+      const next = { ...prev };
+      applicationIds.forEach((id) => {
+        const rest = (next[id] ?? []).filter((t) => t !== tagId);
+        next[id] = applied ? [...rest, tagId] : rest;
+      });
+      return next;
+    });
+    try {
+      if (applied) await addTag(applicationIds, tagId);
+      else await removeTag(applicationIds, tagId);
+    } catch (error: any) {
+      console.error("Error updating tags:", error);
+      alert(error.message || "Failed to update tags");
+      loadTagLinks();
+    }
+  };
+
+  // Bulk selection is per application; an application can have several rows
+  const visibleAppIds = useMemo(
+    () => [...new Set(filteredRows.map((row) => row.application_id))],
+    [filteredRows]
+  );
+  const allVisibleSelected =
+    visibleAppIds.length > 0 &&
+    visibleAppIds.every((id) => selectedAppIds.has(id));
+
+  const toggleSelected = (applicationId: string) =>
+    setSelectedAppIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(applicationId)) next.delete(applicationId);
+      else next.add(applicationId);
+      return next;
+    });
+
+  const toggleAllVisible = () =>
+    setSelectedAppIds(allVisibleSelected ? new Set() : new Set(visibleAppIds));
+
+  const programRows = useMemo(
+    () => allRows.filter((row) => row.program_id === selectedProgramId),
+    [allRows, selectedProgramId]
+  );
 
   if (loading && !orgId) {
     return (
@@ -430,18 +729,49 @@ export default function OrgApplicationsInbox() {
 
         <div className="flex-1 overflow-y-auto">
           <div className="max-w-7xl mx-auto px-8 py-12">
+            {/* Aggregated ranking for the selected program */}
+            {selectedProgramId && (
+              <ScoreRankingPanel
+                programId={selectedProgramId}
+                rows={programRows}
+                formConfig={programFormConfigs[selectedProgramId]}
+                applicantLabel={applicantLabel}
+                onDecisionChanged={fetchList}
+              />
+            )}
+
             {/* Reviews Table */}
             <div className="bg-white border border-gray-200 rounded-2xl shadow-lg overflow-hidden">
               <div className="px-8 py-6 bg-gradient-to-r from-gray-50 to-gray-100 border-b border-gray-200">
                 <div className="flex items-center gap-3">
                   <div className="w-2 h-6 bg-gradient-to-b from-gray-600 to-gray-700 rounded-full"></div>
                   <h2 className="text-xl font-bold text-gray-900">Reviews</h2>
+                  {selectedProgramId && (
+                    <button
+                      onClick={handleExportHistory}
+                      className="ml-auto px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-full hover:bg-gray-50"
+                      title="Download every score, comment and decision change in this program"
+                    >
+                      ⬇️ Export change history
+                    </button>
+                  )}
                 </div>
               </div>
 
               {/* Search and Filter Controls */}
               <div className="px-8 py-6 border-b border-gray-200 bg-white">
                 <div className="space-y-4">
+                  {/* Saved views */}
+                  <InboxSavedViews
+                    views={views}
+                    activeViewId={activeViewId}
+                    modified={viewModified}
+                    onApply={applyView}
+                    onSaveNew={handleSaveView}
+                    onUpdate={handleUpdateView}
+                    onDelete={handleDeleteView}
+                  />
+
                   {/* Search Bar */}
                   <div>
                     <input
@@ -449,7 +779,9 @@ export default function OrgApplicationsInbox() {
                       placeholder="Search by program name, applicant name, or reviewer..."
                       className="w-full rounded-lg border border-gray-300 px-4 py-3 text-sm bg-white shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200"
                       value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
+                      onChange={(e) =>
+                        updateFilters({ search: e.target.value })
+                      }
                     />
                   </div>
 
@@ -460,7 +792,9 @@ export default function OrgApplicationsInbox() {
                         type="checkbox"
                         className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
                         checked={mineOnly}
-                        onChange={(e) => setMineOnly(e.target.checked)}
+                        onChange={(e) =>
+                          updateFilters({ mineOnly: e.target.checked })
+                        }
                       />
                       <label className="text-sm font-medium text-gray-700">
                         My reviews only
@@ -476,7 +810,9 @@ export default function OrgApplicationsInbox() {
                       <select
                         className="rounded-lg border border-gray-300 px-4 py-2 text-sm bg-white shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200"
                         value={status}
-                        onChange={(e) => setStatus(e.target.value as any)}
+                        onChange={(e) =>
+                          updateFilters({ status: e.target.value as any })
+                        }
                       >
                         <option value="">All Statuses</option>
                         <option value="not_started">Not Started</option>
@@ -496,7 +832,11 @@ export default function OrgApplicationsInbox() {
                             className="rounded-lg border border-gray-300 px-4 py-2 text-sm bg-white shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200"
                             value={selectedProgramId}
                             onChange={(e) =>
-                              setSelectedProgramId(e.target.value)
+                              updateFilters({
+                                programId: e.target.value,
+                                answerKey: "",
+                                answerValue: "",
+                              })
                             }
                           >
                             <option value="">All Programs</option>
@@ -509,14 +849,106 @@ export default function OrgApplicationsInbox() {
                         </div>
                       </>
                     )}
+
+                    <div className="h-6 w-px bg-gray-300 hidden md:block" />
+                    <button
+                      type="button"
+                      onClick={() => setShowAdvanced((v) => !v)}
+                      className="text-sm font-medium text-indigo-700 hover:text-indigo-900"
+                    >
+                      {showAdvanced ? "Hide filters" : "More filters"}
+                      {countAdvancedFilters(filters) > 0 &&
+                        ` (${countAdvancedFilters(filters)})`}
+                    </button>
+                    {hasFilters && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setFilters(EMPTY_INBOX_FILTERS);
+                          setActiveViewId("");
+                        }}
+                        className="text-sm text-gray-500 hover:text-gray-800"
+                      >
+                        Clear all
+                      </button>
+                    )}
                   </div>
+
+                  {showAdvanced && (
+                    <InboxAdvancedFilters
+                      filters={filters}
+                      onChange={updateFilters}
+                      tags={tags}
+                      reviewers={reviewerOptions}
+                      decisions={decisionOptions}
+                      answerFields={answerFields}
+                    />
+                  )}
                 </div>
               </div>
 
+              {/* Bulk tagging */}
+              {selectedAppIds.size > 0 && (
+                <div className="px-8 py-3 bg-indigo-50 border-b border-indigo-100 flex flex-wrap items-center gap-3 text-sm">
+                  <span className="font-medium text-indigo-900">
+                    {selectedAppIds.size} application
+                    {selectedAppIds.size === 1 ? "" : "s"} selected
+                  </span>
+                  <select
+                    className="rounded-md border border-gray-300 px-3 py-1.5 text-sm bg-white"
+                    value={bulkTagId}
+                    onChange={(e) => setBulkTagId(e.target.value)}
+                  >
+                    <option value="">Choose a tag…</option>
+                    {tags.map((tag) => (
+                      <option key={tag.id} value={tag.id}>
+                        {tag.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    disabled={!bulkTagId}
+                    onClick={() =>
+                      setTagOn([...selectedAppIds], bulkTagId, true)
+                    }
+                    className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    🏷️ Add tag
+                  </button>
+                  <button
+                    type="button"
+                    disabled={!bulkTagId}
+                    onClick={() =>
+                      setTagOn([...selectedAppIds], bulkTagId, false)
+                    }
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Remove tag
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedAppIds(new Set())}
+                    className="text-gray-500 hover:text-gray-800"
+                  >
+                    Clear selection
+                  </button>
+                </div>
+              )}
+
               <div className="overflow-x-auto">
                 <table className="w-full text-sm">
                   <thead className="bg-gray-50">
                     <tr>
+                      <th className="p-4 w-10">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                          checked={allVisibleSelected}
+                          onChange={toggleAllVisible}
+                          title="Select all shown applications"
+                        />
+                      </th>
                       <th className="text-left p-4 font-semibold text-gray-900">
                         Updated
                       </th>
@@ -546,7 +978,7 @@ export default function OrgApplicationsInbox() {
                   <tbody>
                     {loading && (
                       <tr>
-                        <td colSpan={8} className="p-8 text-center">
+                        <td colSpan={9} className="p-8 text-center">
                           <div className="flex items-center justify-center gap-3">
                             <div className="animate-spin rounded-full h-6 w-6 border-2 border-indigo-600 border-t-transparent"></div>
                             <span className="text-gray-600 font-medium">
@@ -558,7 +990,7 @@ export default function OrgApplicationsInbox() {
                     )}
                     {!loading && filteredRows.length === 0 && (
                       <tr>
-                        <td colSpan={8} className="p-8 text-center">
+                        <td colSpan={9} className="p-8 text-center">
                           <div className="flex flex-col items-center gap-3">
                             <svg
                               className="w-12 h-12 text-gray-400"
@@ -578,7 +1010,7 @@ export default function OrgApplicationsInbox() {
                                 No reviews found
                               </p>
                               <p className="text-sm">
-                                {searchTerm || selectedProgramId
+                                {hasFilters
                                   ? "No reviews match your current filters."
                                   : "No reviews have been created yet."}
                               </p>
@@ -593,6 +1025,14 @@ export default function OrgApplicationsInbox() {
                           key={r.review_id}
                           className="border-t border-gray-100 hover:bg-gray-50 transition-colors"
                         >
+                          <td className="p-4">
+                            <input
+                              type="checkbox"
+                              className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                              checked={selectedAppIds.has(r.application_id)}
+                              onChange={() => toggleSelected(r.application_id)}
+                            />
+                          </td>
                           <td className="p-4 text-xs text-gray-700">
                             {r.updated_at
                               ? new Date(r.updated_at).toLocaleString()
@@ -602,13 +1042,36 @@ export default function OrgApplicationsInbox() {
                             {r.program_name}
                           </td>
                           <td className="p-4 text-sm text-gray-700">
-                            {r.applicant_name ?? r.applicant_id}
+                            {applicantLabel(r)}
+                            <div className="mt-1">
+                              <ApplicationTagPicker
+                                tags={tags}
+                                appliedIds={tagLinks[r.application_id] ?? []}
+                                onToggle={(tagId, applied) =>
+                                  setTagOn([r.application_id], tagId, applied)
+                                }
+                                onCreate={handleCreateTag}
+                              />
+                            </div>
                           </td>
                           <td
                             className="p-4 text-sm text-gray-700"
                             title={r.reviewer_id ?? ""}
                           >
                             {r.reviewer_name ?? "Unknown User"}
+                            {isConflictedPair(
+                              conflicts,
+                              r.reviewer_id,
+                              r.application_id,
+                              r.applicant_id
+                            ) && (
+                              <span
+                                className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-orange-100 text-orange-800"
+                                title="This reviewer declared a conflict of interest with the applicant"
+                              >
+                                ⚠️ Conflict
+                              </span>
+                            )}
                           </td>
                           <td className="p-4">
                             {r.status === "submitted" ? (
@@ -627,6 +1090,10 @@ export default function OrgApplicationsInbox() {
                           </td>
                           <td className="p-4 text-gray-700 font-medium">
                             {r.score ?? "—"}
+                            <RubricBreakdown
+                              rubric={programFormConfigs[r.program_id]?.rubric}
+                              ratings={r.ratings}
+                            />
                           </td>
                           <td className="p-4">
                             {programFormConfigs[r.program_id]?.show_decision ? (
@@ -655,6 +1122,13 @@ export default function OrgApplicationsInbox() {
                           <td className="p-4">
                             <Link
                               to={`/review/app/${r.application_id}`}
+                              onClick={() =>
+                                saveReviewQueueFromRows(
+                                  `${orgName ?? "Applications"} Inbox`,
+                                  location.pathname,
+                                  filteredRows
+                                )
+                              }
                               className="inline-flex items-center justify-center px-3 py-2 text-sm font-semibold rounded-lg bg-gradient-to-r from-indigo-600 to-indigo-700 text-white shadow-lg hover:from-indigo-700 hover:to-indigo-800 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 transition-all duration-200 transform hover:scale-105"
                               title="Open review"
                             >
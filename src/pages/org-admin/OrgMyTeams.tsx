@@ -3,8 +3,10 @@ import { useParams, Link, useLocation, useNavigate } from "react-router-dom";
 import { supabase } from "../../lib/supabase";
 import { useAuth } from "../../auth/AuthProvider";
 import { findUserByEmail } from "../../lib/programAssignments";
+import { rebalanceProgramAssignments } from "../../lib/reviewAssignments";
 import OrgAdminSidebar from "../../components/OrgAdminSidebar";
 import OrgLogo from "../../components/OrgLogo";
+import ReviewConflictsPanel from "../../components/ReviewConflictsPanel";
 import AdvertiseFormModal from "../../components/AdvertiseFormModal";
 import { orgCreateProgramDraft } from "../../lib/programs";
 import {
@@ -858,6 +860,11 @@ export default function OrgMyTeams() {
       });
       if (error) throw error;
 
+      // Hand their unfinished assigned applications to the rest of the team
+      await rebalanceProgramAssignments(programId).catch((err) =>
+        console.warn("Could not reassign reviewer's applications:", err)
+      );
+
       // Update local state instead of reloading everything (optimization)
       setTeamMembers((prevMembers) =>
         prevMembers.map((m) => {
@@ -1019,6 +1026,18 @@ export default function OrgMyTeams() {
         }
       }
 
+      // Hand their unfinished assigned applications to the rest of the team
+      await Promise.all(
+        programIds.map((programId) =>
+          rebalanceProgramAssignments(programId).catch((err) =>
+            console.warn(
+              `Could not reassign applications in program ${programId}:`,
+              err
+            )
+          )
+        )
+      );
+
       // Update local state instead of reloading everything (optimization)
       setTeamMembers((prevMembers) =>
         prevMembers.filter((m) => m.id !== userId)
@@ -1694,6 +1713,16 @@ export default function OrgMyTeams() {
                 </div>
               )}
             </div>
+
+            {/* Conflicts of Interest */}
+            {org && (
+              <div className="mt-8">
+                <ReviewConflictsPanel
+                  orgId={org.id}
+                  members={teamMembers.filter((m) => m.status === "active")}
+                />
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -5,9 +5,38 @@ import { useAuth } from "../../auth/AuthProvider";
 import { setBuilderSchema, type ApplicationSchema } from "../../data/api";
 import { loadApplicationSchema } from "../../lib/schemaLoader";
 import type { AppItem } from "../../types/application";
+import { renameConditionsOn, stripConditionsOn } from "../../utils/conditions";
+import {
+  bankFieldKey,
+  saveToQuestionBank,
+  updateBankQuestion,
+} from "../../lib/questionBank";
 import OptionsInput from "../../components/OptionsInput";
+import ConditionalLogicEditor from "../../components/ConditionalLogicEditor";
+import FieldValidationEditor from "../../components/FieldValidationEditor";
+import QuestionHelpEditor from "../../components/QuestionHelpEditor";
+import QuestionBankPanel from "../../components/QuestionBankPanel";
+import ProgramChangesPanel from "../../components/ProgramChangesPanel";
 import ApplicationPreview from "../../components/ApplicationPreview";
 import ProgramReviewerFormCard from "../../components/ProgramReviewerFormCard";
+import BuilderHistoryBar from "../../components/BuilderHistoryBar";
+import FormImportModal, {
+  type FormImportMode,
+} from "../../components/FormImportModal";
+import { getProgramReviewForm, setProgramReviewForm } from "../../lib/api";
+import {
+  deleteCheckpoint,
+  listCheckpoints,
+  saveCheckpoint,
+  type BuilderCheckpoint,
+} from "../../lib/builderCheckpoints";
+import { useEditHistory } from "../../hooks/useEditHistory";
+import {
+  buildFormExport,
+  formExportFilename,
+  type BuilderState,
+  type FormExport,
+} from "../../utils/formTransfer";
 import { orgUpdateProgramDraft } from "../../lib/programs";
 import AutoLinkText from "../../components/AutoLinkText";
 import OrgLogo from "../../components/OrgLogo";
@@ -50,15 +79,19 @@ type Org = { id: string; slug: string; name: string; logo_url?: string | null };
 function SortableField({
   field,
   idx,
+  precedingFields,
   isDisabled,
   onUpdateField,
   onRemoveField,
+  onSaveToBank,
 }: {
   field: AppItem;
   idx: number;
+  precedingFields: AppItem[];
   isDisabled: boolean;
   onUpdateField: (idx: number, updates: Partial<AppItem>) => void;
   onRemoveField: (idx: number) => void;
+  onSaveToBank: (idx: number) => void;
 }) {
   const {
     attributes,
@@ -98,25 +131,67 @@ function SortableField({
                 ? "text-pink-600"
                 : field.type === "file"
                 ? "text-gray-600"
+                : field.type === "number"
+                ? "text-teal-600"
+                : field.type === "email" ||
+                  field.type === "phone" ||
+                  field.type === "url"
+                ? "text-cyan-600"
+                : field.type === "multi_select"
+                ? "text-violet-600"
+                : field.type === "ranking"
+                ? "text-amber-600"
+                : field.type === "section"
+                ? "text-indigo-600"
                 : "text-gray-600"
             }`}
           >
             {field.type.replace("_", " ")}
           </span>
-          <label className="flex items-center gap-1.5 text-xs font-medium text-gray-600">
-            <input
-              type="checkbox"
-              checked={!!field.required}
-              onChange={(e) =>
-                onUpdateField(idx, { required: e.target.checked })
-              }
-              disabled={isDisabled}
-              className="w-3 h-3 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-            />
-            <span>Required</span>
-          </label>
+          {field.type !== "section" && (
+            <label className="flex items-center gap-1.5 text-xs font-medium text-gray-600">
+              <input
+                type="checkbox"
+                checked={!!field.required}
+                onChange={(e) =>
+                  onUpdateField(idx, { required: e.target.checked })
+                }
+                disabled={isDisabled}
+                className="w-3 h-3 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>Required</span>
+            </label>
+          )}
+          {field.bankId && (
+            <span
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+              title="Linked to the question bank: edits saved to the bank update every draft that uses it"
+            >
+              📚 Linked
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-1">
+          {field.type !== "section" && (
+            <button
+              className="flex items-center gap-1 px-2 py-1 text-xs text-amber-700 hover:text-amber-800 hover:bg-amber-50 rounded disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              onClick={() => onSaveToBank(idx)}
+              disabled={isDisabled}
+            >
+              <span>📚</span>
+              {field.bankId ? "Update Bank" : "Save to Bank"}
+            </button>
+          )}
+          {field.bankId && (
+            <button
+              className="flex items-center gap-1 px-2 py-1 text-xs text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              onClick={() => onUpdateField(idx, { bankId: undefined })}
+              disabled={isDisabled}
+              title="Keep this question as-is and stop following the bank"
+            >
+              Detach
+            </button>
+          )}
           {/* Drag Handle */}
           <button
             {...attributes}
@@ -144,12 +219,16 @@ function SortableField({
         {/* Question Label */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
-            Question Text *
+            {field.type === "section" ? "Section Title *" : "Question Text *"}
           </label>
           <div className="flex gap-3 items-center">
             <input
               className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-base disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="Enter your question here..."
+              placeholder={
+                field.type === "section"
+                  ? "Enter a title for this page..."
+                  : "Enter your question here..."
+              }
               value={field.label}
               onChange={(e) => onUpdateField(idx, { label: e.target.value })}
               disabled={isDisabled}
@@ -178,16 +257,155 @@ function SortableField({
         </div>
 
         {/* Additional Options Row */}
-        <div className="flex flex-wrap gap-4 items-center"></div>
+        {field.type === "number" && (
+          <div className="flex flex-wrap gap-4 items-center">
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                Min:
+              </label>
+              <input
+                className="w-24 border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                type="number"
+                value={field.min ?? ""}
+                onChange={(e) => {
+                  const val = e.target.value
+                    ? Number(e.target.value)
+                    : undefined;
+                  onUpdateField(idx, { min: val });
+                }}
+                disabled={isDisabled}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                Max:
+              </label>
+              <input
+                className="w-24 border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                type="number"
+                value={field.max ?? ""}
+                onChange={(e) => {
+                  const val = e.target.value
+                    ? Number(e.target.value)
+                    : undefined;
+                  onUpdateField(idx, { max: val });
+                }}
+                disabled={isDisabled}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                Step:
+              </label>
+              <input
+                className="w-24 border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                type="number"
+                value={field.step ?? ""}
+                onChange={(e) => {
+                  const val = e.target.value
+                    ? Number(e.target.value)
+                    : undefined;
+                  onUpdateField(idx, { step: val });
+                }}
+                disabled={isDisabled}
+              />
+            </div>
+          </div>
+        )}
 
         {/* Select Options */}
-        {field.type === "select" && (
+        {(field.type === "select" ||
+          field.type === "multi_select" ||
+          field.type === "ranking") && (
           <OptionsInput
             options={field.options ?? []}
             onChange={(options) => onUpdateField(idx, { options })}
             disabled={isDisabled}
           />
         )}
+
+        {/* Selection Limits */}
+        {field.type === "multi_select" && (
+          <div className="flex flex-wrap gap-4 items-center">
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                Min selections:
+              </label>
+              <input
+                className="w-24 border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                type="number"
+                value={field.minSelections ?? ""}
+                onChange={(e) => {
+                  const val = e.target.value
+                    ? Number(e.target.value)
+                    : undefined;
+                  onUpdateField(idx, { minSelections: val });
+                }}
+                disabled={isDisabled}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                Max selections:
+              </label>
+              <input
+                className="w-24 border border-gray-300 rounded px-2 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                type="number"
+                value={field.maxSelections ?? ""}
+                onChange={(e) => {
+                  const val = e.target.value
+                    ? Number(e.target.value)
+                    : undefined;
+                  onUpdateField(idx, { maxSelections: val });
+                }}
+                disabled={isDisabled}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Section Description */}
+        {field.type === "section" && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Section Description
+            </label>
+            <textarea
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm disabled:opacity-50 disabled:bg-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+              rows={2}
+              placeholder="Optional instructions shown at the top of this page"
+              value={field.description ?? ""}
+              onChange={(e) =>
+                onUpdateField(idx, { description: e.target.value })
+              }
+              disabled={isDisabled}
+            />
+          </div>
+        )}
+
+        {/* Help Text & Attachment */}
+        <QuestionHelpEditor
+          field={field}
+          onChange={(updates) => onUpdateField(idx, updates)}
+          disabled={isDisabled}
+        />
+
+        {/* Validation Rules */}
+        <FieldValidationEditor
+          field={field}
+          onChange={(validation) => onUpdateField(idx, { validation })}
+          disabled={isDisabled}
+        />
+
+        {/* Conditional Logic */}
+        {field.type !== "section" && (
+          <ConditionalLogicEditor
+            rule={field.showIf}
+            candidates={precedingFields}
+            onChange={(showIf) => onUpdateField(idx, { showIf })}
+            disabled={isDisabled}
+          />
+        )}
       </div>
     </div>
   );
@@ -208,7 +426,7 @@ export default function OrgProgramBuilder() {
 
   const [org, setOrg] = useState<Org | null>(null);
   const [program, setProgram] = useState<Program | null>(null);
-  const [_includeApplyHubCommon, setIncludeApplyHubCommon] =
+  const [includeApplyHubCommon, setIncludeApplyHubCommon] =
     useState<boolean>(true);
   const [includeCoalitionCommon, setIncludeCoalitionCommon] =
     useState<boolean>(false);
@@ -224,6 +442,9 @@ export default function OrgProgramBuilder() {
   const [_schema, setSchema] = useState<ApplicationSchema>({ fields: [] });
   const [isEditing, setIsEditing] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  // Remounts the reviewer form card after an import replaces its settings
+  const [reviewFormVersion, setReviewFormVersion] = useState(0);
   const [basicsName, setBasicsName] = useState<string>("");
   const [basicsType, setBasicsType] = useState<
     "audition" | "scholarship" | "application" | "competition"
@@ -279,7 +500,63 @@ export default function OrgProgramBuilder() {
 
   // Field remove handler
   const handleRemoveField = (idx: number) => {
-    setFields((f) => f.filter((_, i) => i !== idx));
+    setFields((f) => {
+      const removedKey = f[idx]?.key;
+      const remaining = f.filter((_, i) => i !== idx);
+      // Questions that depended on the removed one lose that condition
+      return removedKey ? stripConditionsOn(remaining, removedKey) : remaining;
+    });
+  };
+
+  // Question bank: bumping this reloads the bank panel
+  const [bankRefresh, setBankRefresh] = useState(0);
+
+  // Save a question to the org's bank, or push a linked question's edits back
+  const handleSaveToBank = async (idx: number) => {
+    const field = fields[idx] as AppItem | undefined;
+    if (!field || !program) return;
+    try {
+      if (field.bankId) {
+        const { updatedPrograms } = await updateBankQuestion(
+          field.bankId,
+          field,
+          program.id
+        );
+        alert(
+          updatedPrograms > 0
+            ? `Question bank updated. ${updatedPrograms} other draft program${
+                updatedPrograms !== 1 ? "s" : ""
+              } using this question ${
+                updatedPrograms !== 1 ? "were" : "was"
+              } updated too.`
+            : "Question bank updated."
+        );
+      } else {
+        const saved = await saveToQuestionBank(program.organization_id, field);
+        const oldKey = field.key;
+        const newKey = bankFieldKey(saved.id);
+        // Before anyone can apply, take the shared key so answers line up
+        // with other programs using this question
+        const rekey = !program.published && !!oldKey;
+        setFields((f) => {
+          const next = f.map((x, i) =>
+            i === idx
+              ? { ...x, bankId: saved.id, ...(rekey ? { key: newKey } : {}) }
+              : x
+          );
+          return rekey && oldKey
+            ? renameConditionsOn(next, oldKey, newKey)
+            : next;
+        });
+      }
+      setBankRefresh((n) => n + 1);
+    } catch (e: any) {
+      alert(e?.message || "Failed to save to the question bank");
+    }
+  };
+
+  const handleInsertFromBank = (field: AppItem) => {
+    setFields((f) => [...f, field]);
   };
 
   // Function to handle edit button click
@@ -575,6 +852,64 @@ export default function OrgProgramBuilder() {
     };
   }, [programId]);
 
+  // Undo/redo covers the questions and the program details
+  const basics = useMemo(
+    () => ({
+      name: basicsName,
+      type: basicsType,
+      openAt: basicsOpenAt,
+      closeAt: basicsCloseAt,
+      spotsMode: basicsSpotsMode,
+      spotsCount: basicsSpotsCount,
+      isPrivate,
+    }),
+    [
+      basicsName,
+      basicsType,
+      basicsOpenAt,
+      basicsCloseAt,
+      basicsSpotsMode,
+      basicsSpotsCount,
+      isPrivate,
+    ]
+  );
+  const historySnapshot = useMemo(() => ({ fields, basics }), [fields, basics]);
+  // Same lock as `isDisabled` below: no undo/redo while submitted for review
+  const historyLocked =
+    isSuperAdmin ||
+    ((program?.metadata as any)?.review_status === "submitted" && !isEditing);
+  const history = useEditHistory(
+    historySnapshot,
+    (state) => {
+      setFields(state.fields);
+      setSchema({ fields: state.fields });
+      if (JSON.stringify(state.basics) !== JSON.stringify(basics)) {
+        setBasicsName(state.basics.name);
+        setBasicsType(state.basics.type);
+        setBasicsOpenAt(state.basics.openAt);
+        setBasicsCloseAt(state.basics.closeAt);
+        setBasicsSpotsMode(state.basics.spotsMode);
+        setBasicsSpotsCount(state.basics.spotsCount);
+        setIsPrivate(state.basics.isPrivate);
+        // Details save separately, so show them for review
+        setShowDetailsModal(true);
+      }
+    },
+    !loading && !historyLocked
+  );
+
+  async function handleSaveCheckpoint(name: string) {
+    if (!program) return;
+    const metadata = await saveCheckpoint(program, name, fields, user?.id);
+    setProgram({ ...program, metadata });
+  }
+
+  async function handleDeleteCheckpoint(checkpoint: BuilderCheckpoint) {
+    if (!program) return;
+    const metadata = await deleteCheckpoint(program, checkpoint.id);
+    setProgram({ ...program, metadata });
+  }
+
   // simple field add helper
   function addField(type: AppItem["type"]) {
     const label = type
@@ -588,14 +923,47 @@ export default function OrgProgramBuilder() {
     setSchema({ fields: newFields });
   }
 
-  async function onSave() {
+  // Current builder settings, in the shape exports and imports use
+  function builderState(): BuilderState {
+    return {
+      items: fields,
+      include_hub_common: includeApplyHubCommon,
+      include_coalition_common: includeCoalitionCommon,
+      profile: {
+        enabled: includeProfile,
+        sections: {
+          personal: includePersonalInfo,
+          family: includeFamilyInfo,
+          writing: includeWritingInfo,
+          experience: includeExperienceInfo,
+        },
+      },
+    };
+  }
+
+  // `writeCommon` is set by imports; a plain save leaves the stored
+  // common-app flags alone since the builder has no toggle for them
+  async function onSave(
+    state: BuilderState = builderState(),
+    writeCommon = false
+  ) {
     if (!programId || !user) return;
     setSaving(true);
     setMsg(null);
     try {
       const updatedSchema = {
-        fields: fields,
+        fields: state.items,
       };
+      const commonUpdate = (meta: any) =>
+        writeCommon
+          ? {
+              common: {
+                ...(meta.application?.common || {}),
+                applyhub: state.include_hub_common,
+                coalition: state.include_coalition_common,
+              },
+            }
+          : {};
 
       // Check if program is published - try multiple ways to determine this
       const isPublished =
@@ -638,22 +1006,15 @@ export default function OrgProgramBuilder() {
               // Update form flags
               form: {
                 ...(meta.form || {}),
-                include_profile: includeProfile,
-                include_coalition_common_app: includeCoalitionCommon,
+                include_profile: state.profile.enabled,
+                include_coalition_common_app: state.include_coalition_common,
               },
               // Update application flags AND save working schema
               application: {
                 ...(meta.application || {}),
                 schema: updatedSchema, // CRITICAL: Save working schema here too!
-                profile: {
-                  enabled: includeProfile,
-                  sections: {
-                    personal: includePersonalInfo,
-                    family: includeFamilyInfo,
-                    writing: includeWritingInfo,
-                    experience: includeExperienceInfo,
-                  },
-                },
+                ...commonUpdate(meta),
+                profile: state.profile,
               },
             },
           })
@@ -709,20 +1070,13 @@ export default function OrgProgramBuilder() {
               application: {
                 ...(meta.application || {}),
                 schema: updatedSchema, // This is the key fix!
-                profile: {
-                  enabled: includeProfile,
-                  sections: {
-                    personal: includePersonalInfo,
-                    family: includeFamilyInfo,
-                    writing: includeWritingInfo,
-                    experience: includeExperienceInfo,
-                  },
-                },
+                ...commonUpdate(meta),
+                profile: state.profile,
               },
               form: {
                 ...(meta.form || {}),
-                include_profile: includeProfile,
-                include_coalition_common_app: includeCoalitionCommon,
+                include_profile: state.profile.enabled,
+                include_coalition_common_app: state.include_coalition_common,
               },
             },
           })
@@ -757,6 +1111,68 @@ export default function OrgProgramBuilder() {
     }
   }
 
+  async function handleExportForm() {
+    if (!program) return;
+    try {
+      let reviewForm: any = null;
+      try {
+        reviewForm = await getProgramReviewForm(program.id);
+      } catch (e) {
+        console.warn("Exporting without reviewer form:", e);
+      }
+      const doc = buildFormExport(builderState(), reviewForm, {
+        program_id: program.id,
+        program_name: program.name,
+        organization_id: program.organization_id,
+      });
+      const blob = new Blob([JSON.stringify(doc, null, 2)], {
+        type: "application/json",
+      });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = formExportFilename(program.name);
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (e) {
+      console.error("Error exporting form:", e);
+      alert("Failed to export form");
+    }
+  }
+
+  // Load an imported form into the builder and save it right away
+  async function handleImportForm(form: FormExport, mode: FormImportMode) {
+    if (!program) return;
+    const current = builderState();
+    const next: BuilderState =
+      mode === "append"
+        ? { ...current, items: [...current.items, ...form.items] }
+        : {
+            items: form.items,
+            include_hub_common: form.include_hub_common,
+            include_coalition_common: form.include_coalition_common,
+            profile: form.profile,
+          };
+
+    if (mode === "replace" && form.review_form) {
+      await setProgramReviewForm(program.id, form.review_form);
+      setReviewFormVersion((v) => v + 1);
+    }
+
+    setFields(next.items);
+    setSchema({ fields: next.items as any });
+    setIncludeApplyHubCommon(next.include_hub_common);
+    setIncludeCoalitionCommon(next.include_coalition_common);
+    setIncludeProfile(next.profile.enabled);
+    setIncludePersonalInfo(next.profile.sections.personal);
+    setIncludeFamilyInfo(next.profile.sections.family);
+    setIncludeWritingInfo(next.profile.sections.writing);
+    setIncludeExperienceInfo(next.profile.sections.experience);
+    await onSave(next, mode === "replace");
+  }
+
   async function onPublish() {
     if (!program || !programId || !user) return;
     setSaving(true);
@@ -1022,6 +1438,9 @@ export default function OrgProgramBuilder() {
                   when you're ready.
                 </div>
               </div>
+              <div className="mt-3">
+                <ProgramChangesPanel program={program} fields={fields} />
+              </div>
             </div>
           );
         }
@@ -1397,10 +1816,24 @@ export default function OrgProgramBuilder() {
                 </h2>
               </div>
 
+              {!isSuperAdmin && (
+                <BuilderHistoryBar
+                  canUndo={history.canUndo}
+                  canRedo={history.canRedo}
+                  onUndo={history.undo}
+                  onRedo={history.redo}
+                  checkpoints={listCheckpoints(program)}
+                  onSaveCheckpoint={handleSaveCheckpoint}
+                  onRestoreCheckpoint={(cp) => setFields(cp.fields)}
+                  onDeleteCheckpoint={handleDeleteCheckpoint}
+                  disabled={isDisabled}
+                />
+              )}
+
               {/* Field Type Selection Section */}
               {!isSuperAdmin && (
                 <div className="bg-white rounded-lg p-3 mb-4 shadow-sm border">
-                  <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-2">
+                  <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-7 gap-2">
                     <button
                       onClick={() => addField("short_text")}
                       className="flex items-center justify-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-300 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 w-full"
@@ -1461,10 +1894,88 @@ export default function OrgProgramBuilder() {
                         File Upload
                       </span>
                     </button>
+                    <button
+                      onClick={() => addField("number")}
+                      className="flex items-center justify-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-300 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 w-full"
+                      disabled={isDisabled}
+                    >
+                      <div className="text-lg">🔢</div>
+                      <span className="text-xs font-medium text-gray-700">
+                        Number
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => addField("email")}
+                      className="flex items-center justify-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-300 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 w-full"
+                      disabled={isDisabled}
+                    >
+                      <div className="text-lg">✉️</div>
+                      <span className="text-xs font-medium text-gray-700">
+                        Email
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => addField("phone")}
+                      className="flex items-center justify-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-300 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 w-full"
+                      disabled={isDisabled}
+                    >
+                      <div className="text-lg">📞</div>
+                      <span className="text-xs font-medium text-gray-700">
+                        Phone
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => addField("url")}
+                      className="flex items-center justify-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-300 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 w-full"
+                      disabled={isDisabled}
+                    >
+                      <div className="text-lg">🔗</div>
+                      <span className="text-xs font-medium text-gray-700">
+                        URL
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => addField("multi_select")}
+                      className="flex items-center justify-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-300 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 w-full"
+                      disabled={isDisabled}
+                    >
+                      <div className="text-lg">✅</div>
+                      <span className="text-xs font-medium text-gray-700">
+                        Multi-Select
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => addField("ranking")}
+                      className="flex items-center justify-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-300 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 w-full"
+                      disabled={isDisabled}
+                    >
+                      <div className="text-lg">🏆</div>
+                      <span className="text-xs font-medium text-gray-700">
+                        Ranking
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => addField("section")}
+                      className="flex items-center justify-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-300 hover:shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 w-full"
+                      disabled={isDisabled}
+                    >
+                      <div className="text-lg">📑</div>
+                      <span className="text-xs font-medium text-gray-700">
+                        Section Break
+                      </span>
+                    </button>
                   </div>
                 </div>
               )}
 
+              <QuestionBankPanel
+                orgId={program?.organization_id}
+                fields={fields}
+                disabled={isDisabled}
+                onInsert={handleInsertFromBank}
+                refreshToken={bankRefresh}
+              />
+
               {/* Configured Questions Section */}
               <div className="bg-white rounded-lg p-6 shadow-sm border">
                 <div className="flex items-center justify-between mb-6">
@@ -1474,9 +1985,26 @@ export default function OrgProgramBuilder() {
                       Your Questions
                     </h3>
                   </div>
-                  <div className="bg-blue-50 text-blue-700 px-3 py-1 rounded-full text-sm font-medium">
-                    {fields.length} question{fields.length !== 1 ? "s" : ""}{" "}
-                    added
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={handleExportForm}
+                      className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-full hover:bg-gray-50"
+                      title="Download this form as JSON"
+                    >
+                      ⬇️ Export
+                    </button>
+                    <button
+                      onClick={() => setShowImport(true)}
+                      disabled={isDisabled}
+                      className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-full hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      title="Load a form exported from another program"
+                    >
+                      ⬆️ Import
+                    </button>
+                    <div className="bg-blue-50 text-blue-700 px-3 py-1 rounded-full text-sm font-medium">
+                      {fields.length} question{fields.length !== 1 ? "s" : ""}{" "}
+                      added
+                    </div>
                   </div>
                 </div>
 
@@ -1508,9 +2036,11 @@ export default function OrgProgramBuilder() {
                             key={field.key || `field-${idx}`}
                             field={field}
                             idx={idx}
+                            precedingFields={fields.slice(0, idx)}
                             isDisabled={isDisabled}
                             onUpdateField={handleUpdateField}
                             onRemoveField={handleRemoveField}
+                            onSaveToBank={handleSaveToBank}
                           />
                         ))}
                       </div>
@@ -1545,7 +2075,7 @@ export default function OrgProgramBuilder() {
                     <>
                       <button
                         disabled={saving || isDisabled}
-                        onClick={onSave}
+                        onClick={() => onSave()}
                         className="flex items-center gap-2 px-6 py-3 rounded-xl bg-indigo-600 text-white hover:bg-indigo-700 hover:shadow-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-medium"
                       >
                         <span className="text-lg">{saving ? "⏳" : "💾"}</span>
@@ -1580,13 +2110,27 @@ export default function OrgProgramBuilder() {
             {/* Spacer to match the <br /> spacing from the main content */}
             <div style={{ height: "24px" }}></div>
             <div className="sticky space-y-4" style={{ top: "24px" }}>
-              {program && <ProgramReviewerFormCard programId={program.id} />}
+              {program && (
+                <ProgramReviewerFormCard
+                  key={reviewFormVersion}
+                  programId={program.id}
+                  fields={fields}
+                />
+              )}
               {program && <ShareLinkBox programId={program.id} />}
             </div>
           </div>
         </div>
       </div>
 
+      <FormImportModal
+        open={showImport}
+        onClose={() => setShowImport(false)}
+        currentFields={fields}
+        organizationId={program?.organization_id}
+        onImport={handleImportForm}
+      />
+
       <ApplicationPreview
         fields={fields}
         program={program as any}
@@ -0,0 +1,357 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams, useLocation } from "react-router-dom";
+import { supabase } from "../../lib/supabase";
+import OrgAdminSidebar from "../../components/OrgAdminSidebar";
+import OrgLogo from "../../components/OrgLogo";
+import ReviewScheduleCard from "../../components/ReviewScheduleCard";
+import ReviewBurndownChart from "../../components/review/ReviewBurndownChart";
+import { getOrgBySlug } from "../../lib/orgs";
+import {
+  BurndownPoint,
+  ReviewerProgress,
+  getReviewBurndown,
+  getReviewDeadline,
+  getReviewProgress,
+  sendReviewReminders,
+} from "../../lib/reviewProgress";
+
+export default function OrgReviewProgress() {
+  const { orgSlug } = useParams<{ orgSlug: string }>();
+  const location = useLocation();
+  const [orgName, setOrgName] = useState<string | null>(null);
+  const [orgLogoUrl, setOrgLogoUrl] = useState<string | null>(null);
+  const [programs, setPrograms] = useState<
+    { id: string; name: string; metadata: any }[]
+  >([]);
+  const [programId, setProgramId] = useState("");
+  const [progress, setProgress] = useState<ReviewerProgress[]>([]);
+  const [burndown, setBurndown] = useState<BurndownPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingProgress, setLoadingProgress] = useState(false);
+  const [reminding, setReminding] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      if (!orgSlug) return;
+      try {
+        setLoading(true);
+        const org = await getOrgBySlug(orgSlug);
+        if (!org) return;
+        setOrgName(org.name);
+        setOrgLogoUrl(org.logo_url || null);
+
+        const { data, error } = await supabase
+          .from("programs")
+          .select("id, name, metadata")
+          .eq("organization_id", org.id)
+          .is("deleted_at", null)
+          .order("name");
+        if (error) throw error;
+        setPrograms(data || []);
+        if (data && data.length > 0) setProgramId(data[0].id);
+      } catch (err) {
+        console.error("Error loading programs:", err);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [orgSlug]);
+
+  const loadProgress = useCallback(async () => {
+    if (!programId) return;
+    try {
+      setLoadingProgress(true);
+      const [rows, points] = await Promise.all([
+        getReviewProgress(programId),
+        getReviewBurndown(programId),
+      ]);
+      setProgress(rows);
+      setBurndown(points);
+    } catch (err) {
+      console.error("Error loading review progress:", err);
+    } finally {
+      setLoadingProgress(false);
+    }
+  }, [programId]);
+
+  useEffect(() => {
+    loadProgress();
+  }, [loadProgress]);
+
+  // The card saves to program metadata; pick up the new deadline here too
+  const handleScheduleSaved = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("programs")
+      .select("id, name, metadata")
+      .eq("id", programId)
+      .single();
+    if (!error && data) {
+      setPrograms((prev) => prev.map((p) => (p.id === data.id ? data : p)));
+    }
+    loadProgress();
+  }, [programId, loadProgress]);
+
+  const deadline = getReviewDeadline(programs.find((p) => p.id === programId));
+  const pastDeadline = !!deadline && new Date(deadline) < new Date();
+
+  const totals = useMemo(
+    () =>
+      progress.reduce(
+        (acc, r) => ({
+          assigned: acc.assigned + r.assigned,
+          finalized: acc.finalized + r.finalized,
+          pending: acc.pending + r.pending,
+          lagging: acc.lagging + (r.pending > 0 ? 1 : 0),
+        }),
+        { assigned: 0, finalized: 0, pending: 0, lagging: 0 }
+      ),
+    [progress]
+  );
+
+  async function handleRemind(reviewerIds?: string[]) {
+    if (!programId) return;
+    if (
+      !reviewerIds &&
+      !confirm(
+        `Send a reminder to ${totals.lagging} reviewer${
+          totals.lagging !== 1 ? "s" : ""
+        } with pending reviews?`
+      )
+    ) {
+      return;
+    }
+    try {
+      setReminding(reviewerIds?.[0] ?? "all");
+      const sent = await sendReviewReminders(programId, reviewerIds);
+      alert(
+        sent === 0
+          ? "Nobody needed a reminder."
+          : `Reminder sent to ${sent} reviewer${sent !== 1 ? "s" : ""}.`
+      );
+      loadProgress();
+    } catch (err: any) {
+      console.error("Error sending reminders:", err);
+      alert(`Failed to send reminders: ${err.message}`);
+    } finally {
+      setReminding(null);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex">
+      <OrgAdminSidebar currentPath={location.pathname} />
+      <div className="flex-1 flex flex-col">
+        <div className="bg-white border-b border-gray-200">
+          <div className="px-8 py-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-semibold text-gray-900">
+                  {orgName ? `${orgName} - Review Progress` : "Review Progress"}
+                </h1>
+                <p className="mt-1 text-sm text-gray-500">
+                  Track reviewers against the review deadline and nudge the ones
+                  falling behind
+                </p>
+              </div>
+              {orgLogoUrl && orgName && (
+                <OrgLogo
+                  logoUrl={orgLogoUrl}
+                  orgName={orgName}
+                  size="lg"
+                  className="flex-shrink-0 scale-[1.15]"
+                />
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <div className="max-w-7xl mx-auto px-8 py-8 space-y-6">
+            {loading ? (
+              <div className="text-gray-600">Loading programs...</div>
+            ) : programs.length === 0 ? (
+              <div className="bg-white border border-gray-200 rounded-lg p-8 text-center text-gray-600">
+                No programs yet.
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center gap-3">
+                  <label className="text-sm font-medium text-gray-700">
+                    Program
+                  </label>
+                  <select
+                    value={programId}
+                    onChange={(e) => setProgramId(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    {programs.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <ReviewScheduleCard
+                  key={programId}
+                  programId={programId}
+                  onSaved={handleScheduleSaved}
+                />
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="bg-white rounded-lg border border-gray-200 p-4">
+                    <div className="text-xs text-gray-500">Deadline</div>
+                    <div
+                      className={`text-lg font-semibold ${
+                        pastDeadline ? "text-red-600" : "text-gray-900"
+                      }`}
+                    >
+                      {deadline
+                        ? new Date(deadline).toLocaleString()
+                        : "Not set"}
+                    </div>
+                  </div>
+                  <div className="bg-white rounded-lg border border-gray-200 p-4">
+                    <div className="text-xs text-gray-500">
+                      Finalized reviews
+                    </div>
+                    <div className="text-lg font-semibold text-gray-900">
+                      {totals.finalized}
+                    </div>
+                  </div>
+                  <div className="bg-white rounded-lg border border-gray-200 p-4">
+                    <div className="text-xs text-gray-500">Pending reviews</div>
+                    <div
+                      className={`text-lg font-semibold ${
+                        pastDeadline && totals.pending > 0
+                          ? "text-red-600"
+                          : "text-gray-900"
+                      }`}
+                    >
+                      {totals.pending}
+                    </div>
+                  </div>
+                  <div className="bg-white rounded-lg border border-gray-200 p-4">
+                    <div className="text-xs text-gray-500">
+                      Reviewers behind
+                    </div>
+                    <div className="text-lg font-semibold text-gray-900">
+                      {totals.lagging} / {progress.length}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="bg-white rounded-lg border border-gray-200 p-6">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                    📉 Burndown
+                  </h2>
+                  <ReviewBurndownChart points={burndown} deadline={deadline} />
+                </div>
+
+                <div className="bg-white rounded-lg border border-gray-200">
+                  <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                    <h2 className="text-lg font-semibold text-gray-900">
+                      Reviewers
+                    </h2>
+                    <button
+                      onClick={() => handleRemind()}
+                      disabled={totals.lagging === 0 || reminding !== null}
+                      className="px-3 py-1.5 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm font-medium disabled:opacity-50"
+                    >
+                      {reminding === "all"
+                        ? "Sending..."
+                        : "🔔 Remind all behind"}
+                    </button>
+                  </div>
+                  {loadingProgress ? (
+                    <div className="p-6 text-sm text-gray-500">
+                      Loading progress...
+                    </div>
+                  ) : progress.length === 0 ? (
+                    <div className="p-6 text-sm text-gray-500">
+                      No reviewers are assigned to or reviewing this program
+                      yet.
+                    </div>
+                  ) : (
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Reviewer
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Assigned
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Drafted
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Finalized
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Pending
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Last reminded
+                          </th>
+                          <th className="px-6 py-3" />
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {progress.map((r) => (
+                          <tr key={r.reviewer_id}>
+                            <td className="px-6 py-3 text-sm text-gray-900">
+                              {r.reviewer_name ?? "Unknown reviewer"}
+                            </td>
+                            <td className="px-6 py-3 text-sm text-right text-gray-700">
+                              {r.assigned}
+                            </td>
+                            <td className="px-6 py-3 text-sm text-right text-gray-700">
+                              {r.drafted}
+                            </td>
+                            <td className="px-6 py-3 text-sm text-right text-gray-700">
+                              {r.finalized}
+                            </td>
+                            <td className="px-6 py-3 text-sm text-right">
+                              {r.overdue > 0 ? (
+                                <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-800 font-medium">
+                                  {r.overdue} overdue
+                                </span>
+                              ) : (
+                                <span className="text-gray-700">
+                                  {r.pending}
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-6 py-3 text-sm text-gray-500">
+                              {r.last_reminded_at
+                                ? new Date(r.last_reminded_at).toLocaleString()
+                                : "—"}
+                            </td>
+                            <td className="px-6 py-3 text-right">
+                              {r.pending > 0 && (
+                                <button
+                                  onClick={() => handleRemind([r.reviewer_id])}
+                                  disabled={reminding !== null}
+                                  className="text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                                >
+                                  {reminding === r.reviewer_id
+                                    ? "Sending..."
+                                    : "Remind"}
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,12 @@
 import { useEffect, useMemo, useState } from "react";
 import { useParams, Link } from "react-router-dom";
 import { supabase } from "../../lib/supabase";
+import { schedulePublication } from "../../lib/scheduledPublications";
+import ScheduledPublicationsPanel from "../../components/ScheduledPublicationsPanel";
+import DecisionLettersEditor from "../../components/DecisionLettersEditor";
+import WaitlistPromotionPanel from "../../components/WaitlistPromotionPanel";
+import AcceptanceChecklistPanel from "../../components/AcceptanceChecklistPanel";
+import { getOrgBySlug } from "../../lib/orgs";
 
 type Row = {
   application_id: string;
@@ -34,6 +40,9 @@ export default function PublishResultsPage() {
   const [loading, setLoading] = useState(true);
   const [onlyUnpublished, setOnlyUnpublished] = useState(true);
   const [programName, setProgramName] = useState<string>("");
+  const [orgName, setOrgName] = useState<string>("");
+  // Decisions the review form offers, so letters can be written up front
+  const [formDecisions, setFormDecisions] = useState<string[]>([]);
   const [visibility, setVisibility] = useState<Visibility>({
     decision: true,
     score: false,
@@ -49,6 +58,8 @@ export default function PublishResultsPage() {
   // Spot claiming settings
   const [claimingEnabled, setClaimingEnabled] = useState<boolean>(false);
   const [claimableDecision, setClaimableDecision] = useState<string>("");
+  // Hours before the claim deadline to remind applicants, e.g. "72, 24"
+  const [reminderHours, setReminderHours] = useState<string>("72, 24");
 
   // Modal for deadline input when publishing
   const [showDeadlineModal, setShowDeadlineModal] = useState<boolean>(false);
@@ -57,6 +68,13 @@ export default function PublishResultsPage() {
   >(null);
   const [publishDeadline, setPublishDeadline] = useState<string>("");
 
+  // Modal for scheduling a release at a future time
+  const [showScheduleModal, setShowScheduleModal] = useState<boolean>(false);
+  const [schedulePublishAt, setSchedulePublishAt] = useState<string>("");
+  const [scheduleDeadline, setScheduleDeadline] = useState<string>("");
+  const [scheduling, setScheduling] = useState<boolean>(false);
+  const [scheduledRefreshKey, setScheduledRefreshKey] = useState<number>(0);
+
   // Modal for updating existing publications without deadlines
   const [showExistingPublicationsModal, setShowExistingPublicationsModal] =
     useState<boolean>(false);
@@ -84,6 +102,7 @@ export default function PublishResultsPage() {
     claim_deadline: string | null;
     spot_claimed_at: string | null;
     spot_declined_at: string | null;
+    spot_expired_at: string | null;
     decision: string | null;
     any_publication_claimed_at: string | null;
     any_publication_declined_at: string | null;
@@ -116,10 +135,14 @@ export default function PublishResultsPage() {
             customMessage: null,
           }));
 
+          setFormDecisions(prg.metadata?.review_form?.decision_options || []);
+
           // Load claiming settings
           const claiming = prg.metadata?.spotClaiming || {};
           setClaimingEnabled(claiming.enabled || false);
           setClaimableDecision(claiming.claimableDecision || "");
+          if (Array.isArray(claiming.reminderHours))
+            setReminderHours(claiming.reminderHours.join(", "));
         }
       } catch (error) {
         console.error("Failed to load program metadata:", error);
@@ -127,6 +150,13 @@ export default function PublishResultsPage() {
     })();
   }, [programId]);
 
+  useEffect(() => {
+    if (!orgSlug) return;
+    getOrgBySlug(orgSlug)
+      .then((org) => setOrgName(org?.name || ""))
+      .catch((error) => console.error("Failed to load organization:", error));
+  }, [orgSlug]);
+
   // Load all publications (only for claimable decision)
   const loadPublications = async () => {
     if (!programId || !claimableDecision) {
@@ -311,6 +341,57 @@ export default function PublishResultsPage() {
   // Toolbar state helpers
   const isFiltered = useMemo(() => decisionFilter !== "all", [decisionFilter]);
 
+  // A scheduled batch covers the same applications the publish button would
+  const scheduleRows = useMemo(() => {
+    if (selectedIds.length > 0)
+      return allRows.filter((r) => selected[r.application_id]);
+    if (isFiltered) return [];
+    return onlyUnpublished
+      ? allRows.filter((r) => !r.already_published)
+      : allRows;
+  }, [allRows, selected, selectedIds, isFiltered, onlyUnpublished]);
+
+  const scheduleHasClaimable =
+    claimingEnabled &&
+    !!claimableDecision &&
+    scheduleRows.some(
+      (r) =>
+        (r.decision ?? "").toLowerCase() === claimableDecision.toLowerCase()
+    );
+
+  const letterDecisions = useMemo(() => {
+    const seen = new Map<string, string>();
+    const base =
+      formDecisions.length > 0
+        ? formDecisions
+        : ["accept", "waitlist", "reject"];
+    for (const d of [...base, ...decisionOptions]) {
+      if (!seen.has(d.toLowerCase())) seen.set(d.toLowerCase(), d);
+    }
+    return Array.from(seen.values());
+  }, [formDecisions, decisionOptions]);
+
+  const letterSample = useMemo(() => {
+    const sample = allRows[0];
+    return {
+      applicant_name: sample?.applicant_name ?? "Jane Doe",
+      program_name: programName,
+      org_name: orgName,
+      score: sample?.score ?? null,
+      reviewer_comments: sample?.comments ?? null,
+      claim_deadline: "(claim deadline)",
+      spots: spotsCount,
+    };
+  }, [allRows, programName, orgName, spotsCount]);
+
+  const applicantNames = useMemo(
+    () =>
+      Object.fromEntries(
+        allRows.map((r) => [r.application_id, r.applicant_name])
+      ),
+    [allRows]
+  );
+
   const publishAll = async () => {
     await handlePublishClick("all");
   };
@@ -320,6 +401,53 @@ export default function PublishResultsPage() {
     await handlePublishClick("selected");
   };
 
+  const closeScheduleModal = () => {
+    setShowScheduleModal(false);
+    setSchedulePublishAt("");
+    setScheduleDeadline("");
+  };
+
+  const handleScheduleConfirm = async () => {
+    if (!programId || scheduleRows.length === 0) return;
+    if (!schedulePublishAt || new Date(schedulePublishAt) <= new Date()) {
+      alert("Choose a release time in the future.");
+      return;
+    }
+    if (
+      scheduleDeadline &&
+      new Date(scheduleDeadline) <= new Date(schedulePublishAt)
+    ) {
+      alert("The claim deadline must be after the release time.");
+      return;
+    }
+
+    setScheduling(true);
+    try {
+      await schedulePublication({
+        programId,
+        applicationIds: scheduleRows.map((r) => r.application_id),
+        visibility,
+        claimDeadline: scheduleHasClaimable
+          ? toISOString(scheduleDeadline)
+          : null,
+        publishAt: toISOString(schedulePublishAt)!,
+      });
+      alert(
+        `Scheduled ${scheduleRows.length} result(s) for ${new Date(
+          schedulePublishAt
+        ).toLocaleString()}.`
+      );
+      setSelected({});
+      setScheduledRefreshKey((k) => k + 1);
+      closeScheduleModal();
+    } catch (error: any) {
+      console.error("Error scheduling publication:", error);
+      alert(error.message || "Failed to schedule publication");
+    } finally {
+      setScheduling(false);
+    }
+  };
+
   const handleDeadlineModalConfirm = async () => {
     if (pendingPublishAction) {
       await confirmPublish(pendingPublishAction, publishDeadline || null);
@@ -411,6 +539,14 @@ export default function PublishResultsPage() {
       enabled: claimingEnabled,
       claimableDecision: claimableDecision,
       allowDecline: true, // Always allow decline responses
+      reminderHours: Array.from(
+        new Set(
+          reminderHours
+            .split(",")
+            .map((h) => parseInt(h.trim(), 10))
+            .filter((h) => h > 0)
+        )
+      ).sort((a, b) => b - a),
     };
 
     const { error } = await supabase
@@ -607,6 +743,7 @@ export default function PublishResultsPage() {
             onClick={() => {
               load();
               loadPublications();
+              setScheduledRefreshKey((k) => k + 1);
             }}
             className="px-4 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors flex items-center gap-2"
             title="Refresh data"
@@ -637,6 +774,13 @@ export default function PublishResultsPage() {
 
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-4 md:gap-8">
         <div className="lg:col-span-3 space-y-4 md:space-y-6">
+          {programId && (
+            <ScheduledPublicationsPanel
+              programId={programId}
+              applicantNames={applicantNames}
+              refreshKey={scheduledRefreshKey}
+            />
+          )}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 md:p-6">
             <div className="mb-4 md:mb-6 space-y-3">
               <h2 className="text-lg md:text-xl font-semibold text-gray-900">
@@ -747,6 +891,14 @@ export default function PublishResultsPage() {
                       )}
                     </button>
                   )}
+                  <button
+                    onClick={() => setShowScheduleModal(true)}
+                    disabled={loading || scheduleRows.length === 0}
+                    className="inline-flex items-center px-3 md:px-4 py-2 border border-gray-300 text-xs md:text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                    title="Release these results automatically at a set time"
+                  >
+                    🕘 Schedule
+                  </button>
                 </div>
               </div>
             </div>
@@ -928,6 +1080,14 @@ export default function PublishResultsPage() {
             )}
           </div>
 
+          {programId && (
+            <DecisionLettersEditor
+              programId={programId}
+              decisions={letterDecisions}
+              sampleFields={letterSample}
+            />
+          )}
+
           {/* Spot Claiming Status */}
           {claimingEnabled && claimableDecision && (
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 md:p-6">
@@ -1109,12 +1269,23 @@ export default function PublishResultsPage() {
                                     </span>
                                   );
                                 } else if (
-                                  pub.claim_deadline &&
-                                  new Date(pub.claim_deadline) < new Date()
+                                  pub.spot_expired_at ||
+                                  (pub.claim_deadline &&
+                                    new Date(pub.claim_deadline) < new Date())
                                 ) {
+                                  // The expiry job sets spot_expired_at within a few minutes of the deadline
                                   return (
-                                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
-                                      Missed
+                                    <span
+                                      className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800"
+                                      title={
+                                        pub.spot_expired_at
+                                          ? `Expired ${new Date(
+                                              pub.spot_expired_at
+                                            ).toLocaleString()}`
+                                          : "Deadline passed"
+                                      }
+                                    >
+                                      Expired
                                     </span>
                                   );
                                 } else {
@@ -1135,6 +1306,26 @@ export default function PublishResultsPage() {
               </div>
             </div>
           )}
+
+          {programId && claimingEnabled && claimableDecision && (
+            <WaitlistPromotionPanel
+              programId={programId}
+              claimableDecision={claimableDecision}
+              decisions={letterDecisions}
+              onPromoted={() => {
+                load();
+                loadPublications();
+              }}
+            />
+          )}
+
+          {programId && claimingEnabled && claimableDecision && (
+            <AcceptanceChecklistPanel
+              programId={programId}
+              programName={programName}
+              refreshKey={scheduledRefreshKey}
+            />
+          )}
         </div>
 
         <aside className="space-y-6">
@@ -1239,6 +1430,23 @@ export default function PublishResultsPage() {
                       </select>
                     </div>
 
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Remind applicants (hours before deadline)
+                      </label>
+                      <input
+                        type="text"
+                        value={reminderHours}
+                        onChange={(e) => setReminderHours(e.target.value)}
+                        placeholder="72, 24"
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">
+                        Applicants who haven't claimed or declined get a
+                        reminder at each of these. Leave empty for none.
+                      </p>
+                    </div>
+
                     <button
                       onClick={saveClaimingSettings}
                       className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
@@ -1300,6 +1508,68 @@ export default function PublishResultsPage() {
         </div>
       )}
 
+      {/* Schedule Modal */}
+      {showScheduleModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Schedule Release
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              {scheduleRows.length} result(s) will be published automatically
+              with the current visibility settings. Applicants are notified at
+              release time.
+            </p>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Release at
+              </label>
+              <input
+                type="datetime-local"
+                value={schedulePublishAt}
+                onChange={(e) => setSchedulePublishAt(e.target.value)}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                In your local time (
+                {Intl.DateTimeFormat().resolvedOptions().timeZone})
+              </p>
+            </div>
+            {scheduleHasClaimable && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Claim deadline for "{claimableDecision}" (optional)
+                </label>
+                <input
+                  type="datetime-local"
+                  value={scheduleDeadline}
+                  onChange={(e) => setScheduleDeadline(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Leave empty to keep claiming open until spots are full
+                </p>
+              </div>
+            )}
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={closeScheduleModal}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleScheduleConfirm}
+                disabled={scheduling}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {scheduling ? "Scheduling..." : "Schedule"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Existing Publications Deadline Modal */}
       {showExistingPublicationsModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
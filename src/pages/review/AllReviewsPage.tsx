@@ -11,6 +11,8 @@ import {
   createRpcKey,
 } from "../../lib/requestDeduplication";
 import type { ReviewsListRow } from "../../types/reviews";
+import RubricBreakdown from "../../components/review/RubricBreakdown";
+import { saveReviewQueueFromRows } from "../../lib/reviewQueue";
 
 export default function AllReviewsPage() {
   const [allRows, setAllRows] = useState<ReviewsListRow[]>([]);
@@ -338,6 +340,11 @@ export default function AllReviewsPage() {
     return colors[colorIndex];
   };
 
+  // Blind-review programs get an anonymous code from the server instead of
+  // the applicant's name
+  const applicantLabel = (row: ReviewsListRow) =>
+    row.applicant_name ?? row.applicant_id;
+
   // Filter rows based on search term, program selection, and user's assigned programs
   const filteredRows = useMemo(() => {
     let filtered = allRows;
@@ -373,9 +380,7 @@ export default function AllReviewsPage() {
       filtered = filtered.filter(
         (row) =>
           row.program_name.toLowerCase().includes(term) ||
-          (row.applicant_name &&
-            row.applicant_name.toLowerCase().includes(term)) ||
-          (row.applicant_id && row.applicant_id.toLowerCase().includes(term)) ||
+          (applicantLabel(row) ?? "").toLowerCase().includes(term) ||
           (row.reviewer_name && row.reviewer_name.toLowerCase().includes(term))
       );
     }
@@ -591,7 +596,7 @@ export default function AllReviewsPage() {
                         {r.program_name}
                       </td>
                       <td className="p-4 text-sm text-gray-700">
-                        {r.applicant_name ?? r.applicant_id}
+                        {applicantLabel(r)}
                       </td>
                       <td
                         className="p-4 text-sm text-gray-700"
@@ -616,6 +621,10 @@ export default function AllReviewsPage() {
                       </td>
                       <td className="p-4 text-gray-700 font-medium">
                         {r.score ?? "—"}
+                        <RubricBreakdown
+                          rubric={programFormConfigs[r.program_id]?.rubric}
+                          ratings={r.ratings}
+                        />
                       </td>
                       <td className="p-4">
                         {programFormConfigs[r.program_id]?.show_decision ? (
@@ -644,6 +653,13 @@ export default function AllReviewsPage() {
                       <td className="p-4">
                         <Link
                           to={`/review/app/${r.application_id}`}
+                          onClick={() =>
+                            saveReviewQueueFromRows(
+                              "All Reviews",
+                              "/review/all",
+                              filteredRows
+                            )
+                          }
                           className="inline-flex items-center justify-center px-3 py-2 text-sm font-semibold rounded-lg bg-gradient-to-r from-indigo-600 to-indigo-700 text-white shadow-lg hover:from-indigo-700 hover:to-indigo-800 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 transition-all duration-200 transform hover:scale-105"
                           title="Open review"
                         >
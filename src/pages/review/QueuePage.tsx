@@ -1,9 +1,24 @@
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useMemo } from "react";
 import { Link, useParams } from "react-router-dom";
 import { supabase } from "../../lib/supabase";
 import { ReviewsListRow } from "../../types/reviews";
 import { getProgramReviewForm } from "../../lib/api";
 import { useCapabilities } from "../../lib/capabilities";
+import { useAuth } from "../../auth/AuthProvider";
+import {
+  getAssignmentPolicy,
+  listMyAssignedApplicationIds,
+} from "../../lib/reviewAssignments";
+import {
+  declareConflict,
+  listMyConflictedApplicationIds,
+} from "../../lib/reviewConflicts";
+import RubricBreakdown from "../../components/review/RubricBreakdown";
+import { saveReviewQueueFromRows } from "../../lib/reviewQueue";
+import {
+  getReviewDeadline,
+  markReviewRemindersRead,
+} from "../../lib/reviewProgress";
 import {
   deduplicateRequest,
   createRpcKey,
@@ -14,10 +29,17 @@ export default function ReviewQueuePage() {
   const [allRows, setAllRows] = useState<ReviewsListRow[]>([]);
   const [programName, setProgramName] = useState<string>("Program");
   const [orgSlug, setOrgSlug] = useState<string | null>(null);
+  const [orgId, setOrgId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
   const [programFormConfig, setProgramFormConfig] = useState<any>(null);
   const { isOrgAdmin } = useCapabilities();
+  const { user } = useAuth();
+  // Null unless the program assigns reviewers automatically
+  const [assignedIds, setAssignedIds] = useState<Set<string> | null>(null);
+  const [showAllApplications, setShowAllApplications] = useState(true);
+  const [conflictedIds, setConflictedIds] = useState<Set<string>>(new Set());
+  const [reviewDeadline, setReviewDeadline] = useState<string | null>(null);
 
   const fetchList = useCallback(async () => {
     if (!programId) return;
@@ -30,7 +52,7 @@ export default function ReviewQueuePage() {
       const [programResult, formConfigResult] = await Promise.allSettled([
         supabase
           .from("programs")
-          .select("name, organization_id, organizations(slug)")
+          .select("name, organization_id, metadata, organizations(slug)")
           .eq("id", programId)
           .single(),
         getProgramReviewForm(programId).catch(() => null),
@@ -49,6 +71,27 @@ export default function ReviewQueuePage() {
         if (org?.slug) {
           setOrgSlug(org.slug);
         }
+        setOrgId(programResult.value.data.organization_id ?? null);
+        setReviewDeadline(getReviewDeadline(programResult.value.data));
+
+        try {
+          setConflictedIds(await listMyConflictedApplicationIds(programId));
+        } catch (error) {
+          console.error("Error loading conflicts:", error);
+        }
+
+        if (getAssignmentPolicy(programResult.value.data).enabled && user) {
+          try {
+            setAssignedIds(
+              await listMyAssignedApplicationIds(programId, user.id)
+            );
+          } catch (error) {
+            console.error("Error loading reviewer assignments:", error);
+            setAssignedIds(new Set());
+          }
+        } else {
+          setAssignedIds(null);
+        }
       }
 
       // Handle form config result
@@ -221,12 +264,56 @@ export default function ReviewQueuePage() {
     }
 
     setLoading(false);
-  }, [programId]);
+  }, [programId, user?.id]);
 
   useEffect(() => {
     fetchList();
   }, [fetchList]);
 
+  // Opening the queue counts as seeing this program's deadline reminders
+  useEffect(() => {
+    if (!programId || !user?.id) return;
+    markReviewRemindersRead(programId, user.id).catch((error) =>
+      console.error("Error marking review reminders as read:", error)
+    );
+  }, [programId, user?.id]);
+
+  async function handleFlagConflict(row: ReviewsListRow) {
+    if (!user || !orgId) return;
+    const reason = prompt(
+      "Why can't you review this applicant fairly? (e.g. they are your student)"
+    );
+    if (reason === null) return;
+    try {
+      await declareConflict({
+        organizationId: orgId,
+        reviewerId: user.id,
+        applicationId: row.application_id,
+        applicantId: row.applicant_id || undefined,
+        reason,
+      });
+      await fetchList();
+    } catch (error: any) {
+      console.error("Error declaring conflict:", error);
+      alert(`Failed to flag conflict: ${error.message}`);
+    }
+  }
+
+  // Reviewers see only their assignments; org admins can look at everything
+  const rows = useMemo(() => {
+    if (!assignedIds || (isOrgAdmin && showAllApplications)) return allRows;
+    return allRows.filter((row) => assignedIds.has(row.application_id));
+  }, [allRows, assignedIds, isOrgAdmin, showAllApplications]);
+
+  // Opening a row starts the sequential workspace over this list, in order
+  const startWorkspace = () =>
+    saveReviewQueueFromRows(
+      programName,
+      `/review/${programId}`,
+      rows,
+      conflictedIds
+    );
+
   // Color mapping for decision options
   const getDecisionColor = (decision: string) => {
     const colorMap: Record<string, { bg: string; text: string }> = {
@@ -283,21 +370,50 @@ export default function ReviewQueuePage() {
   return (
     <div className="mx-auto max-w-6xl p-6">
       <div className="flex items-center justify-between mb-4">
-        <h1 className="text-2xl font-semibold">Review Queue - {programName}</h1>
-        {isOrgAdmin && orgSlug && programId && (
-          <Link
-            to={`/org/${orgSlug}/admin/programs/${programId}/publish`}
-            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium"
-          >
-            Publish Results
-          </Link>
-        )}
+        <div>
+          <h1 className="text-2xl font-semibold">
+            Review Queue - {programName}
+          </h1>
+          {reviewDeadline && (
+            <div
+              className={`mt-1 text-sm ${
+                new Date(reviewDeadline) < new Date()
+                  ? "text-red-600"
+                  : "text-gray-600"
+              }`}
+            >
+              ⏰ Reviews due {new Date(reviewDeadline).toLocaleString()}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-4">
+          {assignedIds && isOrgAdmin && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={showAllApplications}
+                onChange={(e) => setShowAllApplications(e.target.checked)}
+              />
+              Show all applications (admin)
+            </label>
+          )}
+          {isOrgAdmin && orgSlug && programId && (
+            <Link
+              to={`/org/${orgSlug}/admin/programs/${programId}/publish`}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium"
+            >
+              Publish Results
+            </Link>
+          )}
+        </div>
       </div>
 
       <div className="bg-white rounded-lg border overflow-hidden">
-        {allRows.length === 0 ? (
+        {rows.length === 0 ? (
           <div className="p-6 text-sm text-gray-500">
-            No submitted applications yet.
+            {assignedIds && allRows.length > 0
+              ? "No applications are assigned to you yet."
+              : "No submitted applications yet."}
           </div>
         ) : (
           <div className="overflow-x-auto">
@@ -328,7 +444,7 @@ export default function ReviewQueuePage() {
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {allRows.map((row) => (
+                {rows.map((row) => (
                   <tr key={row.review_id} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {row.submitted_at
@@ -359,7 +475,11 @@ export default function ReviewQueuePage() {
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {row.score || "—"}
+                      {row.score ?? "—"}
+                      <RubricBreakdown
+                        rubric={programFormConfig?.rubric}
+                        ratings={row.ratings}
+                      />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {programFormConfig?.show_decision ? (
@@ -386,12 +506,30 @@ export default function ReviewQueuePage() {
                       )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                      <Link
-                        to={`/review/app/${row.application_id}`}
-                        className="text-blue-600 hover:text-blue-900"
-                      >
-                        Open
-                      </Link>
+                      {conflictedIds.has(row.application_id) ? (
+                        <span
+                          className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-orange-100 text-orange-800"
+                          title="You declared a conflict of interest"
+                        >
+                          ⚠️ Conflict
+                        </span>
+                      ) : (
+                        <div className="flex items-center gap-3">
+                          <Link
+                            to={`/review/app/${row.application_id}`}
+                            onClick={startWorkspace}
+                            className="text-blue-600 hover:text-blue-900"
+                          >
+                            Open
+                          </Link>
+                          <button
+                            onClick={() => handleFlagConflict(row)}
+                            className="text-xs text-gray-500 hover:text-orange-700"
+                          >
+                            Flag conflict
+                          </button>
+                        </div>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -402,7 +540,10 @@ export default function ReviewQueuePage() {
       </div>
 
       <div className="mt-4 text-sm text-gray-500">
-        Showing {allRows.length} applications
+        Showing {rows.length} applications
+        {assignedIds &&
+          !(isOrgAdmin && showAllApplications) &&
+          " assigned to you"}
       </div>
     </div>
   );
@@ -1,6 +1,25 @@
-import { useParams, Link } from "react-router-dom";
+import { useEffect, useRef, useState } from "react";
+import { useParams, Link, useNavigate } from "react-router-dom";
 import { useCollaborativeReview } from "../../hooks/useCollaborativeReview";
 import AnswersViewer from "../../components/review/AnswersViewer";
+import RubricScorer from "../../components/review/RubricScorer";
+import ReviewDiscussionPanel from "../../components/review/ReviewDiscussionPanel";
+import ReviewHistoryPanel from "../../components/review/ReviewHistoryPanel";
+import ReviewWorkspaceBar from "../../components/review/ReviewWorkspaceBar";
+import { getCriterionScores, unscoredCriteria } from "../../utils/rubric";
+import { useCapabilities } from "../../lib/capabilities";
+import { useAuth } from "../../auth/AuthProvider";
+import { declareConflict, hasMyConflict } from "../../lib/reviewConflicts";
+import {
+  IdentityReveal,
+  listIdentityReveals,
+  revealIdentity,
+} from "../../lib/blindReview";
+import {
+  getReviewQueue,
+  markQueueItemDone,
+  prefetchApplication,
+} from "../../lib/reviewQueue";
 
 export default function ReviewAppPage() {
   const { applicationId } = useParams<{ applicationId: string }>();
@@ -12,6 +31,7 @@ export default function ReviewAppPage() {
   const {
     answers,
     review,
+    identity,
     applicationSchema,
     reviewFormConfig,
     program,
@@ -23,8 +43,231 @@ export default function ReviewAppPage() {
     unfinalize,
     setScore,
     setComments,
+    setCriterionScore,
     setDecision,
+    threads,
+    reloadThreads,
   } = useCollaborativeReview(applicationId);
+  const { adminOrgs } = useCapabilities();
+  // Name and full answers returned when an admin reveals the applicant
+  const [revealedIdentity, setRevealedIdentity] = useState<{
+    applicant_name: string;
+    applicant_answers: Record<string, any>;
+  } | null>(null);
+  const [reveals, setReveals] = useState<IdentityReveal[]>([]);
+  const { user } = useAuth();
+  const [conflicted, setConflicted] = useState(false);
+  const navigate = useNavigate();
+  const [queue, setQueue] = useState(() => getReviewQueue());
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [activeCriterion, setActiveCriterion] = useState(0);
+
+  const blind = reviewFormConfig.blind_review;
+  const identityHidden = identity.hidden && !revealedIdentity;
+  const shownAnswers = revealedIdentity?.applicant_answers ?? answers;
+  const applicantName =
+    revealedIdentity?.applicant_name ?? answers?.profile?.full_name;
+  const applicantCode = identity.code ?? "Anonymous applicant";
+  const canReveal =
+    !!program?.organization_id &&
+    (adminOrgs ?? []).some((o) => o.id === program.organization_id);
+
+  useEffect(() => {
+    if (!blind || !canReveal) return;
+    listIdentityReveals(applicationId)
+      .then(setReveals)
+      .catch((err) => console.error("Error loading identity reveals:", err));
+  }, [applicationId, !!blind, canReveal]);
+
+  // The workspace moves between applications without remounting
+  useEffect(() => {
+    setRevealedIdentity(null);
+    setReveals([]);
+    setActiveCriterion(0);
+  }, [applicationId]);
+
+  useEffect(() => {
+    hasMyConflict(applicationId)
+      .then(setConflicted)
+      .catch((err) => console.error("Error checking conflicts:", err));
+  }, [applicationId]);
+
+  const flagConflict = async () => {
+    if (!user || !program?.organization_id) return;
+    const reason = window.prompt(
+      "Why can't you review this applicant fairly? (e.g. they are your student)"
+    );
+    if (reason === null) return;
+    try {
+      await declareConflict({
+        organizationId: program.organization_id,
+        reviewerId: user.id,
+        applicationId,
+        reason,
+      });
+      setConflicted(true);
+    } catch (err: any) {
+      console.error("Error declaring conflict:", err);
+      alert(`Failed to flag conflict: ${err.message}`);
+    }
+  };
+
+  const handleReveal = async () => {
+    if (
+      !window.confirm(
+        "Reveal this applicant's identity? Your name and the time will be recorded in the reveal log."
+      )
+    ) {
+      return;
+    }
+    try {
+      setRevealedIdentity(await revealIdentity(applicationId));
+      setReveals(await listIdentityReveals(applicationId));
+    } catch (err) {
+      console.error("Error revealing identity:", err);
+      alert("Could not reveal identity. Only org admins can do this.");
+    }
+  };
+
+  const rubric = reviewFormConfig.rubric;
+  const criterionScores = getCriterionScores(review.ratings);
+
+  // ---------- Sequential review workspace ----------
+  const position = queue ? queue.ids.indexOf(applicationId) : -1;
+  const inWorkspace = !!queue && position >= 0;
+  const prevId = inWorkspace ? queue.ids[position - 1] : undefined;
+  const nextId = inWorkspace ? queue.ids[position + 1] : undefined;
+  // Like the old workspace prototype's autosave: edits made here (e.g. with
+  // the score keys) are saved as a draft before moving to another application
+  const draftKey = JSON.stringify([
+    review.score ?? null,
+    review.comments ?? "",
+    review.ratings ?? {},
+  ]);
+  const savedDraftKey = useRef<string | null>(null);
+  useEffect(() => {
+    if (!loading) savedDraftKey.current = draftKey;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loading, applicationId, review.updated_at]);
+
+  const goTo = async (id: string | undefined) => {
+    if (!id) return;
+    const unsaved =
+      !loading &&
+      review.status !== "submitted" &&
+      savedDraftKey.current !== null &&
+      draftKey !== savedDraftKey.current;
+    if (unsaved) {
+      const saved = await saveDraft({
+        score: review.score,
+        comments: review.comments,
+        decision: (review as any).decision,
+      });
+      if (
+        !saved &&
+        !window.confirm(
+          "Your draft could not be saved. Leave this application anyway?"
+        )
+      ) {
+        return;
+      }
+    }
+    navigate(`/review/app/${id}`);
+  };
+
+  // Keep the remaining count in step with this application's status
+  useEffect(() => {
+    if (loading || !inWorkspace) return;
+    markQueueItemDone(applicationId, review.status === "submitted");
+    setQueue(getReviewQueue());
+  }, [applicationId, loading, inWorkspace, review.status]);
+
+  useEffect(() => {
+    if (loading || !nextId) return;
+    prefetchApplication(nextId).catch((err) =>
+      console.warn("Could not prefetch next application:", err)
+    );
+  }, [loading, nextId]);
+
+  const finalize = async () => {
+    if (reviewFormConfig.show_score && rubric.length > 0) {
+      const missing = unscoredCriteria(rubric, criterionScores);
+      if (missing.length > 0) {
+        alert(
+          `Please score every criterion before finalizing. Missing: ${missing
+            .map((c) => c.name)
+            .join(", ")}`
+        );
+        return;
+      }
+    }
+    const ok = await submit({
+      score: review.score,
+      comments: review.comments,
+      decision: (review as any).decision,
+    });
+    if (ok && inWorkspace) {
+      markQueueItemDone(applicationId);
+      const latest = getReviewQueue() ?? queue;
+      const next = latest.ids
+        .slice(position + 1)
+        .find((id) => !latest.done.includes(id));
+      // Just finalized, so there is nothing left to save
+      if (next) navigate(`/review/app/${next}`);
+    }
+  };
+
+  // Keyboard shortcuts (ignored while typing)
+  useEffect(() => {
+    if (!inWorkspace) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (
+        e.metaKey ||
+        e.ctrlKey ||
+        e.altKey ||
+        ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) ||
+        target.isContentEditable
+      ) {
+        return;
+      }
+      const locked = loading || review.status === "submitted";
+      const key = e.key;
+
+      if (key === "j" || key === "ArrowRight") goTo(nextId);
+      else if (key === "k" || key === "ArrowLeft") goTo(prevId);
+      else if (key === "?") setShowShortcuts((v) => !v);
+      else if (locked) return;
+      else if (/^[0-9]$/.test(key) && reviewFormConfig.show_score) {
+        const value = key === "0" ? 10 : Number(key);
+        const criterion = rubric[activeCriterion];
+        if (criterion) {
+          if (value < criterion.min || value > criterion.max) return;
+          setCriterionScore(criterion.id, value);
+          setActiveCriterion((i) => Math.min(i + 1, rubric.length - 1));
+        } else if (rubric.length === 0) {
+          setScore(value);
+        }
+      } else if (key === "[") setActiveCriterion((i) => Math.max(i - 1, 0));
+      else if (key === "]")
+        setActiveCriterion((i) => Math.min(i + 1, rubric.length - 1));
+      else if (key === "d" && reviewFormConfig.show_decision) {
+        const options = reviewFormConfig.decision_options;
+        const current = options.indexOf((review as any).decision);
+        setDecision(options[(current + 1) % options.length] ?? null);
+      } else if (key === "s") {
+        saveDraft({
+          score: review.score,
+          comments: review.comments,
+          decision: (review as any).decision,
+        });
+      } else if (key === "f") finalize();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
 
   if (loading) {
     return (
@@ -37,6 +280,29 @@ export default function ReviewAppPage() {
     );
   }
 
+  if (conflicted || error?.includes("conflict of interest")) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="max-w-md text-center bg-white rounded-lg shadow-sm border border-gray-200 p-8">
+          <div className="text-3xl mb-3">⚠️</div>
+          <h1 className="text-lg font-semibold text-gray-900 mb-2">
+            Conflict of interest declared
+          </h1>
+          <p className="text-sm text-gray-600 mb-6">
+            You can't view or score this application. An org admin can lift the
+            conflict if it was flagged by mistake.
+          </p>
+          <Link
+            to="/review/all"
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            ← Back to All Reviews
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   // Determine display status: draft, commented, or finalized
   const getDisplayStatus = () => {
     if (review.status === "submitted") {
@@ -49,9 +315,19 @@ export default function ReviewAppPage() {
   };
 
   const displayStatus = getDisplayStatus();
-
   return (
     <div className="min-h-screen bg-gray-50">
+      {inWorkspace && (
+        <ReviewWorkspaceBar
+          queue={queue}
+          position={position}
+          onPrev={() => goTo(prevId)}
+          onNext={() => goTo(nextId)}
+          showHelp={showShortcuts}
+          onToggleHelp={() => setShowShortcuts((v) => !v)}
+        />
+      )}
+
       {/* Header */}
       <div className="bg-white border-b border-gray-200">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -64,6 +340,43 @@ export default function ReviewAppPage() {
                 Status:{" "}
                 <span className="font-medium capitalize">{displayStatus}</span>
               </p>
+              {blind && (
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-semibold bg-purple-100 text-purple-800">
+                    🙈 Blind review
+                  </span>
+                  <span className="font-medium text-gray-700">
+                    {!identityHidden && applicantName
+                      ? `${applicantName} (${applicantCode})`
+                      : applicantCode}
+                  </span>
+                  {canReveal && identityHidden && (
+                    <button
+                      onClick={handleReveal}
+                      className="px-2 py-1 text-xs text-purple-700 border border-purple-200 rounded hover:bg-purple-50"
+                    >
+                      👁️ Reveal identity
+                    </button>
+                  )}
+                  {canReveal && reveals.length > 0 && (
+                    <span
+                      className="text-xs text-gray-500"
+                      title={reveals
+                        .map(
+                          (r) =>
+                            `${r.revealed_by_name ?? r.revealed_by} · ${new Date(
+                              r.created_at
+                            ).toLocaleString()}`
+                        )
+                        .join("\n")}
+                    >
+                      Revealed {reveals.length} time
+                      {reveals.length !== 1 ? "s" : ""}, last by{" "}
+                      {reveals[0].revealed_by_name ?? "an admin"}
+                    </span>
+                  )}
+                </div>
+              )}
             </div>
             <Link
               to="/review/all"
@@ -87,8 +400,26 @@ export default function ReviewAppPage() {
               </div>
               <AnswersViewer
                 applicationSchema={applicationSchema}
-                answers={answers}
+                answers={shownAnswers}
                 program={program}
+                blind={identityHidden ? blind : null}
+              />
+            </div>
+
+            <div className="mt-6">
+              <ReviewDiscussionPanel
+                applicationId={applicationId}
+                threads={threads}
+                currentUserId={user?.id ?? null}
+                onChanged={reloadThreads}
+              />
+            </div>
+
+            <div className="mt-6">
+              <ReviewHistoryPanel
+                applicationId={applicationId}
+                rubric={rubric}
+                refreshKey={review?.updated_at ?? null}
               />
             </div>
           </div>
@@ -118,7 +449,20 @@ export default function ReviewAppPage() {
               </div>
 
               <div className="space-y-4">
-                {reviewFormConfig.show_score && (
+                {reviewFormConfig.show_score && rubric.length > 0 && (
+                  <RubricScorer
+                    rubric={rubric}
+                    scores={criterionScores}
+                    overall={review.score ?? null}
+                    onScore={setCriterionScore}
+                    disabled={review.status === "submitted"}
+                    activeCriterionId={
+                      inWorkspace ? rubric[activeCriterion]?.id : null
+                    }
+                  />
+                )}
+
+                {reviewFormConfig.show_score && rubric.length === 0 && (
                   <label className="block text-sm">
                     <span className="block mb-2 font-medium">Score</span>
                     <input
@@ -225,13 +569,7 @@ export default function ReviewAppPage() {
                         </button>
                         <button
                           className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
-                          onClick={() =>
-                            submit({
-                              score: review.score,
-                              comments: review.comments,
-                              decision: (review as any).decision,
-                            })
-                          }
+                          onClick={finalize}
                           disabled={saving === "saving"}
                         >
                           finalize
@@ -259,6 +597,13 @@ export default function ReviewAppPage() {
                       <div className="text-xs text-red-600 mt-1">{error}</div>
                     )}
                   </div>
+
+                  <button
+                    onClick={flagConflict}
+                    className="mt-4 w-full text-xs text-gray-500 hover:text-orange-700"
+                  >
+                    ⚠️ Flag conflict of interest
+                  </button>
                 </div>
               </div>
             </div>
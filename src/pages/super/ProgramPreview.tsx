@@ -4,6 +4,7 @@ import { supabase } from "../../lib/supabase";
 import { loadApplicationSchemaById } from "../../lib/schemaLoader";
 import ApplicationPreview from "../../components/ApplicationPreview";
 import AutoLinkText from "../../components/AutoLinkText";
+import ProgramChangesPanel from "../../components/ProgramChangesPanel";
 
 type Program = {
   id: string;
@@ -142,6 +143,10 @@ export default function ProgramPreview() {
           </div>
         </div>
 
+        <div className="mb-6">
+          <ProgramChangesPanel program={program} />
+        </div>
+
         <div className="bg-white rounded-lg shadow">
           <div className="p-6">
             <h2 className="text-lg font-semibold text-gray-900 mb-4">
@@ -11,6 +11,8 @@ import {
 import { supabase } from "../../lib/supabase";
 import { softDeleteProgram, restoreProgram } from "../../services/super";
 import ApplicationPreview from "../../components/ApplicationPreview";
+import ProgramChangesPanel from "../../components/ProgramChangesPanel";
+import { approvedSnapshot } from "../../utils/schemaDiff";
 import { useAuth } from "../../auth/AuthProvider";
 import AutoLinkText from "../../components/AutoLinkText";
 
@@ -122,6 +124,8 @@ export default function SuperProgramsReview() {
             // Update approval tracking
             last_approved_at: new Date().toISOString(),
             last_approved_by: user.id,
+            // Baseline for the "changes since last approval" diff
+            approved_snapshot: approvedSnapshot(program, user.id),
             // Clear any pending changes status
             review_status: "published",
           },
@@ -788,6 +792,13 @@ export default function SuperProgramsReview() {
           program={previewProgram as any}
           isOpen={showPreview}
           onClose={handleClosePreview}
+          banner={
+            ["pending_changes", "submitted", "changes_requested"].includes(
+              getReviewStatus(previewProgram)
+            ) ? (
+              <ProgramChangesPanel program={previewProgram} />
+            ) : undefined
+          }
         />
       )}
     </div>
@@ -4,7 +4,14 @@ export type FieldType =
   | "DATE"
   | "SELECT"
   | "CHECKBOX"
-  | "FILE";
+  | "FILE"
+  | "NUMBER"
+  | "EMAIL"
+  | "PHONE"
+  | "URL"
+  | "MULTI_SELECT"
+  | "RANKING"
+  | "SECTION";
 
 export type AppField = {
   key: string; // unique stable key
@@ -13,7 +20,18 @@ export type AppField = {
   required?: boolean;
   maxLength?: number; // for LONG_TEXT
   maxWords?: number; // for LONG_TEXT
-  options?: string[]; // for SELECT
+  options?: string[]; // for SELECT, MULTI_SELECT, RANKING
+  min?: number; // for NUMBER
+  max?: number; // for NUMBER
+  step?: number; // for NUMBER
+  minSelections?: number; // for MULTI_SELECT
+  maxSelections?: number; // for MULTI_SELECT
+  showIf?: ShowIfRule; // only ask when earlier answers match
+  validation?: FieldValidation; // extra rules checked on non-empty answers
+  bankId?: string; // org question bank entry this stays linked to
+  helpText?: string; // markdown instructions shown under the question
+  placeholder?: string;
+  media?: QuestionMedia;
 };
 
 export type ApplicationSchema = {
@@ -39,8 +57,57 @@ export type ApplicationRow = {
   updated_at: string;
 };
 
+// Conditional show/hide: a question is only asked when earlier answers match
+export type ConditionOperator =
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "is_answered"
+  | "is_empty"
+  | "is_checked"
+  | "is_not_checked";
+
+export type FieldCondition = {
+  field: string; // key of the earlier question this depends on
+  operator: ConditionOperator;
+  value?: string; // compared against for equals / not_equals / contains
+};
+
+export type ShowIfRule = {
+  match: "all" | "any";
+  conditions: FieldCondition[];
+};
+
+// Per-question rules beyond `required`; only checked once a question is answered
+export type FieldValidation = {
+  pattern?: string; // regular expression the whole answer must match
+  patternMessage?: string; // shown instead of the generic message
+  minLength?: number; // characters, for text-like questions
+  maxLength?: number;
+  minDate?: string; // YYYY-MM-DD, inclusive
+  maxDate?: string;
+  minAge?: number; // for dates of birth, measured at the program's open date
+  maxAge?: number;
+  allowedExtensions?: string[]; // for files, e.g. ["pdf", "docx"]
+  maxFileSizeMb?: number;
+};
+
+// Image or link block shown with a question, e.g. a sheet music excerpt
+export type QuestionMedia = {
+  kind: "image" | "link";
+  url: string;
+  caption?: string;
+};
+
 // Legacy types for backward compatibility
-export type AppItem =
+export type AppItem = {
+  showIf?: ShowIfRule;
+  validation?: FieldValidation;
+  bankId?: string;
+  helpText?: string;
+  placeholder?: string;
+  media?: QuestionMedia;
+} & (
   | {
       type: "short_text";
       label: string;
@@ -65,7 +132,46 @@ export type AppItem =
       required?: boolean;
       options: string[];
     }
-  | { type: "file"; label: string; key?: string; required?: boolean };
+  | { type: "file"; label: string; key?: string; required?: boolean }
+  | {
+      type: "number";
+      label: string;
+      key?: string;
+      required?: boolean;
+      min?: number;
+      max?: number;
+      step?: number;
+    }
+  | { type: "email"; label: string; key?: string; required?: boolean }
+  | { type: "phone"; label: string; key?: string; required?: boolean }
+  | { type: "url"; label: string; key?: string; required?: boolean }
+  | {
+      // Checkbox group; answer is an array of the chosen options
+      type: "multi_select";
+      label: string;
+      key?: string;
+      required?: boolean;
+      options: string[];
+      minSelections?: number;
+      maxSelections?: number;
+    }
+  | {
+      // Answer is every option, most preferred first
+      type: "ranking";
+      label: string;
+      key?: string;
+      required?: boolean;
+      options: string[];
+    }
+  | {
+      // Page break: starts a new step titled `label`; never answered
+      type: "section";
+      label: string;
+      key?: string;
+      required?: boolean;
+      description?: string;
+    }
+);
 
 export type ProgramApplicationSchema = {
   include_hub_common?: boolean;
@@ -48,4 +48,7 @@ export type ReviewGetRow = {
     updated_at?: string | null;
     created_at?: string | null;
   };
+  // Blind review: the server left out the applicant's identity
+  identity_hidden?: boolean;
+  anonymous_code?: string | null;
 };
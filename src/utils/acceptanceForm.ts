@@ -0,0 +1,119 @@
+/**
+ * Post-acceptance form (waivers, medical form, T-shirt size, ...) that
+ * applicants complete when claiming a spot. Fields use the application
+ * builder's types; see add_acceptance_checklist.sql.
+ */
+import type { AppItem } from "../types/application";
+
+export type AcceptanceFieldType = Exclude<AppItem["type"], "section">;
+
+export type AcceptanceField = {
+  key: string;
+  label: string;
+  type: AcceptanceFieldType;
+  required?: boolean;
+  options?: string[]; // for select, multi_select, ranking
+  helpText?: string;
+};
+
+export const ACCEPTANCE_FIELD_TYPES: {
+  type: AcceptanceFieldType;
+  label: string;
+}[] = [
+  { type: "short_text", label: "Short Text" },
+  { type: "long_text", label: "Long Text" },
+  { type: "checkbox", label: "Checkbox" },
+  { type: "select", label: "Select" },
+  { type: "multi_select", label: "Multi-Select" },
+  { type: "ranking", label: "Ranking" },
+  { type: "date", label: "Date" },
+  { type: "number", label: "Number" },
+  { type: "email", label: "Email" },
+  { type: "phone", label: "Phone" },
+  { type: "url", label: "URL" },
+  { type: "file", label: "File Upload" },
+];
+
+export function hasOptions(type: AcceptanceFieldType) {
+  return type === "select" || type === "multi_select" || type === "ranking";
+}
+
+export function newAcceptanceField(type: AcceptanceFieldType): AcceptanceField {
+  const label = ACCEPTANCE_FIELD_TYPES.find((t) => t.type === type)?.label;
+  return {
+    key: `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    label: label ?? type,
+    type,
+    required: false,
+    ...(hasOptions(type) ? { options: [] } : {}),
+  };
+}
+
+/**
+ * An answer as one line of text, for the tracker and the CSV export
+ */
+export function acceptanceAnswerText(field: AcceptanceField, value: any) {
+  if (value === null || value === undefined || value === "") return "";
+  if (field.type === "checkbox") return value === true ? "Yes" : "No";
+  if (field.type === "file") {
+    try {
+      const file = typeof value === "string" ? JSON.parse(value) : value;
+      return file?.fileName ?? String(value);
+    } catch {
+      return String(value);
+    }
+  }
+  if (Array.isArray(value)) return value.join("; ");
+  return String(value);
+}
+
+function csvCell(value: string) {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One row per applicant with an offer; file answers export as the storage
+ * path so they can be fetched from the application-files bucket.
+ */
+export function acceptanceResponsesCsv(
+  fields: AcceptanceField[],
+  rows: {
+    applicant_name: string;
+    claimed_at: string | null;
+    answers: Record<string, any> | null;
+    submitted_at: string | null;
+  }[]
+) {
+  const header = [
+    "Applicant",
+    "Claimed",
+    "Submitted",
+    ...fields.map((f) => f.label),
+  ];
+  const lines = [header.map(csvCell).join(",")];
+
+  rows.forEach((row) => {
+    const answers = row.answers ?? {};
+    lines.push(
+      [
+        row.applicant_name,
+        row.claimed_at ? new Date(row.claimed_at).toISOString() : "",
+        row.submitted_at ? new Date(row.submitted_at).toISOString() : "",
+        ...fields.map((f) => {
+          if (f.type !== "file") return acceptanceAnswerText(f, answers[f.key]);
+          try {
+            const value = answers[f.key];
+            const file = typeof value === "string" ? JSON.parse(value) : value;
+            return file?.filePath ?? "";
+          } catch {
+            return "";
+          }
+        }),
+      ]
+        .map(csvCell)
+        .join(",")
+    );
+  });
+
+  return lines.join("\n");
+}
@@ -1,4 +1,10 @@
-import type { ApplicationSchema, Answers } from "../types/application";
+import type {
+  AppField,
+  ApplicationSchema,
+  Answers,
+} from "../types/application";
+import { isFieldVisible } from "./conditions";
+import { isSectionBreak } from "./sections";
 
 export function reconcileAnswers(
   schema: ApplicationSchema,
@@ -7,6 +13,7 @@ export function reconcileAnswers(
   const safe: Answers = {};
   const src = current || {};
   for (const f of schema.fields) {
+    if (isSectionBreak(f)) continue;
     if (src.hasOwnProperty(f.key)) safe[f.key] = src[f.key];
     else safe[f.key] = defaultValueForField(f.type);
   }
@@ -19,7 +26,16 @@ function defaultValueForField(type: string) {
     case "short_text":
     case "LONG_TEXT":
     case "long_text":
+    case "EMAIL":
+    case "email":
+    case "PHONE":
+    case "phone":
+    case "URL":
+    case "url":
       return "";
+    case "NUMBER":
+    case "number":
+      return null; // number or null, never ""
     case "DATE":
     case "date":
       return null; // ISO string or null
@@ -32,40 +48,69 @@ function defaultValueForField(type: string) {
     case "FILE":
     case "file":
       return null; // you can store file URL or storage path
+    case "MULTI_SELECT":
+    case "multi_select":
+      return []; // chosen options
+    case "RANKING":
+    case "ranking":
+      return []; // all options, most preferred first, once the applicant ranks
     default:
       return null;
   }
 }
 
+/**
+ * Whether a required question still counts as unanswered
+ */
+export function isAnswerMissing(f: AppField, v: any): boolean {
+  const typeUpper = String(f.type).toUpperCase();
+  const isCheckbox = typeUpper === "CHECKBOX";
+  const isNumber = typeUpper === "NUMBER";
+  // Normalize checkbox-like string values that might come back from older drafts
+  const vNormalized = (() => {
+    if (!isCheckbox) return v;
+    if (typeof v === "string") {
+      const s = v.trim().toLowerCase();
+      if (s === "true" || s === "1" || s === "yes" || s === "on") return true;
+      if (s === "false" || s === "0" || s === "no" || s === "off" || s === "")
+        return false;
+    }
+    return v;
+  })();
+  return (
+    vNormalized === null ||
+    vNormalized === undefined ||
+    (typeof vNormalized === "string" && vNormalized.trim() === "") ||
+    (Array.isArray(vNormalized) && vNormalized.length === 0) ||
+    // For required checkboxes, only a strict true counts as filled
+    (isCheckbox && vNormalized !== true) ||
+    (isNumber && !Number.isFinite(Number(vNormalized))) ||
+    // A multi-select needs at least its minimum number of choices
+    (typeUpper === "MULTI_SELECT" &&
+      (!Array.isArray(vNormalized) ||
+        vNormalized.length < Math.max(1, f.minSelections ?? 1))) ||
+    // A ranking only counts once every option has a place
+    (typeUpper === "RANKING" &&
+      (!Array.isArray(vNormalized) ||
+        (f.options ?? []).some((o) => !vNormalized.includes(o))))
+  );
+}
+
+/**
+ * Labels of required questions left unanswered. Pass `scope` to check only part
+ * of the form (e.g. one page); conditional logic still sees the whole schema.
+ */
 export function missingRequired(
   schema: ApplicationSchema,
-  answers: Answers
+  answers: Answers,
+  scope: AppField[] = schema.fields
 ): string[] {
   const missing: string[] = [];
-  for (const f of schema.fields) {
-    if (!f.required) continue;
-    const v = answers[f.key];
-    const typeUpper = String(f.type).toUpperCase();
-    const isCheckbox = typeUpper === "CHECKBOX";
-    // Normalize checkbox-like string values that might come back from older drafts
-    const vNormalized = (() => {
-      if (!isCheckbox) return v;
-      if (typeof v === "string") {
-        const s = v.trim().toLowerCase();
-        if (s === "true" || s === "1" || s === "yes" || s === "on") return true;
-        if (s === "false" || s === "0" || s === "no" || s === "off" || s === "")
-          return false;
-      }
-      return v;
-    })();
-    const empty =
-      vNormalized === null ||
-      vNormalized === undefined ||
-      (typeof vNormalized === "string" && vNormalized.trim() === "") ||
-      (Array.isArray(vNormalized) && vNormalized.length === 0) ||
-      // For required checkboxes, only a strict true counts as filled
-      (isCheckbox && vNormalized !== true);
-    if (empty) missing.push(f.label || f.key);
+  for (const f of scope) {
+    if (!f.required || isSectionBreak(f)) continue;
+    // Questions hidden by conditional logic are never mandatory
+    if (!isFieldVisible(f, schema.fields, answers)) continue;
+    if (isAnswerMissing(f, answers[f.key])) missing.push(f.label || f.key);
   }
   return missing;
 }
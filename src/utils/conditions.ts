@@ -0,0 +1,204 @@
+import type {
+  Answers,
+  ConditionOperator,
+  FieldCondition,
+  ShowIfRule,
+} from "../types/application";
+
+/**
+ * Utilities for conditional show/hide logic on application questions
+ */
+
+// Anything that looks like a question: builder items use `key`, some viewers use `id`
+export type ConditionalField = {
+  key?: string;
+  id?: string;
+  type?: string;
+  label?: string;
+  options?: string[];
+  showIf?: ShowIfRule;
+};
+
+export function fieldKey(field: ConditionalField): string | undefined {
+  return field.key ?? field.id;
+}
+
+/**
+ * Operators that make sense for a question of the given type
+ */
+export function operatorsForType(
+  type: string | undefined
+): ConditionOperator[] {
+  switch (String(type).toLowerCase()) {
+    case "checkbox":
+      return ["is_checked", "is_not_checked"];
+    case "select":
+    case "number":
+      return ["equals", "not_equals", "is_answered", "is_empty"];
+    case "multi_select":
+      return ["contains", "is_answered", "is_empty"];
+    case "date":
+    case "file":
+    case "ranking":
+      return ["is_answered", "is_empty"];
+    default:
+      return ["equals", "not_equals", "contains", "is_answered", "is_empty"];
+  }
+}
+
+export const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: "equals",
+  not_equals: "does not equal",
+  contains: "contains",
+  is_answered: "is answered",
+  is_empty: "is empty",
+  is_checked: "is checked",
+  is_not_checked: "is not checked",
+};
+
+export function operatorNeedsValue(operator: ConditionOperator): boolean {
+  return (
+    operator === "equals" ||
+    operator === "not_equals" ||
+    operator === "contains"
+  );
+}
+
+function isBlank(v: any): boolean {
+  return (
+    v === null ||
+    v === undefined ||
+    v === false ||
+    (typeof v === "string" && v.trim() === "") ||
+    (Array.isArray(v) && v.length === 0)
+  );
+}
+
+function isChecked(v: any): boolean {
+  if (typeof v === "string") {
+    const s = v.trim().toLowerCase();
+    return s === "true" || s === "1" || s === "yes" || s === "on";
+  }
+  return v === true;
+}
+
+function normalize(v: any): string {
+  return String(v ?? "")
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Evaluate a single condition against the answer of the question it points at
+ */
+export function evaluateCondition(condition: FieldCondition, value: any) {
+  const expected = normalize(condition.value);
+  switch (condition.operator) {
+    case "is_answered":
+      return !isBlank(value);
+    case "is_empty":
+      return isBlank(value);
+    case "is_checked":
+      return isChecked(value);
+    case "is_not_checked":
+      return !isChecked(value);
+    case "equals":
+      if (Array.isArray(value)) return value.map(normalize).includes(expected);
+      return normalize(value) === expected;
+    case "not_equals":
+      if (Array.isArray(value)) return !value.map(normalize).includes(expected);
+      return normalize(value) !== expected;
+    case "contains":
+      if (Array.isArray(value)) return value.map(normalize).includes(expected);
+      return normalize(value).includes(expected);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Whether a question should be shown for the current answers.
+ * Conditions pointing at questions that no longer exist are ignored, and a
+ * question whose source is itself hidden stays hidden.
+ */
+export function isFieldVisible(
+  field: ConditionalField,
+  fields: ConditionalField[],
+  answers: Answers | null | undefined,
+  seen: Set<string> = new Set()
+): boolean {
+  const rule = field.showIf;
+  if (!rule || !Array.isArray(rule.conditions)) return true;
+
+  const key = fieldKey(field);
+  if (key) {
+    // Guard against rules that (indirectly) depend on themselves
+    if (seen.has(key)) return true;
+    seen.add(key);
+  }
+
+  const results: boolean[] = [];
+  for (const condition of rule.conditions) {
+    const source = fields.find((f) => fieldKey(f) === condition.field);
+    if (!source) continue;
+    if (!isFieldVisible(source, fields, answers, new Set(seen))) {
+      results.push(false);
+      continue;
+    }
+    results.push(evaluateCondition(condition, answers?.[condition.field]));
+  }
+
+  if (results.length === 0) return true;
+  return rule.match === "any" ? results.some(Boolean) : results.every(Boolean);
+}
+
+/**
+ * Filter a list of questions down to the ones that apply to these answers
+ */
+export function visibleFields<T extends ConditionalField>(
+  fields: T[],
+  answers: Answers | null | undefined
+): T[] {
+  return fields.filter((f) => isFieldVisible(f, fields, answers));
+}
+
+/**
+ * Drop conditions that point at a removed question
+ */
+export function stripConditionsOn<T extends ConditionalField>(
+  fields: T[],
+  removedKey: string
+): T[] {
+  return fields.map((f) => {
+    if (!f.showIf?.conditions?.some((c) => c.field === removedKey)) return f;
+    const conditions = f.showIf.conditions.filter(
+      (c) => c.field !== removedKey
+    );
+    return {
+      ...f,
+      showIf: conditions.length > 0 ? { ...f.showIf, conditions } : undefined,
+    };
+  });
+}
+
+/**
+ * Point conditions at a question's new key after it has been re-keyed
+ */
+export function renameConditionsOn<T extends ConditionalField>(
+  fields: T[],
+  oldKey: string,
+  newKey: string
+): T[] {
+  return fields.map((f) => {
+    if (!f.showIf?.conditions?.some((c) => c.field === oldKey)) return f;
+    return {
+      ...f,
+      showIf: {
+        ...f.showIf,
+        conditions: f.showIf.conditions.map((c) =>
+          c.field === oldKey ? { ...c, field: newKey } : c
+        ),
+      },
+    };
+  });
+}
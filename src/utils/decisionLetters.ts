@@ -0,0 +1,32 @@
+/**
+ * Decision letter templates and merge fields. Letters are rendered by
+ * publish_results_v1 (add_decision_letters.sql); renderDecisionLetter
+ * mirrors it for the editor preview.
+ */
+
+// Keyed by lowercased decision
+export type DecisionLetters = Record<string, string>;
+
+export const LETTER_MERGE_FIELDS: { key: string; label: string }[] = [
+  { key: "applicant_name", label: "Applicant name" },
+  { key: "program_name", label: "Program name" },
+  { key: "org_name", label: "Organization name" },
+  { key: "decision", label: "Decision" },
+  { key: "score", label: "Score" },
+  { key: "reviewer_comments", label: "Reviewer comments" },
+  { key: "claim_deadline", label: "Claim deadline" },
+  { key: "spots", label: "Spots remaining" },
+];
+
+export function letterKey(decision: string) {
+  return decision.trim().toLowerCase();
+}
+
+export function renderDecisionLetter(
+  template: string,
+  fields: Record<string, string | number | null | undefined>
+) {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (whole, key: string) =>
+    key in fields ? String(fields[key] ?? "") : whole
+  );
+}
@@ -0,0 +1,284 @@
+/**
+ * Versioned JSON export/import of an application form, for moving a form
+ * between programs, organizations and environments.
+ */
+import type { AppItem } from "../types/application";
+
+export const FORM_EXPORT_FORMAT = "applyhub.application-form";
+export const FORM_EXPORT_VERSION = 1;
+
+export type ProfileSections = {
+  personal: boolean;
+  family: boolean;
+  writing: boolean;
+  experience: boolean;
+};
+
+// Everything the builder saves for a program's application
+export type BuilderState = {
+  items: AppItem[];
+  include_hub_common: boolean;
+  include_coalition_common: boolean;
+  profile: { enabled: boolean; sections: ProfileSections };
+};
+
+export type FormExport = BuilderState & {
+  format: typeof FORM_EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  source?: {
+    program_id?: string;
+    program_name?: string;
+    organization_id?: string;
+  };
+  review_form: Record<string, any> | null;
+};
+
+export type FormImportResult =
+  | { ok: true; form: FormExport; warnings: string[] }
+  | { ok: false; errors: string[] };
+
+const FIELD_TYPES: AppItem["type"][] = [
+  "short_text",
+  "long_text",
+  "checkbox",
+  "date",
+  "select",
+  "file",
+  "number",
+  "email",
+  "phone",
+  "url",
+  "multi_select",
+  "ranking",
+  "section",
+];
+const OPTION_TYPES = ["select", "multi_select", "ranking"];
+const NUMERIC_PROPS = [
+  "maxLength",
+  "maxWords",
+  "min",
+  "max",
+  "step",
+  "minSelections",
+  "maxSelections",
+];
+
+export function buildFormExport(
+  state: BuilderState,
+  reviewForm: Record<string, any> | null,
+  source?: FormExport["source"]
+): FormExport {
+  return {
+    format: FORM_EXPORT_FORMAT,
+    version: FORM_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    source,
+    ...state,
+    review_form: reviewForm ?? null,
+  };
+}
+
+export function formExportFilename(programName: string | undefined) {
+  const slug = (programName || "application")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "application"}-form.json`;
+}
+
+function newKey(type: string) {
+  return `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function isPlainObject(v: any): v is Record<string, any> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function itemErrors(item: any, n: number): string[] {
+  const where = `Question ${n}`;
+  if (!isPlainObject(item)) return [`${where} is not an object.`];
+  const errors: string[] = [];
+  if (!FIELD_TYPES.includes(item.type)) {
+    errors.push(`${where} has an unknown type "${item.type}".`);
+  }
+  if (typeof item.label !== "string") {
+    errors.push(`${where} is missing its question text.`);
+  }
+  if (
+    OPTION_TYPES.includes(item.type) &&
+    (!Array.isArray(item.options) ||
+      item.options.some((o: any) => typeof o !== "string"))
+  ) {
+    errors.push(`${where} needs a list of text options.`);
+  }
+  for (const prop of NUMERIC_PROPS) {
+    if (item[prop] !== undefined && typeof item[prop] !== "number") {
+      errors.push(`${where}: ${prop} must be a number.`);
+    }
+  }
+  if (item.showIf !== undefined && !Array.isArray(item.showIf?.conditions)) {
+    errors.push(`${where} has malformed show-if conditions.`);
+  }
+  if (
+    item.media !== undefined &&
+    (!isPlainObject(item.media) ||
+      !["image", "link"].includes(item.media.kind) ||
+      typeof item.media.url !== "string")
+  ) {
+    errors.push(`${where} has a malformed image or link.`);
+  }
+  if (item.validation !== undefined && !isPlainObject(item.validation)) {
+    errors.push(`${where} has malformed validation rules.`);
+  }
+  return errors;
+}
+
+/**
+ * Check an exported document and turn it into builder state. Keys that are
+ * missing, repeated, or already in `takenKeys` are regenerated, and show-if
+ * conditions follow the renamed questions.
+ */
+export function parseFormImport(
+  text: string,
+  options: { takenKeys?: string[]; organizationId?: string } = {}
+): FormImportResult {
+  let doc: any;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ["This file isn't valid JSON."] };
+  }
+
+  if (!isPlainObject(doc) || doc.format !== FORM_EXPORT_FORMAT) {
+    return {
+      ok: false,
+      errors: ["This isn't an application form export."],
+    };
+  }
+  if (typeof doc.version !== "number" || doc.version > FORM_EXPORT_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        `This export uses format version ${doc.version}, which this version of the app can't read.`,
+      ],
+    };
+  }
+  if (!Array.isArray(doc.items)) {
+    return { ok: false, errors: ["The export has no list of questions."] };
+  }
+
+  const errors = doc.items.flatMap((item: any, i: number) =>
+    itemErrors(item, i + 1)
+  );
+  if (doc.review_form !== undefined && doc.review_form !== null) {
+    if (!isPlainObject(doc.review_form)) {
+      errors.push("The reviewer form settings are malformed.");
+    } else if (
+      doc.review_form.decision_options !== undefined &&
+      !Array.isArray(doc.review_form.decision_options)
+    ) {
+      errors.push("The reviewer decision options must be a list.");
+    } else if (
+      doc.review_form.rubric !== undefined &&
+      !Array.isArray(doc.review_form.rubric)
+    ) {
+      errors.push("The reviewer rubric must be a list of criteria.");
+    }
+  }
+  if (errors.length > 0) return { ok: false, errors };
+
+  const warnings: string[] = [];
+  const taken = new Set(options.takenKeys ?? []);
+  // Original key -> key of the latest question imported under it
+  const renamed = new Map<string, string>();
+  const keepBankLinks =
+    !!options.organizationId &&
+    doc.source?.organization_id === options.organizationId;
+  let regenerated = 0;
+  let droppedConditions = 0;
+  let droppedLinks = 0;
+
+  const items: AppItem[] = doc.items.map((raw: any) => {
+    const item = { ...raw };
+
+    // Conditions may only point at earlier questions
+    if (item.showIf) {
+      const conditions = item.showIf.conditions
+        .filter((c: any) => {
+          const ok = typeof c?.field === "string" && renamed.has(c.field);
+          if (!ok) droppedConditions++;
+          return ok;
+        })
+        .map((c: any) => ({ ...c, field: renamed.get(c.field)! }));
+      item.showIf =
+        conditions.length > 0 ? { ...item.showIf, conditions } : undefined;
+      if (!item.showIf) delete item.showIf;
+    }
+
+    if (item.bankId && !keepBankLinks) {
+      delete item.bankId;
+      droppedLinks++;
+    }
+
+    const original = typeof item.key === "string" ? item.key : "";
+    if (!original || taken.has(original)) {
+      item.key = newKey(item.type);
+      if (original) regenerated++;
+    }
+    taken.add(item.key);
+    if (original) renamed.set(original, item.key);
+    return item as AppItem;
+  });
+
+  if (regenerated > 0) {
+    warnings.push(
+      `${regenerated} question key${
+        regenerated !== 1 ? "s were" : " was"
+      } already in use and got a new key.`
+    );
+  }
+  if (droppedConditions > 0) {
+    warnings.push(
+      `${droppedConditions} show-if condition${
+        droppedConditions !== 1 ? "s" : ""
+      } pointed at a missing question and ${
+        droppedConditions !== 1 ? "were" : "was"
+      } removed.`
+    );
+  }
+  if (droppedLinks > 0) {
+    warnings.push(
+      `${droppedLinks} question${
+        droppedLinks !== 1 ? "s" : ""
+      } came from another organization's question bank and will be imported as plain copies.`
+    );
+  }
+
+  const sections = isPlainObject(doc.profile?.sections)
+    ? doc.profile.sections
+    : {};
+  return {
+    ok: true,
+    warnings,
+    form: {
+      format: FORM_EXPORT_FORMAT,
+      version: doc.version,
+      exported_at: String(doc.exported_at ?? ""),
+      source: isPlainObject(doc.source) ? doc.source : undefined,
+      items,
+      include_hub_common: doc.include_hub_common !== false,
+      include_coalition_common: doc.include_coalition_common === true,
+      profile: {
+        enabled: doc.profile?.enabled === true,
+        sections: {
+          personal: sections.personal !== false,
+          family: sections.family !== false,
+          writing: sections.writing !== false,
+          experience: sections.experience !== false,
+        },
+      },
+      review_form: isPlainObject(doc.review_form) ? doc.review_form : null,
+    },
+  };
+}
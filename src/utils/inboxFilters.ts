@@ -0,0 +1,181 @@
+/**
+ * Filters for the org applications inbox. The whole object is what a saved
+ * view stores, so new fields need a default in EMPTY_INBOX_FILTERS for
+ * views saved before they existed.
+ */
+import type { ReviewsListRow } from "../types/reviews";
+
+export type InboxFilters = {
+  search: string;
+  mineOnly: boolean;
+  status: "" | "draft" | "submitted" | "not_started";
+  programId: string;
+  tagIds: string[];
+  // Whether a row needs any or all of tagIds
+  tagMatch: "any" | "all";
+  minScore: number | null;
+  maxScore: number | null;
+  // A reviewer id, UNASSIGNED, or "" for everyone
+  reviewerId: string;
+  // A decision option, NO_DECISION, or "" for any
+  decision: string;
+  // yyyy-mm-dd, inclusive
+  submittedFrom: string;
+  submittedTo: string;
+  // Answer filter: question key and the text its answer must contain
+  answerKey: string;
+  answerValue: string;
+};
+
+export const UNASSIGNED = "__unassigned__";
+export const NO_DECISION = "__none__";
+
+export const EMPTY_INBOX_FILTERS: InboxFilters = {
+  search: "",
+  mineOnly: false,
+  status: "",
+  programId: "",
+  tagIds: [],
+  tagMatch: "any",
+  minScore: null,
+  maxScore: null,
+  reviewerId: "",
+  decision: "",
+  submittedFrom: "",
+  submittedTo: "",
+  answerKey: "",
+  answerValue: "",
+};
+
+export function normalizeInboxFilters(
+  saved: Partial<InboxFilters> | null | undefined
+): InboxFilters {
+  return { ...EMPTY_INBOX_FILTERS, ...(saved ?? {}) };
+}
+
+// Filters beyond the always-visible search, status and program controls
+export function countAdvancedFilters(filters: InboxFilters) {
+  return [
+    filters.tagIds.length > 0,
+    filters.minScore !== null || filters.maxScore !== null,
+    filters.reviewerId !== "",
+    filters.decision !== "",
+    filters.submittedFrom !== "" || filters.submittedTo !== "",
+    filters.answerKey !== "" && filters.answerValue.trim() !== "",
+  ].filter(Boolean).length;
+}
+
+// Answers are strings, numbers, booleans, arrays of options or file JSON
+export function answerText(value: any): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(answerText).join(", ");
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  if (typeof value === "object") return value.fileName ?? "";
+  if (typeof value === "string" && value.includes("filePath")) {
+    try {
+      return JSON.parse(value).fileName ?? "";
+    } catch {
+      return value;
+    }
+  }
+  return String(value);
+}
+
+function onOrAfter(date: string | null, day: string) {
+  return !!date && new Date(date) >= new Date(`${day}T00:00:00`);
+}
+
+function onOrBefore(date: string | null, day: string) {
+  return !!date && new Date(date) <= new Date(`${day}T23:59:59.999`);
+}
+
+export type InboxRowContext = {
+  applicantLabel: (row: ReviewsListRow) => string;
+  tagIds: (applicationId: string) => string[];
+  // When the application was submitted, and its answers
+  application: (
+    applicationId: string
+  ) => { submitted_at: string | null; answers: Record<string, any> } | null;
+};
+
+export function filterInboxRows(
+  rows: ReviewsListRow[],
+  filters: InboxFilters,
+  ctx: InboxRowContext
+): ReviewsListRow[] {
+  const term = filters.search.trim().toLowerCase();
+  const needle = filters.answerValue.trim().toLowerCase();
+
+  return rows.filter((row) => {
+    if (filters.programId && row.program_id !== filters.programId) {
+      return false;
+    }
+    if (filters.status && row.status !== filters.status) return false;
+
+    if (
+      term &&
+      !row.program_name.toLowerCase().includes(term) &&
+      !(ctx.applicantLabel(row) ?? "").toLowerCase().includes(term) &&
+      !(row.reviewer_name ?? "").toLowerCase().includes(term)
+    ) {
+      return false;
+    }
+
+    if (filters.tagIds.length > 0) {
+      const tags = ctx.tagIds(row.application_id);
+      const matches =
+        filters.tagMatch === "all"
+          ? filters.tagIds.every((id) => tags.includes(id))
+          : filters.tagIds.some((id) => tags.includes(id));
+      if (!matches) return false;
+    }
+
+    if (filters.minScore !== null || filters.maxScore !== null) {
+      if (row.score === null) return false;
+      if (filters.minScore !== null && row.score < filters.minScore) {
+        return false;
+      }
+      if (filters.maxScore !== null && row.score > filters.maxScore) {
+        return false;
+      }
+    }
+
+    if (filters.reviewerId === UNASSIGNED) {
+      if (row.reviewer_id) return false;
+    } else if (filters.reviewerId && row.reviewer_id !== filters.reviewerId) {
+      return false;
+    }
+
+    const decision = row.ratings?.decision ?? "";
+    if (filters.decision === NO_DECISION) {
+      if (decision) return false;
+    } else if (filters.decision && decision !== filters.decision) {
+      return false;
+    }
+
+    const application = ctx.application(row.application_id);
+
+    if (filters.submittedFrom || filters.submittedTo) {
+      const submittedAt = application?.submitted_at ?? row.submitted_at;
+      if (
+        filters.submittedFrom &&
+        !onOrAfter(submittedAt, filters.submittedFrom)
+      ) {
+        return false;
+      }
+      if (
+        filters.submittedTo &&
+        !onOrBefore(submittedAt, filters.submittedTo)
+      ) {
+        return false;
+      }
+    }
+
+    if (filters.answerKey && needle) {
+      const answer = application?.answers?.[filters.answerKey];
+      if (!answerText(answer).toLowerCase().includes(needle)) return false;
+    }
+
+    return true;
+  });
+}
@@ -0,0 +1,92 @@
+/**
+ * Labels and export for review history entries (see lib/reviewHistory).
+ */
+import type {
+  ReviewHistoryAction,
+  ReviewHistoryEntry,
+} from "../lib/reviewHistory";
+import type { RubricCriterion } from "./rubric";
+
+export const HISTORY_ACTION_LABELS: Record<ReviewHistoryAction, string> = {
+  create: "Started review",
+  save: "Edited",
+  finalize: "Finalized",
+  unfinalize: "Unfinalized",
+  decision: "Changed decision",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  status: "Status",
+  score: "Score",
+  comments: "Comments",
+  decision: "Decision",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: "Commented",
+  submitted: "Finalized",
+};
+
+export function historyFieldLabel(field: string, rubric: RubricCriterion[]) {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  if (field.startsWith("criteria.")) {
+    const id = field.slice("criteria.".length);
+    const criterion = rubric.find((c) => c.id === id);
+    return `Rubric: ${criterion?.name ?? "removed criterion"}`;
+  }
+  return field.replace(/^ratings\./, "");
+}
+
+export function historyValue(field: string, value: any): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "status") return STATUS_LABELS[value] ?? String(value);
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function csvCell(value: string) {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One line per changed field, so the export can be filtered by field in a
+ * spreadsheet ("who changed this to reject and when").
+ */
+export function reviewHistoryCsv(
+  entries: ReviewHistoryEntry[],
+  rubric: RubricCriterion[],
+  applicantLabel: (applicationId: string) => string
+) {
+  const header = [
+    "Time",
+    "Application ID",
+    "Applicant",
+    "Changed by",
+    "Action",
+    "Field",
+    "From",
+    "To",
+  ];
+  const lines = [header.join(",")];
+
+  entries.forEach((entry) => {
+    Object.entries(entry.changes).forEach(([field, change]) => {
+      lines.push(
+        [
+          new Date(entry.created_at).toISOString(),
+          entry.application_id,
+          applicantLabel(entry.application_id),
+          entry.actor_name ?? "System",
+          HISTORY_ACTION_LABELS[entry.action] ?? entry.action,
+          historyFieldLabel(field, rubric),
+          historyValue(field, change.from),
+          historyValue(field, change.to),
+        ]
+          .map(csvCell)
+          .join(",")
+      );
+    });
+  });
+
+  return lines.join("\n");
+}
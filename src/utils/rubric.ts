@@ -0,0 +1,105 @@
+/**
+ * Weighted rubric scoring. Criteria live in the program's review form
+ * (metadata.review_form.rubric); a reviewer's per-criterion scores are stored
+ * in the review's ratings JSON under `criteria`, keyed by criterion id.
+ */
+
+export type RubricCriterion = {
+  id: string;
+  name: string;
+  description?: string;
+  min: number;
+  max: number;
+  weight: number;
+  // Scale point -> what that score means, e.g. { "1": "Needs work" }
+  anchors?: Record<string, string>;
+};
+
+export type CriterionScores = Record<string, number>;
+
+export const RUBRIC_SCALE_MAX = 10;
+
+export function newCriterion(): RubricCriterion {
+  return {
+    id: `crit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: "",
+    min: 1,
+    max: 5,
+    weight: 1,
+  };
+}
+
+export function getCriterionScores(
+  ratings: Record<string, any> | null | undefined
+): CriterionScores {
+  const criteria = ratings?.criteria;
+  if (!criteria || typeof criteria !== "object") return {};
+  const scores: CriterionScores = {};
+  for (const [id, value] of Object.entries(criteria)) {
+    if (typeof value === "number" && !isNaN(value)) scores[id] = value;
+  }
+  return scores;
+}
+
+/**
+ * Overall score out of 100: each criterion is placed on 0-1 within its own
+ * scale, then averaged by weight. Unscored criteria are left out, so a
+ * partially scored draft still shows where it's heading. Null when nothing
+ * has been scored yet.
+ */
+export function weightedScore(
+  rubric: RubricCriterion[],
+  scores: CriterionScores
+): number | null {
+  let total = 0;
+  let weights = 0;
+  for (const c of rubric) {
+    const value = scores[c.id];
+    if (value === undefined || c.weight <= 0) continue;
+    const span = c.max - c.min;
+    const normalized = span > 0 ? (value - c.min) / span : 1;
+    total += Math.min(1, Math.max(0, normalized)) * c.weight;
+    weights += c.weight;
+  }
+  if (weights === 0) return null;
+  return Math.round((total / weights) * 100);
+}
+
+export function unscoredCriteria(
+  rubric: RubricCriterion[],
+  scores: CriterionScores
+): RubricCriterion[] {
+  return rubric.filter((c) => scores[c.id] === undefined);
+}
+
+// Share of the overall score, for showing "30%" next to each criterion
+export function weightPercent(rubric: RubricCriterion[], c: RubricCriterion) {
+  const sum = rubric.reduce((s, r) => s + Math.max(0, r.weight), 0);
+  return sum > 0 ? Math.round((Math.max(0, c.weight) / sum) * 100) : 0;
+}
+
+export function rubricErrors(rubric: RubricCriterion[]): string[] {
+  const errors: string[] = [];
+  rubric.forEach((c, i) => {
+    const label = c.name.trim() || `Criterion ${i + 1}`;
+    if (!c.name.trim()) errors.push(`Criterion ${i + 1} needs a name.`);
+    if (!(c.max > c.min)) {
+      errors.push(`${label}: the top of the scale must be above the bottom.`);
+    }
+    if (c.max - c.min > RUBRIC_SCALE_MAX) {
+      errors.push(
+        `${label}: scales can have at most ${RUBRIC_SCALE_MAX + 1} points.`
+      );
+    }
+    if (!(c.weight > 0)) errors.push(`${label}: weight must be above zero.`);
+  });
+  return errors;
+}
+
+export function scalePoints(c: RubricCriterion): number[] {
+  const points: number[] = [];
+  for (let v = c.min; v <= c.max && points.length <= RUBRIC_SCALE_MAX; v++) {
+    points.push(v);
+  }
+  return points;
+}
@@ -0,0 +1,22 @@
+/**
+ * Admin-entered URLs end up in href and src attributes, so only web and
+ * mail links get through. Bare "www." addresses get https:// added.
+ */
+export function safeUrl(raw: string | null | undefined): string | null {
+  const value = (raw ?? "").trim();
+  if (!value) return null;
+  const candidate = /^www\./i.test(value) ? `https://${value}` : value;
+  try {
+    const url = new URL(candidate);
+    if (!["http:", "https:", "mailto:"].includes(url.protocol)) return null;
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+// Images must be fetched over the web, never data: or javascript: URLs
+export function safeImageUrl(raw: string | null | undefined): string | null {
+  const url = safeUrl(raw);
+  return url && /^https?:/i.test(url) ? url : null;
+}
@@ -0,0 +1,218 @@
+/**
+ * Compare a program's application form and basics against the version a
+ * super admin last approved (stored in metadata.approved_snapshot).
+ */
+
+type DiffField = {
+  key?: string;
+  id?: string;
+  type?: string;
+  label?: string;
+  [k: string]: any;
+};
+
+export type PropertyChange = {
+  property: string; // human-readable name, e.g. "Options"
+  before: string;
+  after: string;
+};
+
+export type FieldDiff =
+  | { kind: "added"; field: DiffField; position: number }
+  | { kind: "removed"; field: DiffField; position: number }
+  | {
+      kind: "changed";
+      field: DiffField;
+      position: number;
+      moved: boolean;
+      changes: PropertyChange[];
+    };
+
+export type ProgramBasics = {
+  name?: string | null;
+  description?: string | null;
+  open_at?: string | null;
+  close_at?: string | null;
+  spots_mode?: string | null;
+  spots_count?: number | null;
+  is_private?: boolean | null;
+};
+
+export type ApprovedSnapshot = {
+  approved_at: string;
+  approved_by?: string;
+  fields: DiffField[];
+  basics: ProgramBasics;
+};
+
+// Properties worth calling out, in the order they're listed
+const FIELD_PROPERTIES: { key: string; label: string }[] = [
+  { key: "label", label: "Question text" },
+  { key: "type", label: "Type" },
+  { key: "required", label: "Required" },
+  { key: "options", label: "Options" },
+  { key: "description", label: "Description" },
+  { key: "maxWords", label: "Max words" },
+  { key: "maxLength", label: "Max length" },
+  { key: "min", label: "Minimum" },
+  { key: "max", label: "Maximum" },
+  { key: "step", label: "Step" },
+  { key: "minSelections", label: "Min selections" },
+  { key: "maxSelections", label: "Max selections" },
+  { key: "helpText", label: "Help text" },
+  { key: "placeholder", label: "Placeholder" },
+  { key: "media", label: "Image or link" },
+  { key: "showIf", label: "Show-if conditions" },
+  { key: "validation", label: "Validation rules" },
+];
+
+const BASIC_PROPERTIES: { key: keyof ProgramBasics; label: string }[] = [
+  { key: "name", label: "Name" },
+  { key: "description", label: "Description" },
+  { key: "open_at", label: "Opens" },
+  { key: "close_at", label: "Deadline" },
+  { key: "spots_mode", label: "Spots" },
+  { key: "spots_count", label: "Number of spots" },
+  { key: "is_private", label: "Private" },
+];
+
+function fieldId(f: DiffField): string {
+  return String(f.key ?? f.id ?? "");
+}
+
+function display(property: string, value: any): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "—";
+  if ((property === "open_at" || property === "close_at") && value) {
+    const d = new Date(value);
+    if (!isNaN(d.getTime())) return d.toLocaleString();
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function same(a: any, b: any): boolean {
+  const norm = (v: any) =>
+    v === undefined || v === null || v === "" || v === false ? null : v;
+  return JSON.stringify(norm(a)) === JSON.stringify(norm(b));
+}
+
+// Longest common subsequence of keys; fields outside it count as moved
+function stableKeys(before: string[], after: string[]): Set<string> {
+  const dp: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      dp[i][j] =
+        before[i] === after[j]
+          ? dp[i + 1][j + 1] + 1
+          : Math.max(dp[i + 1][j], dp[i][j + 1]);
+    }
+  }
+  const keep = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      keep.add(before[i]);
+      i++;
+      j++;
+    } else if (dp[i + 1][j] >= dp[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return keep;
+}
+
+/**
+ * Field-by-field differences, listed in the order of the new form with
+ * removed questions at the end
+ */
+export function diffFields(
+  before: DiffField[],
+  after: DiffField[]
+): FieldDiff[] {
+  const beforeByKey = new Map(before.map((f) => [fieldId(f), f]));
+  const afterKeys = new Set(after.map(fieldId));
+  const common = (list: DiffField[]) =>
+    list.map(fieldId).filter((k) => beforeByKey.has(k) && afterKeys.has(k));
+  const stable = stableKeys(common(before), common(after));
+
+  const diffs: FieldDiff[] = [];
+  after.forEach((field, position) => {
+    const previous = beforeByKey.get(fieldId(field));
+    if (!previous) {
+      diffs.push({ kind: "added", field, position });
+      return;
+    }
+    const changes: PropertyChange[] = FIELD_PROPERTIES.filter(
+      ({ key }) => !same(previous[key], field[key])
+    ).map(({ key, label }) => ({
+      property: label,
+      before: display(key, previous[key]),
+      after: display(key, field[key]),
+    }));
+    const moved = !stable.has(fieldId(field));
+    if (changes.length > 0 || moved) {
+      diffs.push({ kind: "changed", field, position, moved, changes });
+    }
+  });
+  before.forEach((field, position) => {
+    if (!afterKeys.has(fieldId(field))) {
+      diffs.push({ kind: "removed", field, position });
+    }
+  });
+  return diffs;
+}
+
+// Keys missing from `after` (e.g. a view without that column) are skipped
+export function diffBasics(
+  before: ProgramBasics,
+  after: ProgramBasics
+): PropertyChange[] {
+  return BASIC_PROPERTIES.filter(
+    ({ key }) => after[key] !== undefined && !same(before[key], after[key])
+  ).map(({ key, label }) => ({
+    property: label,
+    before: display(key, before[key]),
+    after: display(key, after[key]),
+  }));
+}
+
+export function programBasics(program: any): ProgramBasics {
+  const basics: ProgramBasics = {};
+  for (const { key } of BASIC_PROPERTIES) {
+    if (program && key in program) (basics as any)[key] = program[key];
+  }
+  return basics;
+}
+
+/**
+ * The form an org admin is working on: pending changes first, then the
+ * working schema, then coalition builder fields
+ */
+export function workingFields(program: any): DiffField[] {
+  const meta = program?.metadata ?? {};
+  const fields =
+    meta.pending_schema?.fields ??
+    meta.application?.schema?.fields ??
+    meta.application?.builder ??
+    meta.application_schema?.fields;
+  return Array.isArray(fields) ? fields : [];
+}
+
+export function approvedSnapshot(
+  program: any,
+  approvedBy?: string
+): ApprovedSnapshot {
+  return {
+    approved_at: new Date().toISOString(),
+    approved_by: approvedBy,
+    fields: workingFields(program),
+    basics: programBasics(program),
+  };
+}
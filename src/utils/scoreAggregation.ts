@@ -0,0 +1,252 @@
+/**
+ * Combine several reviewers' scores for the same application into one
+ * ranking. Only finalized reviews with a score count.
+ *
+ * Reviews are collaborative: every reviewer saves into the application's one
+ * review row, which keeps only the last score. Each reviewer's own score
+ * comes from the review history instead (org_reviewer_scores_v1); the row's
+ * score is used for reviews with no history.
+ *
+ * "zscore" puts every reviewer on a common scale first: each score becomes
+ * the number of standard deviations it sits from that reviewer's own mean
+ * across the program, so a harsh and a generous reviewer weigh the same.
+ */
+import type { ReviewsListRow } from "../types/reviews";
+
+export type AggregationMethod = "mean" | "median" | "trimmed_mean" | "zscore";
+
+export const AGGREGATION_METHODS: {
+  value: AggregationMethod;
+  label: string;
+}[] = [
+  { value: "mean", label: "Mean" },
+  { value: "median", label: "Median" },
+  { value: "trimmed_mean", label: "Trimmed mean" },
+  { value: "zscore", label: "Normalized (z-score)" },
+];
+
+// How far (in reviewer-normalized standard deviations) a score may sit from
+// the other reviewers' median before it is flagged
+export const OUTLIER_THRESHOLD = 1.5;
+
+// One reviewer's score for one application (org_reviewer_scores_v1)
+export type ReviewerScoreEntry = {
+  application_id: string;
+  reviewer_id: string;
+  reviewer_name: string;
+  score: number | null;
+  scored_at: string;
+};
+
+export type ReviewerScore = {
+  reviewer_id: string | null;
+  reviewer_name: string;
+  score: number;
+  z: number;
+  outlier: boolean;
+};
+
+export type AggregatedApplication = {
+  application_id: string;
+  program_id: string;
+  applicant_id: string;
+  // A finalized review row, for the applicant name and current decision
+  row: ReviewsListRow;
+  decision: string | null;
+  scores: ReviewerScore[];
+  aggregate: number | null;
+  // Standard deviation of the raw scores; null with fewer than two
+  spread: number | null;
+  rank: number | null;
+};
+
+export function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((s, v) => s + v, 0) / values.length;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Drops the single highest and lowest score once there are at least three
+export function trimmedMean(values: number[]): number | null {
+  if (values.length < 3) return mean(values);
+  const sorted = [...values].sort((a, b) => a - b);
+  return mean(sorted.slice(1, -1));
+}
+
+export function standardDeviation(values: number[]): number | null {
+  const m = mean(values);
+  if (m === null || values.length < 2) return null;
+  return Math.sqrt(
+    values.reduce((s, v) => s + (v - m) * (v - m), 0) / values.length
+  );
+}
+
+function timeOf(row: ReviewsListRow) {
+  return new Date(row.submitted_at || row.updated_at || 0).getTime();
+}
+
+type Sample = {
+  application_id: string;
+  reviewer_id: string | null;
+  reviewer_name: string;
+  score: number;
+  time: number;
+};
+
+/**
+ * Group a program's review rows by application and rank them, best first.
+ * Applications without any finalized score are listed last, unranked.
+ *
+ * `reviewerScores` gives each reviewer's score per application; e.g. when
+ * reviewer A finalized with 8 and reviewer B later changed it to 5, the row
+ * holds 5 but the application ranks on both 8 and 5.
+ */
+export function aggregateScores(
+  rows: ReviewsListRow[],
+  method: AggregationMethod,
+  reviewerScores: ReviewerScoreEntry[] = []
+): AggregatedApplication[] {
+  const byApplication = new Map<string, ReviewsListRow[]>();
+  rows.forEach((r) => {
+    byApplication.set(r.application_id, [
+      ...(byApplication.get(r.application_id) ?? []),
+      r,
+    ]);
+  });
+
+  const historyByApplication = new Map<string, ReviewerScoreEntry[]>();
+  reviewerScores.forEach((e) => {
+    if (e.score === null) return;
+    historyByApplication.set(e.application_id, [
+      ...(historyByApplication.get(e.application_id) ?? []),
+      e,
+    ]);
+  });
+
+  // Every finalized score, one per reviewer and application
+  const samplesByApplication = new Map<string, Sample[]>();
+  byApplication.forEach((appRows, applicationId) => {
+    const finalized = appRows.filter(
+      (r) => r.status === "submitted" && typeof r.score === "number"
+    );
+    if (finalized.length === 0) return;
+    const history = historyByApplication.get(applicationId) ?? [];
+    const samples: Sample[] =
+      history.length > 0
+        ? history.map((e) => ({
+            application_id: applicationId,
+            reviewer_id: e.reviewer_id,
+            reviewer_name: e.reviewer_name,
+            score: e.score as number,
+            time: new Date(e.scored_at).getTime(),
+          }))
+        : finalized.map((r) => ({
+            application_id: applicationId,
+            reviewer_id: r.reviewer_id,
+            reviewer_name: r.reviewer_name,
+            score: r.score as number,
+            time: timeOf(r),
+          }));
+    samplesByApplication.set(
+      applicationId,
+      samples.sort((a, b) => b.time - a.time)
+    );
+  });
+
+  // Each reviewer's mean and spread across everything they scored
+  const reviewerKey = (s: Sample) => s.reviewer_id ?? s.reviewer_name;
+  const byReviewer = new Map<string, number[]>();
+  samplesByApplication.forEach((samples) =>
+    samples.forEach((s) => {
+      const key = reviewerKey(s);
+      byReviewer.set(key, [...(byReviewer.get(key) ?? []), s.score]);
+    })
+  );
+  const reviewerStats = new Map<string, { mean: number; sd: number }>();
+  byReviewer.forEach((values, key) => {
+    reviewerStats.set(key, {
+      mean: mean(values) ?? 0,
+      sd: standardDeviation(values) ?? 0,
+    });
+  });
+  const zOf = (s: Sample) => {
+    const stats = reviewerStats.get(reviewerKey(s));
+    if (!stats || stats.sd === 0) return 0;
+    return (s.score - stats.mean) / stats.sd;
+  };
+
+  const result: AggregatedApplication[] = [];
+  byApplication.forEach((appRows, applicationId) => {
+    const latest =
+      appRows
+        .filter((r) => r.status === "submitted" && typeof r.score === "number")
+        .sort((a, b) => timeOf(b) - timeOf(a))[0] ?? appRows[0];
+
+    const scores: ReviewerScore[] = (
+      samplesByApplication.get(applicationId) ?? []
+    ).map((s) => ({
+      reviewer_id: s.reviewer_id,
+      reviewer_name: s.reviewer_name,
+      score: s.score,
+      z: zOf(s),
+      outlier: false,
+    }));
+    if (scores.length >= 3) {
+      scores.forEach((s, i) => {
+        const others = median(scores.filter((_, j) => j !== i).map((o) => o.z));
+        s.outlier =
+          others !== null && Math.abs(s.z - others) > OUTLIER_THRESHOLD;
+      });
+    }
+
+    const raw = scores.map((s) => s.score);
+    const aggregate =
+      method === "median"
+        ? median(raw)
+        : method === "trimmed_mean"
+        ? trimmedMean(raw)
+        : method === "zscore"
+        ? mean(scores.map((s) => s.z))
+        : mean(raw);
+
+    result.push({
+      application_id: applicationId,
+      program_id: latest.program_id,
+      applicant_id: latest.applicant_id,
+      row: latest,
+      decision: latest.ratings?.decision ?? null,
+      scores,
+      aggregate,
+      spread: standardDeviation(raw),
+      rank: null,
+    });
+  });
+
+  result.sort((a, b) => {
+    if (a.aggregate === null && b.aggregate === null) return 0;
+    if (a.aggregate === null) return 1;
+    if (b.aggregate === null) return -1;
+    return b.aggregate - a.aggregate || b.scores.length - a.scores.length;
+  });
+  let rank = 0;
+  result.forEach((a) => {
+    if (a.aggregate !== null) a.rank = ++rank;
+  });
+  return result;
+}
+
+// Z-scores are only meaningful relative to each other, so show a sign
+export function formatAggregate(
+  value: number | null,
+  method: AggregationMethod
+) {
+  if (value === null) return "—";
+  if (method === "zscore") return `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+  return value.toFixed(1);
+}
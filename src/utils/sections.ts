@@ -0,0 +1,51 @@
+/**
+ * Utilities for splitting application questions into pages at section breaks
+ */
+
+type SectionLike = {
+  type?: string;
+  label?: string;
+  description?: string;
+};
+
+export type FormPage<T> = {
+  title: string | null; // null for questions before the first section break
+  description?: string;
+  // `index` is the item's position in the full list (used for q_N fallback keys)
+  entries: { item: T; index: number }[];
+};
+
+export function isSectionBreak(item: SectionLike | null | undefined): boolean {
+  return String(item?.type ?? "").toLowerCase() === "section";
+}
+
+/**
+ * Group items into pages. Questions before the first section break form an
+ * untitled first page; a form without section breaks is a single page.
+ */
+export function splitIntoPages<T extends SectionLike>(
+  items: T[]
+): FormPage<T>[] {
+  const pages: FormPage<T>[] = [{ title: null, entries: [] }];
+
+  items.forEach((item, index) => {
+    if (isSectionBreak(item)) {
+      const current = pages[pages.length - 1];
+      const page: FormPage<T> = {
+        title: item.label || "Untitled Section",
+        description: item.description,
+        entries: [],
+      };
+      // Replace the implicit first page when the form opens with a section
+      if (pages.length === 1 && current.entries.length === 0) {
+        pages[0] = page;
+      } else {
+        pages.push(page);
+      }
+      return;
+    }
+    pages[pages.length - 1].entries.push({ item, index });
+  });
+
+  return pages;
+}
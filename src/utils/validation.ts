@@ -0,0 +1,229 @@
+import type {
+  AppField,
+  ApplicationSchema,
+  Answers,
+} from "../types/application";
+import { isFieldVisible } from "./conditions";
+import { isSectionBreak } from "./sections";
+
+/**
+ * Field-level validation rules. These only look at answered questions;
+ * unanswered required questions are reported by `missingRequired`.
+ * Keep in sync with app_validate_answers in add_field_validation.sql.
+ */
+
+export type ValidationContext = {
+  // Ages are measured on this date (the program's open date); defaults to today
+  referenceDate?: string | null;
+};
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_RE = /^https?:\/\/[^\s.]+\.[^\s]+$/i;
+const PHONE_RE = /^\+?[\d\s().-]{7,20}$/;
+
+function isBlank(v: any): boolean {
+  return (
+    v === null ||
+    v === undefined ||
+    (typeof v === "string" && v.trim() === "") ||
+    (Array.isArray(v) && v.length === 0)
+  );
+}
+
+// YYYY-MM-DD (or an ISO timestamp) -> [year, month, day] without timezone shifts
+function dateParts(value: string | null | undefined): number[] | null {
+  if (!value) return null;
+  const match = String(value).match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (match) return [Number(match[1]), Number(match[2]), Number(match[3])];
+  const d = new Date(value);
+  if (isNaN(d.getTime())) return null;
+  return [d.getFullYear(), d.getMonth() + 1, d.getDate()];
+}
+
+function compareDates(a: number[], b: number[]): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+function formatDate(parts: number[]): string {
+  return new Date(parts[0], parts[1] - 1, parts[2]).toLocaleDateString();
+}
+
+function ageOn(birth: number[], on: number[]): number {
+  const hadBirthday =
+    on[1] > birth[1] || (on[1] === birth[1] && on[2] >= birth[2]);
+  return on[0] - birth[0] - (hadBirthday ? 0 : 1);
+}
+
+function parseFile(
+  value: any
+): { fileName?: string; fileSize?: number } | null {
+  if (value && typeof value === "object") return value;
+  if (typeof value !== "string") return null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return { fileName: value };
+  }
+}
+
+export function fileExtension(name: string | undefined): string {
+  const match = String(name ?? "").match(/\.([^.]+)$/);
+  return match ? match[1].toLowerCase() : "";
+}
+
+export function normalizeExtensions(list: string[] | undefined): string[] {
+  return (list ?? [])
+    .map((e) => e.trim().replace(/^\./, "").toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * First problem with an answer, or null when it passes every rule
+ */
+export function validateAnswer(
+  field: AppField,
+  value: any,
+  context: ValidationContext = {}
+): string | null {
+  if (isBlank(value)) return null;
+  const type = String(field.type).toLowerCase();
+  const rules = field.validation ?? {};
+
+  switch (type) {
+    case "number": {
+      const n = Number(value);
+      if (!Number.isFinite(n)) return "Enter a number";
+      if (field.min !== undefined && n < field.min)
+        return `Must be at least ${field.min}`;
+      if (field.max !== undefined && n > field.max)
+        return `Must be at most ${field.max}`;
+      if (field.step !== undefined && field.step > 0) {
+        // Steps count from min, as the number input does
+        const steps = (n - (field.min ?? 0)) / field.step;
+        if (Math.abs(steps - Math.round(steps)) > 1e-9)
+          return `Must be in steps of ${field.step}`;
+      }
+      return null;
+    }
+    case "email":
+      if (!EMAIL_RE.test(String(value).trim()))
+        return "Enter a valid email address";
+      break;
+    case "url":
+      if (!URL_RE.test(String(value).trim()))
+        return "Enter a full link starting with http:// or https://";
+      break;
+    case "phone":
+      if (!PHONE_RE.test(String(value).trim()))
+        return "Enter a valid phone number";
+      break;
+    case "multi_select":
+      if (
+        field.minSelections !== undefined &&
+        Array.isArray(value) &&
+        value.length < field.minSelections
+      )
+        return `Choose at least ${field.minSelections}`;
+      if (
+        field.maxSelections !== undefined &&
+        Array.isArray(value) &&
+        value.length > field.maxSelections
+      )
+        return `Choose at most ${field.maxSelections}`;
+      return null;
+    case "date": {
+      const date = dateParts(value);
+      if (!date) return "Enter a valid date";
+      const minDate = dateParts(rules.minDate);
+      const maxDate = dateParts(rules.maxDate);
+      if (minDate && compareDates(date, minDate) < 0)
+        return `Must be on or after ${formatDate(minDate)}`;
+      if (maxDate && compareDates(date, maxDate) > 0)
+        return `Must be on or before ${formatDate(maxDate)}`;
+      if (rules.minAge !== undefined || rules.maxAge !== undefined) {
+        const on =
+          dateParts(context.referenceDate) ??
+          dateParts(new Date().toISOString());
+        const age = ageOn(date, on!);
+        const tooYoung = rules.minAge !== undefined && age < rules.minAge;
+        const tooOld = rules.maxAge !== undefined && age > rules.maxAge;
+        if (tooYoung || tooOld) {
+          const range =
+            rules.minAge !== undefined && rules.maxAge !== undefined
+              ? `between ${rules.minAge} and ${rules.maxAge} years old`
+              : rules.minAge !== undefined
+              ? `at least ${rules.minAge} years old`
+              : `at most ${rules.maxAge} years old`;
+          return `Applicants must be ${range} on ${formatDate(on!)}`;
+        }
+      }
+      return null;
+    }
+    case "file": {
+      const file = parseFile(value);
+      if (!file) return null;
+      const allowed = normalizeExtensions(rules.allowedExtensions);
+      if (allowed.length > 0 && !allowed.includes(fileExtension(file.fileName)))
+        return `File must be one of: ${allowed.map((e) => `.${e}`).join(", ")}`;
+      if (
+        rules.maxFileSizeMb !== undefined &&
+        typeof file.fileSize === "number" &&
+        file.fileSize > rules.maxFileSizeMb * 1024 * 1024
+      )
+        return `File must be ${rules.maxFileSizeMb} MB or smaller`;
+      return null;
+    }
+  }
+
+  // Text-like answers
+  if (typeof value !== "string") return null;
+  const text = value.trim();
+  if (rules.minLength !== undefined && text.length < rules.minLength)
+    return `Must be at least ${rules.minLength} characters`;
+  if (rules.maxLength !== undefined && text.length > rules.maxLength)
+    return `Must be at most ${rules.maxLength} characters`;
+  if (rules.pattern) {
+    let re: RegExp | null = null;
+    try {
+      re = new RegExp(`^(?:${rules.pattern})$`);
+    } catch {
+      // A broken pattern in the builder shouldn't lock applicants out
+    }
+    if (re && !re.test(text))
+      return rules.patternMessage || "Please match the requested format";
+  }
+  return null;
+}
+
+/**
+ * Rule violations keyed by question key. Pass `scope` to check only part of
+ * the form; questions hidden by conditional logic are skipped.
+ */
+export function answerErrors(
+  schema: ApplicationSchema,
+  answers: Answers,
+  context: ValidationContext = {},
+  scope: AppField[] = schema.fields
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const f of scope) {
+    if (isSectionBreak(f)) continue;
+    if (!isFieldVisible(f, schema.fields, answers)) continue;
+    const message = validateAnswer(f, answers?.[f.key], context);
+    if (message) errors[f.key] = message;
+  }
+  return errors;
+}
+
+/**
+ * Whether a regex typed into the builder compiles
+ */
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
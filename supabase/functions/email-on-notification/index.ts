@@ -11,7 +11,9 @@ const supabase = createClient(
 /**
  * Edge Function: email-on-notification
  *
- * Sends emails when application results are published or unpublished.
+ * Sends emails when application results are published or unpublished, when
+ * reviewers are reminded of pending reviews before a review deadline, and
+ * when applicants are reminded to claim their spot before a claim deadline.
  * Triggered by database webhook on notifications table INSERT events.
  *
  * Requirements:
@@ -37,8 +39,15 @@ serve(async (req) => {
 
     console.log("Processing notification:", { type, user_id, title });
 
-    // Only process results_published and results_unpublished notifications
-    if (!["results_published", "results_unpublished"].includes(type)) {
+    // Only process results and reminder notifications
+    if (
+      ![
+        "results_published",
+        "results_unpublished",
+        "review_reminder",
+        "claim_deadline_reminder",
+      ].includes(type)
+    ) {
       console.log("Ignoring notification type:", type);
       return new Response("ignored");
     }
@@ -132,12 +141,17 @@ serve(async (req) => {
     }
 
     // Build email HTML and plain text versions
-    const { html: emailHtml, text: emailText } = buildEmailContent({
-      message,
-      data,
-      publicationData,
-      type,
-    });
+    const { html: emailHtml, text: emailText } =
+      type === "review_reminder"
+        ? buildReviewReminderContent({ message, data })
+        : type === "claim_deadline_reminder"
+        ? buildClaimReminderContent({ message, data })
+        : buildEmailContent({
+            message,
+            data,
+            publicationData,
+            type,
+          });
 
     // Improve subject line for better deliverability
     // Make it more specific and less generic
@@ -145,6 +159,8 @@ serve(async (req) => {
     if (publicationData?.applications?.programs?.name) {
       const programName = publicationData.applications.programs.name;
       improvedSubject = `Application Update: ${programName} - ${title}`;
+    } else if (type === "review_reminder" && data?.program_name) {
+      improvedSubject = `Review Reminder: ${data.program_name} - ${title}`;
     }
 
     try {
@@ -252,6 +268,17 @@ function buildEmailContent({
   const programName = program?.name || "your application";
   const orgName = org?.name || "";
 
+  // A decision letter replaces the generic body with the same letter the
+  // applicant sees on My Submissions
+  if (payload.letter) {
+    return buildDecisionLetterContent({
+      letter: payload.letter,
+      programName,
+      orgName,
+      customMessage: visibility.customMessage,
+    });
+  }
+
   // Determine what to show based on visibility settings
   const showDecision = visibility.decision && payload.decision;
   const showScore = visibility.score && payload.score !== null;
@@ -475,3 +502,309 @@ function buildEmailContent({
 
   return { html: emailHtml, text: emailText };
 }
+
+/**
+ * Build decision letter email content (both HTML and plain text versions)
+ */
+function buildDecisionLetterContent({
+  letter,
+  programName,
+  orgName,
+  customMessage,
+}: {
+  letter: string;
+  programName: string;
+  orgName: string;
+  customMessage?: string | null;
+}): { html: string; text: string } {
+  const textParts: string[] = [];
+  textParts.push(escapeHtml(letter));
+  textParts.push("");
+  if (customMessage) {
+    textParts.push(escapeHtml(customMessage));
+    textParts.push("");
+  }
+  textParts.push(
+    "View your full results at: https://omnipply.com/my-submissions"
+  );
+  textParts.push("");
+  textParts.push(
+    "If you have questions, please reply to this email or contact us at omnipply@gmail.com"
+  );
+  textParts.push("");
+  textParts.push("Omnipply - https://omnipply.com");
+
+  const emailText = textParts.join("\n");
+
+  const emailHtml = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(programName)}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: system-ui, -apple-system, 'Segoe UI', Roboto, Ubuntu, 'Helvetica Neue', Arial, sans-serif; background-color: #f3f4f6;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse;">
+    <tr>
+      <td style="padding: 40px 20px;">
+        <table role="presentation" style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; border: 1px solid #e5e7eb;">
+          <tr>
+            <td style="padding: 30px 40px 20px; border-bottom: 1px solid #e5e7eb;">
+              <p style="margin: 0; font-size: 18px; font-weight: 600; color: #111827;">${escapeHtml(
+                programName
+              )}</p>
+              ${
+                orgName
+                  ? `<p style="margin: 4px 0 0; font-size: 14px; color: #6b7280;">${escapeHtml(
+                      orgName
+                    )}</p>`
+                  : ""
+              }
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 30px 40px;">
+              <p style="margin: 0; font-size: 16px; line-height: 1.6; color: #374151; white-space: pre-wrap;">${escapeHtml(
+                letter
+              )}</p>
+              ${
+                customMessage
+                  ? `
+              <div style="margin: 20px 0; padding: 16px; background-color: #fef3c7; border-radius: 6px; border-left: 4px solid #f59e0b;">
+                <p style="margin: 0; font-size: 15px; line-height: 1.6; color: #92400e; white-space: pre-wrap;">${escapeHtml(
+                  customMessage
+                )}</p>
+              </div>
+              `
+                  : ""
+              }
+              <div style="margin: 30px 0 0; text-align: center;">
+                <a href="https://omnipply.com/my-submissions" style="display: inline-block; padding: 12px 24px; background-color: #3b82f6; color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px; line-height: 1.5;">View Full Results</a>
+              </div>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 20px 40px; background-color: #f9fafb; border-top: 1px solid #e5e7eb; border-radius: 0 0 8px 8px;">
+              <p style="margin: 0 0 8px; font-size: 12px; color: #6b7280; text-align: center; line-height: 1.5;">
+                If you have questions, please reply to this email or contact us at <a href="mailto:omnipply@gmail.com" style="color:#3b82f6;text-decoration:none;">omnipply@gmail.com</a>
+              </p>
+              <p style="margin: 0; font-size: 11px; color: #9ca3af; text-align: center;">
+                <a href="https://omnipply.com/unsubscribe" style="color: #9ca3af; text-decoration: underline;">Unsubscribe</a> |
+                <a href="https://omnipply.com" style="color: #9ca3af; text-decoration: underline;">Omnipply</a>
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+
+  return { html: emailHtml, text: emailText };
+}
+
+/**
+ * Build review reminder email content (both HTML and plain text versions)
+ */
+function buildReviewReminderContent({
+  message,
+  data,
+}: {
+  message: string;
+  data: any;
+}): { html: string; text: string } {
+  const programName = data?.program_name || "your program";
+  const queueUrl = data?.program_id
+    ? `https://omnipply.com/review/${data.program_id}`
+    : "https://omnipply.com/review";
+  const deadline = data?.deadline
+    ? new Date(data.deadline).toUTCString()
+    : null;
+
+  const textParts: string[] = [];
+  textParts.push("Reviews Waiting for You");
+  textParts.push("");
+  textParts.push("Hello,");
+  textParts.push("");
+  textParts.push(escapeHtml(message));
+  textParts.push("");
+  textParts.push(`Program: ${escapeHtml(programName)}`);
+  if (deadline) {
+    textParts.push(`Deadline: ${deadline}`);
+  }
+  textParts.push("");
+  textParts.push(`Open your review queue at: ${queueUrl}`);
+  textParts.push("");
+  textParts.push(
+    "This email was sent because you review applications for this program."
+  );
+  textParts.push("");
+  textParts.push("Omnipply - https://omnipply.com");
+
+  const emailText = textParts.join("\n");
+
+  const emailHtml = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Reviews Waiting for You</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: system-ui, -apple-system, 'Segoe UI', Roboto, Ubuntu, 'Helvetica Neue', Arial, sans-serif; background-color: #f3f4f6;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse;">
+    <tr>
+      <td style="padding: 40px 20px;">
+        <table role="presentation" style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; border: 1px solid #e5e7eb;">
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; border-bottom: 1px solid #e5e7eb;">
+              <h1 style="margin: 0; font-size: 24px; font-weight: 600; color: #111827; line-height: 1.2;">Reviews Waiting for You</h1>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 30px 40px;">
+              <p style="margin: 0 0 20px; font-size: 16px; line-height: 1.6; color: #374151;">
+                Hello,
+              </p>
+              <p style="margin: 0 0 20px; font-size: 16px; line-height: 1.6; color: #374151;">
+                ${escapeHtml(message)}
+              </p>
+              <div style="margin: 20px 0; padding: 16px; background-color: #f9fafb; border-radius: 6px; border-left: 4px solid #4f46e5;">
+                <p style="margin: 0; font-size: 14px; font-weight: 600; color: #6b7280; text-transform: uppercase; letter-spacing: 0.5px;">Program</p>
+                <p style="margin: 4px 0 0; font-size: 18px; font-weight: 600; color: #111827;">${escapeHtml(
+                  programName
+                )}</p>
+                ${
+                  deadline
+                    ? `<p style="margin: 4px 0 0; font-size: 14px; color: #6b7280;">Deadline: ${escapeHtml(
+                        deadline
+                      )}</p>`
+                    : ""
+                }
+              </div>
+              <div style="margin: 30px 0; text-align: center;">
+                <a href="${queueUrl}" style="display: inline-block; padding: 12px 24px; background-color: #4f46e5; color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px; line-height: 1.5;">Open Review Queue</a>
+              </div>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 20px 40px; background-color: #f9fafb; border-top: 1px solid #e5e7eb; border-radius: 0 0 8px 8px;">
+              <p style="margin: 0; font-size: 12px; color: #6b7280; text-align: center; line-height: 1.5;">
+                This email was sent because you review applications for this program.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+
+  return { html: emailHtml, text: emailText };
+}
+
+/**
+ * Build claim deadline reminder email content (both HTML and plain text versions)
+ */
+function buildClaimReminderContent({
+  message,
+  data,
+}: {
+  message: string;
+  data: any;
+}): { html: string; text: string } {
+  const programName = data?.program_name || "your program";
+  const deadline = data?.claim_deadline
+    ? new Date(data.claim_deadline).toUTCString()
+    : null;
+
+  const textParts: string[] = [];
+  textParts.push("Claim Your Spot");
+  textParts.push("");
+  textParts.push("Hello,");
+  textParts.push("");
+  textParts.push(escapeHtml(message));
+  textParts.push("");
+  textParts.push(`Program: ${escapeHtml(programName)}`);
+  if (deadline) {
+    textParts.push(`Deadline: ${deadline}`);
+  }
+  textParts.push("");
+  textParts.push(
+    "Claim or decline your spot at: https://omnipply.com/my-submissions"
+  );
+  textParts.push("");
+  textParts.push(
+    "This email was sent because you have an offer waiting for a response."
+  );
+  textParts.push("");
+  textParts.push("Omnipply - https://omnipply.com");
+
+  const emailText = textParts.join("\n");
+
+  const emailHtml = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Claim Your Spot</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: system-ui, -apple-system, 'Segoe UI', Roboto, Ubuntu, 'Helvetica Neue', Arial, sans-serif; background-color: #f3f4f6;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse;">
+    <tr>
+      <td style="padding: 40px 20px;">
+        <table role="presentation" style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; border: 1px solid #e5e7eb;">
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center; border-bottom: 1px solid #e5e7eb;">
+              <h1 style="margin: 0; font-size: 24px; font-weight: 600; color: #111827; line-height: 1.2;">Claim Your Spot</h1>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 30px 40px;">
+              <p style="margin: 0 0 20px; font-size: 16px; line-height: 1.6; color: #374151;">
+                Hello,
+              </p>
+              <p style="margin: 0 0 20px; font-size: 16px; line-height: 1.6; color: #374151;">
+                ${escapeHtml(message)}
+              </p>
+              <div style="margin: 20px 0; padding: 16px; background-color: #f9fafb; border-radius: 6px; border-left: 4px solid #16a34a;">
+                <p style="margin: 0; font-size: 14px; font-weight: 600; color: #6b7280; text-transform: uppercase; letter-spacing: 0.5px;">Program</p>
+                <p style="margin: 4px 0 0; font-size: 18px; font-weight: 600; color: #111827;">${escapeHtml(
+                  programName
+                )}</p>
+                ${
+                  deadline
+                    ? `<p style="margin: 4px 0 0; font-size: 14px; color: #6b7280;">Deadline: ${escapeHtml(
+                        deadline
+                      )}</p>`
+                    : ""
+                }
+              </div>
+              <div style="margin: 30px 0; text-align: center;">
+                <a href="https://omnipply.com/my-submissions" style="display: inline-block; padding: 12px 24px; background-color: #16a34a; color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px; line-height: 1.5;">Claim or Decline</a>
+              </div>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 20px 40px; background-color: #f9fafb; border-top: 1px solid #e5e7eb; border-radius: 0 0 8px 8px;">
+              <p style="margin: 0; font-size: 12px; color: #6b7280; text-align: center; line-height: 1.5;">
+                This email was sent because you have an offer waiting for a response.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+
+  return { html: emailHtml, text: emailText };
+}